@@ -0,0 +1,12 @@
+import { vercelRoute } from '../server/routes/registry.js';
+
+// Base64 documents are larger than Vercel's default body limit
+export const config = {
+  api: {
+    bodyParser: {
+      sizeLimit: '10mb',
+    },
+  },
+};
+
+export default vercelRoute('parseDocx');
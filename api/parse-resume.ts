@@ -0,0 +1,3 @@
+import { vercelRoute } from '../server/routes/registry.js';
+
+export default vercelRoute('parseResume');
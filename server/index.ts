@@ -5,18 +5,66 @@
  * API keys are stored server-side, never exposed to the client.
  */
 
+import { AsyncResource } from 'node:async_hooks';
 import express from 'express';
 import cors from 'cors';
 import rateLimit from 'express-rate-limit';
 import helmet from 'helmet';
 import dotenv from 'dotenv';
+import {
+  getProvider,
+  getProviderConfig,
+  validateProviderConfig,
+} from './lib/ai-provider.js';
+import { ScoringEngine, ensembleModels } from './lib/scoring-engine.js';
+import { getBudgetRegistry } from './lib/budget.js';
+import { QuotaRegistry } from './lib/quotas.js';
+import {
+  ApiKeyAuthenticator,
+  ApiKeyError,
+  apiKeyErrorBody,
+  getApiKeyConfig,
+  type ApiKeyScope,
+  type ApiPrincipal,
+} from './lib/api-keys.js';
+import { ApiKeyRequestSchema, UsageQuerySchema } from './lib/api-contract.js';
+import { getResultCache } from './lib/result-cache.js';
+import { getFallbackPolicy } from './lib/model-fallback.js';
+import { ModelCatalog } from './lib/model-catalog.js';
+import {
+  getStorage,
+  getStorageConfig,
+  validateStorageConfig,
+  StorageError,
+} from './lib/storage.js';
+import {
+  CandidateRecordSchema,
+  JobRecordSchema,
+  SessionRecordSchema,
+  validateRecord,
+} from './lib/storage-schema.js';
+import {
+  BatchQueue,
+  BatchJobStateError,
+  getBatchQueueOptions,
+  MAX_BATCH_CANDIDATES,
+} from './lib/batch-queue.js';
+import { WebhookDispatcher, getWebhookConfig, withWebhookEvents } from './lib/webhooks.js';
+import { withParsedResumes } from './lib/resume-parser.js';
+import { UsageLog, attributionFor, usageFilterFor, withUsageLog } from './lib/usage-log.js';
+import { getLogLevel, logRequest, logger } from './lib/logger.js';
+import { createV1Router, sendApiError, streamBatchEvents } from './v1.js';
+import { SHARED_ROUTES } from './routes/registry.js';
+import { serveRoute, type RouteContext, type SharedRoute } from './routes/route.js';
 
 // Load environment variables
 dotenv.config();
 
 const app = express();
 const PORT = process.env.PORT || 3001;
-const APP_URL = process.env.APP_URL || 'http://localhost:3002';
+
+// Request ID, timing and the request log line - first, so refused requests are logged too
+app.use((req, res, next) => logRequest(req, res, next));
 
 // ============================================
 // Security Middleware
@@ -28,1085 +76,426 @@ app.use(helmet());
 // CORS configuration
 app.use(cors({
   origin: process.env.CORS_ORIGIN || 'http://localhost:3000',
-  methods: ['GET', 'POST'],
-  allowedHeaders: ['Content-Type', 'Authorization'],
+  methods: ['GET', 'POST', 'PUT', 'DELETE'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-Request-Id'],
+  exposedHeaders: ['X-Request-Id'],
 }));
 
-// Rate limiting - prevent abuse
+// API keys - a Bearer key identifies the caller and brings its own rate limit
+const apiKeys = new ApiKeyAuthenticator(getApiKeyConfig());
+
+// /v1 refusals use the versioned envelope, /api ones the legacy body
+function sendApiKeyError(req: express.Request, res: express.Response, error: ApiKeyError) {
+  if (req.originalUrl.startsWith('/v1/')) return sendApiError(res, error);
+  if (error.retryAfter !== undefined) res.setHeader('Retry-After', String(error.retryAfter));
+  return res.status(error.status).json(apiKeyErrorBody(error));
+}
+
+app.use(['/api/', '/v1/'], async (req, res, next) => {
+  try {
+    const principal = await apiKeys.authenticate(req.header('Authorization'));
+    if (principal) {
+      const limit = apiKeys.consume(principal);
+      if (limit) {
+        res.setHeader('RateLimit-Limit', String(limit.limit));
+        res.setHeader('RateLimit-Remaining', String(limit.remaining));
+        res.setHeader('RateLimit-Reset', String(limit.resetSeconds));
+      }
+    }
+    res.locals.principal = principal;
+    next();
+  } catch (error) {
+    if (error instanceof ApiKeyError) return sendApiKeyError(req, res, error);
+    next(error);
+  }
+});
+
+// Anonymous requests pass unless API_KEYS_REQUIRED; keyed ones need the route's scope
+function requireScope(scope: ApiKeyScope): express.RequestHandler {
+  return (req, res, next) => {
+    try {
+      apiKeys.authorize(res.locals.principal as ApiPrincipal | null, scope);
+      next();
+    } catch (error) {
+      if (error instanceof ApiKeyError) return sendApiKeyError(req, res, error);
+      next(error);
+    }
+  };
+}
+
+// Rate limiting - prevent abuse (per IP; keyed requests were limited above)
 const limiter = rateLimit({
   windowMs: 60 * 1000, // 1 minute
   max: 30, // 30 requests per minute
-  message: { error: 'Too many requests. Please try again later.' },
+  message: (req: express.Request) => req.originalUrl.startsWith('/v1/')
+    ? { success: false, error: { code: 'RATE_LIMITED', message: 'Too many requests. Please try again later.' } }
+    : { error: 'Too many requests. Please try again later.' },
   standardHeaders: true,
   legacyHeaders: false,
+  // Batch job status is polled every few seconds and costs nothing to serve
+  skip: (req, res) => !!res.locals.principal ||
+    (req.method === 'GET' && (req.path.startsWith('/jobs/') || req.path.startsWith('/batches/'))),
 });
-app.use('/api/', limiter);
+app.use(['/api/', '/v1/'], limiter);
 
-// Body parser
-app.use(express.json({ limit: '10mb' }));
+// Body parser - it finishes on a socket event, outside the request's log context; bind it back
+const parseJson = express.json({ limit: '10mb' });
+app.use((req, res, next) => parseJson(req, res, AsyncResource.bind(next)));
 
 // ============================================
 // Environment Validation
 // ============================================
 
-const OPENROUTER_API_KEY = process.env.OPENROUTER_API_KEY;
+const providerConfig = getProviderConfig();
+const providerConfigError = validateProviderConfig(providerConfig);
 
-if (!OPENROUTER_API_KEY) {
-  console.error('ERROR: OPENROUTER_API_KEY is not set in environment variables');
-  console.error('Please create a .env file with your API key');
+if (providerConfigError) {
+  logger.error('Invalid AI provider configuration', {
+    error: providerConfigError,
+    hint: 'Create a .env file with your AI provider settings',
+  });
   process.exit(1);
 }
 
-// ============================================
-// API Routes
-// ============================================
+// Every model call - including retries and fallbacks - lands in the usage log
+const usageLog = new UsageLog();
+const provider = withUsageLog(getProvider(), usageLog);
+const resultCache = getResultCache();
+const budgets = getBudgetRegistry();
+const quotas = new QuotaRegistry();
+const fallbackPolicy = getFallbackPolicy(provider.name);
+// Every screening result raises webhook events, whether or not it is saved to history
+const webhooks = new WebhookDispatcher(getWebhookConfig());
+const scoringEngine = new ScoringEngine(provider, resultCache, fallbackPolicy, screening => webhooks.screeningScored(screening));
+const catalog = new ModelCatalog(provider);
+const batchQueue = new BatchQueue(scoringEngine, getBatchQueueOptions());
+
+const storageConfig = getStorageConfig();
+const storageConfigError = validateStorageConfig(storageConfig);
+
+if (storageConfigError) {
+  logger.error('Invalid storage configuration', { error: storageConfigError });
+  process.exit(1);
+}
 
-// Health check
-app.get('/api/health', (_req, res) => {
-  res.json({
-    status: 'ok',
-    timestamp: new Date().toISOString(),
-    version: '1.0.0'
-  });
-});
+// History saves raise the webhook events scoring has not (session.completed...)
+// and give candidates without a structured profile one parsed from their CV
+const storage = withWebhookEvents(withParsedResumes(await getStorage()), webhooks);
+webhooks.resumePending().catch(error => logger.error('Failed to resume webhook deliveries', { error }));
 
 // ============================================
-// Models Configuration
+// Shared Routes - also the Vercel functions, see routes/registry.ts
 // ============================================
 
-interface ModelInfo {
-  id: string;
-  name: string;
-  description?: string;
-  contextLength?: number;
-  pricing?: { prompt: string; completion: string };
-  recommended?: boolean;
-  category?: string;
-}
-
-// OpenRouter API model response type
-interface OpenRouterModel {
-  id: string;
-  name: string;
-  description?: string;
-  context_length?: number;
-  pricing?: { prompt?: string; completion?: string };
-  architecture?: { output_modalities?: string[] };
+const routeContext: RouteContext = {
+  provider,
+  providerError: null,
+  scoringEngine,
+  budgets,
+  catalog,
+  quotas,
+  // Larger batches should use the queue below
+  maxBatchCandidates: 50,
+};
+
+for (const route of Object.values(SHARED_ROUTES) as SharedRoute[]) {
+  const guards = route.scope ? [requireScope(route.scope)] : [];
+  app[route.method]([route.path, ...route.aliases ?? []], ...guards, (req, res) =>
+    serveRoute(route, routeContext, req, res, res.locals.principal as ApiPrincipal | null));
 }
 
-// Cache for models (refresh every 10 minutes)
-let modelsCache: ModelInfo[] = [];
-let modelsCacheTime = 0;
-const CACHE_DURATION = 10 * 60 * 1000; // 10 minutes
-
-// Top-tier providers (sorted by quality for enterprise) - 2026 rankings
-const TOP_PROVIDERS = ['google', 'anthropic', 'openai', 'deepseek', 'meta-llama'] as const;
-const PREFERRED_PROVIDERS = TOP_PROVIDERS; // Alias for backward compatibility
-
-// Dynamic version extraction - detects latest models automatically
-// Production-ready: handles all common naming patterns
-function getModelVersion(id: string): number {
-  const lowerIdName = id.toLowerCase();
-
-  // Date-based versions get highest priority (e.g., 20260115, 2026-01)
-  const dateMatch = lowerIdName.match(/(\d{4})[-_]?(\d{2})[-_]?(\d{2})?/);
-  if (dateMatch) {
-    const year = parseInt(dateMatch[1]);
-    const month = parseInt(dateMatch[2]);
-    const day = dateMatch[3] ? parseInt(dateMatch[3]) : 1;
-    // Convert to a sortable number (e.g., 2026-01-15 → 20260115)
-    if (year >= 2020 && year <= 2030) {
-      return year * 10000 + month * 100 + day;
-    }
-  }
-
-  // Major version numbers (e.g., gemini-3, gpt-4, claude-4)
-  const majorVersionMatch = lowerIdName.match(/[-_](\d+(?:\.\d+)?)([-_]|$)/);
-  if (majorVersionMatch) {
-    return parseFloat(majorVersionMatch[1]) * 1000;
-  }
-
-  // Model family version (e.g., o1, o3, r1, v3)
-  const familyMatch = lowerIdName.match(/([ovr])(\d+)/);
-  if (familyMatch) {
-    // o3 > o1, r1 > v3 in priority
-    const prefix = familyMatch[1];
-    const num = parseInt(familyMatch[2]);
-    const prefixWeight = { 'o': 3, 'r': 2, 'v': 1 }[prefix] || 0;
-    return prefixWeight * 100 + num * 10;
-  }
-
-  return 0;
-}
-
-// Detect if model is "latest" based on naming conventions
-// Production-ready: comprehensive detection without hardcoding specific model IDs
-function isLatestModel(id: string, name: string): boolean {
-  const combined = (id + ' ' + name).toLowerCase();
-
-  // Latest year indicators (dynamic: current and next year)
-  const currentYear = new Date().getFullYear();
-  const yearIndicators = [String(currentYear), String(currentYear - 1)];
-
-  // Model quality tier indicators
-  const qualityIndicators = [
-    'pro', 'ultra', 'opus', 'sonnet', 'flash', 'turbo', 'plus',
-    'preview', 'exp', 'experimental', 'latest', 'thinking',
-  ];
-
-  // Cutting-edge model families
-  const cuttingEdgeFamilies = [
-    'o1', 'o3', 'o4', // OpenAI reasoning
-    'r1', 'r2', // DeepSeek reasoning
-    'gemini-2', 'gemini-3', // Google latest
-    'claude-4', 'claude-opus', 'claude-sonnet', // Anthropic
-    'llama-4', 'llama-3.3', // Meta latest
-  ];
-
-  // Check for any indicator match
-  const hasYearIndicator = yearIndicators.some(y => combined.includes(y));
-  const hasQualityIndicator = qualityIndicators.some(q => combined.includes(q));
-  const hasCuttingEdgeFamily = cuttingEdgeFamilies.some(f => combined.includes(f));
-
-  return hasYearIndicator || hasQualityIndicator || hasCuttingEdgeFamily;
-}
+// ============================================
+// Batch Screening Jobs (background queue)
+// ============================================
 
-async function fetchModelsFromOpenRouter(): Promise<ModelInfo[]> {
+// Queue a batch - responds immediately; poll GET /api/jobs/:id for progress
+app.post('/api/jobs', requireScope('write'), async (req, res) => {
   try {
-    const response = await fetch('https://openrouter.ai/api/v1/models', {
-      headers: {
-        'Authorization': `Bearer ${OPENROUTER_API_KEY}`,
-      },
-    });
+    const { jobDescription, candidates } = req.body;
+    const model = req.body.model || await catalog.defaultModel();
 
-    if (!response.ok) {
-      throw new Error('Failed to fetch models');
+    if (!jobDescription || !Array.isArray(candidates) || candidates.length === 0) {
+      return res.status(400).json({
+        error: 'Missing required fields: jobDescription and a non-empty candidates array'
+      });
     }
 
-    const data = await response.json();
-
-    // Filter and transform models - ALL from API, no hardcoding
-    const models: ModelInfo[] = (data.data as OpenRouterModel[])
-      .filter((m: OpenRouterModel) => {
-        // Include models that support text generation
-        const hasTextOutput = m.architecture?.output_modalities?.includes('text');
-        return hasTextOutput;
-      })
-      .map((m: OpenRouterModel) => {
-        const category = getCategoryFromId(m.id);
-        // Mark as recommended if from preferred provider
-        const isPreferred = PREFERRED_PROVIDERS.some(p => m.id.startsWith(p + '/'));
-
-        const isLatest = isLatestModel(m.id, m.name);
-        const version = getModelVersion(m.id);
-
-        return {
-          id: m.id,
-          name: m.name,
-          description: m.description?.substring(0, 200),
-          contextLength: m.context_length,
-          pricing: {
-            prompt: m.pricing?.prompt || '0',
-            completion: m.pricing?.completion || '0',
-          },
-          recommended: isPreferred && isLatest, // Only recommend if BOTH top provider AND latest
-          category,
-          _version: version, // Internal for sorting
-          _isLatest: isLatest,
-        };
-      })
-      .sort((a: ModelInfo & { _version?: number; _isLatest?: boolean }, b: ModelInfo & { _version?: number; _isLatest?: boolean }) => {
-        // PRODUCTION SORTING: Provider tier + Latest versions for enterprise quality
-
-        // 1. Top-tier providers get massive boost
-        const aProviderIdx = TOP_PROVIDERS.findIndex(p => a.id.startsWith(p + '/'));
-        const bProviderIdx = TOP_PROVIDERS.findIndex(p => b.id.startsWith(p + '/'));
-        const aIsTopTier = aProviderIdx !== -1;
-        const bIsTopTier = bProviderIdx !== -1;
-
-        // Top-tier providers ALWAYS before others
-        if (aIsTopTier && !bIsTopTier) return -1;
-        if (!aIsTopTier && bIsTopTier) return 1;
-
-        // 2. Within same tier, latest models first
-        if (a._isLatest && !b._isLatest) return -1;
-        if (!a._isLatest && b._isLatest) return 1;
-
-        // 3. Within same tier + latest status, sort by provider rank
-        if (aIsTopTier && bIsTopTier && aProviderIdx !== bProviderIdx) {
-          return aProviderIdx - bProviderIdx; // Google > Anthropic > OpenAI > DeepSeek > Meta
-        }
-
-        // 4. Within same provider, higher version first
-        const versionDiff = (b._version || 0) - (a._version || 0);
-        if (versionDiff !== 0) return versionDiff;
-
-        // 5. Alphabetical fallback
-        return (a.name || '').localeCompare(b.name || '');
-      })
-      .map((model) => {
-        // Remove internal fields before returning to client
-        // eslint-disable-next-line @typescript-eslint/no-unused-vars
-        const { _version, _isLatest, ...cleanModel } = model as ModelInfo & { _version?: number; _isLatest?: boolean };
-        return cleanModel;
-      }); // Production-ready: no internal fields exposed
-
-    console.log(`Fetched ${models.length} models from OpenRouter API`);
-    return models;
-  } catch (error) {
-    console.error('Error fetching models from OpenRouter:', error);
-    // Return empty - let frontend handle the error
-    return [];
-  }
-}
-
-function getCategoryFromId(id: string): string {
-  if (id.startsWith('openai/')) return 'OpenAI';
-  if (id.startsWith('anthropic/')) return 'Anthropic';
-  if (id.startsWith('google/')) return 'Google';
-  if (id.startsWith('deepseek/') || id.includes('deepseek')) return 'DeepSeek';
-  if (id.startsWith('z-ai/') || id.includes('glm')) return 'GLM';
-  if (id.startsWith('meta-llama/') || id.startsWith('meta/')) return 'Meta';
-  if (id.startsWith('mistralai/')) return 'Mistral';
-  if (id.startsWith('bytedance/')) return 'ByteDance';
-  if (id.startsWith('nvidia/')) return 'NVIDIA';
-  if (id.startsWith('cohere/')) return 'Cohere';
-  if (id.startsWith('amazon/')) return 'Amazon';
-  return 'Other';
-}
-
-// Fetch models endpoint (for dynamic model selection)
-app.get('/api/models', async (_req, res) => {
-  try {
-    const now = Date.now();
-
-    // Check if cache is valid
-    if (modelsCache.length > 0 && (now - modelsCacheTime) < CACHE_DURATION) {
-      return res.json({ success: true, models: modelsCache, cached: true });
+    if (candidates.length > MAX_BATCH_CANDIDATES) {
+      return res.status(400).json({
+        error: `Maximum ${MAX_BATCH_CANDIDATES} candidates per batch job`
+      });
     }
 
-    // Fetch fresh models
-    modelsCache = await fetchModelsFromOpenRouter();
-    modelsCacheTime = now;
-
-    res.json({ success: true, models: modelsCache, cached: false });
-  } catch (error) {
-    console.error('Error in /api/models:', error);
-    res.status(500).json({ error: 'Failed to fetch models' });
-  }
-});
-
-// AI Configuration (returns available models without exposing keys)
-app.get('/api/config', async (_req, res) => {
-  try {
-    // Use cached models if available, otherwise fetch
-    if (modelsCache.length === 0) {
-      modelsCache = await fetchModelsFromOpenRouter();
-      modelsCacheTime = Date.now();
+    const invalid = candidates.findIndex(
+      (c: { name?: unknown; cvContent?: unknown }) => typeof c?.name !== 'string' || typeof c?.cvContent !== 'string'
+    );
+    if (invalid !== -1) {
+      return res.status(400).json({
+        error: `candidates[${invalid}] must have string name and cvContent`
+      });
     }
 
-    // Return only recommended models for quick selection
-    const quickModels = modelsCache.filter(m => m.recommended).slice(0, 10);
-
-    res.json({
-      provider: 'openrouter',
-      models: quickModels,  // From API - no hardcoded fallbacks
-      features: {
-        screening: true,
-        batchProcessing: true,
-        maxCVsPerBatch: 50,
-      }
-    });
-  } catch (error) {
-    console.error('Error in /api/config:', error);
-    res.status(500).json({
-      error: 'Failed to fetch configuration',
-      provider: 'openrouter',
-      models: [],
-      features: {
-        screening: true,
-        batchProcessing: true,
-        maxCVsPerBatch: 50,
-      }
-    });
-  }
-});
-
-// Proxy endpoint to fetch content from external URLs (avoids CORS issues)
-app.post('/api/fetch-url', async (req, res) => {
-  try {
-    const { url } = req.body;
-
-    if (!url) {
-      return res.status(400).json({ error: 'URL is required' });
+    const session = budgets.fromRequest(req.body);
+    if ('error' in session) {
+      return res.status(400).json({ error: session.error });
     }
 
-    // Validate URL
-    try {
-      new URL(url);
-    } catch {
-      return res.status(400).json({ error: 'Invalid URL format' });
+    const ensemble = ensembleModels(model, req.body.ensembleModels);
+    if ('error' in ensemble) {
+      return res.status(400).json({ error: ensemble.error });
     }
 
-    // Fetch the URL content
-    const response = await fetch(url, {
-      headers: {
-        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-        'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
-        'Accept-Language': 'en-US,en;q=0.5',
-      },
+    await catalog.ensurePricing();
+    const job = batchQueue.enqueue(jobDescription, candidates, model, {
+      budget: session.budget,
+      credits: await quotas.accountFor(res.locals.principal),
+      ensembleModels: ensemble.models ?? undefined,
+      attribution: attributionFor(res.locals.principal),
     });
 
-    if (!response.ok) {
-      return res.status(response.status).json({
-        error: `Failed to fetch URL: ${response.statusText}`
-      });
-    }
-
-    const contentType = response.headers.get('content-type') || '';
-    const text = await response.text();
-
-    // If HTML, try to extract meaningful text
-    let content = text;
-    if (contentType.includes('text/html')) {
-      // Simple HTML to text extraction
-      content = text
-        // Remove script and style elements
-        .replace(/<script[\s\S]*?<\/script>/gi, '')
-        .replace(/<style[\s\S]*?<\/style>/gi, '')
-        // Remove HTML tags
-        .replace(/<[^>]+>/g, ' ')
-        // Decode HTML entities
-        .replace(/&nbsp;/g, ' ')
-        .replace(/&amp;/g, '&')
-        .replace(/&lt;/g, '<')
-        .replace(/&gt;/g, '>')
-        .replace(/&quot;/g, '"')
-        .replace(/&#39;/g, "'")
-        // Clean up whitespace
-        .replace(/\s+/g, ' ')
-        .trim();
-    }
-
-    res.json({
+    res.status(202).json({
       success: true,
-      content,
-      contentType,
-      url,
+      jobId: job.id,
+      status: job.status,
+      total: job.total,
     });
   } catch (error) {
-    console.error('URL fetch error:', error);
-    res.status(500).json({
-      error: 'Failed to fetch URL',
-      message: process.env.NODE_ENV === 'development' ? (error as Error).message : undefined
-    });
+    logger.error('Batch job error', { error });
+    res.status(500).json({ error: 'Internal server error' });
   }
 });
 
-// Screen a single candidate
-app.post('/api/screen', async (req, res) => {
-  try {
-    const { jobDescription, cvContent } = req.body;
-    let { model } = req.body;
-
-    // If no model specified, use first recommended from cache or fetch
-    if (!model) {
-      if (modelsCache.length === 0) {
-        modelsCache = await fetchModelsFromOpenRouter();
-        modelsCacheTime = Date.now();
-      }
-      const recommended = modelsCache.find(m => m.recommended);
-      model = recommended?.id || modelsCache[0]?.id || 'openai/gpt-4o-mini';
-    }
-
-    if (!jobDescription || !cvContent) {
-      return res.status(400).json({
-        error: 'Missing required fields: jobDescription and cvContent'
-      });
-    }
-
-    // MILITARY-GRADE ENTERPRISE SCREENING - 2026 Best Practices
-    // Aligned with: NIST AI RMF, NYC Law 144, EU AI Act, ISO 30415
-    const prompt = `You are an ENTERPRISE TALENT INTELLIGENCE SYSTEM with calibrated scoring algorithms.
-Your analysis must be EVIDENCE-BASED, BIAS-FREE, and LEGALLY DEFENSIBLE.
-
-═══════════════════════════════════════════════════════════════════════════════
-                           JOB REQUIREMENTS ANALYSIS
-═══════════════════════════════════════════════════════════════════════════════
-${jobDescription}
-
-═══════════════════════════════════════════════════════════════════════════════
-                           CANDIDATE PROFILE DATA
-═══════════════════════════════════════════════════════════════════════════════
-${cvContent}
-
-═══════════════════════════════════════════════════════════════════════════════
-              CALIBRATED MULTI-FACTOR SCORING FRAMEWORK (2026 Standard)
-═══════════════════════════════════════════════════════════════════════════════
-
-PHASE 1 - REQUIREMENT EXTRACTION
-├── Parse ALL required skills (MUST-HAVE)
-├── Parse ALL preferred skills (NICE-TO-HAVE)
-├── Identify experience level requirements
-├── Note education/certification requirements
-└── Extract any domain-specific keywords
-
-PHASE 2 - EVIDENCE-BASED VERIFICATION
-├── For EACH required skill: Find explicit proof in CV (quote evidence)
-├── For EACH preferred skill: Find explicit proof in CV
-├── Verify years of experience with timeline analysis
-├── Cross-reference education claims
-└── Analyze career trajectory and progression
-
-PHASE 3 - CALIBRATED SCORING (100-point scale)
-├── Technical Skills Match (35 points)
-│   └── Score = (matched_required / total_required) × 35
-├── Experience Alignment (25 points)
-│   └── Score based on years + relevance + companies
-├── Education & Certifications (15 points)
-│   └── Exact match=15, Related=10, None=5
-├── Career Progression (15 points)
-│   └── Promotions, increasing responsibility, growth
-└── Communication & Soft Skills (10 points)
-    └── CV quality, clarity, achievements framing
-
-PHASE 4 - CONFIDENCE & RECOMMENDATION
-├── Calculate confidence interval (how certain is the score)
-├── Determine recommendation with thresholds:
-│   └── 80-100: INTERVIEW (Strong match)
-│   └── 60-79: MAYBE (Review further)
-│   └── 0-59: PASS (Not aligned)
-└── Generate targeted interview questions
-
-OUTPUT FORMAT (JSON only - NO markdown, NO explanation):
-{
-  "score": <0-100 calibrated score>,
-  "confidence": <0.0-1.0 confidence level>,
-  "recommendation": "<interview|maybe|pass>",
-  "summary": "<Executive summary: 2-3 sentences on fit, top strength, main gap>",
-  "scoreBreakdown": {
-    "technicalSkills": <0-35>,
-    "experience": <0-25>,
-    "education": <0-15>,
-    "careerProgression": <0-15>,
-    "communication": <0-10>
-  },
-  "matchedSkills": ["<skill>: <evidence from CV>", ...],
-  "missingSkills": ["<required skill not found>", ...],
-  "partialMatches": ["<skill with related but not exact match>", ...],
-  "concerns": ["<specific concern with evidence>", ...],
-  "strengths": ["<top 3 candidate strengths>", ...],
-  "interviewQuestions": [
-    "<Technical deep-dive question>",
-    "<Experience verification question>",
-    "<Culture/soft skills question>"
-  ],
-  "experienceYears": <total relevant years>,
-  "skillMatchPercent": <percentage of required skills matched>,
-  "educationMatch": <true|false|partial>
-}
-
-SCORING RULES (STRICTLY ENFORCED):
-• Missing 1 REQUIRED skill → Max score 75
-• Missing 2+ REQUIRED skills → Max score 55
-• Missing 3+ REQUIRED skills → Max score 40
-• No evidence = No credit (must quote from CV)
-• Confidence < 0.7 if CV lacks detail
-• Return VALID JSON ONLY - no text before/after`;
-
-    const response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${OPENROUTER_API_KEY}`,
-        'Content-Type': 'application/json',
-        'HTTP-Referer': process.env.APP_URL || 'http://localhost:3000',
-        'X-Title': 'HireScore AI',
-      },
-      body: JSON.stringify({
-        model,
-        messages: [
-          { role: 'user', content: prompt }
-        ],
-        temperature: 0.2, // Lower temp for more consistent, accurate results
-        max_tokens: 2500, // Increased for detailed enterprise analysis
-      }),
-    });
-
-    if (!response.ok) {
-      const errorData = await response.text();
-      console.error('OpenRouter API error:', errorData);
-
-      // Handle specific error cases
-      if (response.status === 429) {
-        return res.status(429).json({
-          error: 'Rate limited - please try again in a few seconds',
-          retryAfter: 5
-        });
-      }
-
-      return res.status(response.status).json({
-        error: 'AI service temporarily unavailable',
-        details: process.env.NODE_ENV === 'development' ? errorData : undefined
-      });
-    }
-
-    const data = await response.json();
-    const content = data.choices?.[0]?.message?.content;
-
-    if (!content) {
-      return res.status(500).json({ error: 'No response from AI' });
-    }
+// Per-candidate status and results for a batch job
+app.get('/api/jobs/:id', requireScope('read'), (req, res) => {
+  const job = batchQueue.get(req.params.id);
+  if (!job) {
+    return res.status(404).json({ success: false, error: 'Batch job not found' });
+  }
+  res.json({ success: true, job });
+});
 
-    // ENTERPRISE-GRADE JSON PARSING with multiple fallbacks
+// Pause, resume or cancel a batch job. Pause and cancel abort in-flight model calls.
+for (const action of ['pause', 'resume', 'cancel'] as const) {
+  app.post(`/api/jobs/:id/${action}`, requireScope('write'), (req, res) => {
     try {
-      let jsonStr = content.trim();
-
-      // Strategy 1: Extract from markdown code blocks
-      const codeBlockMatch = jsonStr.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
-      if (codeBlockMatch) {
-        jsonStr = codeBlockMatch[1].trim();
+      const job = batchQueue[action](req.params.id);
+      if (!job) {
+        return res.status(404).json({ success: false, error: 'Batch job not found' });
       }
-
-      // Strategy 2: Find JSON object boundaries
-      if (!jsonStr.startsWith('{')) {
-        const jsonStart = jsonStr.indexOf('{');
-        const jsonEnd = jsonStr.lastIndexOf('}');
-        if (jsonStart !== -1 && jsonEnd !== -1) {
-          jsonStr = jsonStr.substring(jsonStart, jsonEnd + 1);
-        }
+      res.json({ success: true, job });
+    } catch (error) {
+      if (error instanceof BatchJobStateError) {
+        return res.status(error.status).json({ success: false, error: error.message });
       }
-
-      const result = JSON.parse(jsonStr);
-
-      // Validate and normalize result with defaults
-      const normalizedResult = {
-        score: Math.min(100, Math.max(0, result.score || 0)),
-        confidence: result.confidence || 0.8,
-        recommendation: ['interview', 'maybe', 'pass'].includes(result.recommendation)
-          ? result.recommendation
-          : (result.score >= 80 ? 'interview' : result.score >= 60 ? 'maybe' : 'pass'),
-        summary: result.summary || 'Analysis completed.',
-        scoreBreakdown: result.scoreBreakdown || {
-          technicalSkills: Math.round((result.score || 0) * 0.35),
-          experience: Math.round((result.score || 0) * 0.25),
-          education: Math.round((result.score || 0) * 0.15),
-          careerProgression: Math.round((result.score || 0) * 0.15),
-          communication: Math.round((result.score || 0) * 0.10)
-        },
-        matchedSkills: Array.isArray(result.matchedSkills) ? result.matchedSkills : [],
-        missingSkills: Array.isArray(result.missingSkills) ? result.missingSkills : [],
-        partialMatches: Array.isArray(result.partialMatches) ? result.partialMatches : [],
-        concerns: Array.isArray(result.concerns) ? result.concerns : [],
-        strengths: Array.isArray(result.strengths) ? result.strengths : [],
-        interviewQuestions: Array.isArray(result.interviewQuestions) ? result.interviewQuestions : [],
-        experienceYears: result.experienceYears || 0,
-        skillMatchPercent: result.skillMatchPercent || 0,
-        educationMatch: result.educationMatch ?? false
-      };
-
-      res.json({
-        success: true,
-        result: normalizedResult,
-        usage: data.usage,
-        model: model,
-        processingTime: Date.now()
-      });
-    } catch (parseError) {
-      console.error('JSON parse error:', parseError, 'Content:', content.substring(0, 500));
-
-      // Fallback: Return a structured response even if parsing fails
-      res.json({
-        success: true,
-        result: {
-          score: 50,
-          confidence: 0.3,
-          recommendation: 'maybe',
-          summary: 'Unable to fully analyze. Manual review recommended.',
-          scoreBreakdown: { technicalSkills: 17, experience: 13, education: 8, careerProgression: 7, communication: 5 },
-          matchedSkills: [],
-          missingSkills: [],
-          partialMatches: [],
-          concerns: ['Automated analysis incomplete - review manually'],
-          strengths: [],
-          interviewQuestions: ['Please conduct a standard screening interview'],
-          experienceYears: 0,
-          skillMatchPercent: 0,
-          educationMatch: false,
-          rawResponse: content.substring(0, 500),
-          parseError: true
-        },
-        usage: data.usage,
-      });
+      logger.error('Batch job action failed', { action, error });
+      res.status(500).json({ success: false, error: 'Internal server error' });
     }
+  });
+}
 
-  } catch (error) {
-    console.error('Screening error:', error);
-    res.status(500).json({
-      error: 'Internal server error',
-      message: process.env.NODE_ENV === 'development' ? (error as Error).message : undefined
-    });
+// Live per-candidate progress as Server-Sent Events.
+// Reconnecting clients send Last-Event-ID and only receive what they missed.
+app.get('/api/jobs/:id/events', requireScope('read'), (req, res) => {
+  if (!streamBatchEvents(batchQueue, req.params.id, req, res)) {
+    return res.status(404).json({ success: false, error: 'Batch job not found' });
   }
 });
 
-// Batch screen multiple candidates
-app.post('/api/screen/batch', async (req, res) => {
-  try {
-    const { jobDescription, candidates } = req.body;
-    let { model } = req.body;
-
-    // If no model specified, use first recommended from cache
-    if (!model) {
-      if (modelsCache.length === 0) {
-        modelsCache = await fetchModelsFromOpenRouter();
-        modelsCacheTime = Date.now();
-      }
-      const recommended = modelsCache.find(m => m.recommended);
-      model = recommended?.id || modelsCache[0]?.id || 'openai/gpt-4o-mini';
-    }
-
-    if (!jobDescription || !candidates || !Array.isArray(candidates)) {
-      return res.status(400).json({
-        error: 'Missing required fields: jobDescription and candidates array'
-      });
-    }
-
-    if (candidates.length > 50) {
-      return res.status(400).json({
-        error: 'Maximum 50 candidates per batch'
-      });
-    }
-
-    // Process candidates in parallel (with concurrency limit)
-    const results = [];
-    const concurrency = 5;
-
-    for (let i = 0; i < candidates.length; i += concurrency) {
-      const batch = candidates.slice(i, i + concurrency);
-      const batchResults = await Promise.all(
-        batch.map(async (candidate: { name: string; cvContent: string }) => {
-          try {
-            const prompt = `You are an expert HR recruiter. Analyze this candidate briefly.
-
-JOB: ${jobDescription.substring(0, 1000)}
-
-CV: ${candidate.cvContent.substring(0, 3000)}
-
-Return JSON only:
-{"score":<0-100>,"recommendation":"<interview|maybe|pass>","summary":"<1 sentence>","matchedSkills":["skill1"],"missingSkills":["skill1"],"concerns":[],"interviewQuestions":["q1"],"experienceYears":<num>}`;
-
-            const response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
-              method: 'POST',
-              headers: {
-                'Authorization': `Bearer ${OPENROUTER_API_KEY}`,
-                'Content-Type': 'application/json',
-                'HTTP-Referer': process.env.APP_URL || 'http://localhost:3000',
-                'X-Title': 'HireScore AI',
-              },
-              body: JSON.stringify({
-                model,
-                messages: [{ role: 'user', content: prompt }],
-                temperature: 0.3,
-                max_tokens: 500,
-              }),
-            });
-
-            if (!response.ok) {
-              throw new Error('AI request failed');
-            }
-
-            const data = await response.json();
-            const content = data.choices?.[0]?.message?.content || '{}';
-
-            let result;
-            try {
-              let jsonStr = content;
-              const jsonMatch = content.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
-              if (jsonMatch) jsonStr = jsonMatch[1];
-              result = JSON.parse(jsonStr);
-            } catch {
-              result = { score: 50, recommendation: 'maybe', summary: 'Parse error' };
-            }
-
-            return {
-              name: candidate.name,
-              success: true,
-              ...result,
-            };
-          } catch (error) {
-            return {
-              name: candidate.name,
-              success: false,
-              score: 0,
-              recommendation: 'pass',
-              summary: 'Processing failed',
-              error: (error as Error).message,
-            };
-          }
-        })
-      );
-      results.push(...batchResults);
-    }
+// ============================================
+// Credits/Usage Tracking
+// ============================================
 
-    res.json({
-      success: true,
-      total: candidates.length,
-      processed: results.length,
-      results,
-    });
+// Plan and screening credits of the caller's workspace - null when unmetered
+app.get('/api/quota', requireScope('read'), storageRoute('load quota', async (_req, res) => {
+  res.json({ success: true, quota: await quotas.snapshot(res.locals.principal) });
+}));
 
-  } catch (error) {
-    console.error('Batch screening error:', error);
-    res.status(500).json({ error: 'Internal server error' });
-  }
-});
+// Our own record of AI calls, filterable by ?from=&to=&action=&userId=&limit=
+app.get('/api/usage', requireScope('read'), storageRoute('load usage', async (req, res) => {
+  const parsed = validateRecord(UsageQuerySchema, req.query);
+  if (!parsed.success) return invalidRecord(res, parsed.issues);
+  const usage = await usageLog.report(usageFilterFor(res.locals.principal, parsed.data));
+  res.json({ success: true, usage });
+}));
 
 // ============================================
-// Company Research (uses server-side API key)
+// Job Descriptions, Sessions & Candidates (screening history)
 // ============================================
 
-app.post('/api/research-company', async (req, res) => {
-  try {
-    const { url } = req.body;
-
-    if (!url) {
-      return res.status(400).json({ success: false, error: 'URL is required' });
-    }
-
-    // Fetch website content via proxy
-    let content = '';
+// Express 4 does not catch async errors; StorageError carries its own status
+function storageRoute(
+  action: string,
+  handler: (req: express.Request, res: express.Response) => Promise<unknown>
+) {
+  return async (req: express.Request, res: express.Response) => {
     try {
-      const response = await fetch(url, {
-        headers: { 'User-Agent': 'Mozilla/5.0 (compatible; HireScoreBot/1.0)' },
-        signal: AbortSignal.timeout(15000),
-      });
-      if (response.ok) {
-        const html = await response.text();
-        // Strip HTML tags for AI processing
-        content = html.replace(/<script[^>]*>[\s\S]*?<\/script>/gi, '')
-                      .replace(/<style[^>]*>[\s\S]*?<\/style>/gi, '')
-                      .replace(/<[^>]+>/g, ' ')
-                      .replace(/\s+/g, ' ')
-                      .trim()
-                      .substring(0, 30000);
+      await handler(req, res);
+    } catch (error) {
+      if (error instanceof StorageError) {
+        return res.status(error.status).json({ success: false, error: error.message });
       }
-    } catch {
-      // Continue even if fetch fails
+      logger.error('Storage request failed', { action, error });
+      res.status(500).json({
+        success: false,
+        error: `Failed to ${action}`,
+        message: process.env.NODE_ENV === 'development' ? (error as Error).message : undefined
+      });
     }
-
-    // Use AI to extract company info
-    const aiResponse = await fetch('https://openrouter.ai/api/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${OPENROUTER_API_KEY}`,
-        'Content-Type': 'application/json',
-        'HTTP-Referer': APP_URL,
-        'X-Title': 'HireScore AI',
-      },
-      body: JSON.stringify({
-        model: 'google/gemini-3-flash-preview',
-        messages: [{
-          role: 'user',
-          content: `Extract company information from this URL: ${url}
-
-Website content (if available):
-${content || 'Could not fetch website content'}
-
-Return JSON with these fields:
-{
-  "name": "Company Name",
-  "description": "2-3 sentence description",
-  "industry": "Industry",
-  "size": "startup|smb|midmarket|enterprise",
-  "location": "Location",
-  "techStack": ["Tech1", "Tech2"],
-  "cultureValues": ["Value1", "Value2"],
-  "workStyle": "remote|hybrid|onsite",
-  "benefits": ["Benefit1"],
-  "confidence": 0.0-1.0
+  };
 }
 
-Return ONLY valid JSON.`
-        }],
-        temperature: 0.3,
-        max_tokens: 1500,
-      }),
-    });
+function invalidRecord(res: express.Response, issues: string[]) {
+  return res.status(400).json({ success: false, error: 'Invalid request body', issues });
+}
 
-    if (!aiResponse.ok) {
-      throw new Error('AI extraction failed');
-    }
+app.get('/api/job-descriptions', requireScope('read'), storageRoute('list jobs', async (_req, res) => {
+  res.json({ success: true, jobs: await storage.listJobs() });
+}));
 
-    const aiData = await aiResponse.json();
-    const aiContent = aiData.choices?.[0]?.message?.content || '';
-    const jsonMatch = aiContent.match(/\{[\s\S]*\}/);
+app.get('/api/job-descriptions/:id', requireScope('read'), storageRoute('load job', async (req, res) => {
+  const job = await storage.getJob(req.params.id);
+  if (!job) {
+    return res.status(404).json({ success: false, error: 'Job not found' });
+  }
+  res.json({ success: true, job });
+}));
 
-    if (!jsonMatch) {
-      throw new Error('No valid JSON in AI response');
-    }
+app.post('/api/job-descriptions', requireScope('write'), storageRoute('create job', async (req, res) => {
+  const parsed = validateRecord(JobRecordSchema, {
+    id: crypto.randomUUID(),
+    createdAt: new Date().toISOString(),
+    ...req.body,
+  });
+  if (!parsed.success) return invalidRecord(res, parsed.issues);
+  res.status(201).json({ success: true, job: await storage.saveJob(parsed.data) });
+}));
 
-    const profile = JSON.parse(jsonMatch[0]);
+app.put('/api/job-descriptions/:id', requireScope('write'), storageRoute('save job', async (req, res) => {
+  const parsed = validateRecord(JobRecordSchema, { ...req.body, id: req.params.id });
+  if (!parsed.success) return invalidRecord(res, parsed.issues);
+  res.json({ success: true, job: await storage.saveJob(parsed.data) });
+}));
 
-    res.json({
-      success: true,
-      profile: {
-        ...profile,
-        website: url,
-        techStack: profile.techStack || [],
-        cultureValues: profile.cultureValues || [],
-        benefits: profile.benefits || [],
-        recentNews: [],
-      },
-      tokensUsed: aiData.usage?.total_tokens || 0,
-    });
-  } catch (error) {
-    console.error('Company research error:', error);
-    res.status(500).json({
-      success: false,
-      error: error instanceof Error ? error.message : 'Research failed',
-    });
+app.delete('/api/job-descriptions/:id', requireScope('write'), storageRoute('delete job', async (req, res) => {
+  if (!(await storage.deleteJob(req.params.id))) {
+    return res.status(404).json({ success: false, error: 'Job not found' });
   }
-});
-
-// ============================================
-// JD Generation (uses server-side API key)
-// ============================================
+  res.json({ success: true });
+}));
 
-app.post('/api/generate-jd', async (req, res) => {
-  try {
-    const { jobTitle, companyProfile } = req.body;
+app.get('/api/sessions', requireScope('read'), storageRoute('list sessions', async (_req, res) => {
+  res.json({ success: true, sessions: await storage.listSessions() });
+}));
 
-    if (!jobTitle) {
-      return res.status(400).json({ success: false, error: 'Job title is required' });
-    }
+app.get('/api/sessions/:id', requireScope('read'), storageRoute('load session', async (req, res) => {
+  const session = await storage.getSession(req.params.id);
+  if (!session) {
+    return res.status(404).json({ success: false, error: 'Session not found' });
+  }
+  res.json({ success: true, session });
+}));
 
-    const prompt = `Generate a job description for: ${jobTitle}
-
-${companyProfile ? `Company Context:
-- Name: ${companyProfile.name || 'Company'}
-- Industry: ${companyProfile.industry || 'Not specified'}
-- Tech Stack: ${companyProfile.techStack?.join(', ') || 'Not specified'}
-- Culture: ${companyProfile.cultureValues?.join(', ') || 'Not specified'}
-- Work Style: ${companyProfile.workStyle || 'Not specified'}` : ''}
-
-Return JSON:
-{
-  "title": "Full job title",
-  "department": "Department",
-  "seniorityLevel": "junior|mid|senior|staff|principal",
-  "employmentType": "full-time",
-  "summary": "2-3 sentence role summary",
-  "responsibilities": ["Resp 1", "Resp 2", "Resp 3"],
-  "requiredSkills": ["Skill 1", "Skill 2", "Skill 3"],
-  "niceToHaveSkills": ["Nice 1", "Nice 2"],
-  "experienceMin": 2,
-  "experienceMax": 5,
-  "education": "Required education",
-  "remoteAllowed": true,
-  "fullText": "Complete formatted JD",
-  "confidence": 0.85
-}
+app.post('/api/sessions', requireScope('write'), storageRoute('create session', async (req, res) => {
+  const parsed = validateRecord(SessionRecordSchema, {
+    id: crypto.randomUUID(),
+    candidates: [],
+    status: 'pending',
+    progress: 0,
+    startedAt: new Date().toISOString(),
+    ...req.body,
+  });
+  if (!parsed.success) return invalidRecord(res, parsed.issues);
+  res.status(201).json({ success: true, session: await storage.saveSession(parsed.data) });
+}));
 
-Return ONLY valid JSON.`;
-
-    const aiResponse = await fetch('https://openrouter.ai/api/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${OPENROUTER_API_KEY}`,
-        'Content-Type': 'application/json',
-        'HTTP-Referer': APP_URL,
-        'X-Title': 'HireScore AI',
-      },
-      body: JSON.stringify({
-        model: 'google/gemini-3-flash-preview',
-        messages: [{ role: 'user', content: prompt }],
-        temperature: 0.4,
-        max_tokens: 2500,
-      }),
-    });
+// Replaces the session, including its candidate list
+app.put('/api/sessions/:id', requireScope('write'), storageRoute('save session', async (req, res) => {
+  const parsed = validateRecord(SessionRecordSchema, { ...req.body, id: req.params.id });
+  if (!parsed.success) return invalidRecord(res, parsed.issues);
+  res.json({ success: true, session: await storage.saveSession(parsed.data) });
+}));
 
-    if (!aiResponse.ok) {
-      const errorBody = await aiResponse.text();
-      console.error('OpenRouter error:', aiResponse.status, errorBody);
-      throw new Error(`AI generation failed: ${aiResponse.status} - ${errorBody.slice(0, 200)}`);
-    }
+app.delete('/api/sessions/:id', requireScope('write'), storageRoute('delete session', async (req, res) => {
+  if (!(await storage.deleteSession(req.params.id))) {
+    return res.status(404).json({ success: false, error: 'Session not found' });
+  }
+  res.json({ success: true });
+}));
 
-    const aiData = await aiResponse.json();
-    const aiContent = aiData.choices?.[0]?.message?.content || '';
-    const jsonMatch = aiContent.match(/\{[\s\S]*\}/);
+app.get('/api/sessions/:id/candidates', requireScope('read'), storageRoute('list candidates', async (req, res) => {
+  const candidates = await storage.listCandidates(req.params.id);
+  if (!candidates) {
+    return res.status(404).json({ success: false, error: 'Session not found' });
+  }
+  res.json({ success: true, candidates });
+}));
 
-    if (!jsonMatch) {
-      throw new Error('No valid JSON in AI response');
-    }
+app.post('/api/sessions/:id/candidates', requireScope('write'), storageRoute('add candidate', async (req, res) => {
+  const parsed = validateRecord(CandidateRecordSchema, {
+    id: crypto.randomUUID(),
+    processedAt: new Date().toISOString(),
+    ...req.body,
+  });
+  if (!parsed.success) return invalidRecord(res, parsed.issues);
+  res.status(201).json({ success: true, candidate: await storage.saveCandidate(req.params.id, parsed.data) });
+}));
 
-    const jd = JSON.parse(jsonMatch[0]);
+app.put('/api/sessions/:id/candidates/:candidateId', requireScope('write'), storageRoute('save candidate', async (req, res) => {
+  const parsed = validateRecord(CandidateRecordSchema, { ...req.body, id: req.params.candidateId });
+  if (!parsed.success) return invalidRecord(res, parsed.issues);
+  res.json({ success: true, candidate: await storage.saveCandidate(req.params.id, parsed.data) });
+}));
 
-    res.json({
-      success: true,
-      jobDescription: {
-        ...jd,
-        generatedAt: new Date().toISOString(),
-        requiredSkills: jd.requiredSkills || [],
-        niceToHaveSkills: jd.niceToHaveSkills || [],
-        responsibilities: jd.responsibilities || [],
-      },
-      tokensUsed: aiData.usage?.total_tokens || 0,
-    });
-  } catch (error) {
-    console.error('JD generation error:', error);
-    res.status(500).json({
-      success: false,
-      error: error instanceof Error ? error.message : 'Generation failed',
-    });
+app.delete('/api/sessions/:id/candidates/:candidateId', requireScope('write'), storageRoute('delete candidate', async (req, res) => {
+  if (!(await storage.deleteCandidate(req.params.id, req.params.candidateId))) {
+    return res.status(404).json({ success: false, error: 'Candidate not found' });
   }
-});
+  res.json({ success: true });
+}));
 
 // ============================================
-// Credits/Usage Tracking
+// API Keys (admin scope - bootstrap with API_ADMIN_TOKEN)
 // ============================================
 
-// Get OpenRouter credits/usage information
-app.get('/api/credits', async (_req, res) => {
-  try {
-    // Fetch usage from OpenRouter
-    const response = await fetch('https://openrouter.ai/api/v1/auth/key', {
-      headers: {
-        'Authorization': `Bearer ${OPENROUTER_API_KEY}`,
-      },
-    });
-
-    if (!response.ok) {
-      return res.status(response.status).json({
-        success: false,
-        error: 'Failed to fetch credits from OpenRouter'
-      });
-    }
-
-    const data = await response.json();
+app.get('/api/keys', requireScope('admin'), storageRoute('list API keys', async (_req, res) => {
+  res.json({ success: true, keys: await apiKeys.list() });
+}));
 
-    // OpenRouter returns { data: { limit, usage, limit_remaining, is_free_tier } }
-    const keyInfo = data.data || {};
+// The response is the only time the key itself is shown
+app.post('/api/keys', requireScope('admin'), storageRoute('issue API key', async (req, res) => {
+  const parsed = validateRecord(ApiKeyRequestSchema, req.body);
+  if (!parsed.success) return invalidRecord(res, parsed.issues);
+  if (parsed.data.expiresAt && Date.parse(parsed.data.expiresAt) <= Date.now()) {
+    return invalidRecord(res, ['expiresAt: must be in the future']);
+  }
+  res.status(201).json({ success: true, ...await apiKeys.issue(parsed.data) });
+}));
 
-    res.json({
-      success: true,
-      credits: {
-        used: keyInfo.usage || 0,
-        limit: keyInfo.limit || null,
-        remaining: keyInfo.limit_remaining || null,
-        isUnlimited: keyInfo.limit === null || keyInfo.limit === undefined,
-        isFreeTier: keyInfo.is_free_tier || false,
-        label: keyInfo.label || 'API Key',
-      }
-    });
-  } catch (error) {
-    console.error('Error fetching credits:', error);
-    res.status(500).json({
-      success: false,
-      error: 'Failed to fetch credits'
-    });
+app.delete('/api/keys/:id', requireScope('admin'), storageRoute('revoke API key', async (req, res) => {
+  if (!(await apiKeys.revoke(req.params.id))) {
+    return res.status(404).json({ success: false, error: 'API key not found' });
   }
-});
+  res.json({ success: true });
+}));
 
 // ============================================
-// Document Parsing (PDF, DOCX)
+// Versioned API (/v1) - see lib/api-contract.ts
 // ============================================
 
-// Parse PDF using pdf-parse (server-side, better for complex PDFs)
-app.post('/api/parse-pdf', async (req, res) => {
-  try {
-    const { base64 } = req.body;
-
-    if (!base64) {
-      return res.status(400).json({ success: false, error: 'Missing base64 PDF data' });
-    }
-
-    // Convert base64 to buffer
-    const buffer = Buffer.from(base64, 'base64');
-
-    // Dynamic import for pdf-parse (ESM module)
-    let parsePdfModule;
-    try {
-      parsePdfModule = await import('pdf-parse');
-    } catch {
-      // pdf-parse not installed, return error
-      return res.status(500).json({
-        success: false,
-        error: 'PDF parsing library not available. Please paste CV text manually.',
-        method: 'none'
-      });
-    }
-
-    // pdf-parse 2.x - handle different export styles
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const parsePdf = (parsePdfModule as any).parsePdf || (parsePdfModule as any).default || parsePdfModule;
-    const data = await parsePdf(buffer);
-
-    if (data.text && data.text.trim().length > 50) {
-      return res.json({
-        success: true,
-        text: data.text.trim(),
-        pages: data.numPages || data.numpages || 1,
-        method: 'pdf-parse'
-      });
-    }
-
-    // If no text extracted, suggest manual paste
-    const pageCount = data.numPages || data.numpages || 1;
-    return res.json({
-      success: true,
-      text: `Document from PDF (${pageCount} pages). The PDF appears to be image-based or scanned. Please paste the CV content manually for accurate screening.`,
-      pages: pageCount,
-      method: 'fallback',
-      warning: 'low_text'
-    });
-
-  } catch (error) {
-    console.error('PDF parse error:', error);
-    res.status(500).json({
-      success: false,
-      error: 'PDF parsing failed. Please paste CV text manually.',
-      method: 'error'
-    });
-  }
-});
-
-// Parse DOCX using mammoth (server-side, better extraction)
-app.post('/api/parse-docx', async (req, res) => {
-  try {
-    const { base64 } = req.body;
-
-    if (!base64) {
-      return res.status(400).json({ success: false, error: 'Missing base64 DOCX data' });
-    }
-
-    // Convert base64 to buffer
-    const buffer = Buffer.from(base64, 'base64');
-
-    // Dynamic import for mammoth
-    const mammoth = await import('mammoth');
-    const result = await mammoth.extractRawText({ buffer });
-
-    if (result.value && result.value.trim().length > 50) {
-      return res.json({
-        success: true,
-        text: result.value.trim(),
-        method: 'mammoth'
-      });
-    }
-
-    return res.json({
-      success: true,
-      text: 'Document content could not be extracted. Please paste CV text manually.',
-      method: 'fallback'
-    });
-
-  } catch (error) {
-    console.error('DOCX parse error:', error);
-    res.status(500).json({
-      success: false,
-      error: 'DOCX parsing failed. Please paste CV text manually.'
-    });
-  }
-});
+app.use('/v1', createV1Router({
+  scoringEngine,
+  batchQueue,
+  storage,
+  budgets,
+  quotas,
+  apiKeys,
+  webhooks,
+  usageLog,
+  requireScope,
+  listModels: async () => (await catalog.list()).models,
+  getDefaultModel: () => catalog.defaultModel(),
+  ensurePricing: () => catalog.ensurePricing(),
+}));
 
 // ============================================
 // Error Handling
@@ -1118,8 +507,8 @@ app.use((_req, res) => {
 
 // eslint-disable-next-line @typescript-eslint/no-unused-vars
 app.use((err: Error, _req: express.Request, res: express.Response, _next: express.NextFunction) => {
-  console.error('Server error:', err);
-  res.status(500).json({ error: 'Internal server error' });
+  logger.error('Server error', { error: err });
+  res.status(500).json({ error: 'Internal server error', requestId: res.getHeader('X-Request-Id') });
 });
 
 // ============================================
@@ -1127,16 +516,17 @@ app.use((err: Error, _req: express.Request, res: express.Response, _next: expres
 // ============================================
 
 app.listen(PORT, () => {
-  console.log(`
-╔═══════════════════════════════════════════════════╗
-║           HireScore AI - Backend Server           ║
-╠═══════════════════════════════════════════════════╣
-║  Status:     RUNNING                              ║
-║  Port:       ${String(PORT).padEnd(37)}║
-║  Mode:       ${(process.env.NODE_ENV || 'development').padEnd(37)}║
-║  API Key:    ${'*'.repeat(8)}...${OPENROUTER_API_KEY.slice(-4).padEnd(25)}║
-╚═══════════════════════════════════════════════════╝
-  `);
+  logger.info('Server started', {
+    port: Number(PORT),
+    mode: process.env.NODE_ENV || 'development',
+    provider: provider.name,
+    model: provider.defaultModel,
+    storage: storage.backend,
+    cache: resultCache.enabled ? 'memory' : 'off',
+    fallbacks: fallbackPolicy.models,
+    apiKeys: apiKeys.config.required ? 'required' : 'optional',
+    logLevel: getLogLevel(),
+  });
 });
 
 export default app;
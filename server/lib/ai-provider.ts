@@ -0,0 +1,383 @@
+/**
+ * HireScore AI - AI Provider Adapters
+ *
+ * Every AI route talks to the model through an adapter so the same server can
+ * run against OpenRouter, native OpenAI, native Anthropic, or any
+ * OpenAI-compatible gateway (Azure OpenAI, LiteLLM, vLLM, Ollama...).
+ *
+ * The provider is chosen by environment only:
+ *   AI_PROVIDER       openrouter (default) | openai | anthropic | custom | mock
+ *   AI_API_KEY        key for the provider (falls back to OPENROUTER_API_KEY,
+ *                     OPENAI_API_KEY or ANTHROPIC_API_KEY)
+ *   AI_BASE_URL       override the endpoint (required for `custom`)
+ *   AI_API_KEY_HEADER header carrying the key for `custom` (e.g. `api-key` for Azure)
+ *   AI_DEFAULT_MODEL  model used when a route does not specify one
+ *
+ * `mock` needs no key or network - see mock-provider.ts (AI_MOCK_LATENCY_MS
+ * slows it down to look like a real model, AI_MOCK_UNAVAILABLE_MODELS makes
+ * the listed models answer 429 to exercise the fallback chain).
+ */
+
+import { createMockProvider } from './mock-provider.js';
+
+// ============================================
+// Types
+// ============================================
+
+export type ProviderName = 'openrouter' | 'openai' | 'anthropic' | 'custom' | 'mock';
+
+// What the call is for - matches the UsageLog `action` values in the Prisma schema
+export type AITask = 'screen_resume' | 'company_research' | 'jd_generate' | 'ocr_pdf';
+
+// Who and what a call is for - written to the usage log, never sent to the model
+export interface UsageAttribution {
+  userId?: string;
+  apiKeyId?: string;
+  resourceType?: string;  // "session", "batch_job", "company"
+  resourceId?: string;
+}
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+// A file the model reads alongside the last user message - a PDF or an image
+export interface ChatAttachment {
+  mimeType: string;
+  base64: string;
+}
+
+export interface ChatRequest {
+  model: string;
+  messages: ChatMessage[];
+  attachments?: ChatAttachment[];
+  temperature?: number;
+  maxTokens?: number;
+  signal?: AbortSignal;
+  task?: AITask;
+  // Structured inputs the prompt was built from; network providers ignore it
+  context?: Record<string, unknown>;
+  attribution?: UsageAttribution;
+}
+
+// OpenRouter/OpenAI usage shape - the client already consumes these field names
+export interface ChatUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+export interface ChatResponse {
+  content: string;
+  model: string;
+  usage?: ChatUsage;
+}
+
+export interface AIProvider {
+  readonly name: ProviderName;
+  readonly defaultModel: string;
+  chat(request: ChatRequest): Promise<ChatResponse>;
+}
+
+export interface ProviderConfig {
+  provider: ProviderName;
+  apiKey?: string;
+  baseUrl?: string;
+  apiKeyHeader?: string;
+  defaultModel: string;
+  appUrl: string;
+  mockLatencyMs?: number;
+  mockUnavailableModels?: string[];
+}
+
+/**
+ * Raised when the upstream provider rejects a request.
+ * `status` mirrors the upstream HTTP status so routes can keep their 429/5xx handling.
+ */
+export class ProviderError extends Error {
+  status: number;
+  body: string;
+  retryAfter?: number;
+
+  constructor(message: string, status: number, body = '', retryAfter?: number) {
+    super(message);
+    this.name = 'ProviderError';
+    this.status = status;
+    this.body = body;
+    this.retryAfter = retryAfter;
+  }
+}
+
+// ============================================
+// Configuration
+// ============================================
+
+const PROVIDER_NAMES: ProviderName[] = ['openrouter', 'openai', 'anthropic', 'custom', 'mock'];
+
+type HostedProvider = 'openrouter' | 'openai' | 'anthropic';
+
+const DEFAULT_BASE_URLS: Record<HostedProvider, string> = {
+  openrouter: 'https://openrouter.ai/api/v1',
+  openai: 'https://api.openai.com/v1',
+  anthropic: 'https://api.anthropic.com/v1',
+};
+
+const DEFAULT_MODELS: Record<ProviderName, string> = {
+  openrouter: 'google/gemini-3-flash-preview',
+  openai: 'gpt-4o-mini',
+  anthropic: 'claude-sonnet-4-5',
+  custom: '',
+  mock: 'mock/keyword-overlap',
+};
+
+const ANTHROPIC_VERSION = '2023-06-01';
+
+export function getProviderConfig(env: NodeJS.ProcessEnv = process.env): ProviderConfig {
+  const requested = (env.AI_PROVIDER || 'openrouter').toLowerCase() as ProviderName;
+  const provider = PROVIDER_NAMES.includes(requested) ? requested : 'openrouter';
+
+  const providerKey = {
+    openrouter: env.OPENROUTER_API_KEY,
+    openai: env.OPENAI_API_KEY,
+    anthropic: env.ANTHROPIC_API_KEY,
+    custom: undefined,
+    mock: undefined,
+  }[provider];
+
+  return {
+    provider,
+    apiKey: env.AI_API_KEY || providerKey,
+    baseUrl: env.AI_BASE_URL,
+    apiKeyHeader: env.AI_API_KEY_HEADER,
+    defaultModel: env.AI_DEFAULT_MODEL || DEFAULT_MODELS[provider],
+    appUrl: env.APP_URL || 'http://localhost:3000',
+    mockLatencyMs: Number(env.AI_MOCK_LATENCY_MS) || undefined,
+    mockUnavailableModels: env.AI_MOCK_UNAVAILABLE_MODELS?.split(',').map(model => model.trim()).filter(Boolean),
+  };
+}
+
+/**
+ * Returns a human-readable problem with the config, or null if it is usable.
+ * Self-hosted gateways often run without auth, so `custom` only needs a URL.
+ */
+export function validateProviderConfig(config: ProviderConfig): string | null {
+  if (config.provider === 'mock') {
+    return null;
+  }
+  if (config.provider === 'custom') {
+    if (!config.baseUrl) return 'AI_BASE_URL is required when AI_PROVIDER=custom';
+    if (!config.defaultModel) return 'AI_DEFAULT_MODEL is required when AI_PROVIDER=custom';
+    return null;
+  }
+  if (!config.apiKey) {
+    return `No API key set for provider "${config.provider}" (set AI_API_KEY)`;
+  }
+  return null;
+}
+
+// ============================================
+// Shared Helpers
+// ============================================
+
+function parseRetryAfter(response: Response): number | undefined {
+  const header = response.headers.get('retry-after');
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (!isNaN(seconds)) return seconds;
+  const date = Date.parse(header);
+  return isNaN(date) ? undefined : Math.max(0, Math.ceil((date - Date.now()) / 1000));
+}
+
+async function postJson(url: string, headers: Record<string, string>, body: unknown, signal?: AbortSignal) {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+    signal,
+  });
+
+  if (!response.ok) {
+    const errorBody = await response.text();
+    throw new ProviderError(
+      `AI provider returned ${response.status}`,
+      response.status,
+      errorBody,
+      parseRetryAfter(response)
+    );
+  }
+
+  return response.json();
+}
+
+// Resolve `<base>/chat/completions`, keeping query strings such as Azure's `api-version`
+function chatCompletionsUrl(baseUrl: string): string {
+  const url = new URL(baseUrl);
+  if (!url.pathname.endsWith('/chat/completions')) {
+    url.pathname = url.pathname.replace(/\/$/, '') + '/chat/completions';
+  }
+  return url.toString();
+}
+
+// The messages with the attachments added to the last user message, in the adapter's content shape
+function withAttachments<T>(
+  request: ChatRequest,
+  toPart: (attachment: ChatAttachment) => T
+): Array<{ role: ChatMessage['role']; content: string | Array<{ type: 'text'; text: string } | T> }> {
+  const attachments = request.attachments ?? [];
+  const last = request.messages.map(m => m.role).lastIndexOf('user');
+  if (attachments.length === 0 || last < 0) return request.messages;
+  return request.messages.map((message, i) => i === last
+    ? { role: message.role, content: [{ type: 'text' as const, text: message.content }, ...attachments.map(toPart)] }
+    : message);
+}
+
+// Native providers don't understand OpenRouter's `vendor/model` IDs
+function stripVendorPrefix(model: string, vendor: string): string {
+  return model.startsWith(`${vendor}/`) ? model.slice(vendor.length + 1) : model;
+}
+
+// ============================================
+// OpenAI-Compatible Adapter (OpenRouter, OpenAI, custom gateways)
+// ============================================
+
+interface OpenAIChatCompletion {
+  model?: string;
+  choices?: Array<{ message?: { content?: string } }>;
+  usage?: Partial<ChatUsage>;
+}
+
+function normalizeUsage(usage?: Partial<ChatUsage>): ChatUsage | undefined {
+  if (!usage) return undefined;
+  const prompt = usage.prompt_tokens || 0;
+  const completion = usage.completion_tokens || 0;
+  return {
+    prompt_tokens: prompt,
+    completion_tokens: completion,
+    total_tokens: usage.total_tokens || prompt + completion,
+  };
+}
+
+function createOpenAICompatibleProvider(config: ProviderConfig): AIProvider {
+  const name = config.provider;
+  const baseUrl = config.baseUrl || DEFAULT_BASE_URLS[name as HostedProvider];
+  const url = chatCompletionsUrl(baseUrl);
+
+  const headers: Record<string, string> = {};
+  if (config.apiKey) {
+    if (config.apiKeyHeader) {
+      headers[config.apiKeyHeader] = config.apiKey;
+    } else {
+      headers['Authorization'] = `Bearer ${config.apiKey}`;
+    }
+  }
+  if (name === 'openrouter') {
+    headers['HTTP-Referer'] = config.appUrl;
+    headers['X-Title'] = 'HireScore AI';
+  }
+
+  return {
+    name,
+    defaultModel: config.defaultModel,
+    async chat(request) {
+      const model = name === 'openai' ? stripVendorPrefix(request.model, 'openai') : request.model;
+
+      const data: OpenAIChatCompletion = await postJson(url, headers, {
+        model,
+        // OpenRouter reads PDFs as well as images from a data URL
+        messages: withAttachments(request, ({ mimeType, base64 }) => ({
+          type: 'image_url' as const,
+          image_url: { url: `data:${mimeType};base64,${base64}` },
+        })),
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+      }, request.signal);
+
+      return {
+        content: data.choices?.[0]?.message?.content || '',
+        model: data.model || request.model,
+        usage: normalizeUsage(data.usage),
+      };
+    },
+  };
+}
+
+// ============================================
+// Anthropic Messages Adapter
+// ============================================
+
+interface AnthropicMessage {
+  model?: string;
+  content?: Array<{ type: string; text?: string }>;
+  usage?: { input_tokens?: number; output_tokens?: number };
+}
+
+function createAnthropicProvider(config: ProviderConfig): AIProvider {
+  const url = `${(config.baseUrl || DEFAULT_BASE_URLS.anthropic).replace(/\/$/, '')}/messages`;
+
+  return {
+    name: 'anthropic',
+    defaultModel: config.defaultModel,
+    async chat(request) {
+      // Messages API takes the system prompt separately and requires max_tokens
+      const system = request.messages
+        .filter(m => m.role === 'system')
+        .map(m => m.content)
+        .join('\n\n');
+      const messages = withAttachments(request, ({ mimeType, base64 }) => ({
+        type: mimeType === 'application/pdf' ? 'document' as const : 'image' as const,
+        source: { type: 'base64' as const, media_type: mimeType, data: base64 },
+      })).filter(m => m.role !== 'system');
+
+      const data: AnthropicMessage = await postJson(url, {
+        'x-api-key': config.apiKey || '',
+        'anthropic-version': ANTHROPIC_VERSION,
+      }, {
+        model: stripVendorPrefix(request.model, 'anthropic'),
+        system: system || undefined,
+        messages,
+        temperature: request.temperature,
+        max_tokens: request.maxTokens || 2000,
+      }, request.signal);
+
+      const content = (data.content || [])
+        .filter(block => block.type === 'text')
+        .map(block => block.text || '')
+        .join('');
+      const input = data.usage?.input_tokens || 0;
+      const output = data.usage?.output_tokens || 0;
+
+      return {
+        content,
+        model: data.model || request.model,
+        usage: data.usage
+          ? { prompt_tokens: input, completion_tokens: output, total_tokens: input + output }
+          : undefined,
+      };
+    },
+  };
+}
+
+// ============================================
+// Factory
+// ============================================
+
+export function createProvider(config: ProviderConfig): AIProvider {
+  if (config.provider === 'mock') {
+    return createMockProvider(config);
+  }
+  if (config.provider === 'anthropic') {
+    return createAnthropicProvider(config);
+  }
+  return createOpenAICompatibleProvider(config);
+}
+
+let providerInstance: AIProvider | null = null;
+
+// Process-wide provider built from the environment (lazy so dotenv can load first)
+export function getProvider(): AIProvider {
+  if (!providerInstance) {
+    providerInstance = createProvider(getProviderConfig());
+  }
+  return providerInstance;
+}
@@ -0,0 +1,717 @@
+/**
+ * HireScore AI - Public API Contract (v1)
+ *
+ * One definition per /v1 route: method, path, scope, request body and the
+ * `data` it answers with. The Express server validates against these, the
+ * OpenAPI document served at /v1/openapi.json is generated from them, and the
+ * client's payload types in src/services/api.ts are inferred from them - so
+ * none of the three can drift from the others.
+ *
+ * Every /v1 response uses one envelope:
+ *   { success: true, data }
+ *   { success: false, error: { code, message, issues?, retryAfter?, budget?, quota? } }
+ *
+ * Only zod is imported here, so the browser bundle can share the file.
+ */
+
+import { z } from 'zod';
+import { CandidateContactSchema } from './resume-parser.js';
+import { ScoreBreakdownSchema } from './screening-schema.js';
+import {
+  API_KEY_SCOPES,
+  ApiKeyRecordSchema,
+  CandidateRecordSchema,
+  JobRecordSchema,
+  PLANS,
+  QuotaRecordSchema,
+  SessionRecordSchema,
+  USAGE_ACTIONS,
+  UsageRecordSchema,
+  WEBHOOK_EVENTS,
+  WebhookDeliveryRecordSchema,
+  WebhookRecordSchema,
+} from './storage-schema.js';
+
+// ============================================
+// Limits
+// ============================================
+
+export const API_VERSION = '1.0.0';
+export const MAX_BATCH_CANDIDATES = 500;
+export const MAX_ENSEMBLE_MODELS = 3;
+export const MAX_KEY_RATE_LIMIT = 10_000;
+
+// ============================================
+// Screening
+// ============================================
+
+export const RecommendationSchema = z.enum(['interview', 'maybe', 'pass']);
+
+export const ScreeningResultSchema = z.object({
+  candidate: CandidateContactSchema.describe('Name and contact details read from the CV'),
+  score: z.number().min(0).max(100),
+  recommendation: RecommendationSchema,
+  summary: z.string(),
+  matchedSkills: z.array(z.string()),
+  missingSkills: z.array(z.string()),
+  concerns: z.array(z.string()),
+  interviewQuestions: z.array(z.string()),
+  experienceYears: z.number().min(0),
+  confidence: z.number().min(0).max(1).nullable(),
+  confidenceReason: z.string().nullable(),
+  scoreBreakdown: ScoreBreakdownSchema,
+  partialMatches: z.array(z.string()),
+  strengths: z.array(z.string()),
+  seniorityAssessment: z.object({
+    detected: z.string(),
+    required: z.string(),
+    match: z.union([z.boolean(), z.literal('stretch')]),
+    evidence: z.string().optional(),
+  }).nullable(),
+  relevantExperienceYears: z.number().nullable(),
+  skillMatchPercent: z.number().nullable(),
+  educationMatch: z.union([z.boolean(), z.literal('partial')]).nullable(),
+});
+
+export const UsageSchema = z.object({
+  prompt_tokens: z.number().int().min(0),
+  completion_tokens: z.number().int().min(0),
+  total_tokens: z.number().int().min(0),
+});
+
+export const ModelOpinionSchema = z.object({
+  model: z.string(),
+  score: z.number(),
+  recommendation: RecommendationSchema,
+  confidence: z.number().nullable(),
+  scoreBreakdown: ScoreBreakdownSchema,
+  summary: z.string(),
+});
+
+export const EnsembleSummarySchema = z.object({
+  opinions: z.array(ModelOpinionSchema),
+  spread: z.number().describe('Highest minus lowest model score'),
+  needsHumanReview: z.boolean(),
+  reviewReason: z.string().optional(),
+});
+
+export const ScreeningOutcomeSchema = z.object({
+  result: ScreeningResultSchema,
+  model: z.string().describe('Model that answered - differs from requestedModel after a fallback'),
+  requestedModel: z.string(),
+  usage: UsageSchema.optional(),
+  costUsd: z.number().nullable().describe('Null when the model\'s price is unknown'),
+  repairAttempts: z.number().int().min(0),
+  retries: z.number().int().min(0),
+  cached: z.boolean().optional().describe('Served from the result cache - not billed'),
+  ensemble: EnsembleSummarySchema.optional(),
+});
+
+// Opens (or lowers) the dollar cap the server enforces for a session
+export const SessionBudgetFieldsSchema = z.object({
+  sessionId: z.string().min(1).optional(),
+  budgetUsd: z.number().positive().optional().describe('Can lower an open session\'s cap, never raise it'),
+  spentUsd: z.number().min(0).optional().describe('Already spent in earlier runs of the session'),
+});
+
+const EnsembleModelsSchema = z.array(z.string().min(1)).max(MAX_ENSEMBLE_MODELS - 1)
+  .optional()
+  .describe('Extra models that also score each CV; their opinions are merged');
+
+export const ScreenRequestSchema = SessionBudgetFieldsSchema.extend({
+  jobDescription: z.string().min(1),
+  cvContent: z.string().min(1),
+  model: z.string().min(1).optional(),
+  bypassCache: z.boolean().optional(),
+  ensembleModels: EnsembleModelsSchema,
+});
+
+export const EstimateRequestSchema = z.object({
+  jobDescription: z.string().min(1),
+  cvContents: z.array(z.string()),
+  model: z.string().min(1).optional(),
+});
+
+export const CostEstimateSchema = z.object({
+  model: z.string(),
+  candidates: z.number().int().min(0),
+  promptTokens: z.number().int().min(0),
+  completionTokens: z.number().int().min(0),
+  costUsd: z.number().nullable(),
+  maxCostUsd: z.number().nullable().describe('Every reply using its full completion allowance'),
+});
+
+export const BudgetSnapshotSchema = z.object({
+  sessionId: z.string(),
+  capUsd: z.number(),
+  spentUsd: z.number(),
+  remainingUsd: z.number(),
+});
+
+export const ModelInfoSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string().optional(),
+  contextLength: z.number().optional(),
+  pricing: z.object({ prompt: z.string(), completion: z.string() }).optional(),
+  recommended: z.boolean().optional(),
+  category: z.string().optional(),
+});
+
+// ============================================
+// Batch Jobs
+// ============================================
+
+export const BatchCandidateSchema = z.object({
+  name: z.string(),
+  cvContent: z.string(),
+});
+
+export const BatchRequestSchema = SessionBudgetFieldsSchema.extend({
+  jobDescription: z.string().min(1),
+  candidates: z.array(BatchCandidateSchema).min(1).max(MAX_BATCH_CANDIDATES),
+  model: z.string().min(1).optional(),
+  ensembleModels: EnsembleModelsSchema,
+});
+
+export const BatchJobStatusSchema = z.enum(['queued', 'running', 'paused', 'cancelled', 'completed']);
+
+export const BatchItemSchema = z.object({
+  index: z.number().int().min(0),
+  name: z.string(),
+  status: z.enum(['pending', 'processing', 'completed', 'failed', 'cancelled']),
+  result: ScreeningResultSchema.optional(),
+  model: z.string().optional(),
+  usage: UsageSchema.optional(),
+  costUsd: z.number().nullable().optional(),
+  cached: z.boolean().optional(),
+  ensemble: EnsembleSummarySchema.optional(),
+  error: z.string().optional(),
+  errorCode: z.string().optional(),
+  issues: z.array(z.string()).optional(),
+  attempts: z.number().int().min(0),
+  startedAt: z.string().optional(),
+  completedAt: z.string().optional(),
+});
+
+export const BatchJobSchema = z.object({
+  id: z.string(),
+  status: BatchJobStatusSchema,
+  model: z.string(),
+  ensembleModels: z.array(z.string()).optional(),
+  total: z.number().int().min(0),
+  processed: z.number().int().min(0),
+  failed: z.number().int().min(0),
+  cancelled: z.number().int().min(0),
+  items: z.array(BatchItemSchema),
+  budget: BudgetSnapshotSchema.optional(),
+  createdAt: z.string(),
+  startedAt: z.string().optional(),
+  completedAt: z.string().optional(),
+});
+
+// Streamed as Server-Sent Events; `event:` carries the type, `id:` the sequence number
+export const BatchEventSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('parsed'), index: z.number(), name: z.string(), characters: z.number() }),
+  z.object({ type: z.literal('sent'), index: z.number(), attempt: z.number(), model: z.string() }),
+  z.object({ type: z.literal('tokens'), index: z.number(), attempt: z.number(), model: z.string(), usage: UsageSchema.optional(), valid: z.boolean() }),
+  z.object({ type: z.literal('retrying'), index: z.number(), attempt: z.number(), model: z.string(), delayMs: z.number(), reason: z.string() }),
+  z.object({ type: z.literal('fallback'), index: z.number(), from: z.string(), to: z.string(), reason: z.string() }),
+  z.object({
+    type: z.literal('scored'),
+    index: z.number(),
+    name: z.string(),
+    result: ScreeningResultSchema,
+    model: z.string(),
+    usage: UsageSchema.optional(),
+    costUsd: z.number().nullable(),
+    cached: z.boolean().optional(),
+    ensemble: EnsembleSummarySchema.optional(),
+  }),
+  z.object({ type: z.literal('failed'), index: z.number(), name: z.string(), error: z.string(), errorCode: z.string(), issues: z.array(z.string()).optional() }),
+  z.object({ type: z.literal('paused') }),
+  z.object({ type: z.literal('resumed') }),
+  z.object({ type: z.literal('cancelled'), processed: z.number(), failed: z.number(), cancelled: z.number() }),
+  z.object({ type: z.literal('completed'), processed: z.number(), failed: z.number() }),
+]);
+
+// ============================================
+// API Keys
+// ============================================
+
+export const ApiKeyViewSchema = ApiKeyRecordSchema.omit({ keyHash: true });
+
+export const ApiKeyRequestSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  scopes: z.array(z.enum(API_KEY_SCOPES)).min(1),
+  rateLimit: z.number().int().min(1).max(MAX_KEY_RATE_LIMIT).optional().describe('Requests per minute (default 100)'),
+  userId: z.string().min(1).optional(),
+  expiresAt: z.iso.datetime({ offset: true }).optional(),
+});
+
+export const IssuedApiKeySchema = z.object({
+  key: z.string().describe('Shown only in this response - store it now'),
+  apiKey: ApiKeyViewSchema,
+});
+
+// ============================================
+// Webhooks
+// ============================================
+
+export const WebhookViewSchema = WebhookRecordSchema.omit({ secret: true });
+
+export const WebhookRequestSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional().describe('Defaults to the URL\'s host'),
+  url: z.url({ protocol: /^https?$/ }),
+  events: z.array(z.enum(WEBHOOK_EVENTS)).min(1),
+  secret: z.string().min(16).max(200).optional().describe('HMAC key for X-HireScore-Signature; generated when omitted'),
+});
+
+export const CreatedWebhookSchema = z.object({
+  secret: z.string().describe('Shown only in this response - store it now'),
+  webhook: WebhookViewSchema,
+});
+
+// ============================================
+// Usage
+// ============================================
+
+export const UsageQuerySchema = z.object({
+  from: z.iso.datetime({ offset: true }).optional(),
+  to: z.iso.datetime({ offset: true }).optional(),
+  action: z.enum(USAGE_ACTIONS).optional(),
+  userId: z.string().min(1).optional().describe('Ignored for keys bound to a user - they only see their own usage'),
+  limit: z.coerce.number().int().min(1).max(500).optional().describe('Most recent calls to list (default 50)'),
+});
+
+const UsageTotalsSchema = z.object({
+  calls: z.number().int().min(0),
+  failed: z.number().int().min(0),
+  tokensUsed: z.number().int().min(0),
+  costUsd: z.number().min(0).describe('Calls whose model price is unknown count as 0'),
+});
+
+export const UsageReportSchema = z.object({
+  from: z.string().optional(),
+  to: z.string().optional(),
+  totals: UsageTotalsSchema,
+  byAction: z.array(UsageTotalsSchema.extend({ action: z.enum(USAGE_ACTIONS) })),
+  byModel: z.array(UsageTotalsSchema.extend({ model: z.string() })),
+  entries: z.array(UsageRecordSchema),
+});
+
+// ============================================
+// Quotas
+// ============================================
+
+export const QuotaSnapshotSchema = QuotaRecordSchema.omit({ organizationId: true }).extend({
+  creditsRemaining: z.number().int().min(0),
+}).describe('Screening credits of the user or organization a request is charged to - one per screened CV');
+
+export const QuotaRequestSchema = z.object({
+  plan: z.enum(PLANS).optional(),
+  creditsLimit: z.number().int().min(0).optional(),
+  creditsUsed: z.number().int().min(0).optional().describe('0 starts a new billing period'),
+  organizationId: z.string().min(1).nullable().optional()
+    .describe('Users only - the organization whose credits they spend; null for their own'),
+});
+
+// ============================================
+// Envelope
+// ============================================
+
+export const ApiErrorSchema = z.object({
+  success: z.literal(false),
+  error: z.object({
+    code: z.string().describe('Stable machine-readable code, e.g. VALIDATION_FAILED, BUDGET_EXCEEDED'),
+    message: z.string(),
+    issues: z.array(z.string()).optional(),
+    retryAfter: z.number().optional().describe('Seconds to wait before retrying'),
+    budget: BudgetSnapshotSchema.optional(),
+    quota: QuotaSnapshotSchema.optional(),
+    requestId: z.string().optional().describe('Also sent as the X-Request-Id header - quote it when reporting a problem'),
+  }),
+});
+
+export const HealthSchema = z.object({
+  status: z.literal('ok'),
+  version: z.string(),
+  timestamp: z.string(),
+});
+
+const DeletedSchema = z.object({ deleted: z.literal(true) });
+
+// ============================================
+// Routes
+// ============================================
+
+export type HttpMethod = 'get' | 'post' | 'put' | 'delete';
+export type RouteScope = (typeof API_KEY_SCOPES)[number];
+
+export interface RouteDefinition<
+  Body extends z.ZodType | undefined = z.ZodType | undefined,
+  Data extends z.ZodType | undefined = z.ZodType | undefined,
+  Query extends z.ZodObject | undefined = z.ZodObject | undefined,
+> {
+  method: HttpMethod;
+  // OpenAPI style - `{id}` marks a path parameter
+  path: string;
+  summary: string;
+  tag: string;
+  // null routes are public; the rest follow the API key rules in api-keys.ts
+  scope: RouteScope | null;
+  // Query string parameters, validated like the body
+  query?: Query;
+  body: Body;
+  // `data` of the success envelope; undefined for event streams
+  data: Data;
+  status?: number;
+}
+
+export type RouteBody<R extends RouteDefinition> = R['body'] extends z.ZodType ? z.output<R['body']> : undefined;
+export type RouteQuery<R extends RouteDefinition> =
+  [NonNullable<R['query']>] extends [never] ? undefined : z.output<NonNullable<R['query']>>;
+// Event streams write their own response, so their handlers return nothing
+export type RouteData<R extends RouteDefinition> = R['data'] extends z.ZodType ? z.output<R['data']> : void;
+
+const route = <
+  Body extends z.ZodType | undefined,
+  Data extends z.ZodType | undefined,
+  Query extends z.ZodObject | undefined = undefined,
+>(
+  definition: RouteDefinition<Body, Data, Query>
+) => definition;
+
+export const V1_ROUTES = {
+  health: route({
+    method: 'get', path: '/v1/health', summary: 'Liveness check', tag: 'System',
+    scope: null, body: undefined, data: HealthSchema,
+  }),
+  listModels: route({
+    method: 'get', path: '/v1/models', summary: 'Models available for screening', tag: 'Screening',
+    scope: 'read', body: undefined, data: z.array(ModelInfoSchema),
+  }),
+  estimate: route({
+    method: 'post', path: '/v1/estimate', summary: 'Pre-flight tokens and dollars for a screening run', tag: 'Screening',
+    scope: 'write', body: EstimateRequestSchema, data: CostEstimateSchema,
+  }),
+  screen: route({
+    method: 'post', path: '/v1/screen', summary: 'Score one CV against a job description', tag: 'Screening',
+    scope: 'write', body: ScreenRequestSchema, data: ScreeningOutcomeSchema,
+  }),
+  createBatch: route({
+    method: 'post', path: '/v1/batches', summary: 'Queue a batch of CVs for background screening', tag: 'Batches',
+    scope: 'write', body: BatchRequestSchema, data: BatchJobSchema, status: 202,
+  }),
+  getBatch: route({
+    method: 'get', path: '/v1/batches/{id}', summary: 'Per-candidate status and results of a batch', tag: 'Batches',
+    scope: 'read', body: undefined, data: BatchJobSchema,
+  }),
+  batchEvents: route({
+    method: 'get', path: '/v1/batches/{id}/events', summary: 'Live batch progress as Server-Sent Events (BatchEvent)', tag: 'Batches',
+    scope: 'read', body: undefined, data: undefined,
+  }),
+  pauseBatch: route({
+    method: 'post', path: '/v1/batches/{id}/pause', summary: 'Pause a batch, aborting in-flight model calls', tag: 'Batches',
+    scope: 'write', body: undefined, data: BatchJobSchema,
+  }),
+  resumeBatch: route({
+    method: 'post', path: '/v1/batches/{id}/resume', summary: 'Resume a paused batch', tag: 'Batches',
+    scope: 'write', body: undefined, data: BatchJobSchema,
+  }),
+  cancelBatch: route({
+    method: 'post', path: '/v1/batches/{id}/cancel', summary: 'Cancel a batch', tag: 'Batches',
+    scope: 'write', body: undefined, data: BatchJobSchema,
+  }),
+  listJobDescriptions: route({
+    method: 'get', path: '/v1/job-descriptions', summary: 'Saved job descriptions', tag: 'History',
+    scope: 'read', body: undefined, data: z.array(JobRecordSchema),
+  }),
+  getJobDescription: route({
+    method: 'get', path: '/v1/job-descriptions/{id}', summary: 'One saved job description', tag: 'History',
+    scope: 'read', body: undefined, data: JobRecordSchema,
+  }),
+  saveJobDescription: route({
+    method: 'put', path: '/v1/job-descriptions/{id}', summary: 'Create or replace a job description', tag: 'History',
+    scope: 'write', body: JobRecordSchema.omit({ id: true }), data: JobRecordSchema,
+  }),
+  deleteJobDescription: route({
+    method: 'delete', path: '/v1/job-descriptions/{id}', summary: 'Delete a job description no session uses', tag: 'History',
+    scope: 'write', body: undefined, data: DeletedSchema,
+  }),
+  listSessions: route({
+    method: 'get', path: '/v1/sessions', summary: 'Screening sessions with their candidates', tag: 'History',
+    scope: 'read', body: undefined, data: z.array(SessionRecordSchema),
+  }),
+  getSession: route({
+    method: 'get', path: '/v1/sessions/{id}', summary: 'One screening session', tag: 'History',
+    scope: 'read', body: undefined, data: SessionRecordSchema,
+  }),
+  saveSession: route({
+    method: 'put', path: '/v1/sessions/{id}', summary: 'Create or replace a session, including its candidates', tag: 'History',
+    scope: 'write', body: SessionRecordSchema.omit({ id: true }), data: SessionRecordSchema,
+  }),
+  deleteSession: route({
+    method: 'delete', path: '/v1/sessions/{id}', summary: 'Delete a session and its candidates', tag: 'History',
+    scope: 'write', body: undefined, data: DeletedSchema,
+  }),
+  listCandidates: route({
+    method: 'get', path: '/v1/sessions/{id}/candidates', summary: 'Candidates of a session in processing order', tag: 'History',
+    scope: 'read', body: undefined, data: z.array(CandidateRecordSchema),
+  }),
+  saveCandidate: route({
+    method: 'put', path: '/v1/sessions/{id}/candidates/{candidateId}', summary: 'Create or replace a candidate', tag: 'History',
+    scope: 'write', body: CandidateRecordSchema.omit({ id: true }), data: CandidateRecordSchema,
+  }),
+  deleteCandidate: route({
+    method: 'delete', path: '/v1/sessions/{id}/candidates/{candidateId}', summary: 'Delete a candidate', tag: 'History',
+    scope: 'write', body: undefined, data: DeletedSchema,
+  }),
+  listApiKeys: route({
+    method: 'get', path: '/v1/keys', summary: 'Issued API keys (never the keys themselves)', tag: 'API Keys',
+    scope: 'admin', body: undefined, data: z.array(ApiKeyViewSchema),
+  }),
+  issueApiKey: route({
+    method: 'post', path: '/v1/keys', summary: 'Issue an API key', tag: 'API Keys',
+    scope: 'admin', body: ApiKeyRequestSchema, data: IssuedApiKeySchema, status: 201,
+  }),
+  revokeApiKey: route({
+    method: 'delete', path: '/v1/keys/{id}', summary: 'Revoke an API key', tag: 'API Keys',
+    scope: 'admin', body: undefined, data: DeletedSchema,
+  }),
+  getUsage: route({
+    method: 'get', path: '/v1/usage', summary: 'AI calls with their tokens, cost and latency, totalled by action and model', tag: 'Usage',
+    scope: 'read', query: UsageQuerySchema, body: undefined, data: UsageReportSchema,
+  }),
+  getQuota: route({
+    method: 'get', path: '/v1/quota', summary: "The caller's plan and screening credits (null when unmetered)", tag: 'Quotas',
+    scope: 'read', body: undefined, data: QuotaSnapshotSchema.nullable(),
+  }),
+  saveUserQuota: route({
+    method: 'put', path: '/v1/quotas/users/{id}', summary: "Change a user's plan or credits", tag: 'Quotas',
+    scope: 'admin', body: QuotaRequestSchema, data: QuotaSnapshotSchema,
+  }),
+  saveOrganizationQuota: route({
+    method: 'put', path: '/v1/quotas/organizations/{id}', summary: "Change an organization's plan or credits", tag: 'Quotas',
+    scope: 'admin', body: QuotaRequestSchema, data: QuotaSnapshotSchema,
+  }),
+  listWebhooks: route({
+    method: 'get', path: '/v1/webhooks', summary: 'Webhook subscriptions (never their secrets)', tag: 'Webhooks',
+    scope: 'admin', body: undefined, data: z.array(WebhookViewSchema),
+  }),
+  createWebhook: route({
+    method: 'post', path: '/v1/webhooks', summary: 'Subscribe a URL to screening events', tag: 'Webhooks',
+    scope: 'admin', body: WebhookRequestSchema, data: CreatedWebhookSchema, status: 201,
+  }),
+  getWebhook: route({
+    method: 'get', path: '/v1/webhooks/{id}', summary: 'One webhook subscription', tag: 'Webhooks',
+    scope: 'admin', body: undefined, data: WebhookViewSchema,
+  }),
+  deleteWebhook: route({
+    method: 'delete', path: '/v1/webhooks/{id}', summary: 'Delete a webhook and its delivery log', tag: 'Webhooks',
+    scope: 'admin', body: undefined, data: DeletedSchema,
+  }),
+  listWebhookDeliveries: route({
+    method: 'get', path: '/v1/webhooks/{id}/deliveries', summary: 'The 100 most recent deliveries, newest first', tag: 'Webhooks',
+    scope: 'admin', body: undefined, data: z.array(WebhookDeliveryRecordSchema),
+  }),
+  testWebhook: route({
+    method: 'post', path: '/v1/webhooks/{id}/test', summary: 'Send a webhook.test event and report the first attempt', tag: 'Webhooks',
+    scope: 'admin', body: undefined, data: WebhookDeliveryRecordSchema,
+  }),
+} as const;
+
+export type V1Routes = typeof V1_ROUTES;
+
+// ============================================
+// OpenAPI
+// ============================================
+
+// Named schemas become components; route-specific ones are inlined where they are used
+const COMPONENTS: Record<string, z.ZodType> = {
+  ScreeningResult: ScreeningResultSchema,
+  Usage: UsageSchema,
+  ModelOpinion: ModelOpinionSchema,
+  EnsembleSummary: EnsembleSummarySchema,
+  ScreeningOutcome: ScreeningOutcomeSchema,
+  ScreenRequest: ScreenRequestSchema,
+  EstimateRequest: EstimateRequestSchema,
+  CostEstimate: CostEstimateSchema,
+  BudgetSnapshot: BudgetSnapshotSchema,
+  ModelInfo: ModelInfoSchema,
+  BatchRequest: BatchRequestSchema,
+  BatchItem: BatchItemSchema,
+  BatchJob: BatchJobSchema,
+  BatchEvent: BatchEventSchema,
+  JobDescription: JobRecordSchema,
+  Session: SessionRecordSchema,
+  Candidate: CandidateRecordSchema,
+  ApiKey: ApiKeyViewSchema,
+  ApiKeyRequest: ApiKeyRequestSchema,
+  IssuedApiKey: IssuedApiKeySchema,
+  Webhook: WebhookViewSchema,
+  WebhookRequest: WebhookRequestSchema,
+  CreatedWebhook: CreatedWebhookSchema,
+  WebhookDelivery: WebhookDeliveryRecordSchema,
+  UsageRecord: UsageRecordSchema,
+  QuotaSnapshot: QuotaSnapshotSchema,
+  UsageReport: UsageReportSchema,
+  ApiError: ApiErrorSchema,
+};
+
+type JsonSchema = Record<string, unknown>;
+
+const ERROR_RESPONSES: Record<string, string> = {
+  400: 'The request failed validation',
+  401: 'Missing, invalid or expired API key',
+  403: 'The API key lacks this route\'s scope',
+  429: 'Rate limited - see retryAfter',
+};
+
+/**
+ * The OpenAPI 3.1 document for every /v1 route, built from the definitions above.
+ */
+export function buildOpenApiDocument(serverUrl?: string) {
+  const routes = Object.entries(V1_ROUTES) as Array<[string, RouteDefinition]>;
+  const uri = (id: string) => `#/components/schemas/${id}`;
+
+  // Route bodies and data that are not components are converted alongside them
+  // (so their references resolve) and then inlined where they are used
+  const registry = z.registry<{ id: string }>();
+  const idOf = new Map<z.ZodType, string>();
+  const register = (schema: z.ZodType, id: string) => {
+    if (idOf.has(schema)) return;
+    idOf.set(schema, id);
+    registry.add(schema, { id });
+  };
+  for (const [id, schema] of Object.entries(COMPONENTS)) register(schema, id);
+  const inlineIds = new Set<string>();
+  for (const [operationId, definition] of routes) {
+    for (const [part, schema] of [['Body', definition.body], ['Data', definition.data]] as const) {
+      if (!schema || idOf.has(schema)) continue;
+      register(schema, `${operationId}${part}`);
+      inlineIds.add(`${operationId}${part}`);
+    }
+  }
+
+  const { schemas } = z.toJSONSchema(registry, { uri, unrepresentable: 'any' }) as { schemas: Record<string, JsonSchema> };
+  for (const schema of Object.values(schemas)) {
+    delete schema.$schema;
+    delete schema.$id;
+  }
+  const inlined = new Map<string, JsonSchema>();
+  for (const id of inlineIds) {
+    inlined.set(id, schemas[id]);
+    delete schemas[id];
+  }
+  const schemaFor = (schema: z.ZodType): JsonSchema => {
+    const id = idOf.get(schema) as string;
+    return inlined.get(id) ?? { $ref: uri(id) };
+  };
+
+  const paths: Record<string, Record<string, unknown>> = {};
+  for (const [operationId, definition] of routes) {
+    const parameters: Array<Record<string, unknown>> = [...definition.path.matchAll(/\{(\w+)\}/g)].map(([, name]) => ({
+      name,
+      in: 'path',
+      required: true,
+      schema: { type: 'string' },
+    }));
+    if (definition.query) {
+      const { properties = {}, required = [] } = z.toJSONSchema(definition.query, { io: 'input' }) as {
+        properties?: Record<string, JsonSchema>;
+        required?: string[];
+      };
+      for (const [name, { description, ...schema }] of Object.entries(properties)) {
+        parameters.push({ name, in: 'query', required: required.includes(name), description, schema });
+      }
+    }
+    const success = definition.data
+      ? {
+        description: 'Success',
+        content: {
+          'application/json': {
+            schema: {
+              type: 'object',
+              properties: { success: { const: true }, data: schemaFor(definition.data) },
+              required: ['success', 'data'],
+            },
+          },
+        },
+      }
+      : {
+        description: 'Event stream - each message carries one BatchEvent',
+        content: { 'text/event-stream': { schema: { $ref: uri('BatchEvent') } } },
+      };
+    const errorStatuses = [
+      ...(definition.body ? ['400'] : []),
+      ...(definition.scope ? ['401', '403', '429'] : []),
+    ];
+
+    paths[definition.path] ??= {};
+    paths[definition.path][definition.method] = {
+      operationId,
+      summary: definition.summary,
+      tags: [definition.tag],
+      ...(parameters.length > 0 && { parameters }),
+      ...(definition.body && {
+        requestBody: { required: true, content: { 'application/json': { schema: schemaFor(definition.body) } } },
+      }),
+      ...(definition.scope && { security: [{ apiKey: [] }], 'x-scope': definition.scope }),
+      responses: {
+        [String(definition.status ?? 200)]: success,
+        ...Object.fromEntries(errorStatuses.map(status => [status, {
+          description: ERROR_RESPONSES[status],
+          content: { 'application/json': { schema: { $ref: uri('ApiError') } } },
+        }])),
+        default: {
+          description: 'Error',
+          content: { 'application/json': { schema: { $ref: uri('ApiError') } } },
+        },
+      },
+    };
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'HireScore AI API',
+      version: API_VERSION,
+      description: 'CV screening, batch jobs and screening history. Authenticate with `Authorization: Bearer <api key>`.',
+    },
+    ...(serverUrl && { servers: [{ url: serverUrl }] }),
+    paths,
+    components: {
+      schemas,
+      securitySchemes: { apiKey: { type: 'http', scheme: 'bearer' } },
+    },
+  };
+}
+
+// ============================================
+// Payload Types
+// ============================================
+
+export type ScreeningResult = z.infer<typeof ScreeningResultSchema>;
+export type Usage = z.infer<typeof UsageSchema>;
+export type ModelOpinion = z.infer<typeof ModelOpinionSchema>;
+export type EnsembleSummary = z.infer<typeof EnsembleSummarySchema>;
+export type ScreeningOutcome = z.infer<typeof ScreeningOutcomeSchema>;
+export type SessionBudgetFields = z.infer<typeof SessionBudgetFieldsSchema>;
+export type CostEstimate = z.infer<typeof CostEstimateSchema>;
+export type BudgetSnapshot = z.infer<typeof BudgetSnapshotSchema>;
+export type ModelInfo = z.infer<typeof ModelInfoSchema>;
+export type BatchCandidate = z.infer<typeof BatchCandidateSchema>;
+export type BatchJobStatus = z.infer<typeof BatchJobStatusSchema>;
+export type BatchItem = z.infer<typeof BatchItemSchema>;
+export type BatchJob = z.infer<typeof BatchJobSchema>;
+export type BatchEvent = z.infer<typeof BatchEventSchema>;
+export type ApiKeyView = z.infer<typeof ApiKeyViewSchema>;
+export type ApiKeyRequest = z.infer<typeof ApiKeyRequestSchema>;
+export type WebhookView = z.infer<typeof WebhookViewSchema>;
+export type WebhookRequest = z.infer<typeof WebhookRequestSchema>;
+export type UsageQuery = z.infer<typeof UsageQuerySchema>;
+export type UsageReport = z.infer<typeof UsageReportSchema>;
+export type QuotaSnapshot = z.infer<typeof QuotaSnapshotSchema>;
+export type QuotaRequest = z.infer<typeof QuotaRequestSchema>;
+export type ApiErrorBody = z.infer<typeof ApiErrorSchema>;
@@ -0,0 +1,246 @@
+/**
+ * HireScore AI - API Keys
+ *
+ * Programmatic access for integrations such as an ATS. A key is shown once,
+ * when it is issued; only its SHA-256 hash is stored. Callers send it as
+ * `Authorization: Bearer <key>`. Each key carries scopes and its own
+ * per-minute request limit, which replaces the per-IP limit for its requests.
+ *
+ *   read   GET routes - models, saved jobs, sessions, batch job status
+ *   write  everything that screens, parses, generates or saves
+ *   admin  issuing and revoking keys; grants every other scope too
+ *
+ *   API_KEYS_REQUIRED  true rejects requests without a key. Off by default so
+ *                      the browser app keeps working anonymously.
+ *   API_ADMIN_TOKEN    bootstrap credential with the admin scope, for issuing
+ *                      the first keys. It is never stored and has no rate limit.
+ */
+
+import { createHash, randomBytes, timingSafeEqual } from 'node:crypto';
+import type { ApiKeyRequest, ApiKeyView } from './api-contract.js';
+import { getStorage, type Storage } from './storage.js';
+import type { ApiKeyRecord } from './storage-schema.js';
+
+// ============================================
+// Types
+// ============================================
+
+export type ApiKeyScope = ApiKeyRecord['scopes'][number];
+
+// Who made an authenticated request
+export interface ApiPrincipal {
+  keyId: string | null;  // null for the API_ADMIN_TOKEN
+  name: string;
+  scopes: ApiKeyScope[];
+  rateLimit: number | null;
+  userId?: string;
+}
+
+export interface RateLimitState {
+  limit: number;
+  remaining: number;
+  resetSeconds: number;
+}
+
+export interface ApiKeyConfig {
+  required: boolean;
+  adminToken?: string;
+}
+
+export type ApiKeyErrorCode = 'UNAUTHORIZED' | 'FORBIDDEN' | 'RATE_LIMITED';
+
+/**
+ * Raised when a request's key is missing, unknown, expired, lacks the route's
+ * scope or is over its limit. `status` is the HTTP status to answer with.
+ */
+export class ApiKeyError extends Error {
+  status: number;
+  code: ApiKeyErrorCode;
+  retryAfter?: number;
+
+  constructor(message: string, status: number, code: ApiKeyErrorCode, retryAfter?: number) {
+    super(message);
+    this.name = 'ApiKeyError';
+    this.status = status;
+    this.code = code;
+    this.retryAfter = retryAfter;
+  }
+}
+
+// ============================================
+// Configuration
+// ============================================
+
+export const DEFAULT_KEY_RATE_LIMIT = 100;
+const KEY_PREFIX = 'hsk_';
+const WINDOW_MS = 60 * 1000;
+// lastUsedAt is a hint, not an audit log - one write per key per minute is plenty
+const TOUCH_INTERVAL_MS = 60 * 1000;
+
+export function getApiKeyConfig(env: NodeJS.ProcessEnv = process.env): ApiKeyConfig {
+  return {
+    required: env.API_KEYS_REQUIRED?.toLowerCase() === 'true',
+    adminToken: env.API_ADMIN_TOKEN || undefined,
+  };
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+export function toApiKeyView(record: ApiKeyRecord): ApiKeyView {
+  return {
+    id: record.id,
+    name: record.name,
+    scopes: record.scopes,
+    rateLimit: record.rateLimit,
+    userId: record.userId,
+    lastUsedAt: record.lastUsedAt,
+    expiresAt: record.expiresAt,
+    createdAt: record.createdAt,
+  };
+}
+
+const sameSecret = (a: string, b: string): boolean => {
+  const left = Buffer.from(hashApiKey(a));
+  const right = Buffer.from(hashApiKey(b));
+  return timingSafeEqual(left, right);
+};
+
+const hasScope = (principal: ApiPrincipal, scope: ApiKeyScope): boolean =>
+  principal.scopes.includes(scope) || principal.scopes.includes('admin');
+
+/**
+ * Response body for a refused request - shared by every runtime.
+ */
+export function apiKeyErrorBody(error: ApiKeyError) {
+  return {
+    success: false,
+    error: error.message,
+    errorCode: error.code,
+    retryAfter: error.retryAfter,
+  };
+}
+
+// ============================================
+// Authenticator
+// ============================================
+
+export class ApiKeyAuthenticator {
+  readonly config: ApiKeyConfig;
+  private store: () => Promise<Storage>;
+  // Fixed one-minute window per key
+  private windows = new Map<string, { startedAt: number; count: number }>();
+
+  constructor(config: ApiKeyConfig = getApiKeyConfig(), store: () => Promise<Storage> = getStorage) {
+    this.config = config;
+    this.store = store;
+  }
+
+  /**
+   * The principal behind an Authorization header, or null when there is none.
+   * Throws ApiKeyError for a malformed, unknown or expired key.
+   */
+  async authenticate(authorization: string | undefined): Promise<ApiPrincipal | null> {
+    if (!authorization) return null;
+    const match = authorization.match(/^Bearer\s+(\S+)$/i);
+    if (!match) {
+      throw new ApiKeyError('Authorization must be "Bearer <api key>"', 401, 'UNAUTHORIZED');
+    }
+    const token = match[1];
+
+    if (this.config.adminToken && sameSecret(token, this.config.adminToken)) {
+      return { keyId: null, name: 'admin token', scopes: ['admin'], rateLimit: null };
+    }
+
+    const storage = await this.store();
+    const key = token.startsWith(KEY_PREFIX) ? await storage.findApiKey(hashApiKey(token)) : null;
+    if (!key) {
+      throw new ApiKeyError('Invalid API key', 401, 'UNAUTHORIZED');
+    }
+    const now = Date.now();
+    if (key.expiresAt && Date.parse(key.expiresAt) <= now) {
+      throw new ApiKeyError('API key has expired', 401, 'UNAUTHORIZED');
+    }
+
+    if (!key.lastUsedAt || now - Date.parse(key.lastUsedAt) >= TOUCH_INTERVAL_MS) {
+      await storage.touchApiKey(key.id, new Date(now).toISOString());
+    }
+
+    return {
+      keyId: key.id,
+      name: key.name,
+      scopes: key.scopes,
+      rateLimit: key.rateLimit,
+      userId: key.userId,
+    };
+  }
+
+  /**
+   * Throws unless the request may use a route needing `scope`. Anonymous
+   * requests pass unless keys are required - but never for admin routes.
+   */
+  authorize(principal: ApiPrincipal | null, scope: ApiKeyScope): void {
+    if (!principal) {
+      if (this.config.required || scope === 'admin') {
+        throw new ApiKeyError('An API key is required', 401, 'UNAUTHORIZED');
+      }
+      return;
+    }
+    if (!hasScope(principal, scope)) {
+      throw new ApiKeyError(`API key lacks the "${scope}" scope`, 403, 'FORBIDDEN');
+    }
+  }
+
+  /**
+   * Counts one request against the key's per-minute limit, or throws once it
+   * is used up. Null for principals without a limit.
+   */
+  consume(principal: ApiPrincipal): RateLimitState | null {
+    if (principal.keyId === null || principal.rateLimit === null) return null;
+
+    const now = Date.now();
+    let window = this.windows.get(principal.keyId);
+    if (!window || now - window.startedAt >= WINDOW_MS) {
+      window = { startedAt: now, count: 0 };
+      this.windows.set(principal.keyId, window);
+    }
+    const resetSeconds = Math.ceil((window.startedAt + WINDOW_MS - now) / 1000);
+    if (window.count >= principal.rateLimit) {
+      throw new ApiKeyError('API key rate limit reached', 429, 'RATE_LIMITED', resetSeconds);
+    }
+    window.count++;
+    return { limit: principal.rateLimit, remaining: principal.rateLimit - window.count, resetSeconds };
+  }
+
+  // The key itself is only ever returned here
+  async issue(request: ApiKeyRequest): Promise<{ key: string; apiKey: ApiKeyView }> {
+    const key = `${KEY_PREFIX}${randomBytes(24).toString('base64url')}`;
+    const record: ApiKeyRecord = {
+      id: crypto.randomUUID(),
+      keyHash: hashApiKey(key),
+      name: request.name,
+      scopes: [...new Set(request.scopes)],
+      rateLimit: request.rateLimit ?? DEFAULT_KEY_RATE_LIMIT,
+      userId: request.userId,
+      expiresAt: request.expiresAt,
+      createdAt: new Date().toISOString(),
+    };
+    await (await this.store()).saveApiKey(record);
+    return { key, apiKey: toApiKeyView(record) };
+  }
+
+  async list(): Promise<ApiKeyView[]> {
+    return (await (await this.store()).listApiKeys()).map(toApiKeyView);
+  }
+
+  // Revoked keys stop working on their next request
+  async revoke(id: string): Promise<boolean> {
+    this.windows.delete(id);
+    return (await this.store()).deleteApiKey(id);
+  }
+}
@@ -0,0 +1,446 @@
+/**
+ * HireScore AI - Batch Screening Queue
+ *
+ * Accepts a whole requisition's worth of CVs in one request and screens them
+ * in the background, so the browser only polls for progress and a closed tab
+ * does not lose the run. A single worker pool is shared by every batch job,
+ * which caps concurrent AI calls for the whole server rather than per job.
+ *
+ * Every step of every candidate is also published as a numbered event, which
+ * the SSE route streams to the browser. Late subscribers get a replay.
+ *
+ * Pausing or cancelling aborts the job's in-flight model calls straight away,
+ * so nothing keeps generating (and billing) tokens. Paused candidates go back
+ * to the front of the queue; cancelled ones are dropped.
+ *
+ * A job may run under a session budget. Once the next call could cross it,
+ * the remaining candidates fail with BUDGET_EXCEEDED without a model call;
+ * likewise with QUOTA_EXCEEDED once the workspace's screening credits run out.
+ * With ensemble models, every candidate is scored by each of them and the
+ * opinions merged (see ScoringEngine.scoreEnsemble).
+ *
+ * Jobs live in memory and are dropped `retentionMs` after they finish.
+ */
+
+import { ProviderError, type UsageAttribution } from './ai-provider.js';
+import {
+  MAX_BATCH_CANDIDATES,
+  type BatchEvent,
+  type BatchItem,
+  type BatchJob,
+  type BatchJobStatus,
+} from './api-contract.js';
+import { BudgetExceededError, type SessionBudget } from './budget.js';
+import { logger } from './logger.js';
+import { QuotaExceededError, type CreditAccount } from './quotas.js';
+import {
+  MIN_CV_LENGTH,
+  ScreeningValidationError,
+  type ScoreProgress,
+  type ScoringEngine,
+} from './scoring-engine.js';
+
+const log = logger.child({ component: 'batch-queue' });
+
+// ============================================
+// Types
+// ============================================
+
+export interface BatchCandidateInput {
+  name: string;
+  cvContent: string;
+}
+
+// Jobs, items and events are what the /v1 API returns - see api-contract.ts
+export type { BatchEvent, BatchItem, BatchJob, BatchJobStatus };
+
+export type BatchEventRecord = BatchEvent & { seq: number; jobId: string; timestamp: string };
+
+export type BatchEventListener = (event: BatchEventRecord) => void;
+
+// Rate-limit retries and model fallback happen inside the scoring engine
+export interface EnqueueOptions {
+  budget?: SessionBudget;
+  // Each screened CV takes one of its credits
+  credits?: CreditAccount;
+  // Score every CV with each of these models (`model` first) and merge the opinions
+  ensembleModels?: string[];
+  // Who queued the job; calls are logged against the job itself
+  attribution?: UsageAttribution;
+}
+
+export interface BatchQueueOptions {
+  concurrency: number;
+  retentionMs: number;
+}
+
+// CV text is kept beside the job rather than in it so status responses stay small
+interface QueuedJob {
+  job: BatchJob;
+  inputs: BatchCandidateInput[];
+  jobDescription: string;
+  events: BatchEventRecord[];
+  listeners: Set<BatchEventListener>;
+  // Replaced after every pause so resumed calls get a fresh signal
+  controller: AbortController;
+  budget?: SessionBudget;
+  credits?: CreditAccount;
+  attribution: UsageAttribution;
+}
+
+interface Task {
+  entry: QueuedJob;
+  item: BatchItem;
+}
+
+/**
+ * Raised when a pause/resume/cancel does not apply to the job's current state.
+ */
+export class BatchJobStateError extends Error {
+  status: number;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'BatchJobStateError';
+    this.status = 409;
+  }
+}
+
+// ============================================
+// Configuration
+// ============================================
+
+export { MAX_BATCH_CANDIDATES };
+
+const DEFAULT_OPTIONS: BatchQueueOptions = {
+  concurrency: 5,
+  retentionMs: 60 * 60 * 1000, // 1 hour
+};
+
+export function getBatchQueueOptions(env: NodeJS.ProcessEnv = process.env): BatchQueueOptions {
+  const concurrency = Number(env.BATCH_CONCURRENCY);
+  return {
+    ...DEFAULT_OPTIONS,
+    concurrency: Number.isInteger(concurrency) && concurrency > 0 ? concurrency : DEFAULT_OPTIONS.concurrency,
+  };
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+type Failure = { error: string; errorCode: string; issues?: string[] };
+
+function describeFailure(error: unknown): Failure {
+  if (error instanceof ScreeningValidationError) {
+    return { error: error.message, errorCode: 'INVALID_AI_OUTPUT', issues: error.issues };
+  }
+  if (error instanceof BudgetExceededError) {
+    return { error: error.message, errorCode: 'BUDGET_EXCEEDED' };
+  }
+  if (error instanceof QuotaExceededError) {
+    return { error: error.message, errorCode: 'QUOTA_EXCEEDED' };
+  }
+  if (error instanceof ProviderError) {
+    const errorCode = error.status === 429 ? 'RATE_LIMITED'
+      : error.status === 401 || error.status === 403 ? 'AUTH'
+      : 'PROVIDER_ERROR';
+    return { error: error.message, errorCode };
+  }
+  return { error: (error as Error).message, errorCode: 'INTERNAL_ERROR' };
+}
+
+// ============================================
+// Queue
+// ============================================
+
+export class BatchQueue {
+  private engine: ScoringEngine;
+  private options: BatchQueueOptions;
+  private jobs = new Map<string, QueuedJob>();
+  private pending: Task[] = [];
+  private active = 0;
+
+  constructor(engine: ScoringEngine, options: BatchQueueOptions = DEFAULT_OPTIONS) {
+    this.engine = engine;
+    this.options = options;
+  }
+
+  enqueue(
+    jobDescription: string,
+    inputs: BatchCandidateInput[],
+    model: string,
+    { budget, credits, ensembleModels, attribution }: EnqueueOptions = {}
+  ): BatchJob {
+    this.prune();
+
+    const job: BatchJob = {
+      id: crypto.randomUUID(),
+      status: 'queued',
+      model,
+      ensembleModels,
+      total: inputs.length,
+      processed: 0,
+      failed: 0,
+      cancelled: 0,
+      items: inputs.map((input, index) => ({
+        index,
+        name: input.name,
+        status: 'pending',
+        attempts: 0,
+      })),
+      createdAt: new Date().toISOString(),
+    };
+
+    const entry: QueuedJob = {
+      job,
+      inputs,
+      jobDescription,
+      events: [],
+      listeners: new Set(),
+      controller: new AbortController(),
+      budget,
+      credits,
+      attribution: { ...attribution, resourceType: 'batch_job', resourceId: job.id },
+    };
+    this.jobs.set(job.id, entry);
+    this.pending.push(...job.items.map(item => ({ entry, item })));
+    this.drain();
+
+    return this.get(job.id) as BatchJob;
+  }
+
+  // Snapshot, so callers never observe a half-updated item
+  get(id: string): BatchJob | null {
+    const entry = this.jobs.get(id);
+    if (!entry) return null;
+    const job = structuredClone(entry.job);
+    if (entry.budget) job.budget = entry.budget.snapshot();
+    return job;
+  }
+
+  // Returns null when the job does not exist; pausing a paused job is a no-op
+  pause(id: string): BatchJob | null {
+    const entry = this.jobs.get(id);
+    if (!entry) return null;
+    const { job } = entry;
+
+    if (job.status !== 'paused') {
+      if (job.status !== 'queued' && job.status !== 'running') {
+        throw new BatchJobStateError(`Batch job is already ${job.status}`);
+      }
+      job.status = 'paused';
+      entry.controller.abort();
+      entry.controller = new AbortController();
+      this.emit(entry, { type: 'paused' });
+    }
+    return this.get(id);
+  }
+
+  resume(id: string): BatchJob | null {
+    const entry = this.jobs.get(id);
+    if (!entry) return null;
+    const { job } = entry;
+
+    if (job.status === 'paused') {
+      job.status = job.startedAt ? 'running' : 'queued';
+      this.emit(entry, { type: 'resumed' });
+      this.drain();
+    } else if (job.status !== 'queued' && job.status !== 'running') {
+      throw new BatchJobStateError(`Batch job is already ${job.status}`);
+    }
+    return this.get(id);
+  }
+
+  // Keeps every result already produced; everything else is marked cancelled
+  cancel(id: string): BatchJob | null {
+    const entry = this.jobs.get(id);
+    if (!entry) return null;
+    const { job } = entry;
+
+    if (job.status === 'completed') {
+      throw new BatchJobStateError('Batch job is already completed');
+    }
+    if (job.status !== 'cancelled') {
+      job.status = 'cancelled';
+      entry.controller.abort();
+      this.pending = this.pending.filter(task => task.entry !== entry);
+
+      const now = new Date().toISOString();
+      for (const item of job.items) {
+        if (item.status === 'pending' || item.status === 'processing') {
+          item.status = 'cancelled';
+          item.completedAt = now;
+          job.cancelled++;
+        }
+      }
+      job.completedAt = now;
+      entry.inputs = [];
+      this.emit(entry, {
+        type: 'cancelled',
+        processed: job.processed,
+        failed: job.failed,
+        cancelled: job.cancelled,
+      });
+      entry.listeners.clear();
+    }
+    return this.get(id);
+  }
+
+  /**
+   * Replays events after `afterSeq`, then delivers new ones as they happen.
+   * Returns an unsubscribe function, or null if the job does not exist.
+   */
+  subscribe(id: string, listener: BatchEventListener, afterSeq = 0): (() => void) | null {
+    const entry = this.jobs.get(id);
+    if (!entry) return null;
+
+    for (const event of entry.events) {
+      if (event.seq > afterSeq) listener(event);
+    }
+    entry.listeners.add(listener);
+    return () => entry.listeners.delete(listener);
+  }
+
+  private emit(entry: QueuedJob, event: BatchEvent) {
+    const record: BatchEventRecord = {
+      ...event,
+      seq: entry.events.length + 1,
+      jobId: entry.job.id,
+      timestamp: new Date().toISOString(),
+    };
+    entry.events.push(record);
+    for (const listener of entry.listeners) {
+      try {
+        listener(record);
+      } catch (error) {
+        log.error('Event listener failed', { jobId: entry.job.id, error });
+      }
+    }
+  }
+
+  private drain() {
+    while (this.active < this.options.concurrency) {
+      // Paused jobs keep their place in line but are skipped
+      const next = this.pending.findIndex(task => task.entry.job.status !== 'paused');
+      if (next === -1) break;
+      const [task] = this.pending.splice(next, 1);
+      this.active++;
+      void this.run(task).finally(() => {
+        this.active--;
+        this.drain();
+      });
+    }
+  }
+
+  private async run({ entry, item }: Task) {
+    const { job } = entry;
+    const cvContent = entry.inputs[item.index].cvContent || '';
+
+    if (job.status === 'queued') {
+      job.status = 'running';
+      job.startedAt = new Date().toISOString();
+    }
+    item.status = 'processing';
+    item.startedAt = new Date().toISOString();
+
+    if (cvContent.length < MIN_CV_LENGTH) {
+      this.finish(entry, item, {
+        error: 'CV content is too short to screen',
+        errorCode: 'INSUFFICIENT_CONTENT',
+      });
+      return;
+    }
+    this.emit(entry, { type: 'parsed', index: item.index, name: item.name, characters: cvContent.length });
+
+    for (;;) {
+      if (this.stopped(entry, item)) return;
+
+      item.attempts++;
+      const { signal } = entry.controller;
+      try {
+        const options = {
+          signal,
+          budget: entry.budget,
+          credits: entry.credits,
+          attribution: entry.attribution,
+          onProgress: (progress: ScoreProgress) => this.emit(entry, { ...progress, index: item.index }),
+        };
+        const outcome = job.ensembleModels
+          ? await this.engine.scoreEnsemble(entry.jobDescription, cvContent, job.ensembleModels, options)
+          : await this.engine.score(entry.jobDescription, cvContent, { ...options, model: job.model });
+        // A result that lands after cancel is discarded with the rest of the job
+        if (job.status === 'cancelled') return;
+        item.result = outcome.result;
+        item.model = outcome.model;
+        item.usage = outcome.usage;
+        item.costUsd = outcome.costUsd;
+        item.cached = outcome.cached;
+        item.ensemble = outcome.ensemble;
+        this.finish(entry, item);
+        return;
+      } catch (error) {
+        // Aborted by pause/cancel - `stopped` decides; a quick resume just retries
+        if (signal.aborted) continue;
+        this.finish(entry, item, describeFailure(error));
+        return;
+      }
+    }
+  }
+
+  // True when pause or cancel has taken this item away from its worker
+  private stopped(entry: QueuedJob, item: BatchItem): boolean {
+    const { job } = entry;
+    if (job.status === 'cancelled') return true;
+    if (job.status === 'paused') {
+      item.status = 'pending';
+      item.startedAt = undefined;
+      this.pending.unshift({ entry, item });
+      return true;
+    }
+    return false;
+  }
+
+  private finish(entry: QueuedJob, item: BatchItem, failure?: Failure) {
+    const { job } = entry;
+    item.status = failure ? 'failed' : 'completed';
+    item.completedAt = new Date().toISOString();
+    Object.assign(item, failure);
+
+    job.processed++;
+    if (failure) {
+      job.failed++;
+      this.emit(entry, { type: 'failed', index: item.index, name: item.name, ...failure });
+    } else {
+      this.emit(entry, {
+        type: 'scored',
+        index: item.index,
+        name: item.name,
+        result: item.result as NonNullable<BatchItem['result']>,
+        model: item.model as string,
+        usage: item.usage,
+        costUsd: item.costUsd ?? null,
+        cached: item.cached,
+        ensemble: item.ensemble,
+      });
+    }
+
+    if (job.processed === job.total) {
+      job.status = 'completed';
+      job.completedAt = item.completedAt;
+      // The CVs are no longer needed once every item has a result
+      entry.inputs = [];
+      this.emit(entry, { type: 'completed', processed: job.processed, failed: job.failed });
+      entry.listeners.clear();
+    }
+  }
+
+  private prune() {
+    const cutoff = Date.now() - this.options.retentionMs;
+    for (const [id, { job }] of this.jobs) {
+      if (job.completedAt && Date.parse(job.completedAt) < cutoff) {
+        this.jobs.delete(id);
+      }
+    }
+  }
+}
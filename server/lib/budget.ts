@@ -0,0 +1,204 @@
+/**
+ * HireScore AI - Session Budgets
+ *
+ * A dollar cap per screening session, enforced where the model is called.
+ * Before each call the engine reserves that call's worst-case cost (the
+ * estimated prompt plus the full completion allowance); once the call returns,
+ * the reservation is replaced by what it actually cost. A call whose worst case
+ * would cross the cap is refused, so concurrent calls cannot overshoot it
+ * together. Cached results cost nothing and are never refused.
+ *
+ * A model without a known price cannot be held to a dollar cap, so capped
+ * calls to it are refused too.
+ *
+ * Budgets live in process memory and are dropped after a day without use.
+ */
+
+import type { BudgetSnapshot } from './api-contract.js';
+import { roundUsd } from './pricing.js';
+
+// ============================================
+// Types
+// ============================================
+
+export type { BudgetSnapshot };
+
+// One reserved call - settle with its real cost, or release if nothing was billed
+export interface BudgetHold {
+  settle(costUsd: number | null): void;
+  release(): void;
+}
+
+// The fields a screening request may carry to open or extend a budget
+export interface BudgetRequestFields {
+  sessionId?: unknown;
+  budgetUsd?: unknown;
+  spentUsd?: unknown;
+}
+
+/**
+ * Raised instead of making a model call that could take the session over its cap.
+ */
+export class BudgetExceededError extends Error {
+  status: number;
+  budget: BudgetSnapshot;
+
+  constructor(message: string, budget: BudgetSnapshot) {
+    super(message);
+    this.name = 'BudgetExceededError';
+    this.status = 402;
+    this.budget = budget;
+  }
+}
+
+// ============================================
+// Budget
+// ============================================
+
+export class SessionBudget {
+  readonly sessionId: string;
+  capUsd: number;
+  lastUsedAt = Date.now();
+  private spentUsd: number;
+  private reservedUsd = 0;
+  // Reservations waiting for an in-flight call to settle
+  private waiters: Array<() => void> = [];
+
+  constructor(sessionId: string, capUsd: number, spentUsd = 0) {
+    this.sessionId = sessionId;
+    this.capUsd = capUsd;
+    this.spentUsd = spentUsd;
+  }
+
+  // Spend reported by the client can only tighten the budget, never loosen it
+  recordSpent(spentUsd: number): void {
+    this.spentUsd = Math.max(this.spentUsd, spentUsd);
+  }
+
+  /**
+   * Reserve a call's worst-case cost, or throw BudgetExceededError.
+   * `worstCaseUsd` is null when the model's price is unknown. When only calls
+   * still in flight stand in the way, waits for them - they usually come in
+   * well under their reservation.
+   */
+  async reserve(worstCaseUsd: number | null): Promise<BudgetHold> {
+    this.lastUsedAt = Date.now();
+    if (worstCaseUsd === null) {
+      throw new BudgetExceededError('The model has no known price, so it cannot run under a budget cap', this.snapshot());
+    }
+    while (this.spentUsd + this.reservedUsd + worstCaseUsd > this.capUsd) {
+      if (this.reservedUsd <= 0 || this.spentUsd + worstCaseUsd > this.capUsd) {
+        throw new BudgetExceededError(`Session budget of $${this.capUsd} reached`, this.snapshot());
+      }
+      await new Promise<void>(resolve => this.waiters.push(resolve));
+    }
+
+    this.reservedUsd = roundUsd(this.reservedUsd + worstCaseUsd);
+    let open = true;
+    const close = (chargedUsd: number) => {
+      if (!open) return;
+      open = false;
+      this.reservedUsd = roundUsd(this.reservedUsd - worstCaseUsd);
+      this.spentUsd = roundUsd(this.spentUsd + chargedUsd);
+      const waiters = this.waiters;
+      this.waiters = [];
+      for (const wake of waiters) wake();
+    };
+    return {
+      // An unpriced answer (e.g. a different model answered) is charged at the reservation
+      settle: (costUsd) => close(costUsd ?? worstCaseUsd),
+      release: () => close(0),
+    };
+  }
+
+  snapshot(): BudgetSnapshot {
+    return {
+      sessionId: this.sessionId,
+      capUsd: this.capUsd,
+      spentUsd: this.spentUsd,
+      remainingUsd: roundUsd(Math.max(0, this.capUsd - this.spentUsd)),
+    };
+  }
+}
+
+// ============================================
+// Registry
+// ============================================
+
+const IDLE_TTL_MS = 24 * 60 * 60 * 1000;
+
+export class BudgetRegistry {
+  private budgets = new Map<string, SessionBudget>();
+
+  get(sessionId: string): SessionBudget | null {
+    return this.budgets.get(sessionId) ?? null;
+  }
+
+  // Creates the session's budget, or lowers the cap of an existing one (spend is kept).
+  // A cap is never raised - any later request could otherwise lift it by resending budgetUsd.
+  open(sessionId: string, capUsd: number, spentUsd = 0): SessionBudget {
+    this.prune();
+    let budget = this.budgets.get(sessionId);
+    if (budget) {
+      budget.capUsd = Math.min(budget.capUsd, capUsd);
+      budget.recordSpent(spentUsd);
+    } else {
+      budget = new SessionBudget(sessionId, capUsd, spentUsd);
+      this.budgets.set(sessionId, budget);
+    }
+    return budget;
+  }
+
+  /**
+   * Budget for a screening request: `budgetUsd` opens or lowers the cap, a bare
+   * `sessionId` picks up the cap set earlier. Returns an error message for
+   * malformed fields.
+   */
+  fromRequest(fields: BudgetRequestFields): { budget?: SessionBudget } | { error: string } {
+    const { sessionId, budgetUsd, spentUsd } = fields;
+    if (sessionId === undefined && budgetUsd === undefined) return {};
+    if (typeof sessionId !== 'string' || !sessionId) {
+      return { error: 'sessionId must be a non-empty string' };
+    }
+    if (budgetUsd === undefined) {
+      return { budget: this.get(sessionId) ?? undefined };
+    }
+    if (typeof budgetUsd !== 'number' || !Number.isFinite(budgetUsd) || budgetUsd <= 0) {
+      return { error: 'budgetUsd must be a positive number' };
+    }
+    const spent = spentUsd ?? 0;
+    if (typeof spent !== 'number' || !Number.isFinite(spent) || spent < 0) {
+      return { error: 'spentUsd must be a non-negative number' };
+    }
+    return { budget: this.open(sessionId, budgetUsd, spent) };
+  }
+
+  private prune() {
+    const cutoff = Date.now() - IDLE_TTL_MS;
+    for (const [id, budget] of this.budgets) {
+      if (budget.lastUsedAt < cutoff) this.budgets.delete(id);
+    }
+  }
+}
+
+let registryInstance: BudgetRegistry | null = null;
+
+// Process-wide, like the result cache; a warm Vercel instance keeps its budgets
+export function getBudgetRegistry(): BudgetRegistry {
+  if (!registryInstance) {
+    registryInstance = new BudgetRegistry();
+  }
+  return registryInstance;
+}
+
+/**
+ * Response body for a refused call - shared by every runtime.
+ */
+export function budgetErrorBody(error: BudgetExceededError) {
+  return {
+    success: false,
+    error: error.message,
+    errorCode: 'BUDGET_EXCEEDED',
+    budget: error.budget,
+  };
+}
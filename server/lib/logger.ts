@@ -0,0 +1,189 @@
+/**
+ * HireScore AI - Logging
+ *
+ * Every log line is one JSON object: time, level, msg, the request ID when
+ * logged while serving a request, and the call's fields. Each request gets an
+ * ID - the caller's X-Request-Id when it sends a usable one - that is echoed
+ * in the X-Request-Id response header and in error bodies, so a user's report
+ * can be matched to the server's lines.
+ *
+ * Logs must never carry a candidate's data. Fields holding a CV, parsed
+ * document text or model output are replaced by their length, and email
+ * addresses and phone numbers are masked in every other string.
+ *
+ *   LOG_LEVEL  debug | info | warn | error (default info)
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { randomUUID } from 'node:crypto';
+import { isIPv4 } from 'node:net';
+
+// ============================================
+// Types
+// ============================================
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  debug(msg: string, fields?: LogFields): void;
+  info(msg: string, fields?: LogFields): void;
+  warn(msg: string, fields?: LogFields): void;
+  error(msg: string, fields?: LogFields): void;
+  // Adds `fields` to every line it logs
+  child(fields: LogFields): Logger;
+}
+
+// The parts of a Node request/response the request log needs - Express and Vercel both fit
+export interface LoggedRequest {
+  method?: string;
+  url?: string;
+  // Express rewrites `url` inside mounted routers
+  originalUrl?: string;
+  headers: Record<string, string | string[] | undefined>;
+}
+
+export interface LoggedResponse {
+  statusCode: number;
+  setHeader(name: string, value: string): unknown;
+  on(event: 'close', listener: () => void): unknown;
+}
+
+// ============================================
+// Configuration
+// ============================================
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+export function getLogLevel(env: NodeJS.ProcessEnv = process.env): LogLevel {
+  const level = env.LOG_LEVEL?.toLowerCase();
+  return level && level in LEVELS ? level as LogLevel : 'info';
+}
+
+// CV text, parsed documents and model output - logged as their length only
+const REDACTED_FIELDS = new Set([
+  'cvContent', 'cvText', 'rawText', 'rawResponse', 'content', 'text', 'base64', 'messages', 'candidates',
+]);
+
+const MAX_DEPTH = 5;
+
+// ============================================
+// Redaction
+// ============================================
+
+const EMAIL = /[\w.%+-]+@[\w-]+(?:\.[\w-]+)*\.[a-z]{2,}/gi;
+// Digit runs with phone punctuation; fewer than 9 digits (dates, times, amounts) are left
+// alone, and so are runs inside words - UUIDs, hashes, model names - and IPv4 addresses
+const PHONE = /(?<![\w-])\+?\(?\d[\d\s().-]{6,}\d(?![\w-])/g;
+
+export function redactText(text: string): string {
+  return text
+    .replace(EMAIL, '[email]')
+    .replace(PHONE, match => match.replace(/\D/g, '').length >= 9 && !isIPv4(match) ? '[phone]' : match);
+}
+
+/**
+ * A copy of `value` that is safe to log - see the module comment.
+ */
+export function redact(value: unknown, depth = 0): unknown {
+  if (typeof value === 'string') return redactText(value);
+  if (value === null || typeof value !== 'object') return value;
+  if (depth >= MAX_DEPTH) return '[truncated]';
+
+  if (value instanceof Error) {
+    const { status, code } = value as Error & { status?: unknown; code?: unknown };
+    return {
+      name: value.name,
+      message: redactText(value.message),
+      status,
+      code,
+      stack: value.stack && redactText(value.stack),
+    };
+  }
+  if (Array.isArray(value)) return value.map(item => redact(item, depth + 1));
+
+  return Object.fromEntries(Object.entries(value).map(([key, field]) => [
+    key,
+    REDACTED_FIELDS.has(key) && field != null
+      ? `[redacted ${typeof field === 'string' ? `${field.length} chars` : typeof field}]`
+      : redact(field, depth + 1),
+  ]));
+}
+
+// ============================================
+// Request Context
+// ============================================
+
+const requestContext = new AsyncLocalStorage<{ requestId: string }>();
+
+// A caller-supplied ID is kept only if it is a short opaque token
+const REQUEST_ID = /^[\w.:-]{8,64}$/;
+
+export function currentRequestId(): string | undefined {
+  return requestContext.getStore()?.requestId;
+}
+
+/**
+ * Serves one request: binds its ID for every line logged while handling it,
+ * echoes the ID in X-Request-Id, and logs the method, path, status and
+ * duration once the response is done.
+ */
+export function logRequest<T>(req: LoggedRequest, res: LoggedResponse, handle: () => T): T {
+  const header = req.headers['x-request-id'];
+  const requestId = typeof header === 'string' && REQUEST_ID.test(header) ? header : randomUUID();
+  const startedAt = performance.now();
+  res.setHeader('X-Request-Id', requestId);
+
+  res.on('close', () => {
+    const status = res.statusCode;
+    const level: LogLevel = status >= 500 ? 'error' : status >= 400 ? 'warn' : 'info';
+    logger[level]('request', {
+      requestId,
+      method: req.method,
+      // The query string can carry user input; the path is enough to find the route
+      path: (req.originalUrl ?? req.url)?.split('?')[0],
+      status,
+      durationMs: Math.round(performance.now() - startedAt),
+    });
+  });
+
+  return requestContext.run({ requestId }, handle);
+}
+
+/**
+ * Wraps a Vercel function so it is served through logRequest.
+ */
+export function withRequestLogging<Req extends LoggedRequest, Res extends LoggedResponse, R>(
+  handler: (req: Req, res: Res) => R
+): (req: Req, res: Res) => R {
+  return (req, res) => logRequest(req, res, () => handler(req, res));
+}
+
+// ============================================
+// Logger
+// ============================================
+
+export function createLogger(bindings: LogFields = {}, level: LogLevel = getLogLevel()): Logger {
+  const write = (lineLevel: LogLevel, msg: string, fields?: LogFields) => {
+    if (LEVELS[lineLevel] < LEVELS[level]) return;
+    const line = JSON.stringify({
+      time: new Date().toISOString(),
+      level: lineLevel,
+      msg: redactText(msg),
+      requestId: currentRequestId(),
+      ...(redact({ ...bindings, ...fields }) as LogFields),
+    });
+    (LEVELS[lineLevel] >= LEVELS.warn ? process.stderr : process.stdout).write(`${line}\n`);
+  };
+
+  return {
+    debug: (msg, fields) => write('debug', msg, fields),
+    info: (msg, fields) => write('info', msg, fields),
+    warn: (msg, fields) => write('warn', msg, fields),
+    error: (msg, fields) => write('error', msg, fields),
+    child: fields => createLogger({ ...bindings, ...fields }, level),
+  };
+}
+
+export const logger = createLogger();
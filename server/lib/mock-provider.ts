@@ -0,0 +1,388 @@
+/**
+ * HireScore AI - Offline Mock Provider
+ *
+ * Deterministic stand-in for a real model, selected with AI_PROVIDER=mock.
+ * Output is derived purely from the request text (keyword overlap between the
+ * JD and CV), so demos, local development and integration tests run with no
+ * network and produce the same result for the same input every time.
+ *
+ * AI_MOCK_LATENCY_MS adds an artificial delay per call so progress, pause and
+ * cancel can be exercised locally. Like a real request, the delay is abortable.
+ * Models listed in AI_MOCK_UNAVAILABLE_MODELS answer 429 with Retry-After: 1,
+ * so retries and the model fallback chain can be exercised too.
+ */
+
+import {
+  ProviderError,
+  type AIProvider,
+  type ChatRequest,
+  type ChatResponse,
+  type ProviderConfig,
+} from './ai-provider.js';
+import { recommendationFor } from './scoring-engine.js';
+
+// ============================================
+// Keyword Vocabulary
+// ============================================
+
+interface SkillTerm {
+  name: string;
+  aliases: string[];
+}
+
+const SKILL_VOCABULARY: SkillTerm[] = [
+  { name: 'JavaScript', aliases: ['javascript', 'js', 'es6'] },
+  { name: 'TypeScript', aliases: ['typescript', 'ts'] },
+  { name: 'React', aliases: ['react', 'react.js', 'reactjs'] },
+  { name: 'Vue', aliases: ['vue', 'vue.js', 'vuejs'] },
+  { name: 'Angular', aliases: ['angular', 'angularjs'] },
+  { name: 'Node.js', aliases: ['node.js', 'nodejs', 'node'] },
+  { name: 'Express', aliases: ['express', 'express.js'] },
+  { name: 'Next.js', aliases: ['next.js', 'nextjs'] },
+  { name: 'Python', aliases: ['python', 'python3'] },
+  { name: 'Django', aliases: ['django'] },
+  { name: 'Flask', aliases: ['flask'] },
+  { name: 'FastAPI', aliases: ['fastapi'] },
+  { name: 'Java', aliases: ['java'] },
+  { name: 'Spring', aliases: ['spring', 'spring boot'] },
+  { name: 'Kotlin', aliases: ['kotlin'] },
+  { name: 'C#', aliases: ['c#', '.net', 'dotnet'] },
+  { name: 'C++', aliases: ['c++'] },
+  { name: 'Go', aliases: ['golang', 'go'] },
+  { name: 'Rust', aliases: ['rust'] },
+  { name: 'Ruby', aliases: ['ruby', 'rails', 'ruby on rails'] },
+  { name: 'PHP', aliases: ['php', 'laravel'] },
+  { name: 'Swift', aliases: ['swift'] },
+  { name: 'SQL', aliases: ['sql'] },
+  { name: 'PostgreSQL', aliases: ['postgresql', 'postgres', 'psql'] },
+  { name: 'MySQL', aliases: ['mysql', 'mariadb'] },
+  { name: 'MongoDB', aliases: ['mongodb', 'mongo'] },
+  { name: 'Redis', aliases: ['redis'] },
+  { name: 'GraphQL', aliases: ['graphql'] },
+  { name: 'REST APIs', aliases: ['rest', 'restful', 'rest api'] },
+  { name: 'AWS', aliases: ['aws', 'amazon web services', 'ec2', 'lambda'] },
+  { name: 'GCP', aliases: ['gcp', 'google cloud'] },
+  { name: 'Azure', aliases: ['azure'] },
+  { name: 'Docker', aliases: ['docker', 'containers'] },
+  { name: 'Kubernetes', aliases: ['kubernetes', 'k8s'] },
+  { name: 'Terraform', aliases: ['terraform'] },
+  { name: 'CI/CD', aliases: ['ci/cd', 'github actions', 'jenkins', 'gitlab ci'] },
+  { name: 'Git', aliases: ['git'] },
+  { name: 'Linux', aliases: ['linux'] },
+  { name: 'Machine Learning', aliases: ['machine learning', 'ml'] },
+  { name: 'TensorFlow', aliases: ['tensorflow'] },
+  { name: 'PyTorch', aliases: ['pytorch'] },
+  { name: 'Data Analysis', aliases: ['data analysis', 'analytics', 'pandas'] },
+  { name: 'Figma', aliases: ['figma'] },
+  { name: 'Agile', aliases: ['agile', 'scrum', 'kanban'] },
+  { name: 'Testing', aliases: ['testing', 'jest', 'cypress', 'tdd', 'unit tests'] },
+  { name: 'Leadership', aliases: ['leadership', 'led', 'mentored', 'mentoring'] },
+  { name: 'Communication', aliases: ['communication', 'stakeholder'] },
+  { name: 'Project Management', aliases: ['project management', 'roadmap'] },
+  { name: 'Sales', aliases: ['sales', 'quota', 'pipeline'] },
+  { name: 'Marketing', aliases: ['marketing', 'seo', 'campaigns'] },
+  { name: 'Excel', aliases: ['excel', 'spreadsheets'] },
+];
+
+const STOP_WORDS = new Set([
+  'about', 'above', 'after', 'again', 'their', 'there', 'these', 'those', 'which',
+  'while', 'would', 'should', 'could', 'where', 'other', 'being', 'every', 'within',
+  'including', 'experience', 'years', 'strong', 'ability', 'skills', 'knowledge',
+  'working', 'work', 'team', 'teams', 'using', 'role', 'candidate', 'position',
+  'responsibilities', 'requirements', 'required', 'preferred', 'looking', 'join',
+  'company', 'will', 'with', 'from', 'into', 'your', 'have', 'that', 'this', 'what',
+  'excellent', 'great', 'good', 'plus', 'must', 'able', 'well', 'across', 'through',
+]);
+
+const DEGREE_TERMS = ['bachelor', 'master', 'phd', 'b.sc', 'm.sc', 'bsc', 'msc', 'degree', 'university', 'college', 'mba'];
+const SENIORITY_TERMS = ['senior', 'lead', 'principal', 'staff', 'manager', 'head of', 'director', 'promoted', 'architect'];
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// A leading '.' counts as part of the word so `js` doesn't match inside `node.js`
+function containsTerm(text: string, term: string): boolean {
+  return new RegExp(`(^|[^a-z0-9+#.])${escapeRegExp(term)}($|[^a-z0-9+#])`).test(text);
+}
+
+function findSkills(text: string): string[] {
+  const lower = text.toLowerCase();
+  return SKILL_VOCABULARY
+    .filter(skill => skill.aliases.some(alias => containsTerm(lower, alias)))
+    .map(skill => skill.name);
+}
+
+function hasSkill(text: string, skillName: string): boolean {
+  const lower = text.toLowerCase();
+  const term = SKILL_VOCABULARY.find(s => s.name === skillName);
+  const aliases = term ? term.aliases : [skillName.toLowerCase()];
+  return aliases.some(alias => containsTerm(lower, alias));
+}
+
+// Fallback for non-technical JDs: most frequent meaningful words, ties broken alphabetically
+function topKeywords(text: string, limit: number): string[] {
+  const counts = new Map<string, number>();
+  for (const word of text.toLowerCase().match(/[a-z][a-z-]{4,}/g) || []) {
+    if (STOP_WORDS.has(word)) continue;
+    counts.set(word, (counts.get(word) || 0) + 1);
+  }
+  return [...counts.entries()]
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, limit)
+    .map(([word]) => word.charAt(0).toUpperCase() + word.slice(1));
+}
+
+function maxYears(text: string): number {
+  const matches = [...text.matchAll(/(\d{1,2})\s*\+?\s*(?:years|yrs)/gi)];
+  return matches.reduce((max, m) => Math.max(max, parseInt(m[1], 10)), 0);
+}
+
+function countTerms(text: string, terms: string[]): number {
+  const lower = text.toLowerCase();
+  return terms.filter(term => lower.includes(term)).length;
+}
+
+// The first line that reads like a person's name - two to four capitalised words
+function firstNameLine(text: string): string | null {
+  const line = text.split('\n').map(l => l.trim()).find(l => /^(?:\p{Lu}[\p{L}'.-]*\s+){1,3}\p{Lu}[\p{L}'.-]*$/u.test(l));
+  return line ?? null;
+}
+
+function asString(value: unknown): string {
+  return typeof value === 'string' ? value : '';
+}
+
+// ============================================
+// Screening
+// ============================================
+
+function mockScreening(jobDescription: string, cvContent: string) {
+  let required = findSkills(jobDescription).slice(0, 10);
+  if (required.length === 0) {
+    required = topKeywords(jobDescription, 6);
+  }
+
+  const matchedSkills = required.filter(skill => hasSkill(cvContent, skill));
+  const missingSkills = required.filter(skill => !matchedSkills.includes(skill));
+  const partialMatches = findSkills(cvContent)
+    .filter(skill => !required.includes(skill))
+    .slice(0, 3);
+
+  const matchRatio = required.length > 0 ? matchedSkills.length / required.length : 0.5;
+  const requiredYears = maxYears(jobDescription);
+  const candidateYears = maxYears(cvContent);
+  const cvWords = cvContent.split(/\s+/).filter(Boolean).length;
+
+  const technicalSkills = Math.round(matchRatio * 35);
+  const experience = requiredYears === 0
+    ? Math.min(25, 12 + candidateYears * 2)
+    : Math.round(Math.min(1, candidateYears / requiredYears) * 25);
+  const education = countTerms(cvContent, DEGREE_TERMS) > 0 ? 12 : 6;
+  const careerProgression = Math.min(15, 6 + countTerms(cvContent, SENIORITY_TERMS) * 3);
+  const communication = Math.min(10, 4 + (/\d+%|\$\d/.test(cvContent) ? 3 : 0) + (cvWords > 250 ? 3 : 1));
+
+  const score = technicalSkills + experience + education + careerProgression + communication;
+  const recommendation = recommendationFor(score);
+  const confidence = Math.round((0.5 + 0.4 * Math.min(1, cvWords / 400)) * 100) / 100;
+
+  return {
+    candidateName: firstNameLine(cvContent),
+    score,
+    confidence,
+    recommendation,
+    summary: `Matches ${matchedSkills.length} of ${required.length} key requirements` +
+      (matchedSkills.length > 0 ? `, strongest in ${matchedSkills.slice(0, 2).join(' and ')}` : '') +
+      (missingSkills.length > 0 ? `. Gap: ${missingSkills.slice(0, 2).join(', ')}.` : '.'),
+    scoreBreakdown: { technicalSkills, experience, education, careerProgression, communication },
+    matchedSkills,
+    missingSkills,
+    partialMatches,
+    concerns: missingSkills.map(skill => `No evidence of ${skill} in CV`),
+    strengths: matchedSkills.slice(0, 3),
+    interviewQuestions: [
+      ...matchedSkills.slice(0, 2).map(skill => `[TECH] Walk through a recent project where you used ${skill}.`),
+      ...missingSkills.slice(0, 2).map(skill => `[FINAL] How would you get up to speed with ${skill}?`),
+      '[BEHAVIORAL] Describe a decision you made that you would approach differently today.',
+    ],
+    experienceYears: candidateYears,
+    skillMatchPercent: Math.round(matchRatio * 100),
+    educationMatch: education >= 12,
+  };
+}
+
+// ============================================
+// Company Research
+// ============================================
+
+function mockCompanyResearch(url: string, content: string) {
+  let hostname = url;
+  try {
+    hostname = new URL(url).hostname;
+  } catch {
+    // Keep the raw value - the route validated that a URL was supplied
+  }
+  const base = hostname.replace(/^www\./, '').split('.')[0] || 'Company';
+  const name = base.charAt(0).toUpperCase() + base.slice(1);
+  const lower = content.toLowerCase();
+
+  const firstSentence = content.split(/(?<=[.!?])\s+/).find(s => s.length > 40);
+
+  return {
+    name,
+    description: firstSentence?.slice(0, 300) || `${name} is a company operating at ${hostname}.`,
+    industry: lower.includes('health') ? 'Healthcare'
+      : lower.includes('bank') || lower.includes('fintech') || lower.includes('payment') ? 'Financial Services'
+      : lower.includes('retail') || lower.includes('shop') ? 'Retail'
+      : 'Technology',
+    size: lower.includes('enterprise') ? 'enterprise' : lower.includes('startup') ? 'startup' : 'smb',
+    location: 'Not specified',
+    techStack: findSkills(content).filter(s => !['Leadership', 'Communication', 'Sales', 'Marketing'].includes(s)).slice(0, 8),
+    cultureValues: topKeywords(content, 4),
+    workStyle: lower.includes('remote') ? 'remote' : lower.includes('hybrid') ? 'hybrid' : 'onsite',
+    benefits: lower.includes('benefit') ? ['Health insurance', 'Paid time off'] : [],
+    confidence: content ? 0.6 : 0.3,
+  };
+}
+
+// ============================================
+// JD Generation
+// ============================================
+
+function mockJobDescription(jobTitle: string, companyProfile: Record<string, unknown> | null) {
+  const lowerTitle = jobTitle.toLowerCase();
+  const seniorityLevel = /principal/.test(lowerTitle) ? 'principal'
+    : /staff/.test(lowerTitle) ? 'staff'
+    : /senior|sr\.?\s|lead/.test(lowerTitle) ? 'senior'
+    : /junior|jr\.?\s|graduate|intern/.test(lowerTitle) ? 'junior'
+    : 'mid';
+  const experienceMin = { junior: 0, mid: 2, senior: 5, staff: 8, principal: 10 }[seniorityLevel];
+
+  const techStack = Array.isArray(companyProfile?.techStack)
+    ? (companyProfile.techStack as unknown[]).filter((t): t is string => typeof t === 'string')
+    : [];
+  const titleSkills = findSkills(jobTitle);
+  const requiredSkills = [...new Set([...titleSkills, ...techStack])].slice(0, 5);
+  if (requiredSkills.length === 0) {
+    requiredSkills.push('Communication', 'Problem Solving', 'Collaboration');
+  }
+  const niceToHaveSkills = [...new Set(techStack)].filter(s => !requiredSkills.includes(s)).slice(0, 3);
+  const companyName = asString(companyProfile?.name);
+
+  const summary = `${companyName ? `${companyName} is` : 'We are'} hiring a ${jobTitle} to own key outcomes for the team. ` +
+    `You will work closely with colleagues across the business and bring ${seniorityLevel}-level judgement.`;
+  const responsibilities = [
+    `Deliver high-quality work as a ${jobTitle}`,
+    'Collaborate with cross-functional partners to plan and ship',
+    'Continuously improve processes, quality and documentation',
+  ];
+  if (seniorityLevel !== 'junior' && seniorityLevel !== 'mid') {
+    responsibilities.push('Mentor teammates and raise the bar for the team');
+  }
+
+  const fullText = [
+    companyName ? `${jobTitle} - ${companyName}` : jobTitle,
+    '',
+    summary,
+    '',
+    'Responsibilities:',
+    ...responsibilities.map(r => `- ${r}`),
+    '',
+    'Requirements:',
+    `- ${experienceMin}+ years of relevant experience`,
+    ...requiredSkills.map(s => `- ${s}`),
+    ...(niceToHaveSkills.length > 0 ? ['', 'Nice to have:', ...niceToHaveSkills.map(s => `- ${s}`)] : []),
+  ].join('\n');
+
+  return {
+    title: jobTitle,
+    department: findSkills(jobTitle).length > 0 || /engineer|developer/.test(lowerTitle) ? 'Engineering' : 'General',
+    seniorityLevel,
+    employmentType: 'full-time',
+    summary,
+    responsibilities,
+    requiredSkills,
+    niceToHaveSkills,
+    experienceMin,
+    experienceMax: experienceMin + 3,
+    education: "Bachelor's degree or equivalent experience",
+    remoteAllowed: asString(companyProfile?.workStyle) !== 'onsite',
+    fullText,
+    confidence: 0.7,
+  };
+}
+
+// ============================================
+// Provider
+// ============================================
+
+// Rough token estimate so usage-driven UI still has numbers to show
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    signal?.throwIfAborted();
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    }, { once: true });
+  });
+}
+
+function respond(request: ChatRequest, body: unknown): ChatResponse {
+  const content = JSON.stringify(body);
+  const prompt = request.messages.map(m => m.content).join('\n');
+  const promptTokens = estimateTokens(prompt);
+  const completionTokens = estimateTokens(content);
+
+  return {
+    content,
+    model: request.model,
+    usage: {
+      prompt_tokens: promptTokens,
+      completion_tokens: completionTokens,
+      total_tokens: promptTokens + completionTokens,
+    },
+  };
+}
+
+export function createMockProvider(config: ProviderConfig): AIProvider {
+  return {
+    name: 'mock',
+    defaultModel: config.defaultModel,
+    async chat(request) {
+      if (config.mockLatencyMs) {
+        await delay(config.mockLatencyMs, request.signal);
+      }
+      request.signal?.throwIfAborted();
+      if (config.mockUnavailableModels?.includes(request.model)) {
+        throw new ProviderError('AI provider returned 429', 429, '{"error":"mock rate limit"}', 1);
+      }
+      const context = request.context || {};
+
+      switch (request.task) {
+        case 'company_research':
+          return respond(request, mockCompanyResearch(asString(context.url), asString(context.content)));
+        case 'jd_generate':
+          return respond(request, mockJobDescription(
+            asString(context.jobTitle) || 'Team Member',
+            (context.companyProfile as Record<string, unknown> | null) || null
+          ));
+        // There is no model to read the file - an empty answer leaves the extracted text in place
+        case 'ocr_pdf':
+          return { content: '', model: request.model };
+        default: {
+          // Without structured context, score the whole prompt against itself
+          const prompt = request.messages.filter(m => m.role === 'user').map(m => m.content).join('\n');
+          return respond(request, mockScreening(
+            asString(context.jobDescription) || prompt,
+            asString(context.cvContent) || prompt
+          ));
+        }
+      }
+    },
+  };
+}
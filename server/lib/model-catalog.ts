@@ -0,0 +1,270 @@
+/**
+ * HireScore AI - Model Catalog
+ *
+ * The models offered for screening. OpenRouter's come from its public
+ * catalog - every text model, top-tier providers and their latest versions
+ * first - refreshed at most every 10 minutes; fetching it also loads the
+ * prices costs are computed with. Other providers have no catalog and offer
+ * their configured model only.
+ */
+
+import type { AIProvider } from './ai-provider.js';
+import type { ModelInfo } from './api-contract.js';
+import { logger } from './logger.js';
+import { getConfiguredPricing, loadOpenRouterPricing, recordModelPricing } from './pricing.js';
+
+const log = logger.child({ component: 'model-catalog' });
+
+// ============================================
+// OpenRouter Catalog
+// ============================================
+
+// OpenRouter API model response type
+interface OpenRouterModel {
+  id: string;
+  name: string;
+  description?: string;
+  context_length?: number;
+  pricing?: { prompt?: string; completion?: string };
+  architecture?: { output_modalities?: string[] };
+}
+
+// Refresh the catalog every 10 minutes
+const CACHE_DURATION = 10 * 60 * 1000; // 10 minutes
+
+// Top-tier providers (sorted by quality for enterprise) - 2026 rankings
+const TOP_PROVIDERS = ['google', 'anthropic', 'openai', 'deepseek', 'meta-llama'] as const;
+const PREFERRED_PROVIDERS = TOP_PROVIDERS; // Alias for backward compatibility
+
+// Dynamic version extraction - detects latest models automatically
+// Production-ready: handles all common naming patterns
+function getModelVersion(id: string): number {
+  const lowerIdName = id.toLowerCase();
+
+  // Date-based versions get highest priority (e.g., 20260115, 2026-01)
+  const dateMatch = lowerIdName.match(/(\d{4})[-_]?(\d{2})[-_]?(\d{2})?/);
+  if (dateMatch) {
+    const year = parseInt(dateMatch[1]);
+    const month = parseInt(dateMatch[2]);
+    const day = dateMatch[3] ? parseInt(dateMatch[3]) : 1;
+    // Convert to a sortable number (e.g., 2026-01-15 → 20260115)
+    if (year >= 2020 && year <= 2030) {
+      return year * 10000 + month * 100 + day;
+    }
+  }
+
+  // Major version numbers (e.g., gemini-3, gpt-4, claude-4)
+  const majorVersionMatch = lowerIdName.match(/[-_](\d+(?:\.\d+)?)([-_]|$)/);
+  if (majorVersionMatch) {
+    return parseFloat(majorVersionMatch[1]) * 1000;
+  }
+
+  // Model family version (e.g., o1, o3, r1, v3)
+  const familyMatch = lowerIdName.match(/([ovr])(\d+)/);
+  if (familyMatch) {
+    // o3 > o1, r1 > v3 in priority
+    const prefix = familyMatch[1];
+    const num = parseInt(familyMatch[2]);
+    const prefixWeight = { 'o': 3, 'r': 2, 'v': 1 }[prefix] || 0;
+    return prefixWeight * 100 + num * 10;
+  }
+
+  return 0;
+}
+
+// Detect if model is "latest" based on naming conventions
+// Production-ready: comprehensive detection without hardcoding specific model IDs
+function isLatestModel(id: string, name: string): boolean {
+  const combined = (id + ' ' + name).toLowerCase();
+
+  // Latest year indicators (dynamic: current and next year)
+  const currentYear = new Date().getFullYear();
+  const yearIndicators = [String(currentYear), String(currentYear - 1)];
+
+  // Model quality tier indicators
+  const qualityIndicators = [
+    'pro', 'ultra', 'opus', 'sonnet', 'flash', 'turbo', 'plus',
+    'preview', 'exp', 'experimental', 'latest', 'thinking',
+  ];
+
+  // Cutting-edge model families
+  const cuttingEdgeFamilies = [
+    'o1', 'o3', 'o4', // OpenAI reasoning
+    'r1', 'r2', // DeepSeek reasoning
+    'gemini-2', 'gemini-3', // Google latest
+    'claude-4', 'claude-opus', 'claude-sonnet', // Anthropic
+    'llama-4', 'llama-3.3', // Meta latest
+  ];
+
+  // Check for any indicator match
+  const hasYearIndicator = yearIndicators.some(y => combined.includes(y));
+  const hasQualityIndicator = qualityIndicators.some(q => combined.includes(q));
+  const hasCuttingEdgeFamily = cuttingEdgeFamilies.some(f => combined.includes(f));
+
+  return hasYearIndicator || hasQualityIndicator || hasCuttingEdgeFamily;
+}
+
+async function fetchModelsFromOpenRouter(apiKey?: string): Promise<ModelInfo[]> {
+  try {
+    const response = await fetch('https://openrouter.ai/api/v1/models', {
+      headers: apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {},
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to fetch models');
+    }
+
+    const data = await response.json();
+
+    // Filter and transform models - ALL from API, no hardcoding
+    const models: ModelInfo[] = (data.data as OpenRouterModel[])
+      .filter((m: OpenRouterModel) => {
+        // Include models that support text generation
+        const hasTextOutput = m.architecture?.output_modalities?.includes('text');
+        return hasTextOutput;
+      })
+      .map((m: OpenRouterModel) => {
+        const category = getCategoryFromId(m.id);
+        // Mark as recommended if from preferred provider
+        const isPreferred = PREFERRED_PROVIDERS.some(p => m.id.startsWith(p + '/'));
+
+        const isLatest = isLatestModel(m.id, m.name);
+        const version = getModelVersion(m.id);
+
+        return {
+          id: m.id,
+          name: m.name,
+          description: m.description?.substring(0, 200),
+          contextLength: m.context_length,
+          pricing: {
+            prompt: m.pricing?.prompt || '0',
+            completion: m.pricing?.completion || '0',
+          },
+          recommended: isPreferred && isLatest, // Only recommend if BOTH top provider AND latest
+          category,
+          _version: version, // Internal for sorting
+          _isLatest: isLatest,
+        };
+      })
+      .sort((a: ModelInfo & { _version?: number; _isLatest?: boolean }, b: ModelInfo & { _version?: number; _isLatest?: boolean }) => {
+        // PRODUCTION SORTING: Provider tier + Latest versions for enterprise quality
+
+        // 1. Top-tier providers get massive boost
+        const aProviderIdx = TOP_PROVIDERS.findIndex(p => a.id.startsWith(p + '/'));
+        const bProviderIdx = TOP_PROVIDERS.findIndex(p => b.id.startsWith(p + '/'));
+        const aIsTopTier = aProviderIdx !== -1;
+        const bIsTopTier = bProviderIdx !== -1;
+
+        // Top-tier providers ALWAYS before others
+        if (aIsTopTier && !bIsTopTier) return -1;
+        if (!aIsTopTier && bIsTopTier) return 1;
+
+        // 2. Within same tier, latest models first
+        if (a._isLatest && !b._isLatest) return -1;
+        if (!a._isLatest && b._isLatest) return 1;
+
+        // 3. Within same tier + latest status, sort by provider rank
+        if (aIsTopTier && bIsTopTier && aProviderIdx !== bProviderIdx) {
+          return aProviderIdx - bProviderIdx; // Google > Anthropic > OpenAI > DeepSeek > Meta
+        }
+
+        // 4. Within same provider, higher version first
+        const versionDiff = (b._version || 0) - (a._version || 0);
+        if (versionDiff !== 0) return versionDiff;
+
+        // 5. Alphabetical fallback
+        return (a.name || '').localeCompare(b.name || '');
+      })
+      .map((model) => {
+        // Remove internal fields before returning to client
+        // eslint-disable-next-line @typescript-eslint/no-unused-vars
+        const { _version, _isLatest, ...cleanModel } = model as ModelInfo & { _version?: number; _isLatest?: boolean };
+        return cleanModel;
+      }); // Production-ready: no internal fields exposed
+
+    log.info('Fetched OpenRouter models', { count: models.length });
+    recordModelPricing(models);
+    return models;
+  } catch (error) {
+    log.error('Error fetching models from OpenRouter', { error });
+    // Return empty - let frontend handle the error
+    return [];
+  }
+}
+
+function getCategoryFromId(id: string): string {
+  if (id.startsWith('openai/')) return 'OpenAI';
+  if (id.startsWith('anthropic/')) return 'Anthropic';
+  if (id.startsWith('google/')) return 'Google';
+  if (id.startsWith('deepseek/') || id.includes('deepseek')) return 'DeepSeek';
+  if (id.startsWith('z-ai/') || id.includes('glm')) return 'GLM';
+  if (id.startsWith('meta-llama/') || id.startsWith('meta/')) return 'Meta';
+  if (id.startsWith('mistralai/')) return 'Mistral';
+  if (id.startsWith('bytedance/')) return 'ByteDance';
+  if (id.startsWith('nvidia/')) return 'NVIDIA';
+  if (id.startsWith('cohere/')) return 'Cohere';
+  if (id.startsWith('amazon/')) return 'Amazon';
+  return 'Other';
+}
+
+// ============================================
+// Catalog
+// ============================================
+
+export class ModelCatalog {
+  private provider: AIProvider;
+  private apiKey?: string;
+  private models: ModelInfo[] = [];
+  private loadedAt = 0;
+
+  constructor(provider: AIProvider, apiKey: string | undefined = process.env.OPENROUTER_API_KEY) {
+    this.provider = provider;
+    this.apiKey = apiKey;
+  }
+
+  async list(): Promise<{ models: ModelInfo[]; cached: boolean }> {
+    if (this.provider.name !== 'openrouter') {
+      return { models: this.providerModels(), cached: true };
+    }
+    if (this.models.length > 0 && Date.now() - this.loadedAt < CACHE_DURATION) {
+      return { models: this.models, cached: true };
+    }
+    // A failed fetch is empty and retried on the next call
+    this.models = await fetchModelsFromOpenRouter(this.apiKey);
+    this.loadedAt = Date.now();
+    return { models: this.models, cached: false };
+  }
+
+  // The short list for quick selection
+  async recommended(): Promise<ModelInfo[]> {
+    const { models } = await this.list();
+    return this.provider.name === 'openrouter' ? models.filter(m => m.recommended).slice(0, 10) : models;
+  }
+
+  async defaultModel(): Promise<string> {
+    if (this.provider.name !== 'openrouter') {
+      return this.provider.defaultModel;
+    }
+    const { models } = await this.list();
+    const recommended = models.find(m => m.recommended);
+    return recommended?.id || models[0]?.id || 'openai/gpt-4o-mini';
+  }
+
+  // Costs need catalog prices even if nobody has opened the model picker yet
+  async ensurePricing(): Promise<void> {
+    if (this.provider.name === 'openrouter') await loadOpenRouterPricing();
+  }
+
+  // Non-OpenRouter providers have no public catalog - expose the configured model only
+  private providerModels(): ModelInfo[] {
+    const pricing = getConfiguredPricing();
+    return [{
+      id: this.provider.defaultModel,
+      name: this.provider.defaultModel,
+      description: `Configured ${this.provider.name} model`,
+      pricing: pricing ? { prompt: String(pricing.prompt), completion: String(pricing.completion) } : undefined,
+      recommended: true,
+      category: this.provider.name,
+    }];
+  }
+}
@@ -0,0 +1,113 @@
+/**
+ * HireScore AI - Model Fallback
+ *
+ * Rate limits (429) and upstream failures (5xx) are retried on the same model
+ * with exponential backoff, waiting as long as the provider's Retry-After asks.
+ * Once those retries are spent - or Retry-After asks for longer than we are
+ * willing to wait - the call falls over to the next model in the chain.
+ * Anything else (bad request, auth, invalid output) fails straight away.
+ *
+ *   AI_FALLBACK_MODELS     comma-separated models tried in order after the requested
+ *                          one; "none" disables. OpenRouter defaults to FAST_MODELS.
+ *   AI_MAX_RETRIES         retries per model before falling over (default 2)
+ *   AI_MAX_RETRY_DELAY_MS  longest single wait; a longer Retry-After falls over at once
+ *                          (default 30000)
+ */
+
+import { ProviderError, type ProviderName } from './ai-provider.js';
+
+// ============================================
+// Types
+// ============================================
+
+export interface FallbackPolicy {
+  models: string[];
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+// ============================================
+// Configuration
+// ============================================
+
+// Fastest OpenRouter models for bulk processing (Jan 2026)
+export const FAST_MODELS = {
+  // Gemini 2.5 Flash-Lite: $0.1/M input - fastest, cheapest
+  'gemini-flash-lite': 'google/gemini-2.5-flash-lite',
+  // Gemini 2.0 Flash: $0.1/M input - fast, reliable
+  'gemini-flash': 'google/gemini-2.0-flash-001',
+  // DeepSeek V3.2: $0.14/M input - value king
+  'deepseek': 'deepseek/deepseek-chat-v3-0324',
+  // GLM-4: Free tier available
+  'glm': 'thudm/glm-z1-32b',
+} as const;
+
+const DEFAULT_OPENROUTER_FALLBACKS = [
+  FAST_MODELS['gemini-flash'],
+  FAST_MODELS['deepseek'],
+  FAST_MODELS['gemini-flash-lite'],
+];
+
+// No retries, no fallback - what an engine does unless given a policy
+export const NO_FALLBACK: FallbackPolicy = {
+  models: [],
+  maxRetries: 0,
+  baseDelayMs: 1000,
+  maxDelayMs: 30_000,
+};
+
+export function getFallbackPolicy(
+  provider: ProviderName,
+  env: NodeJS.ProcessEnv = process.env
+): FallbackPolicy {
+  const configured = env.AI_FALLBACK_MODELS?.trim();
+  const models = configured === undefined || configured === ''
+    ? (provider === 'openrouter' ? DEFAULT_OPENROUTER_FALLBACKS : [])
+    : configured.toLowerCase() === 'none'
+      ? []
+      : configured.split(',').map(model => model.trim()).filter(Boolean);
+
+  const maxRetries = Number(env.AI_MAX_RETRIES);
+  const maxDelayMs = Number(env.AI_MAX_RETRY_DELAY_MS);
+  return {
+    models,
+    maxRetries: Number.isInteger(maxRetries) && maxRetries >= 0 ? maxRetries : 2,
+    baseDelayMs: NO_FALLBACK.baseDelayMs,
+    maxDelayMs: Number.isFinite(maxDelayMs) && maxDelayMs > 0 ? maxDelayMs : NO_FALLBACK.maxDelayMs,
+  };
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+// The requested model first, then each fallback once
+export function modelChain(requested: string, policy: FallbackPolicy): string[] {
+  return [requested, ...policy.models.filter(model => model !== requested)];
+}
+
+// Rate limits and upstream outages are worth another try; bad input is not
+export function isTransient(error: unknown): error is ProviderError {
+  return error instanceof ProviderError && (error.status === 429 || error.status >= 500);
+}
+
+// Retry-After wins over our own backoff; null means it is too long to wait for
+export function retryDelayMs(error: ProviderError, retry: number, policy: FallbackPolicy): number | null {
+  const delayMs = error.retryAfter !== undefined
+    ? error.retryAfter * 1000
+    : policy.baseDelayMs * Math.pow(2, retry);
+  return delayMs <= policy.maxDelayMs ? delayMs : null;
+}
+
+// Rejects with the signal's reason as soon as it aborts
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    }, { once: true });
+  });
+}
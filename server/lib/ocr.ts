@@ -0,0 +1,176 @@
+/**
+ * HireScore AI - Local OCR
+ *
+ * Reads scanned PDFs and photographed resumes on this machine's CPU with
+ * Tesseract (tesseract.js - WebAssembly, no system packages). PDF pages are
+ * rendered to PNG by pdf-parse first. The English model ships in the
+ * @tesseract.js-data/eng package, so nothing is downloaded at run time.
+ *
+ * Every result carries Tesseract's confidence per page, 0-1; the document's
+ * confidence is the average over its pages, weighted by the text each held.
+ *
+ * One worker serves the process and reads one page at a time - concurrent
+ * requests queue behind each other. It starts on first use and is stopped
+ * after a minute without work, since it holds around 100 MB.
+ *
+ *   OCR_ENABLED    false turns local OCR off (default true)
+ *   OCR_MAX_PAGES  pages of a PDF read at most (default 5)
+ */
+
+import { createRequire } from 'node:module';
+import path from 'node:path';
+import type { Worker } from 'tesseract.js';
+import { logger } from './logger.js';
+
+const log = logger.child({ component: 'ocr' });
+
+// ============================================
+// Types
+// ============================================
+
+export interface OcrPage {
+  page: number;
+  // 0-1
+  confidence: number;
+  chars: number;
+}
+
+export interface OcrResult {
+  text: string;
+  // 0-1, over the pages that held text
+  confidence: number;
+  pages: OcrPage[];
+}
+
+export type ImageType = 'png' | 'jpeg';
+
+// ============================================
+// Configuration
+// ============================================
+
+const DEFAULT_MAX_PAGES = 5;
+const IDLE_SHUTDOWN_MS = 60 * 1000;
+// Pages are rendered at 3x their PDF size, about 216 dpi - Tesseract reads best near 300
+const RENDER_SCALE = 3;
+
+export function isOcrEnabled(env: NodeJS.ProcessEnv = process.env): boolean {
+  return env.OCR_ENABLED !== 'false';
+}
+
+function maxPages(env: NodeJS.ProcessEnv = process.env): number {
+  const parsed = Number(env.OCR_MAX_PAGES);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : DEFAULT_MAX_PAGES;
+}
+
+/**
+ * The image format of `buffer` by its leading bytes, or null when it is
+ * neither PNG nor JPEG.
+ */
+export function imageType(buffer: Buffer): ImageType | null {
+  if (buffer.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) return 'png';
+  if (buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) return 'jpeg';
+  return null;
+}
+
+// ============================================
+// Worker
+// ============================================
+
+let workerPromise: Promise<Worker> | null = null;
+let activeJobs = 0;
+let idleTimer: ReturnType<typeof setTimeout> | undefined;
+
+async function startWorker(): Promise<Worker> {
+  // Loaded on first use - the engine is large
+  const { createWorker, OEM } = await import('tesseract.js');
+  const require = createRequire(import.meta.url);
+  // The package's default path holds the legacy model; the LSTM engine wants best_int
+  const langPath = path.join(path.dirname(require.resolve('@tesseract.js-data/eng')), '4.0.0_best_int');
+  const started = Date.now();
+  const worker = await createWorker('eng', OEM.LSTM_ONLY, { langPath, gzip: true, cacheMethod: 'none' });
+  log.info('OCR worker started', { durationMs: Date.now() - started });
+  return worker;
+}
+
+async function recognize(image: Buffer): Promise<{ text: string; confidence: number }> {
+  clearTimeout(idleTimer);
+  activeJobs++;
+  try {
+    workerPromise ??= startWorker().catch(error => {
+      workerPromise = null;
+      throw error;
+    });
+    const { data } = await (await workerPromise).recognize(image);
+    return { text: data.text.trim(), confidence: data.confidence / 100 };
+  } finally {
+    activeJobs--;
+    if (activeJobs === 0) {
+      idleTimer = setTimeout(() => {
+        const stopping = workerPromise;
+        workerPromise = null;
+        void stopping?.then(worker => worker.terminate()).catch(() => undefined);
+      }, IDLE_SHUTDOWN_MS);
+      // An idle worker must not keep a finished process alive
+      idleTimer.unref?.();
+    }
+  }
+}
+
+function combine(pages: Array<OcrPage & { text: string }>): OcrResult {
+  const chars = pages.reduce((sum, page) => sum + page.chars, 0);
+  const confidence = chars
+    ? pages.reduce((sum, page) => sum + page.confidence * page.chars, 0) / chars
+    : 0;
+  return {
+    text: pages.map(page => page.text).filter(Boolean).join('\n\n'),
+    confidence: Math.round(confidence * 100) / 100,
+    pages: pages.map(({ page, confidence: pageConfidence, chars: pageChars }) => ({
+      page,
+      confidence: Math.round(pageConfidence * 100) / 100,
+      chars: pageChars,
+    })),
+  };
+}
+
+// ============================================
+// Recognition
+// ============================================
+
+export async function recognizeImage(image: Buffer): Promise<OcrResult> {
+  const { text, confidence } = await recognize(image);
+  return combine([{ page: 1, text, confidence, chars: text.length }]);
+}
+
+/**
+ * Renders the first OCR_MAX_PAGES pages of `pdf` and reads each one.
+ */
+export async function recognizePdf(pdf: Buffer): Promise<OcrResult> {
+  const { PDFParse } = await import('pdf-parse');
+  const parser = new PDFParse({ data: new Uint8Array(pdf) });
+  let screenshots;
+  try {
+    screenshots = await parser.getScreenshot({
+      first: maxPages(),
+      scale: RENDER_SCALE,
+      imageBuffer: true,
+      imageDataUrl: false,
+    });
+  } finally {
+    await parser.destroy();
+  }
+
+  const started = Date.now();
+  const pages = [];
+  for (const screenshot of screenshots.pages) {
+    const { text, confidence } = await recognize(Buffer.from(screenshot.data));
+    pages.push({ page: screenshot.pageNumber, text, confidence, chars: text.length });
+  }
+  const result = combine(pages);
+  log.info('PDF read by OCR', {
+    pages: pages.length,
+    chars: result.text.length,
+    confidence: result.confidence,
+    durationMs: Date.now() - started,
+  });
+  return result;
+}
@@ -0,0 +1,773 @@
+/**
+ * HireScore AI - Postgres Storage
+ *
+ * Reads and writes the `JobDescription`, `ScreeningSession` and `Candidate`
+ * tables defined in prisma/schema.prisma (create them with `prisma db push`),
+ * translating between the Prisma column layout and the client's record shape.
+ * Webhooks are `Integration` rows of type CUSTOM_WEBHOOK; quotas are the plan
+ * and credit columns of `User` and `Organization`.
+ */
+
+import pg from 'pg';
+import { StorageError } from './storage.js';
+import type { DeliveryFilter, Storage, UsageFilter, UsageGroup } from './storage.js';
+import type {
+  ApiKeyRecord,
+  CandidateRecord,
+  JobRecord,
+  QuotaRecord,
+  SessionRecord,
+  UsageRecord,
+  WebhookDeliveryRecord,
+  WebhookRecord,
+} from './storage-schema.js';
+
+// ============================================
+// Row Mapping
+// ============================================
+
+type SessionStatus = SessionRecord['status'];
+
+// Prisma's SessionStatus enum has no client-side 'error'; FAILED is the equivalent
+const STATUS_TO_DB: Record<SessionStatus, string> = {
+  pending: 'PENDING',
+  processing: 'PROCESSING',
+  completed: 'COMPLETED',
+  cancelled: 'CANCELLED',
+  error: 'FAILED',
+};
+
+const STATUS_FROM_DB: Record<string, SessionStatus> = {
+  PENDING: 'pending',
+  PROCESSING: 'processing',
+  COMPLETED: 'completed',
+  FAILED: 'error',
+  CANCELLED: 'cancelled',
+};
+
+interface JobRow {
+  id: string;
+  title: string;
+  company: string | null;
+  location: string | null;
+  experience: string | null;
+  rawText: string;
+  requiredSkills: string[] | null;
+  niceToHaveSkills: string[] | null;
+  createdAt: Date;
+}
+
+interface SessionRow {
+  id: string;
+  jobDescriptionId: string;
+  status: string;
+  partial: boolean;
+  progress: number;
+  currentCandidate: string | null;
+  error: string | null;
+  startedAt: Date | null;
+  completedAt: Date | null;
+  tokensUsed: number;
+  costUsd: number;
+  budgetUsd: number | null;
+  checkpoint: SessionRecord['checkpoint'] | null;
+}
+
+interface CandidateRow {
+  id: string;
+  sessionId: string;
+  name: string;
+  email: string | null;
+  phone: string | null;
+  location: string | null;
+  linkedinUrl: string | null;
+  fileName: string;
+  rawText: string;
+  score: number;
+  confidence: number | null;
+  ocrConfidence: number | null;
+  parsedData: CandidateRecord['parsedData'] | null;
+  recommendation: string;
+  summary: string | null;
+  scoreBreakdown: CandidateRecord['scoreBreakdown'] | null;
+  matchedSkills: string[] | null;
+  missingSkills: string[] | null;
+  partialMatches: string[] | null;
+  concerns: string[] | null;
+  strengths: string[] | null;
+  interviewQuestions: string[] | null;
+  totalExperience: number | null;
+  skillMatchPercent: number | null;
+  educationMatch: string | null;
+  screeningError: CandidateRecord['screeningError'] | null;
+  tokensUsed: number | null;
+  costUsd: number | null;
+  model: string | null;
+  needsHumanReview: boolean;
+  reviewReason: string | null;
+  modelOpinions: CandidateRecord['modelOpinions'] | null;
+  processedAt: Date;
+}
+
+interface ApiKeyRow {
+  id: string;
+  key: string;
+  name: string;
+  scopes: string[];
+  rateLimit: number;
+  userId: string | null;
+  lastUsedAt: Date | null;
+  expiresAt: Date | null;
+  createdAt: Date;
+}
+
+interface IntegrationRow {
+  id: string;
+  name: string;
+  webhookUrl: string | null;
+  webhookSecret: string | null;
+  isActive: boolean;
+  settings: { events?: WebhookRecord['events'] } | null;
+  createdAt: Date;
+}
+
+interface WebhookDeliveryRow {
+  id: string;
+  integrationId: string;
+  eventId: string;
+  event: string;
+  payload: Record<string, unknown>;
+  status: string;
+  attempts: number;
+  responseStatus: number | null;
+  error: string | null;
+  lastAttemptAt: Date | null;
+  nextAttemptAt: Date | null;
+  deliveredAt: Date | null;
+  createdAt: Date;
+}
+
+interface UsageLogRow {
+  id: string;
+  action: string;
+  model: string | null;
+  resourceType: string | null;
+  resourceId: string | null;
+  tokensUsed: number;
+  costUsd: number | null;
+  latencyMs: number | null;
+  success: boolean;
+  metadata: { promptTokens?: number; completionTokens?: number; apiKeyId?: string; error?: string } | null;
+  userId: string | null;
+  createdAt: Date;
+}
+
+const optional = <T>(value: T | null): T | undefined => value ?? undefined;
+
+function toJob(row: JobRow): JobRecord {
+  return {
+    id: row.id,
+    title: row.title,
+    company: row.company || '',
+    location: row.location || '',
+    experience: row.experience || '',
+    rawText: row.rawText,
+    requirements: row.requiredSkills || [],
+    niceToHave: row.niceToHaveSkills || [],
+    createdAt: row.createdAt.toISOString(),
+  };
+}
+
+// Stored as text because the client value is boolean | 'partial'
+function toEducationMatch(value: string | null): CandidateRecord['educationMatch'] {
+  if (value === null) return undefined;
+  return value === 'partial' ? 'partial' : value === 'true';
+}
+
+function toCandidate(row: CandidateRow): CandidateRecord {
+  return {
+    id: row.id,
+    name: row.name,
+    email: optional(row.email),
+    phone: optional(row.phone),
+    location: optional(row.location),
+    linkedinUrl: optional(row.linkedinUrl),
+    fileName: row.fileName,
+    rawText: row.rawText,
+    score: row.score,
+    confidence: optional(row.confidence),
+    ocrConfidence: optional(row.ocrConfidence),
+    parsedData: optional(row.parsedData),
+    recommendation: row.recommendation.toLowerCase() as CandidateRecord['recommendation'],
+    summary: row.summary || '',
+    scoreBreakdown: optional(row.scoreBreakdown),
+    matchedSkills: row.matchedSkills || [],
+    missingSkills: row.missingSkills || [],
+    partialMatches: optional(row.partialMatches),
+    concerns: row.concerns || [],
+    strengths: optional(row.strengths),
+    interviewQuestions: row.interviewQuestions || [],
+    experience: row.totalExperience || 0,
+    skillMatchPercent: optional(row.skillMatchPercent),
+    educationMatch: toEducationMatch(row.educationMatch),
+    screeningError: optional(row.screeningError),
+    tokensUsed: optional(row.tokensUsed),
+    costUsd: optional(row.costUsd),
+    model: optional(row.model),
+    needsHumanReview: row.needsHumanReview || undefined,
+    reviewReason: optional(row.reviewReason),
+    modelOpinions: optional(row.modelOpinions),
+    processedAt: row.processedAt.toISOString(),
+  };
+}
+
+function toSession(row: SessionRow, candidates: CandidateRecord[]): SessionRecord {
+  return {
+    id: row.id,
+    jobId: row.jobDescriptionId,
+    candidates,
+    status: STATUS_FROM_DB[row.status] || 'pending',
+    partial: row.partial || undefined,
+    progress: row.progress,
+    currentCandidate: optional(row.currentCandidate),
+    startedAt: row.startedAt?.toISOString(),
+    completedAt: row.completedAt?.toISOString(),
+    error: optional(row.error),
+    tokensUsed: row.tokensUsed,
+    costUsd: row.costUsd,
+    budgetUsd: optional(row.budgetUsd),
+    checkpoint: optional(row.checkpoint),
+  };
+}
+
+// The `key` column holds the hash, never the key
+function toApiKey(row: ApiKeyRow): ApiKeyRecord {
+  return {
+    id: row.id,
+    keyHash: row.key,
+    name: row.name,
+    scopes: row.scopes as ApiKeyRecord['scopes'],
+    rateLimit: row.rateLimit,
+    userId: optional(row.userId),
+    lastUsedAt: row.lastUsedAt?.toISOString(),
+    expiresAt: row.expiresAt?.toISOString(),
+    createdAt: row.createdAt.toISOString(),
+  };
+}
+
+// Subscribed events live in `settings`; the other Integration columns serve ATS connectors
+function toWebhook(row: IntegrationRow): WebhookRecord {
+  return {
+    id: row.id,
+    name: row.name,
+    url: row.webhookUrl || '',
+    secret: row.webhookSecret || '',
+    events: row.settings?.events || [],
+    active: row.isActive,
+    createdAt: row.createdAt.toISOString(),
+  };
+}
+
+function toWebhookDelivery(row: WebhookDeliveryRow): WebhookDeliveryRecord {
+  return {
+    id: row.id,
+    webhookId: row.integrationId,
+    eventId: row.eventId,
+    event: row.event as WebhookDeliveryRecord['event'],
+    payload: row.payload,
+    status: row.status as WebhookDeliveryRecord['status'],
+    attempts: row.attempts,
+    responseStatus: optional(row.responseStatus),
+    error: optional(row.error),
+    createdAt: row.createdAt.toISOString(),
+    lastAttemptAt: row.lastAttemptAt?.toISOString(),
+    nextAttemptAt: row.nextAttemptAt?.toISOString(),
+    deliveredAt: row.deliveredAt?.toISOString(),
+  };
+}
+
+// Token split, key and error ride in `metadata`
+function toUsage(row: UsageLogRow): UsageRecord {
+  return {
+    id: row.id,
+    action: row.action as UsageRecord['action'],
+    model: row.model || '',
+    promptTokens: row.metadata?.promptTokens ?? 0,
+    completionTokens: row.metadata?.completionTokens ?? 0,
+    tokensUsed: row.tokensUsed,
+    costUsd: row.costUsd,
+    latencyMs: row.latencyMs ?? 0,
+    success: row.success,
+    error: row.metadata?.error,
+    userId: optional(row.userId),
+    apiKeyId: row.metadata?.apiKeyId,
+    resourceType: optional(row.resourceType),
+    resourceId: optional(row.resourceId),
+    createdAt: row.createdAt.toISOString(),
+  };
+}
+
+// Pasted CVs have no extension; the column is informational only
+function fileTypeOf(fileName: string): string {
+  const match = fileName.match(/\.([a-z0-9]+)$/i);
+  return match ? match[1].toLowerCase() : 'txt';
+}
+
+// ============================================
+// Queries
+// ============================================
+
+const UPSERT_CANDIDATE = `
+  INSERT INTO "Candidate" (
+    id, "sessionId", name, email, phone, location, "fileName", "fileType", "rawText",
+    score, confidence, recommendation, summary, "scoreBreakdown",
+    "matchedSkills", "missingSkills", "partialMatches", "transferableSkills",
+    concerns, strengths, "interviewQuestions", "totalExperience",
+    "skillMatchPercent", "educationMatch", "screeningError", "tokensUsed", "costUsd", model,
+    "needsHumanReview", "reviewReason", "modelOpinions", "processedAt", "ocrConfidence",
+    "parsedData", "linkedinUrl"
+  ) VALUES (
+    $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14,
+    $15, $16, $17, '{}', $18, $19, $20, $21, $22, $23, $24, $25, $26, $27, $28,
+    $29, $30, $31, $32, $33, $34
+  )
+  ON CONFLICT (id) DO UPDATE SET
+    name = EXCLUDED.name, email = EXCLUDED.email, phone = EXCLUDED.phone,
+    location = EXCLUDED.location, "fileName" = EXCLUDED."fileName",
+    "fileType" = EXCLUDED."fileType", "rawText" = EXCLUDED."rawText",
+    score = EXCLUDED.score, confidence = EXCLUDED.confidence,
+    recommendation = EXCLUDED.recommendation, summary = EXCLUDED.summary,
+    "scoreBreakdown" = EXCLUDED."scoreBreakdown",
+    "matchedSkills" = EXCLUDED."matchedSkills", "missingSkills" = EXCLUDED."missingSkills",
+    "partialMatches" = EXCLUDED."partialMatches", concerns = EXCLUDED.concerns,
+    strengths = EXCLUDED.strengths, "interviewQuestions" = EXCLUDED."interviewQuestions",
+    "totalExperience" = EXCLUDED."totalExperience",
+    "skillMatchPercent" = EXCLUDED."skillMatchPercent",
+    "educationMatch" = EXCLUDED."educationMatch",
+    "screeningError" = EXCLUDED."screeningError", "tokensUsed" = EXCLUDED."tokensUsed",
+    "costUsd" = EXCLUDED."costUsd", model = EXCLUDED.model,
+    "needsHumanReview" = EXCLUDED."needsHumanReview", "reviewReason" = EXCLUDED."reviewReason",
+    "modelOpinions" = EXCLUDED."modelOpinions", "processedAt" = EXCLUDED."processedAt",
+    "ocrConfidence" = EXCLUDED."ocrConfidence", "parsedData" = EXCLUDED."parsedData",
+    "linkedinUrl" = EXCLUDED."linkedinUrl"
+  WHERE "Candidate"."sessionId" = EXCLUDED."sessionId"
+`;
+
+function candidateParams(sessionId: string, c: CandidateRecord): unknown[] {
+  return [
+    c.id, sessionId, c.name, c.email ?? null, c.phone ?? null, c.location ?? null,
+    c.fileName, fileTypeOf(c.fileName), c.rawText,
+    // Prisma declares score as Int
+    Math.round(c.score), c.confidence ?? null, c.recommendation.toUpperCase(), c.summary,
+    c.scoreBreakdown ? JSON.stringify(c.scoreBreakdown) : null,
+    c.matchedSkills, c.missingSkills, c.partialMatches ?? [],
+    c.concerns, c.strengths ?? [], c.interviewQuestions, c.experience,
+    c.skillMatchPercent ?? null,
+    c.educationMatch === undefined ? null : String(c.educationMatch),
+    c.screeningError ? JSON.stringify(c.screeningError) : null,
+    c.tokensUsed ?? null, c.costUsd ?? null, c.model ?? null,
+    c.needsHumanReview === true, c.reviewReason ?? null,
+    c.modelOpinions ? JSON.stringify(c.modelOpinions) : null,
+    c.processedAt, c.ocrConfidence ?? null,
+    c.parsedData ? JSON.stringify(c.parsedData) : null, c.linkedinUrl ?? null,
+  ];
+}
+
+// Matches every row when a filter field is unset
+const USAGE_WHERE = `
+  ($1::timestamptz IS NULL OR "createdAt" >= $1) AND ($2::timestamptz IS NULL OR "createdAt" <= $2)
+  AND ($3::text IS NULL OR action = $3) AND ($4::text IS NULL OR "userId" = $4)
+`;
+
+const usageParams = ({ from, to, action, userId }: UsageFilter) =>
+  [from ?? null, to ?? null, action ?? null, userId ?? null];
+
+const QUOTA_TABLES: Record<QuotaRecord['kind'], string> = {
+  user: 'User',
+  organization: 'Organization',
+};
+
+// Organizations have no parent to spend from
+const quotaColumns = (kind: QuotaRecord['kind']) =>
+  `id, plan, "creditsUsed", "creditsLimit", ${kind === 'user' ? '"organizationId"' : 'NULL AS "organizationId"'}`;
+
+interface QuotaRow {
+  id: string;
+  plan: QuotaRecord['plan'];
+  creditsUsed: number;
+  creditsLimit: number;
+  organizationId: string | null;
+}
+
+const toQuota = (kind: QuotaRecord['kind'], row: QuotaRow): QuotaRecord => ({
+  kind,
+  id: row.id,
+  plan: row.plan,
+  creditsUsed: row.creditsUsed,
+  creditsLimit: row.creditsLimit,
+  organizationId: optional(row.organizationId),
+});
+
+// ============================================
+// Backend
+// ============================================
+
+export function createPostgresStorage(connectionString: string): Storage {
+  const pool = new pg.Pool({ connectionString });
+
+  const transaction = async <T>(work: (client: pg.PoolClient) => Promise<T>): Promise<T> => {
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      const result = await work(client);
+      await client.query('COMMIT');
+      return result;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  };
+
+  const exists = async (table: 'JobDescription' | 'ScreeningSession' | 'Integration', id: string) =>
+    ((await pool.query(`SELECT 1 FROM "${table}" WHERE id = $1`, [id])).rowCount ?? 0) > 0;
+
+  const readCandidates = async (sessionIds: string[]) => {
+    const { rows } = await pool.query<CandidateRow>(
+      'SELECT * FROM "Candidate" WHERE "sessionId" = ANY($1) ORDER BY "processedAt", "createdAt"',
+      [sessionIds]
+    );
+    const bySession = new Map<string, CandidateRecord[]>();
+    for (const row of rows) {
+      const list = bySession.get(row.sessionId) || [];
+      list.push(toCandidate(row));
+      bySession.set(row.sessionId, list);
+    }
+    return bySession;
+  };
+
+  const readSessions = async (rows: SessionRow[]) => {
+    const candidates = await readCandidates(rows.map(row => row.id));
+    return rows.map(row => toSession(row, candidates.get(row.id) || []));
+  };
+
+  return {
+    backend: 'postgres',
+
+    async listJobs() {
+      const { rows } = await pool.query<JobRow>('SELECT * FROM "JobDescription" ORDER BY "createdAt" DESC');
+      return rows.map(toJob);
+    },
+
+    async getJob(id) {
+      const { rows } = await pool.query<JobRow>('SELECT * FROM "JobDescription" WHERE id = $1', [id]);
+      return rows[0] ? toJob(rows[0]) : null;
+    },
+
+    async saveJob(job) {
+      await pool.query(`
+        INSERT INTO "JobDescription" (
+          id, title, company, location, experience, summary, "rawText",
+          responsibilities, "requiredSkills", "niceToHaveSkills", "createdAt", "updatedAt"
+        ) VALUES ($1, $2, $3, $4, $5, '', $6, '{}', $7, $8, $9, NOW())
+        ON CONFLICT (id) DO UPDATE SET
+          title = EXCLUDED.title, company = EXCLUDED.company, location = EXCLUDED.location,
+          experience = EXCLUDED.experience, "rawText" = EXCLUDED."rawText",
+          "requiredSkills" = EXCLUDED."requiredSkills",
+          "niceToHaveSkills" = EXCLUDED."niceToHaveSkills", "updatedAt" = NOW()
+      `, [
+        job.id, job.title, job.company, job.location, job.experience, job.rawText,
+        job.requirements, job.niceToHave, job.createdAt,
+      ]);
+      return job;
+    },
+
+    async deleteJob(id) {
+      const inUse = await pool.query('SELECT 1 FROM "ScreeningSession" WHERE "jobDescriptionId" = $1 LIMIT 1', [id]);
+      if (inUse.rowCount) {
+        throw new StorageError('Job is still referenced by screening sessions', 409);
+      }
+      const { rowCount } = await pool.query('DELETE FROM "JobDescription" WHERE id = $1', [id]);
+      return (rowCount ?? 0) > 0;
+    },
+
+    async listSessions() {
+      const { rows } = await pool.query<SessionRow>('SELECT * FROM "ScreeningSession" ORDER BY "createdAt" DESC');
+      return readSessions(rows);
+    },
+
+    async getSession(id) {
+      const { rows } = await pool.query<SessionRow>('SELECT * FROM "ScreeningSession" WHERE id = $1', [id]);
+      return rows[0] ? (await readSessions(rows))[0] : null;
+    },
+
+    async saveSession(session) {
+      if (!(await exists('JobDescription', session.jobId))) {
+        throw new StorageError(`Unknown job: ${session.jobId}`, 422);
+      }
+
+      await transaction(async (client) => {
+        await client.query(`
+          INSERT INTO "ScreeningSession" (
+            id, "jobDescriptionId", status, progress, "currentCandidate", error,
+            "totalCandidates", "processedCount", "startedAt", "completedAt", partial, checkpoint,
+            "tokensUsed", "costUsd", "budgetUsd", "createdAt", "updatedAt"
+          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $7, $8, $9, $10, $11, $12, $13, $14, COALESCE($8, NOW()), NOW())
+          ON CONFLICT (id) DO UPDATE SET
+            "jobDescriptionId" = EXCLUDED."jobDescriptionId", status = EXCLUDED.status,
+            partial = EXCLUDED.partial, checkpoint = EXCLUDED.checkpoint,
+            "tokensUsed" = EXCLUDED."tokensUsed", "costUsd" = EXCLUDED."costUsd",
+            "budgetUsd" = EXCLUDED."budgetUsd", progress = EXCLUDED.progress, "currentCandidate" = EXCLUDED."currentCandidate",
+            error = EXCLUDED.error, "totalCandidates" = EXCLUDED."totalCandidates",
+            "processedCount" = EXCLUDED."processedCount", "startedAt" = EXCLUDED."startedAt",
+            "completedAt" = EXCLUDED."completedAt", "updatedAt" = NOW()
+        `, [
+          session.id, session.jobId, STATUS_TO_DB[session.status], Math.round(session.progress),
+          session.currentCandidate ?? null, session.error ?? null, session.candidates.length,
+          session.startedAt ?? null, session.completedAt ?? null, session.partial ?? false,
+          session.checkpoint ? JSON.stringify(session.checkpoint) : null,
+          session.tokensUsed ?? 0, session.costUsd ?? 0, session.budgetUsd ?? null,
+        ]);
+
+        await client.query('DELETE FROM "Candidate" WHERE "sessionId" = $1', [session.id]);
+        for (const candidate of session.candidates) {
+          await client.query(UPSERT_CANDIDATE, candidateParams(session.id, candidate));
+        }
+      });
+      return session;
+    },
+
+    async deleteSession(id) {
+      const { rowCount } = await pool.query('DELETE FROM "ScreeningSession" WHERE id = $1', [id]);
+      return (rowCount ?? 0) > 0;
+    },
+
+    async listCandidates(sessionId) {
+      if (!(await exists('ScreeningSession', sessionId))) return null;
+      return (await readCandidates([sessionId])).get(sessionId) || [];
+    },
+
+    async saveCandidate(sessionId, candidate) {
+      if (!(await exists('ScreeningSession', sessionId))) {
+        throw new StorageError('Session not found', 404);
+      }
+      const { rowCount } = await pool.query(UPSERT_CANDIDATE, candidateParams(sessionId, candidate));
+      if (!rowCount) {
+        throw new StorageError('Candidate belongs to another session', 409);
+      }
+      return candidate;
+    },
+
+    async deleteCandidate(sessionId, candidateId) {
+      const { rowCount } = await pool.query(
+        'DELETE FROM "Candidate" WHERE id = $1 AND "sessionId" = $2',
+        [candidateId, sessionId]
+      );
+      return (rowCount ?? 0) > 0;
+    },
+
+    async listApiKeys() {
+      const { rows } = await pool.query<ApiKeyRow>('SELECT * FROM "ApiKey" ORDER BY "createdAt" DESC');
+      return rows.map(toApiKey);
+    },
+
+    async findApiKey(keyHash) {
+      const { rows } = await pool.query<ApiKeyRow>('SELECT * FROM "ApiKey" WHERE key = $1', [keyHash]);
+      return rows[0] ? toApiKey(rows[0]) : null;
+    },
+
+    async saveApiKey(key) {
+      await pool.query(`
+        INSERT INTO "ApiKey" (id, key, name, scopes, "rateLimit", "userId", "lastUsedAt", "expiresAt", "createdAt")
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+        ON CONFLICT (id) DO UPDATE SET
+          name = EXCLUDED.name, scopes = EXCLUDED.scopes, "rateLimit" = EXCLUDED."rateLimit",
+          "userId" = EXCLUDED."userId", "lastUsedAt" = EXCLUDED."lastUsedAt", "expiresAt" = EXCLUDED."expiresAt"
+      `, [
+        key.id, key.keyHash, key.name, key.scopes, key.rateLimit, key.userId ?? null,
+        key.lastUsedAt ?? null, key.expiresAt ?? null, key.createdAt,
+      ]);
+      return key;
+    },
+
+    async touchApiKey(id, usedAt) {
+      await pool.query('UPDATE "ApiKey" SET "lastUsedAt" = $2 WHERE id = $1', [id, usedAt]);
+    },
+
+    async deleteApiKey(id) {
+      const { rowCount } = await pool.query('DELETE FROM "ApiKey" WHERE id = $1', [id]);
+      return (rowCount ?? 0) > 0;
+    },
+
+    async listWebhooks() {
+      const { rows } = await pool.query<IntegrationRow>(
+        `SELECT * FROM "Integration" WHERE type = 'CUSTOM_WEBHOOK' ORDER BY "createdAt" DESC`
+      );
+      return rows.map(toWebhook);
+    },
+
+    async getWebhook(id) {
+      const { rows } = await pool.query<IntegrationRow>(
+        `SELECT * FROM "Integration" WHERE id = $1 AND type = 'CUSTOM_WEBHOOK'`,
+        [id]
+      );
+      return rows[0] ? toWebhook(rows[0]) : null;
+    },
+
+    async saveWebhook(webhook) {
+      await pool.query(`
+        INSERT INTO "Integration" (id, type, name, "webhookUrl", "webhookSecret", "isActive", settings, "createdAt", "updatedAt")
+        VALUES ($1, 'CUSTOM_WEBHOOK', $2, $3, $4, $5, $6, $7, NOW())
+        ON CONFLICT (id) DO UPDATE SET
+          name = EXCLUDED.name, "webhookUrl" = EXCLUDED."webhookUrl", "webhookSecret" = EXCLUDED."webhookSecret",
+          "isActive" = EXCLUDED."isActive", settings = EXCLUDED.settings, "updatedAt" = NOW()
+      `, [
+        webhook.id, webhook.name, webhook.url, webhook.secret, webhook.active,
+        JSON.stringify({ events: webhook.events }), webhook.createdAt,
+      ]);
+      return webhook;
+    },
+
+    async deleteWebhook(id) {
+      const { rowCount } = await pool.query(
+        `DELETE FROM "Integration" WHERE id = $1 AND type = 'CUSTOM_WEBHOOK'`,
+        [id]
+      );
+      return (rowCount ?? 0) > 0;
+    },
+
+    async listWebhookDeliveries({ webhookId, status, limit = 100 }: DeliveryFilter) {
+      const { rows } = await pool.query<WebhookDeliveryRow>(`
+        SELECT * FROM "WebhookDelivery"
+        WHERE ($1::text IS NULL OR "integrationId" = $1) AND ($2::text IS NULL OR status = $2)
+        ORDER BY "createdAt" DESC LIMIT $3
+      `, [webhookId ?? null, status ?? null, limit]);
+      return rows.map(toWebhookDelivery);
+    },
+
+    async saveWebhookDelivery(delivery) {
+      if (!(await exists('Integration', delivery.webhookId))) {
+        throw new StorageError('Webhook not found', 404);
+      }
+      await pool.query(`
+        INSERT INTO "WebhookDelivery" (
+          id, "integrationId", "eventId", event, payload, status, attempts, "responseStatus", error,
+          "lastAttemptAt", "nextAttemptAt", "deliveredAt", "createdAt"
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+        ON CONFLICT (id) DO UPDATE SET
+          status = EXCLUDED.status, attempts = EXCLUDED.attempts, "responseStatus" = EXCLUDED."responseStatus",
+          error = EXCLUDED.error, "lastAttemptAt" = EXCLUDED."lastAttemptAt",
+          "nextAttemptAt" = EXCLUDED."nextAttemptAt", "deliveredAt" = EXCLUDED."deliveredAt"
+      `, [
+        delivery.id, delivery.webhookId, delivery.eventId, delivery.event, JSON.stringify(delivery.payload),
+        delivery.status, delivery.attempts, delivery.responseStatus ?? null, delivery.error ?? null,
+        delivery.lastAttemptAt ?? null, delivery.nextAttemptAt ?? null, delivery.deliveredAt ?? null,
+        delivery.createdAt,
+      ]);
+      return delivery;
+    },
+
+    async saveUsage(entry) {
+      await pool.query(`
+        INSERT INTO "UsageLog" (
+          id, action, model, "resourceType", "resourceId", "tokensUsed", "costUsd", "latencyMs",
+          success, metadata, "userId", "createdAt"
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+      `, [
+        entry.id, entry.action, entry.model, entry.resourceType ?? null, entry.resourceId ?? null,
+        entry.tokensUsed, entry.costUsd, entry.latencyMs, entry.success,
+        JSON.stringify({
+          promptTokens: entry.promptTokens,
+          completionTokens: entry.completionTokens,
+          apiKeyId: entry.apiKeyId,
+          error: entry.error,
+        }),
+        entry.userId ?? null, entry.createdAt,
+      ]);
+    },
+
+    async listUsage(filter) {
+      const { rows } = await pool.query<UsageLogRow>(
+        `SELECT * FROM "UsageLog" WHERE ${USAGE_WHERE} ORDER BY "createdAt" DESC LIMIT $5`,
+        [...usageParams(filter), filter.limit ?? 50]
+      );
+      return rows.map(toUsage);
+    },
+
+    async summarizeUsage(filter) {
+      // COUNT and SUM(int) come back as bigint strings
+      const { rows } = await pool.query<UsageGroup>(`
+        SELECT action, COALESCE(model, '') AS model, COUNT(*)::int AS calls,
+          (COUNT(*) FILTER (WHERE NOT success))::int AS failed,
+          SUM("tokensUsed")::int AS "tokensUsed", COALESCE(SUM("costUsd"), 0)::float AS "costUsd"
+        FROM "UsageLog" WHERE ${USAGE_WHERE}
+        GROUP BY action, model ORDER BY "costUsd" DESC
+      `, usageParams(filter));
+      return rows;
+    },
+
+    async getQuota(kind, id) {
+      const { rows } = await pool.query<QuotaRow>(
+        `SELECT ${quotaColumns(kind)} FROM "${QUOTA_TABLES[kind]}" WHERE id = $1`,
+        [id]
+      );
+      return rows[0] ? toQuota(kind, rows[0]) : null;
+    },
+
+    async saveQuota(quota) {
+      const params = [quota.id, quota.plan, quota.creditsUsed, quota.creditsLimit];
+      // Users come from sign-up with their email; an organization only needs a name
+      const { rows } = quota.kind === 'user'
+        ? await pool.query<QuotaRow>(`
+            UPDATE "User" SET plan = $2::"Plan", "creditsUsed" = $3, "creditsLimit" = $4,
+              "organizationId" = $5, "updatedAt" = now()
+            WHERE id = $1 RETURNING ${quotaColumns('user')}
+          `, [...params, quota.organizationId ?? null])
+        : await pool.query<QuotaRow>(`
+            INSERT INTO "Organization" (id, name, plan, "creditsUsed", "creditsLimit", "updatedAt")
+            VALUES ($1, $1, $2::"Plan", $3, $4, now())
+            ON CONFLICT (id) DO UPDATE SET plan = EXCLUDED.plan, "creditsUsed" = EXCLUDED."creditsUsed",
+              "creditsLimit" = EXCLUDED."creditsLimit", "updatedAt" = now()
+            RETURNING ${quotaColumns('organization')}
+          `, params);
+      return rows[0] ? toQuota(quota.kind, rows[0]) : null;
+    },
+
+    async createQuota(quota) {
+      // A user row only comes from sign-up, so there is nothing to insert for one
+      if (quota.kind === 'organization') {
+        await pool.query(`
+          INSERT INTO "Organization" (id, name, plan, "creditsUsed", "creditsLimit", "updatedAt")
+          VALUES ($1, $1, $2::"Plan", $3, $4, now())
+          ON CONFLICT (id) DO NOTHING
+        `, [quota.id, quota.plan, quota.creditsUsed, quota.creditsLimit]);
+      }
+      const { rows } = await pool.query<QuotaRow>(
+        `SELECT ${quotaColumns(quota.kind)} FROM "${QUOTA_TABLES[quota.kind]}" WHERE id = $1`,
+        [quota.id]
+      );
+      return rows[0] ? toQuota(quota.kind, rows[0]) : null;
+    },
+
+    async consumeCredits(kind, id, credits) {
+      const { rows } = await pool.query<QuotaRow>(`
+        UPDATE "${QUOTA_TABLES[kind]}" SET "creditsUsed" = "creditsUsed" + $2
+        WHERE id = $1 AND "creditsUsed" + $2 <= "creditsLimit"
+        RETURNING ${quotaColumns(kind)}
+      `, [id, credits]);
+      return rows[0] ? toQuota(kind, rows[0]) : null;
+    },
+
+    async releaseCredits(kind, id, credits) {
+      await pool.query(
+        `UPDATE "${QUOTA_TABLES[kind]}" SET "creditsUsed" = GREATEST("creditsUsed" - $2, 0) WHERE id = $1`,
+        [id, credits]
+      );
+    },
+
+    async close() {
+      await pool.end();
+    },
+  };
+}
@@ -0,0 +1,35 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { estimateTokens, recordPromptUsage, reservedPromptTokens } from './pricing.js';
+
+describe('estimateTokens', () => {
+  it('counts English prose at about four characters a token', () => {
+    const text = 'Senior engineer with seven years of TypeScript, Node.js and PostgreSQL experience.';
+    const tokens = estimateTokens(text);
+    assert.ok(tokens >= text.length / 5 && tokens <= text.length / 3, `${tokens} tokens`);
+  });
+
+  it('counts every non-ASCII character as a token of its own', () => {
+    const cjk = '高级软件工程师，七年开发经验，熟悉分布式系统与数据库设计';
+    const cyrillic = 'Старший инженер-программист';
+    assert.ok(estimateTokens(cjk) >= [...cjk].length);
+    assert.ok(estimateTokens(cyrillic) >= cyrillic.replace(/[\s-]/g, '').length);
+    // The old characters / 4 estimate under-counted these four-fold
+    assert.ok(estimateTokens(cjk) > Math.ceil(cjk.length / 4) * 3);
+  });
+
+  it('counts characters outside the Basic Multilingual Plane once', () => {
+    assert.equal(estimateTokens('𝔘𝔫𝔦'), 3);
+  });
+});
+
+describe('reservedPromptTokens', () => {
+  it('adds a safety margin, widened by what the provider reported', () => {
+    assert.equal(reservedPromptTokens('test/margin', 1000), 1250);
+    recordPromptUsage('test/margin', 1000, 2000);
+    assert.equal(reservedPromptTokens('test/margin', 1000), 2000);
+    // A later, closer count never narrows it again
+    recordPromptUsage('test/margin', 1000, 1100);
+    assert.equal(reservedPromptTokens('test/margin', 1000), 2000);
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * HireScore AI - Model Pricing
+ *
+ * Turns token usage into dollars. Prices come from the OpenRouter model
+ * catalog (USD per token) whenever it is loaded. Providers without a catalog
+ * can set one price for every model:
+ *   AI_PRICE_PER_MTOK  "<prompt>,<completion>" in USD per million tokens
+ *
+ * An unknown price gives a null cost - never a guessed one.
+ */
+
+import type { ChatUsage } from './ai-provider.js';
+import { logger } from './logger.js';
+
+const log = logger.child({ component: 'pricing' });
+
+// ============================================
+// Types
+// ============================================
+
+// USD per token
+export interface ModelPricing {
+  prompt: number;
+  completion: number;
+}
+
+// As published in the model catalog (`ModelInfo.pricing`) - decimal strings, USD per token
+export interface CatalogPricing {
+  prompt?: string;
+  completion?: string;
+}
+
+// ============================================
+// Price Table
+// ============================================
+
+const CATALOG_URL = 'https://openrouter.ai/api/v1/models';
+const CATALOG_TTL_MS = 10 * 60 * 1000;
+
+const catalogPrices = new Map<string, ModelPricing>();
+let catalogLoadedAt = 0;
+
+// OpenRouter uses negative prices for variable-priced routes; those count as unknown
+export function parsePricing(pricing?: CatalogPricing): ModelPricing | null {
+  if (!pricing?.prompt || !pricing.completion) return null;
+  const prompt = Number(pricing.prompt);
+  const completion = Number(pricing.completion);
+  if (!Number.isFinite(prompt) || !Number.isFinite(completion) || prompt < 0 || completion < 0) {
+    return null;
+  }
+  return { prompt, completion };
+}
+
+// Called with the full catalog whenever it is fetched
+export function recordModelPricing(models: Array<{ id: string; pricing?: CatalogPricing }>): void {
+  for (const model of models) {
+    const pricing = parsePricing(model.pricing);
+    if (pricing) catalogPrices.set(model.id, pricing);
+  }
+  catalogLoadedAt = Date.now();
+}
+
+export function getConfiguredPricing(env: NodeJS.ProcessEnv = process.env): ModelPricing | null {
+  const [prompt, completion] = (env.AI_PRICE_PER_MTOK || '').split(',').map(part => Number(part.trim()));
+  if (!Number.isFinite(prompt) || !Number.isFinite(completion) || prompt < 0 || completion < 0) {
+    return null;
+  }
+  return { prompt: prompt / 1_000_000, completion: completion / 1_000_000 };
+}
+
+export function getModelPricing(model: string): ModelPricing | null {
+  return catalogPrices.get(model) ?? getConfiguredPricing();
+}
+
+/**
+ * Refresh prices from the public OpenRouter catalog, at most every 10 minutes,
+ * for costs computed before anyone has loaded the model list.
+ * Failures leave the table as it was.
+ */
+export async function loadOpenRouterPricing(): Promise<void> {
+  if (Date.now() - catalogLoadedAt < CATALOG_TTL_MS) return;
+  try {
+    const response = await fetch(CATALOG_URL, { signal: AbortSignal.timeout(5000) });
+    if (!response.ok) return;
+    const data = await response.json() as { data?: Array<{ id: string; pricing?: CatalogPricing }> };
+    recordModelPricing(data.data || []);
+  } catch (error) {
+    log.warn('Could not load the OpenRouter catalog', { error: (error as Error).message });
+  }
+}
+
+// ============================================
+// Cost
+// ============================================
+
+// Eight decimals keeps fractions of a cent from single cheap calls
+export const roundUsd = (usd: number): number => Math.round(usd * 1e8) / 1e8;
+
+// Null when the model's price is unknown
+export function estimateCost(model: string, promptTokens: number, completionTokens: number): number | null {
+  const pricing = getModelPricing(model);
+  if (!pricing) return null;
+  return roundUsd(promptTokens * pricing.prompt + completionTokens * pricing.completion);
+}
+
+/**
+ * Dollars spent on one call (or the summed calls of one candidate).
+ * Null when there is no usage or the model's price is unknown.
+ */
+export function costOf(model: string, usage?: ChatUsage): number | null {
+  const pricing = getModelPricing(model);
+  if (!usage || !pricing) return null;
+  return roundUsd(usage.prompt_tokens * pricing.prompt + usage.completion_tokens * pricing.completion);
+}
+
+// ============================================
+// Token Estimates
+// ============================================
+
+// No tokenizer ships with the server - and every provider's differs anyway.
+// Text is split the way BPE pre-tokenizers split it: a run of ASCII letters or
+// digits averages four characters a token, every other ASCII symbol takes one,
+// and so does every non-ASCII character (accents, Cyrillic, CJK...), which the
+// common vocabularies seldom merge further. Whitespace rides along for free.
+const CHARS_PER_WORD_TOKEN = 4;
+const TEXT_PIECES = /([A-Za-z0-9]+)|(\s+)|([!-~]|\P{ASCII})/gu;
+
+export function estimateTokens(text: string): number {
+  let tokens = 0;
+  for (const [, word, , symbol] of text.matchAll(TEXT_PIECES)) {
+    if (word) tokens += Math.ceil(word.length / CHARS_PER_WORD_TOKEN);
+    else if (symbol) tokens++;
+  }
+  return tokens;
+}
+
+// Budget reservations assume the prompt runs 25% over its estimate...
+const PROMPT_RESERVE_MARGIN = 1.25;
+// ...or as far over as the model has been seen to count it, up to 4x
+const MAX_PROMPT_RATIO = 4;
+const promptRatios = new Map<string, number>();
+
+/**
+ * Prompt tokens a session budget should hold for a call to `model`: the
+ * estimate with its safety margin, widened to the worst under-count the
+ * provider has reported for that model (see recordPromptUsage).
+ */
+export function reservedPromptTokens(model: string, estimatedTokens: number): number {
+  return Math.ceil(estimatedTokens * Math.max(PROMPT_RESERVE_MARGIN, promptRatios.get(model) ?? 0));
+}
+
+// Called with the provider's own count after each call, so later reservations learn from it
+export function recordPromptUsage(model: string, estimatedTokens: number, promptTokens: number): void {
+  if (estimatedTokens <= 0 || promptTokens <= 0) return;
+  const ratio = Math.min(promptTokens / estimatedTokens, MAX_PROMPT_RATIO);
+  if (ratio > (promptRatios.get(model) ?? 0)) promptRatios.set(model, ratio);
+}
@@ -0,0 +1,196 @@
+/**
+ * HireScore AI - Plan Quotas
+ *
+ * Users and organizations have a plan and an allowance of screening credits
+ * (50 and 500 on the free plan). A screened CV takes one credit, however many
+ * ensemble models score it. The credit is taken right before the first model
+ * call - cached results are free - and given back if the screening fails.
+ * Taking it is a single conditional UPDATE, so concurrent screenings cannot
+ * overdraw a workspace.
+ *
+ * A request is charged to its workspace: the organization of the API key's
+ * user, else the user. Requests without a user - the browser app - go to the
+ * QUOTA_DEFAULT_ORGANIZATION organization ("anonymous" unless set; "none"
+ * leaves them unmetered). A workspace seen for the first time starts on the
+ * free plan.
+ */
+
+import type { QuotaRequest, QuotaSnapshot } from './api-contract.js';
+import type { ApiPrincipal } from './api-keys.js';
+import { logger } from './logger.js';
+import { StorageError, getStorage, type Storage } from './storage.js';
+import { FREE_CREDITS, type QuotaRecord } from './storage-schema.js';
+
+const log = logger.child({ component: 'quotas' });
+
+// ============================================
+// Types
+// ============================================
+
+export type { QuotaSnapshot };
+
+export type WorkspaceKind = QuotaRecord['kind'];
+
+// One credit taken for a screening - release it if nothing was screened
+export interface CreditHold {
+  release(): void;
+}
+
+// What the scoring engine charges a screening to
+export interface CreditAccount {
+  reserve(): Promise<CreditHold>;
+}
+
+export interface QuotaConfig {
+  // Unset only when requests without a user go unmetered
+  defaultOrganization?: string;
+}
+
+/**
+ * Raised instead of screening once the workspace has no credits left.
+ */
+export class QuotaExceededError extends Error {
+  status: number;
+  quota: QuotaSnapshot;
+
+  constructor(message: string, quota: QuotaSnapshot) {
+    super(message);
+    this.name = 'QuotaExceededError';
+    this.status = 402;
+    this.quota = quota;
+  }
+}
+
+// ============================================
+// Configuration
+// ============================================
+
+const ANONYMOUS_ORGANIZATION = 'anonymous';
+
+export function getQuotaConfig(env: NodeJS.ProcessEnv = process.env): QuotaConfig {
+  const organization = env.QUOTA_DEFAULT_ORGANIZATION?.trim() || ANONYMOUS_ORGANIZATION;
+  return {
+    defaultOrganization: organization.toLowerCase() === 'none' ? undefined : organization,
+  };
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+// A workspace's quota on the free plan, before anything was screened
+const freeQuota = (kind: WorkspaceKind, id: string): QuotaRecord =>
+  ({ kind, id, plan: 'FREE', creditsUsed: 0, creditsLimit: FREE_CREDITS[kind] });
+
+export function toQuotaSnapshot(quota: QuotaRecord): QuotaSnapshot {
+  return {
+    kind: quota.kind,
+    id: quota.id,
+    plan: quota.plan,
+    creditsUsed: quota.creditsUsed,
+    creditsLimit: quota.creditsLimit,
+    creditsRemaining: Math.max(0, quota.creditsLimit - quota.creditsUsed),
+  };
+}
+
+/**
+ * Response body for a refused screening - shared by every runtime.
+ */
+export function quotaErrorBody(error: QuotaExceededError) {
+  return {
+    success: false,
+    error: error.message,
+    errorCode: 'QUOTA_EXCEEDED',
+    quota: error.quota,
+  };
+}
+
+// ============================================
+// Registry
+// ============================================
+
+export class QuotaRegistry {
+  readonly config: QuotaConfig;
+  private store: () => Promise<Storage>;
+
+  constructor(config: QuotaConfig = getQuotaConfig(), store: () => Promise<Storage> = getStorage) {
+    this.config = config;
+    this.store = store;
+  }
+
+  // The quota a principal's screenings are charged to; null when unmetered
+  async workspaceFor(principal: ApiPrincipal | null | undefined): Promise<QuotaRecord | null> {
+    const storage = await this.store();
+    if (!principal?.userId) {
+      const { defaultOrganization } = this.config;
+      return defaultOrganization ? this.quotaOf(storage, 'organization', defaultOrganization) : null;
+    }
+    const user = await this.quotaOf(storage, 'user', principal.userId);
+    if (!user?.organizationId) return user;
+    return (await this.quotaOf(storage, 'organization', user.organizationId)) ?? user;
+  }
+
+  async snapshot(principal: ApiPrincipal | null | undefined): Promise<QuotaSnapshot | null> {
+    const workspace = await this.workspaceFor(principal);
+    return workspace && toQuotaSnapshot(workspace);
+  }
+
+  /**
+   * Credits for the principal's screenings; undefined when its workspace is
+   * unmetered. `reserve` throws QuotaExceededError once they are used up.
+   */
+  async accountFor(principal: ApiPrincipal | null | undefined): Promise<CreditAccount | undefined> {
+    const workspace = await this.workspaceFor(principal);
+    if (!workspace) return undefined;
+    const { kind, id } = workspace;
+
+    return {
+      reserve: async () => {
+        const storage = await this.store();
+        if (!(await storage.consumeCredits(kind, id, 1))) {
+          const current = toQuotaSnapshot((await storage.getQuota(kind, id)) ?? workspace);
+          throw new QuotaExceededError(
+            `All ${current.creditsLimit} screening credits of the ${current.plan} plan are used`,
+            current
+          );
+        }
+        let open = true;
+        return {
+          release: () => {
+            if (!open) return;
+            open = false;
+            storage.releaseCredits(kind, id, 1)
+              .catch(error => log.error('Failed to release screening credit', { kind, workspaceId: id, error }));
+          },
+        };
+      },
+    };
+  }
+
+  /**
+   * Changes a workspace's plan or credits; a workspace seen for the first time
+   * starts on the free plan. Null when Postgres has no such user.
+   */
+  async update(kind: WorkspaceKind, id: string, request: QuotaRequest): Promise<QuotaSnapshot | null> {
+    const storage = await this.store();
+    const { organizationId, ...fields } = request;
+    if (organizationId && !(await storage.getQuota('organization', organizationId))) {
+      throw new StorageError('Organization not found', 404);
+    }
+
+    const current = (await storage.getQuota(kind, id)) ?? freeQuota(kind, id);
+    const saved = await storage.saveQuota({
+      ...current,
+      ...fields,
+      organizationId: kind === 'user' && organizationId !== undefined
+        ? organizationId ?? undefined
+        : current.organizationId,
+    });
+    return saved && toQuotaSnapshot(saved);
+  }
+
+  // The workspace's quota, created on the free plan the first time it is seen
+  private async quotaOf(storage: Storage, kind: WorkspaceKind, id: string): Promise<QuotaRecord | null> {
+    return (await storage.getQuota(kind, id)) ?? storage.createQuota(freeQuota(kind, id));
+  }
+}
@@ -0,0 +1,131 @@
+/**
+ * HireScore AI - Result Cache
+ *
+ * A screening result is addressed by a hash of everything that produced it:
+ * the normalized JD text, the normalized CV text, the model ID and the prompt
+ * version. Re-running the same triple returns the stored result instead of
+ * billing the model again, so retries, re-sorts and double-clicks are free.
+ * Changing the prompt (PROMPT_VERSION) invalidates every entry.
+ *
+ * Entries live in process memory, least recently used first out:
+ *   RESULT_CACHE_SIZE       results kept (default 1000, 0 disables the cache)
+ *   RESULT_CACHE_TTL_HOURS  how long a result stays valid (default 24)
+ */
+
+import { createHash } from 'node:crypto';
+import type { ScreeningResult } from './scoring-engine.js';
+
+// ============================================
+// Types
+// ============================================
+
+export interface ResultCacheOptions {
+  maxEntries: number;
+  ttlMs: number;
+}
+
+export interface CachedResult {
+  result: ScreeningResult;
+  // Model that actually answered (may differ from the one requested)
+  model: string;
+  cachedAt: number;
+}
+
+export interface ResultCacheKeyInput {
+  jobDescription: string;
+  cvContent: string;
+  model: string;
+  promptVersion: string;
+}
+
+// ============================================
+// Keys
+// ============================================
+
+// Whitespace and Unicode form differences never change a score
+export function normalizeText(text: string): string {
+  return text.normalize('NFC').replace(/\s+/g, ' ').trim();
+}
+
+export function resultCacheKey(input: ResultCacheKeyInput): string {
+  return createHash('sha256')
+    .update(JSON.stringify([
+      input.promptVersion,
+      input.model,
+      normalizeText(input.jobDescription),
+      normalizeText(input.cvContent),
+    ]))
+    .digest('hex');
+}
+
+// ============================================
+// Cache
+// ============================================
+
+const DEFAULT_MAX_ENTRIES = 1000;
+const DEFAULT_TTL_HOURS = 24;
+
+export function getResultCacheOptions(env: NodeJS.ProcessEnv = process.env): ResultCacheOptions {
+  const size = parseInt(env.RESULT_CACHE_SIZE || '', 10);
+  const ttlHours = parseFloat(env.RESULT_CACHE_TTL_HOURS || '');
+  return {
+    maxEntries: Number.isFinite(size) && size >= 0 ? size : DEFAULT_MAX_ENTRIES,
+    ttlMs: (Number.isFinite(ttlHours) && ttlHours > 0 ? ttlHours : DEFAULT_TTL_HOURS) * 60 * 60 * 1000,
+  };
+}
+
+export class ResultCache {
+  // Map iteration order doubles as recency order - oldest first
+  private entries = new Map<string, CachedResult>();
+  private options: ResultCacheOptions;
+
+  constructor(options: ResultCacheOptions) {
+    this.options = options;
+  }
+
+  get enabled(): boolean {
+    return this.options.maxEntries > 0;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  // Returns a copy so callers can't alter what later hits receive
+  get(key: string): CachedResult | null {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+    if (Date.now() - entry.cachedAt > this.options.ttlMs) {
+      this.entries.delete(key);
+      return null;
+    }
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return structuredClone(entry);
+  }
+
+  set(key: string, result: ScreeningResult, model: string): void {
+    if (!this.enabled) return;
+    this.entries.delete(key);
+    this.entries.set(key, { result: structuredClone(result), model, cachedAt: Date.now() });
+    while (this.entries.size > this.options.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+let cacheInstance: ResultCache | null = null;
+
+// Process-wide cache built from the environment; warm Vercel instances reuse it too
+export function getResultCache(): ResultCache {
+  if (!cacheInstance) {
+    cacheInstance = new ResultCache(getResultCacheOptions());
+  }
+  return cacheInstance;
+}
@@ -0,0 +1,575 @@
+/**
+ * HireScore AI - Resume Parser
+ *
+ * Splits CV text into a typed profile - contact details, summary, work
+ * history, education, skills, certifications and links - without a model
+ * call. It works from section headings ("Experience", "EDUCATION:"), date
+ * ranges and a few vocabularies (job titles, degrees, institutions), so the
+ * same text always gives the same profile. Anything it cannot place is left
+ * out rather than guessed.
+ *
+ * The profile is stored with the candidate as `parsedData`; withParsedResumes
+ * fills it in for candidates saved without one. identifyCandidate picks the
+ * candidate's name and contact details out of it for each screening.
+ *
+ * Only zod is imported at run time, so the browser bundle can share the types.
+ */
+
+import { z } from 'zod';
+import type { Storage } from './storage.js';
+import type { CandidateRecord } from './storage-schema.js';
+
+// Bump when parsing changes - stored profiles of an older version are parsed again on save
+export const RESUME_PARSER_VERSION = 2;
+
+// ============================================
+// Schema
+// ============================================
+
+export const WorkHistoryEntrySchema = z.object({
+  title: z.string().optional(),
+  employer: z.string().optional(),
+  // YYYY-MM, or YYYY when the CV gives no month
+  startDate: z.string().optional(),
+  endDate: z.string().optional(),
+  current: z.boolean(),
+  description: z.string().optional(),
+});
+
+export const EducationEntrySchema = z.object({
+  institution: z.string().optional(),
+  degree: z.string().optional(),
+  // Graduation year, or the last year given
+  year: z.number().int().optional(),
+});
+
+export const ResumeLinkSchema = z.object({
+  kind: z.enum(['linkedin', 'github', 'website']),
+  url: z.string(),
+});
+
+export const ParsedResumeSchema = z.object({
+  version: z.number().int(),
+  contact: z.object({
+    name: z.string().optional(),
+    email: z.string().optional(),
+    phone: z.string().optional(),
+    location: z.string().optional(),
+  }),
+  summary: z.string().optional(),
+  experience: z.array(WorkHistoryEntrySchema),
+  education: z.array(EducationEntrySchema),
+  skills: z.array(z.string()),
+  certifications: z.array(z.string()),
+  links: z.array(ResumeLinkSchema),
+});
+
+// Who a CV belongs to - see identifyCandidate
+export const CandidateContactSchema = z.object({
+  name: z.string().nullable(),
+  email: z.string().nullable(),
+  phone: z.string().nullable(),
+  location: z.string().nullable(),
+  linkedinUrl: z.string().nullable(),
+});
+
+export type WorkHistoryEntry = z.infer<typeof WorkHistoryEntrySchema>;
+export type EducationEntry = z.infer<typeof EducationEntrySchema>;
+export type ResumeLink = z.infer<typeof ResumeLinkSchema>;
+export type ParsedResume = z.infer<typeof ParsedResumeSchema>;
+export type CandidateContact = z.infer<typeof CandidateContactSchema>;
+
+// ============================================
+// Vocabulary
+// ============================================
+
+type SectionKind = 'summary' | 'experience' | 'education' | 'skills' | 'certifications' | 'other';
+
+// Headings as they read once lowercased, with "&" spelled "and"
+const SECTION_HEADINGS: Record<SectionKind, string[]> = {
+  summary: [
+    'summary', 'professional summary', 'career summary', 'executive summary', 'profile',
+    'professional profile', 'personal profile', 'about', 'about me', 'objective',
+    'career objective', 'personal statement', 'overview',
+  ],
+  experience: [
+    'experience', 'work experience', 'professional experience', 'relevant experience',
+    'employment', 'employment history', 'work history', 'career history',
+    'professional background', 'career',
+  ],
+  education: [
+    'education', 'education and training', 'academic background', 'academic qualifications',
+    'qualifications', 'academics',
+  ],
+  skills: [
+    'skills', 'technical skills', 'key skills', 'core skills', 'skills and competencies',
+    'competencies', 'core competencies', 'technologies', 'tech stack', 'tools and technologies',
+    'expertise', 'areas of expertise', 'skills and tools',
+  ],
+  certifications: [
+    'certifications', 'certification', 'certificates', 'licenses and certifications',
+    'licences and certifications', 'accreditations', 'professional certifications',
+    'courses and certifications',
+  ],
+  // Recognised only so their lines do not run into the section above them
+  other: [
+    'projects', 'personal projects', 'key projects', 'publications', 'awards', 'honors',
+    'honours', 'achievements', 'languages', 'interests', 'hobbies', 'references',
+    'volunteering', 'volunteer experience', 'activities', 'additional information',
+    'contact', 'contact details', 'personal details', 'personal information',
+  ],
+};
+
+const HEADING_KIND = new Map<string, SectionKind>(
+  (Object.entries(SECTION_HEADINGS) as Array<[SectionKind, string[]]>)
+    .flatMap(([kind, headings]) => headings.map(heading => [heading, kind] as const))
+);
+
+const TITLE_WORDS = /\b(engineer|developer|programmer|architect|manager|director|lead|head|analyst|consultant|designer|scientist|specialist|officer|administrator|coordinator|associate|assistant|intern|internship|executive|president|vp|cto|ceo|cfo|coo|founder|co-founder|owner|partner|technician|researcher|teacher|lecturer|professor|nurse|accountant|advisor|adviser|representative|recruiter|strategist|editor|writer|supervisor|trainee|fellow|contractor|freelancer?)\b/i;
+const EMPLOYER_WORDS = /\b(inc|ltd|llc|llp|plc|corp|corporation|company|group|gmbh|pte|pty|limited|technologies|technology|solutions|systems|labs|software|consulting|partners|bank|agency|studio|services|holdings|international|global|ventures)\b\.?/i;
+const INSTITUTION_WORDS = /\b(universit(?:y|ies|é|at|ät|à)|universidade?|college|institute|institut|school|academy|polytechnic|conservatory|[eé]cole|hochschule)\b/i;
+const DEGREE_WORDS = /\b(bachelor'?s?|master'?s?|doctor(?:ate)?|ph\.?\s?d|mba|bba|b\.?\s?sc|m\.?\s?sc|b\.?\s?eng|m\.?\s?eng|b\.?\s?tech|m\.?\s?tech|b\.?\s?com|m\.?\s?com|b\.\s?a|m\.\s?a|ba|ma|bs|ms|b\.\s?s|m\.\s?s|ll\.?\s?b|ll\.?\s?m|m\.?\s?d|bfa|mfa|diploma|associate'?s? degree|a-levels?|gcses?|hnd|high school)\b/i;
+const NOT_A_NAME = /\b(resume|résumé|curriculum|vitae|cv|profile|page)\b/i;
+
+// ============================================
+// Patterns
+// ============================================
+
+const EMAIL = /[\w.%+-]+@[\w-]+(?:\.[\w-]+)*\.[a-z]{2,}/i;
+const PHONE = /(?<![\w-])\+?\(?\d[\d\s().-]{7,}\d(?![\w-])/g;
+const URL_PATTERN = /\b(?:https?:\/\/|www\.)[^\s<>()"',;]+|\b(?:linkedin\.com\/in|github\.com)\/[^\s<>()"',;]+/gi;
+const BULLET = /^\s*(?:[-–—*•▪●◦■►▸✓➢]|\d{1,2}[.)])\s+/;
+const SEPARATORS = /\s+[|•·▪]\s+|\s+[–—-]\s+|\t+|\s{3,}/;
+
+const MONTH = '(?:jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)\\.?';
+const DATE = `(?:${MONTH}\\s*'?,?\\s*(?:19|20)\\d{2}|(?:0?[1-9]|1[0-2])\\s*[/.]\\s*(?:19|20)\\d{2}|(?:19|20)\\d{2}-(?:0[1-9]|1[0-2])(?!\\d)|(?:19|20)\\d{2})`;
+const ONGOING = '(?:present|current(?:ly)?|now|today|ongoing|date)';
+const DATE_RANGE = new RegExp(`(${DATE})\\s*(?:-|–|—|to|until|till)\\s*(${DATE}|${ONGOING})\\b`, 'i');
+const YEAR = /\b(?:19|20)\d{2}\b/g;
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// ============================================
+// Text Helpers
+// ============================================
+
+const clean = (text: string) => text.replace(/\s+/g, ' ').replace(/^[\s,;:|•·–—-]+|[\s,;:|•·–—-]+$/g, '').trim();
+const stripBullet = (line: string) => line.replace(BULLET, '').trim();
+const isBullet = (line: string) => BULLET.test(line);
+
+function normalizeHeading(line: string): string {
+  return line
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z ]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// The section a line opens, and any content after "Heading:" on the same line
+function headingOf(line: string): { kind: SectionKind; rest: string } | null {
+  const text = stripBullet(line);
+  if (text.length <= 40) {
+    const kind = HEADING_KIND.get(normalizeHeading(text));
+    if (kind) return { kind, rest: '' };
+  }
+  const labelled = text.match(/^([A-Za-z &/]{3,40}):\s*(.*)$/);
+  const kind = labelled && HEADING_KIND.get(normalizeHeading(labelled[1]));
+  return kind ? { kind, rest: labelled[2].trim() } : null;
+}
+
+function titleCase(text: string): string {
+  return text.toLowerCase().replace(/(^|[\s'-])(\p{L})/gu, (_, before: string, letter: string) => before + letter.toUpperCase());
+}
+
+/**
+ * Text that came out of a PDF as one long line gets line breaks back before
+ * upper-case section headings and bullets, so it can be segmented.
+ */
+function restoreLines(text: string): string {
+  const lineCount = text.split('\n').filter(line => line.trim()).length;
+  if (lineCount >= 5 || text.length < 200) return text;
+
+  const headings = [...HEADING_KIND.keys()]
+    .sort((a, b) => b.length - a.length)
+    .map(heading => heading.toUpperCase().replace(/ AND /g, ' (?:AND|&) ').replace(/ /g, '\\s+'));
+  return text
+    .replace(new RegExp(`\\s+(${headings.join('|')})(?::|\\s+)`, 'g'), '\n$1\n')
+    .replace(/\s+([•▪●◦■])\s+/g, '\n$1 ');
+}
+
+// ============================================
+// Sections
+// ============================================
+
+interface Sections {
+  // Lines before the first heading - usually the name and contact details
+  header: string[];
+  sections: Map<SectionKind, string[]>;
+}
+
+function segment(text: string): Sections {
+  const lines = restoreLines(text.replace(/\r\n?/g, '\n'))
+    .split('\n')
+    .map(line => line.trim())
+    .filter(Boolean);
+
+  const header: string[] = [];
+  const sections = new Map<SectionKind, string[]>();
+  let current: string[] = header;
+  for (const line of lines) {
+    const heading = headingOf(line);
+    // "Languages: Go, Rust" under Skills is a group of skills, not the Languages section
+    const skillGroup = heading?.rest && current === sections.get('skills');
+    if (heading && !skillGroup) {
+      // A repeated heading continues the section
+      current = sections.get(heading.kind) ?? [];
+      sections.set(heading.kind, current);
+      if (heading.rest) current.push(heading.rest);
+      continue;
+    }
+    current.push(line);
+  }
+  return { header, sections };
+}
+
+// ============================================
+// Contact & Links
+// ============================================
+
+function findName(header: string[]): string | undefined {
+  for (const line of header.slice(0, 5)) {
+    // "Jane Doe | jane@example.com" - the name comes before the first separator or contact detail
+    const lead = line
+      .replace(/^name\s*:\s*/i, '')
+      .split(SEPARATORS)[0]
+      .split(/[,@(]|\d/)[0]
+      .trim();
+    if (NOT_A_NAME.test(lead) || TITLE_WORDS.test(lead) || EMPLOYER_WORDS.test(lead) || headingOf(lead)) continue;
+
+    const words = lead.split(/\s+/);
+    const nameWords: string[] = [];
+    for (const word of words) {
+      if (!/^\p{Lu}[\p{L}'’.-]*$/u.test(word) || nameWords.length === 4) break;
+      nameWords.push(word);
+    }
+    // A whole short line, or the capitalised words opening a run-together one
+    if (nameWords.length >= 2 && (nameWords.length === words.length || header.length === 1 || line.length > 60)) {
+      const name = nameWords.join(' ');
+      return name === name.toUpperCase() ? titleCase(name) : name;
+    }
+  }
+  return undefined;
+}
+
+function findPhone(text: string): string | undefined {
+  for (const match of text.matchAll(PHONE)) {
+    const digits = match[0].replace(/\D/g, '');
+    if (digits.length >= 9 && digits.length <= 15 && !DATE_RANGE.test(match[0])) {
+      return match[0].trim();
+    }
+  }
+  return undefined;
+}
+
+function findLocation(header: string[], name?: string): string | undefined {
+  for (const line of header.slice(0, 6)) {
+    const labelled = line.match(/\b(?:location|address|based in)\s*:\s*([^|•·]+)/i);
+    if (labelled) return clean(labelled[1]);
+
+    for (const part of line.split(SEPARATORS).map(clean)) {
+      if (part === name || /\d|@/.test(part) || TITLE_WORDS.test(part)) continue;
+      // "City, Region" or "City, Region, Country"
+      if (/^\p{Lu}[\p{L} .'-]+(?:,\s*\p{Lu}[\p{L} .'-]+){1,2}$/u.test(part) && part.length <= 60) return part;
+    }
+  }
+  return undefined;
+}
+
+function findLinks(text: string): ResumeLink[] {
+  const links = new Map<string, ResumeLink>();
+  for (const match of text.matchAll(URL_PATTERN)) {
+    const raw = match[0].replace(/[.)\]]+$/, '');
+    const url = /^https?:\/\//i.test(raw) ? raw : `https://${raw}`;
+    const key = url.toLowerCase().replace(/^https?:\/\/(www\.)?/, '').replace(/\/$/, '');
+    if (links.has(key)) continue;
+    const kind = /linkedin\.com/i.test(url) ? 'linkedin' : /github\.com/i.test(url) ? 'github' : 'website';
+    links.set(key, { kind, url });
+  }
+  return [...links.values()];
+}
+
+// ============================================
+// Work History
+// ============================================
+
+// "Jan 2019" -> "2019-01", "03/2020" -> "2020-03", "2018" -> "2018"
+function normalizeDate(text: string): string | undefined {
+  const year = text.match(/(?:19|20)\d{2}/)?.[0];
+  if (!year) return undefined;
+  const monthName = text.toLowerCase().match(/[a-z]{3}/)?.[0];
+  const monthIndex = monthName ? MONTHS.indexOf(monthName) : -1;
+  if (monthIndex >= 0) return `${year}-${String(monthIndex + 1).padStart(2, '0')}`;
+  const numeric = text.match(/^(\d{1,2})\s*[/.]\s*\d{4}$/) ?? text.match(/^\d{4}-(\d{2})$/);
+  return numeric ? `${year}-${numeric[1].padStart(2, '0')}` : year;
+}
+
+function splitParts(text: string): string[] {
+  return text.split(new RegExp(`${SEPARATORS.source}|,\\s+|\\s+@\\s+`)).map(clean).filter(Boolean);
+}
+
+// Title and employer out of the words around an entry's dates
+function titleAndEmployer(parts: string[]): Pick<WorkHistoryEntry, 'title' | 'employer'> {
+  const joined = parts.join(', ');
+  const at = joined.match(/^(.+?)\s+(?:at|@)\s+(.+)$/i);
+  if (at) return { title: clean(at[1]), employer: clean(at[2].split(',')[0]) };
+
+  const titleIndex = parts.findIndex(part => TITLE_WORDS.test(part));
+  const employerIndex = parts.findIndex((part, i) => i !== titleIndex && EMPLOYER_WORDS.test(part));
+  const firstOther = (taken: number) => parts.findIndex((_, i) => i !== taken);
+
+  if (titleIndex >= 0) {
+    const employer = employerIndex >= 0 ? employerIndex : firstOther(titleIndex);
+    return { title: parts[titleIndex], employer: parts[employer] };
+  }
+  if (employerIndex >= 0) {
+    return { title: parts[firstOther(employerIndex)], employer: parts[employerIndex] };
+  }
+  return { title: parts[0], employer: parts[1] };
+}
+
+/**
+ * A line holding several entries - run-together text - split after each
+ * entry's dates. Where the words before the dates run on from the previous
+ * entry, its last full sentence ends there.
+ */
+function splitEntries(line: string): string[] {
+  const lines: string[] = [];
+  let rest = line;
+  let dates: RegExpMatchArray | null;
+  while ((dates = rest.match(DATE_RANGE)) && dates.index !== undefined) {
+    const head = rest.slice(0, dates.index);
+    // A full stop after three or more words - "Sr. Engineer" is not a sentence
+    const sentenceEnd = [...head.matchAll(/[.!?]\s+(?=\p{Lu})/gu)]
+      .map(match => match.index)
+      .filter(index => head.slice(0, index).trim().split(/\s+/).length >= 3)
+      .pop() ?? -1;
+    if (sentenceEnd >= 0) lines.push(head.slice(0, sentenceEnd + 1));
+    lines.push(`${head.slice(sentenceEnd + 1).trim()} ${dates[0]}`);
+    rest = rest.slice(dates.index + dates[0].length).replace(/^[\s)\]:,;|–—-]+/, '');
+  }
+  lines.push(rest);
+  return lines.map(text => text.trim()).filter(Boolean);
+}
+
+// Short, unpunctuated lines above a date line may be its title or employer
+const isHeaderLike = (line: string) =>
+  !isBullet(line) && line.length <= 80 && !/[.;:]$/.test(line) && line.split(/\s+/).length <= 10;
+
+function parseExperience(lines: string[]): WorkHistoryEntry[] {
+  const entries: WorkHistoryEntry[] = [];
+  const leading: string[] = [];
+  let current: { entry: WorkHistoryEntry; description: string[] } | null = null;
+
+  const finish = () => {
+    if (!current) return;
+    const description = current.description.map(stripBullet).filter(Boolean).join('\n').slice(0, 1500);
+    entries.push({ ...current.entry, description: description || undefined });
+  };
+
+  for (const line of lines.flatMap(splitEntries)) {
+    const dates = line.match(DATE_RANGE);
+    if (!dates) {
+      (current ? current.description : leading).push(line);
+      continue;
+    }
+
+    let parts = splitParts(stripBullet(line).replace(dates[0], ' ').replace(/[()[\]]/g, ' '));
+    // Titles and employers on their own lines above the dates
+    const pool = current ? current.description : leading;
+    const above: string[] = [];
+    while (parts.length + above.length < 2 && pool.length && isHeaderLike(pool[pool.length - 1])) {
+      above.unshift(pool.pop()!);
+    }
+    parts = [...above.flatMap(splitParts), ...parts];
+
+    finish();
+    const ongoing = new RegExp(`^${ONGOING}$`, 'i').test(dates[2].trim());
+    current = {
+      entry: {
+        ...titleAndEmployer(parts),
+        startDate: normalizeDate(dates[1]),
+        endDate: ongoing ? undefined : normalizeDate(dates[2]),
+        current: ongoing,
+      },
+      description: [],
+    };
+  }
+  finish();
+  return entries;
+}
+
+// ============================================
+// Education, Skills & Certifications
+// ============================================
+
+function parseEducation(lines: string[]): EducationEntry[] {
+  const entries: EducationEntry[] = [];
+  let current: EducationEntry | null = null;
+
+  for (const line of lines.map(stripBullet)) {
+    const years = line.match(YEAR);
+    const withoutDates = line.replace(DATE_RANGE, ' ').replace(YEAR, ' ').replace(/[()]/g, ' ');
+    const parts = splitParts(withoutDates);
+    const degree = parts.find(part => DEGREE_WORDS.test(part));
+    const institution = parts.find(part => part !== degree && INSTITUTION_WORDS.test(part));
+    if (!degree && !institution) {
+      if (current && years && current.year === undefined) current.year = Number(years[years.length - 1]);
+      continue;
+    }
+
+    if (!current || (degree && current.degree) || (institution && current.institution)) {
+      current = {};
+      entries.push(current);
+    }
+    if (degree) current.degree = degree;
+    if (institution) current.institution = institution;
+    if (years) current.year = Number(years[years.length - 1]);
+  }
+  return entries.map(entry => Object.fromEntries(
+    Object.entries(entry).filter(([, value]) => value !== undefined)
+  ) as EducationEntry);
+}
+
+function parseSkills(lines: string[]): string[] {
+  const skills = new Map<string, string>();
+  for (const line of lines) {
+    // "Languages: TypeScript, Go" - the label is not a skill
+    const content = stripBullet(line).replace(/^[^:,]{1,30}:\s*/, '');
+    for (const item of content.split(/\s*[,;|•·▪●]\s*|\s+[–—-]\s+|\t+/)) {
+      const skill = clean(item.replace(/\.$/, ''));
+      if (skill && skill.length <= 40 && skill.split(/\s+/).length <= 5 && !skills.has(skill.toLowerCase())) {
+        skills.set(skill.toLowerCase(), skill);
+      }
+    }
+  }
+  return [...skills.values()].slice(0, 60);
+}
+
+function parseCertifications(lines: string[]): string[] {
+  return [...new Set(lines.map(line => clean(stripBullet(line))).filter(line => line && line.length <= 150))].slice(0, 20);
+}
+
+// ============================================
+// Parser
+// ============================================
+
+export function parseResume(text: string): ParsedResume {
+  const { header, sections } = segment(text);
+  const name = findName(header);
+
+  // Without a summary heading, a long paragraph under the contact lines is the summary
+  const summaryLines = sections.get('summary') ?? header.filter(line => line.length >= 120 && !EMAIL.test(line));
+  const summary = summaryLines.map(stripBullet).join(' ').slice(0, 1000);
+
+  return {
+    version: RESUME_PARSER_VERSION,
+    contact: Object.fromEntries(Object.entries({
+      name,
+      email: text.match(EMAIL)?.[0],
+      phone: findPhone(header.join('\n')) ?? findPhone(text),
+      location: findLocation(header, name),
+    }).filter(([, value]) => value !== undefined)),
+    summary: summary || undefined,
+    experience: parseExperience(sections.get('experience') ?? []),
+    education: parseEducation(sections.get('education') ?? []),
+    skills: parseSkills(sections.get('skills') ?? []),
+    certifications: parseCertifications(sections.get('certifications') ?? []),
+    links: findLinks(text),
+  };
+}
+
+// ============================================
+// Candidate Identity
+// ============================================
+
+// A name's words without case or accents, for comparing two readings of it
+const nameWords = (name: string) =>
+  name.normalize('NFKD').replace(/\p{M}/gu, '').toLowerCase().split(/[^a-z]+/).filter(Boolean);
+
+// "Jane Doe" and "Jane A. Doe" are one person: every word of the shorter is in the longer
+function sameName(a: string, b: string): boolean {
+  const [shorter, longer] = [nameWords(a), nameWords(b)].sort((x, y) => x.length - y.length);
+  return shorter.length > 0 && shorter.every(word => longer.includes(word));
+}
+
+const mentions = (text: string, phrase: string) =>
+  text.replace(/\s+/g, ' ').toLowerCase().includes(phrase.replace(/\s+/g, ' ').toLowerCase());
+
+/**
+ * Name and contact details for the CV `text`, read from its parsed `profile`.
+ * `modelName` - the name the screening model read - breaks ties: it replaces
+ * the parser's name when the two differ and the CV contains it, which settles
+ * headers the parser misreads. A name the CV does not contain, or that reads
+ * like a title or heading, is ignored.
+ */
+export function identifyCandidate(profile: ParsedResume, text: string, modelName?: string | null): CandidateContact {
+  const parsedName = profile.contact.name;
+  const suggested = modelName?.trim();
+  const useModel = suggested && suggested.length <= 100 && mentions(text, suggested)
+    && !NOT_A_NAME.test(suggested) && !TITLE_WORDS.test(suggested) && !/[\d@]/.test(suggested)
+    && (!parsedName || !sameName(parsedName, suggested));
+  const name = useModel ? (suggested === suggested.toUpperCase() ? titleCase(suggested) : suggested) : parsedName;
+
+  return {
+    name: name ?? null,
+    email: profile.contact.email ?? null,
+    phone: profile.contact.phone ?? null,
+    location: profile.contact.location ?? null,
+    linkedinUrl: profile.links.find(link => link.kind === 'linkedin')?.url ?? null,
+  };
+}
+
+// ============================================
+// Storage Hook
+// ============================================
+
+// CV text worth parsing - not empty and not a parse failure notice
+const isParseable = (rawText: string) => rawText.trim().length > 0 && !rawText.startsWith('[PARSE_ERROR]');
+
+// The candidate with a current profile, and the contact details it was saved without taken from it
+function withProfile(candidate: CandidateRecord): CandidateRecord {
+  if (!isParseable(candidate.rawText)) return candidate;
+  const parsedData = candidate.parsedData && candidate.parsedData.version >= RESUME_PARSER_VERSION
+    ? candidate.parsedData
+    : parseResume(candidate.rawText);
+  const contact = identifyCandidate(parsedData, candidate.rawText);
+  return {
+    ...candidate,
+    parsedData,
+    email: candidate.email ?? contact.email ?? undefined,
+    phone: candidate.phone ?? contact.phone ?? undefined,
+    location: candidate.location ?? contact.location ?? undefined,
+    linkedinUrl: candidate.linkedinUrl ?? contact.linkedinUrl ?? undefined,
+  };
+}
+
+/**
+ * Wraps `storage` so candidates saved without a current `parsedData` - by
+ * API integrations, or older clients - get one parsed from their rawText,
+ * along with any email, phone, location or LinkedIn URL it holds that the
+ * candidate lacks. Names are left as saved.
+ */
+export function withParsedResumes(storage: Storage): Storage {
+  return {
+    ...storage,
+
+    saveSession(session) {
+      return storage.saveSession({ ...session, candidates: session.candidates.map(withProfile) });
+    },
+
+    saveCandidate(sessionId, candidate) {
+      return storage.saveCandidate(sessionId, withProfile(candidate));
+    },
+  };
+}
@@ -0,0 +1,434 @@
+/**
+ * HireScore AI - Outbound Fetch for User-Supplied URLs
+ *
+ * Job pages, company websites and webhook receivers are addresses a user gave
+ * us, so they must not reach the server's own network. Checking the URL's
+ * hostname is not enough: a public name can resolve to 169.254.169.254, and a
+ * public page can redirect to http://localhost. safeFetch therefore:
+ *
+ * - resolves the hostname itself and refuses it when ANY of its addresses is
+ *   loopback, private, link-local, reserved or otherwise not public
+ * - connects to the address it checked, so a second DNS answer cannot swap it
+ * - follows redirects by hand, checking every hop the same way
+ * - holds the whole exchange - DNS, every hop and the body - to one deadline
+ * - stops reading once the decoded body passes its size limit
+ *
+ *   OUTBOUND_ALLOWED_HOSTS  comma-separated hostnames exempt from the address
+ *                           check, e.g. a webhook receiver on the local network
+ */
+
+import { lookup } from 'node:dns/promises';
+import http from 'node:http';
+import https from 'node:https';
+import { isIP } from 'node:net';
+import { pipeline, type Readable } from 'node:stream';
+import zlib from 'node:zlib';
+import { logger } from './logger.js';
+
+const log = logger.child({ component: 'safe-fetch' });
+
+// ============================================
+// Types
+// ============================================
+
+export type OutboundErrorCode =
+  | 'invalid_url'
+  | 'blocked'
+  | 'dns'
+  | 'timeout'
+  | 'too_large'
+  | 'redirects'
+  | 'network';
+
+export interface SafeFetchOptions {
+  method?: string;
+  headers?: Record<string, string>;
+  body?: string;
+  // 'manual' hands back a 3xx answer instead of following it
+  redirect?: 'follow' | 'manual';
+  // For the whole exchange, redirects and body included
+  timeoutMs?: number;
+  // Decoded body size
+  maxBytes?: number;
+  signal?: AbortSignal;
+}
+
+export interface SafeResponse {
+  // After redirects
+  url: string;
+  status: number;
+  statusText: string;
+  ok: boolean;
+  headers: Headers;
+  body: Buffer;
+  text(): string;
+  json(): unknown;
+}
+
+/**
+ * Raised when a URL may not be fetched or the exchange breaks a limit.
+ * `status` is what a route relaying the failure should answer.
+ */
+export class OutboundRequestError extends Error {
+  status: number;
+  code: OutboundErrorCode;
+
+  constructor(code: OutboundErrorCode, message: string) {
+    super(message);
+    this.name = 'OutboundRequestError';
+    this.code = code;
+    this.status = ERROR_STATUS[code];
+  }
+}
+
+const ERROR_STATUS: Record<OutboundErrorCode, number> = {
+  invalid_url: 400,
+  blocked: 400,
+  dns: 502,
+  timeout: 408,
+  too_large: 413,
+  redirects: 502,
+  network: 502,
+};
+
+// ============================================
+// Configuration
+// ============================================
+
+const DEFAULT_TIMEOUT_MS = 8000;
+const DEFAULT_MAX_BYTES = 5 * 1024 * 1024;
+const MAX_REDIRECTS = 5;
+
+const ALLOWED_PROTOCOLS = ['http:', 'https:'];
+
+// Names that never resolve to anything we should call
+const BLOCKED_HOSTNAMES = new Set([
+  'localhost',
+  'metadata.google.internal',
+  'metadata.goog',
+]);
+
+// [first address, prefix length] of each IPv4 range that is not public
+const BLOCKED_IPV4_RANGES: Array<[string, number]> = [
+  ['0.0.0.0', 8],        // "this network"
+  ['10.0.0.0', 8],       // private
+  ['100.64.0.0', 10],    // carrier-grade NAT
+  ['127.0.0.0', 8],      // loopback
+  ['169.254.0.0', 16],   // link-local, cloud metadata
+  ['172.16.0.0', 12],    // private
+  ['192.0.0.0', 24],     // IETF protocol assignments
+  ['192.0.2.0', 24],     // documentation
+  ['192.88.99.0', 24],   // 6to4 relay
+  ['192.168.0.0', 16],   // private
+  ['198.18.0.0', 15],    // benchmarking
+  ['198.51.100.0', 24],  // documentation
+  ['203.0.113.0', 24],   // documentation
+  ['224.0.0.0', 4],      // multicast
+  ['240.0.0.0', 4],      // reserved, broadcast
+];
+
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+
+// Credentials meant for one origin must not follow a redirect to another
+const ORIGIN_BOUND_HEADERS = ['authorization', 'cookie', 'proxy-authorization'];
+
+function allowedHosts(): Set<string> {
+  return new Set(
+    (process.env.OUTBOUND_ALLOWED_HOSTS ?? '')
+      .split(',')
+      .map(host => host.trim().toLowerCase())
+      .filter(Boolean)
+  );
+}
+
+// ============================================
+// Address Checks
+// ============================================
+
+function ipv4ToInt(address: string): number {
+  return address.split('.').reduce((value, octet) => value * 256 + Number(octet), 0);
+}
+
+function isPublicIPv4(address: string): boolean {
+  const value = ipv4ToInt(address);
+  return !BLOCKED_IPV4_RANGES.some(([base, prefix]) => {
+    const shift = 32 - prefix;
+    return Math.floor(value / 2 ** shift) === Math.floor(ipv4ToInt(base) / 2 ** shift);
+  });
+}
+
+// The eight 16-bit groups of an IPv6 address
+function ipv6Groups(address: string): number[] {
+  let text = address.split('%')[0];
+  const dotted = text.match(/(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) {
+    const value = ipv4ToInt(dotted[1]);
+    text = `${text.slice(0, -dotted[1].length)}${Math.floor(value / 65536).toString(16)}:${(value % 65536).toString(16)}`;
+  }
+  const parse = (part: string) => (part ? part.split(':').map(group => parseInt(group, 16)) : []);
+  const [head, tail] = text.split('::');
+  if (tail === undefined) return parse(head);
+  const front = parse(head);
+  const back = parse(tail);
+  return [...front, ...new Array(8 - front.length - back.length).fill(0), ...back];
+}
+
+// The IPv4 address carried in the last 32 bits
+const embeddedIPv4 = (groups: number[], at = 6) =>
+  [groups[at] >> 8, groups[at] & 255, groups[at + 1] >> 8, groups[at + 1] & 255].join('.');
+
+function isPublicIPv6(address: string): boolean {
+  const groups = ipv6Groups(address);
+  const [first, second] = groups;
+
+  // ::, ::1 and the deprecated IPv4-compatible form
+  if (groups.slice(0, 6).every(group => group === 0)) return false;
+  // IPv4-mapped ::ffff:a.b.c.d
+  if (groups.slice(0, 5).every(group => group === 0) && groups[5] === 0xffff) {
+    return isPublicIPv4(embeddedIPv4(groups));
+  }
+  // NAT64 64:ff9b::/96
+  if (first === 0x64 && second === 0xff9b && groups.slice(2, 6).every(group => group === 0)) {
+    return isPublicIPv4(embeddedIPv4(groups));
+  }
+  // 6to4 2002::/16 carries its IPv4 address in the next 32 bits
+  if (first === 0x2002) return isPublicIPv4(embeddedIPv4(groups, 1));
+  // Teredo 2001::/32 and documentation 2001:db8::/32
+  if (first === 0x2001 && (second === 0 || second === 0xdb8)) return false;
+  // Unique local fc00::/7, link-local fe80::/10, multicast ff00::/8
+  if ((first & 0xfe00) === 0xfc00 || (first & 0xffc0) === 0xfe80 || (first & 0xff00) === 0xff00) return false;
+  return true;
+}
+
+/**
+ * True when `address` (an IPv4 or IPv6 literal) is on the public internet.
+ */
+export function isPublicAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 4) return isPublicIPv4(address);
+  if (family === 6) return isPublicIPv6(address);
+  return false;
+}
+
+function parseUrl(input: string, base?: URL): URL {
+  let url: URL;
+  try {
+    url = new URL(input, base);
+  } catch {
+    throw new OutboundRequestError('invalid_url', 'Invalid URL format');
+  }
+  if (!ALLOWED_PROTOCOLS.includes(url.protocol)) {
+    throw new OutboundRequestError('invalid_url', `Protocol not allowed: ${url.protocol}`);
+  }
+  if (url.username || url.password) {
+    throw new OutboundRequestError('invalid_url', 'URLs with credentials are not allowed');
+  }
+  return url;
+}
+
+// The hostname without IPv6 brackets
+const bareHostname = (url: URL) => url.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+
+/**
+ * The address to connect to for `url`, after checking every address its
+ * hostname resolves to.
+ */
+async function resolveAddress(url: URL): Promise<{ address: string; family: number }> {
+  const hostname = bareHostname(url);
+  const allowed = allowedHosts().has(hostname);
+  if (!allowed && (BLOCKED_HOSTNAMES.has(hostname) || hostname.endsWith('.localhost'))) {
+    log.warn('Blocked outbound hostname', { hostname });
+    throw new OutboundRequestError('blocked', 'This URL cannot be accessed for security reasons');
+  }
+
+  const literal = isIP(hostname);
+  let addresses: Array<{ address: string; family: number }>;
+  if (literal) {
+    addresses = [{ address: hostname, family: literal }];
+  } else {
+    try {
+      addresses = await lookup(hostname, { all: true, verbatim: true });
+    } catch {
+      throw new OutboundRequestError('dns', `Could not resolve ${hostname}`);
+    }
+    if (addresses.length === 0) {
+      throw new OutboundRequestError('dns', `Could not resolve ${hostname}`);
+    }
+  }
+
+  if (!allowed) {
+    const blocked = addresses.find(({ address }) => !isPublicAddress(address));
+    if (blocked) {
+      log.warn('Blocked outbound address', { hostname, address: blocked.address });
+      throw new OutboundRequestError('blocked', 'Internal network URLs are not allowed');
+    }
+  }
+  return addresses[0];
+}
+
+// ============================================
+// Transport
+// ============================================
+
+interface Hop {
+  status: number;
+  statusText: string;
+  headers: Headers;
+  // Only read when the answer is not a redirect being followed
+  body?: Buffer;
+}
+
+function toHeaders(raw: http.IncomingHttpHeaders): Headers {
+  const headers = new Headers();
+  for (const [name, value] of Object.entries(raw)) {
+    if (value === undefined) continue;
+    for (const item of Array.isArray(value) ? value : [value]) headers.append(name, item);
+  }
+  return headers;
+}
+
+function decode(response: http.IncomingMessage): Readable {
+  const decoder = {
+    gzip: zlib.createGunzip,
+    'x-gzip': zlib.createGunzip,
+    deflate: zlib.createInflate,
+    br: zlib.createBrotliDecompress,
+  }[String(response.headers['content-encoding'] ?? '').trim().toLowerCase()];
+  // Errors reach the decoder, which the reader sees
+  return decoder ? pipeline(response, decoder(), () => undefined) : response;
+}
+
+async function readBody(stream: Readable, maxBytes: number): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of stream) {
+    size += chunk.length;
+    if (size > maxBytes) {
+      stream.destroy();
+      throw new OutboundRequestError('too_large', `Response exceeded ${maxBytes} bytes`);
+    }
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+// One request to the pinned address; the body is skipped for redirects we follow
+function send(
+  url: URL,
+  target: { address: string; family: number },
+  request: { method: string; headers: Record<string, string>; body?: string; follow: boolean; maxBytes: number },
+  signal: AbortSignal
+): Promise<Hop> {
+  const hostname = bareHostname(url);
+  return new Promise((resolve, reject) => {
+    const outgoing = (url.protocol === 'https:' ? https : http).request({
+      host: target.address,
+      family: target.family,
+      port: url.port || undefined,
+      path: `${url.pathname}${url.search}`,
+      method: request.method,
+      // The certificate is checked against the hostname, not the address
+      servername: isIP(hostname) ? undefined : hostname,
+      headers: {
+        'Accept-Encoding': 'gzip, deflate, br',
+        ...request.headers,
+        Host: url.host,
+      },
+      signal,
+    }, response => {
+      const status = response.statusCode ?? 0;
+      const hop = { status, statusText: response.statusMessage ?? '', headers: toHeaders(response.headers) };
+
+      if (request.follow && REDIRECT_STATUSES.has(status) && hop.headers.has('location')) {
+        response.resume();
+        resolve(hop);
+        return;
+      }
+      const declared = Number(hop.headers.get('content-length'));
+      if (declared > request.maxBytes) {
+        response.destroy();
+        reject(new OutboundRequestError('too_large', `Response of ${declared} bytes exceeds ${request.maxBytes}`));
+        return;
+      }
+      readBody(decode(response), request.maxBytes).then(body => resolve({ ...hop, body }), reject);
+    });
+    outgoing.on('error', reject);
+    outgoing.end(request.body);
+  });
+}
+
+// `promise`, unless `signal` fires first
+function untilAborted<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+  if (signal.aborted) return Promise.reject(signal.reason);
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+// ============================================
+// Fetch
+// ============================================
+
+/**
+ * GET (or `options.method`) a user-supplied URL under the checks above.
+ * Throws OutboundRequestError when the URL is refused or a limit is hit; a
+ * caller's own `signal` aborts with its reason.
+ */
+export async function safeFetch(input: string, options: SafeFetchOptions = {}): Promise<SafeResponse> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const maxBytes = options.maxBytes ?? DEFAULT_MAX_BYTES;
+  const deadline = AbortSignal.timeout(timeoutMs);
+  const signal = options.signal ? AbortSignal.any([options.signal, deadline]) : deadline;
+
+  let url = parseUrl(input);
+  let method = (options.method ?? 'GET').toUpperCase();
+  let body = options.body;
+  let headers = { ...options.headers };
+
+  for (let redirects = 0; ; redirects++) {
+    let hop: Hop;
+    try {
+      const target = await untilAborted(resolveAddress(url), signal);
+      hop = await send(url, target, { method, headers, body, follow: options.redirect !== 'manual', maxBytes }, signal);
+    } catch (error) {
+      if (error instanceof OutboundRequestError) throw error;
+      if (options.signal?.aborted) throw options.signal.reason;
+      if (deadline.aborted) {
+        throw new OutboundRequestError('timeout', `No complete answer within ${timeoutMs}ms`);
+      }
+      throw new OutboundRequestError('network', (error as Error).message);
+    }
+
+    if (hop.body) {
+      const responseBody = hop.body;
+      return {
+        url: url.href,
+        status: hop.status,
+        statusText: hop.statusText,
+        ok: hop.status >= 200 && hop.status < 300,
+        headers: hop.headers,
+        body: responseBody,
+        text: () => responseBody.toString('utf8'),
+        json: () => JSON.parse(responseBody.toString('utf8')),
+      };
+    }
+
+    if (redirects >= MAX_REDIRECTS) {
+      throw new OutboundRequestError('redirects', `More than ${MAX_REDIRECTS} redirects`);
+    }
+    const next = parseUrl(hop.headers.get('location')!, url);
+    if (hop.status === 303 || ((hop.status === 301 || hop.status === 302) && method === 'POST')) {
+      method = 'GET';
+      body = undefined;
+      headers = Object.fromEntries(Object.entries(headers).filter(([name]) => name.toLowerCase() !== 'content-type'));
+    }
+    if (next.origin !== url.origin) {
+      headers = Object.fromEntries(
+        Object.entries(headers).filter(([name]) => !ORIGIN_BOUND_HEADERS.includes(name.toLowerCase()))
+      );
+    }
+    url = next;
+  }
+}
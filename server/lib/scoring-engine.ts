@@ -0,0 +1,773 @@
+/**
+ * HireScore AI - Scoring Engine
+ *
+ * The single implementation of candidate screening: prompt building, the AI
+ * call, JSON repair, normalization and gating. The Express server, the Vercel
+ * handlers and both batch paths all score through this module so a candidate
+ * gets the same result regardless of where we deploy.
+ */
+
+import type { AIProvider, ChatMessage, ChatResponse, ChatUsage, UsageAttribution } from './ai-provider.js';
+import {
+  MAX_ENSEMBLE_MODELS,
+  type CostEstimate,
+  type EnsembleSummary,
+  type ModelOpinion,
+  type ScreeningResult,
+} from './api-contract.js';
+import type { SessionBudget } from './budget.js';
+import { logger } from './logger.js';
+import {
+  isTransient,
+  modelChain,
+  NO_FALLBACK,
+  retryDelayMs,
+  sleep,
+  type FallbackPolicy,
+} from './model-fallback.js';
+import {
+  costOf,
+  estimateCost,
+  estimateTokens,
+  recordPromptUsage,
+  reservedPromptTokens,
+  roundUsd,
+} from './pricing.js';
+import type { CreditAccount } from './quotas.js';
+import { resultCacheKey, type ResultCache } from './result-cache.js';
+import { identifyCandidate, parseResume } from './resume-parser.js';
+import { validateScreeningOutput, type ScreeningOutput } from './screening-schema.js';
+
+const log = logger.child({ component: 'scoring' });
+
+// ============================================
+// Types
+// ============================================
+
+export type Recommendation = 'interview' | 'maybe' | 'pass';
+
+// Results and ensemble opinions are defined by the public API contract
+export type { EnsembleSummary, ModelOpinion, ScreeningResult };
+
+export interface ScreeningOutcome {
+  result: ScreeningResult;
+  // Model that actually scored the CV - differs from `requestedModel` after a fallback
+  model: string;
+  requestedModel: string;
+  usage?: ChatUsage;
+  // USD for every call this result took; null when the model's price is unknown
+  costUsd: number | null;
+  // Number of repair re-prompts needed before the output validated
+  repairAttempts: number;
+  // Rate-limit / outage retries across the fallback chain
+  retries: number;
+  // Served from the result cache - no model call, nothing billed
+  cached?: boolean;
+  // Set by scoreEnsemble - `result` is then the merged opinion
+  ensemble?: EnsembleSummary;
+}
+
+// A finished screening - told to the engine's listener once per score() or scoreEnsemble()
+export interface ScoredScreening {
+  cvContent: string;
+  outcome: ScreeningOutcome;
+  attribution?: UsageAttribution;
+}
+
+export type ScreeningListener = (screening: ScoredScreening) => Promise<void>;
+
+// Emitted around each model call so callers can report real progress
+export type ScoreProgress =
+  | { type: 'sent'; attempt: number; model: string }
+  | { type: 'tokens'; attempt: number; model: string; usage?: ChatUsage; valid: boolean }
+  | { type: 'retrying'; attempt: number; model: string; delayMs: number; reason: string }
+  | { type: 'fallback'; from: string; to: string; reason: string };
+
+export interface ScoreOptions {
+  model: string;
+  // Skip the cache lookup; the fresh result still replaces the cached one
+  bypassCache?: boolean;
+  signal?: AbortSignal;
+  onProgress?: (event: ScoreProgress) => void;
+  // Every model call is reserved against it first; throws BudgetExceededError when refused
+  budget?: SessionBudget;
+  // One screening credit is taken once the cache cannot answer; throws QuotaExceededError when none are left
+  credits?: CreditAccount;
+  attribution?: UsageAttribution;
+}
+
+/**
+ * Raised when the model's output still fails the schema after repair attempts.
+ * `issues` lists each violation as `path: message`.
+ */
+export class ScreeningValidationError extends Error {
+  issues: string[];
+  rawResponse: string;
+
+  constructor(message: string, issues: string[], rawResponse: string) {
+    super(message);
+    this.name = 'ScreeningValidationError';
+    this.issues = issues;
+    this.rawResponse = rawResponse;
+  }
+}
+
+// ============================================
+// Scoring Rules
+// ============================================
+
+// Bump whenever the prompt or rules change - scores are only comparable within a version
+export const PROMPT_VERSION = '2.2';
+
+export const MIN_CV_LENGTH = 50;
+
+export const RECOMMENDATION_THRESHOLDS = {
+  interview: 70,
+  maybe: 50,
+} as const;
+
+// Missing required skills cap the score - don't trust the model to apply this itself
+export const GATING_CAPS = [
+  { missing: 3, cap: 40 },
+  { missing: 2, cap: 55 },
+  { missing: 1, cap: 75 },
+] as const;
+
+// Ensembles score with up to three models; a wider spread than this goes to a human
+export const ENSEMBLE_DISAGREEMENT_THRESHOLD = 15;
+
+export const SYSTEM_PROMPT = 'You are an expert HR recruiter. Always respond with valid JSON only.';
+
+// Completion allowance per model call, and what a valid result usually takes
+export const MAX_COMPLETION_TOKENS = 2000;
+export const TYPICAL_COMPLETION_TOKENS = 800;
+
+// Re-prompts sent back to the model when its output fails validation
+export const MAX_REPAIR_ATTEMPTS = 1;
+
+export function recommendationFor(score: number): Recommendation {
+  if (score >= RECOMMENDATION_THRESHOLDS.interview) return 'interview';
+  if (score >= RECOMMENDATION_THRESHOLDS.maybe) return 'maybe';
+  return 'pass';
+}
+
+export function applyGating(rawScore: number, missingCount: number): { score: number; gatingApplied: boolean } {
+  const rule = GATING_CAPS.find(r => missingCount >= r.missing);
+  if (rule && rawScore > rule.cap) {
+    return { score: rule.cap, gatingApplied: true };
+  }
+  return { score: rawScore, gatingApplied: false };
+}
+
+// ============================================
+// Prompt
+// ============================================
+
+// 2026 Enterprise-Grade Prompt with Semantic Matching & Confidence Calibration
+export function buildScreeningPrompt(jobDescription: string, cvContent: string): string {
+  return `<system>
+You are HireScore AI v2.0 - Enterprise Talent Assessment Engine (January 2026).
+Your assessments MUST be: EVIDENCE-BASED, SEMANTICALLY AWARE, and CONFIDENCE-CALIBRATED.
+</system>
+
+<skill_equivalencies>
+TREAT THESE AS EXACT MATCHES (same skill, different names):
+Frontend: React = React.js = ReactJS = "React 18/19" | Vue = Vue.js = VueJS | Angular = AngularJS = "Angular 17+"
+Backend: Node.js = NodeJS = "Node" = Express.js | Python = Python3 = Py | Java = "Java 17+" | Go = Golang
+Databases: PostgreSQL = Postgres = PSQL | MongoDB = Mongo | MySQL = MariaDB | Redis = "Redis Cache"
+Cloud: AWS = "Amazon Web Services" = EC2/S3/Lambda mentions | GCP = "Google Cloud" | Azure = "Microsoft Azure"
+DevOps: Docker = containerization | Kubernetes = K8s = "container orchestration" | CI/CD = "GitHub Actions" = Jenkins = "GitLab CI"
+Languages: TypeScript = TS = "typed JavaScript" | JavaScript = JS = ES6+ | SQL = "database queries"
+Methods: Agile = Scrum = Kanban = "Sprint-based" | TDD = "Test-Driven" | REST = RESTful = "REST API"
+
+PARTIAL MATCHES (count at 70% weight - transferable skills):
+React ↔ Vue ↔ Angular (modern frontend frameworks)
+PostgreSQL ↔ MySQL ↔ SQLite (SQL databases)
+MongoDB ↔ DynamoDB ↔ Cassandra (NoSQL databases)
+AWS ↔ GCP ↔ Azure (cloud platforms)
+Python ↔ Ruby ↔ PHP (scripting languages)
+Java ↔ C# ↔ Kotlin (enterprise OOP languages)
+</skill_equivalencies>
+
+<seniority_detection>
+JUNIOR (0-2 years): Entry-level, intern, associate, "I" suffix, learning focus
+MID (2-5 years): Developer, engineer (no prefix), "II" suffix, independent contributor
+SENIOR (5-8 years): Senior, Sr., lead (technical), "III" suffix, mentoring others
+STAFF/PRINCIPAL (8+ years): Staff, principal, architect, distinguished, system design ownership
+MANAGER: Team lead, engineering manager, people management, hiring responsibility
+DIRECTOR+: Director, VP, Head of, C-level, strategy ownership, P&L responsibility
+
+Evidence signals: "led team of X", "managed X engineers", "architected", "mentored X juniors"
+</seniority_detection>
+
+<scoring_rubric>
+TOTAL = Technical(35) + Experience(25) + Education(15) + Progression(15) + Communication(10)
+
+Technical Skills (0-35 pts):
+• Each REQUIRED skill found with evidence: +7 pts (max 35)
+• PARTIAL match (related skill): +5 pts
+• NICE-TO-HAVE skills: +2 pts each
+• GATING: 1 required missing → cap at 75 | 2+ missing → cap at 55 | 3+ missing → cap at 40
+
+Experience (0-25 pts):
+• Exceeds requirement by 2+ years: 25 pts
+• Meets requirement exactly: 20 pts
+• 1-2 years short: 15 pts
+• 3+ years short: 8 pts
+• Relevant industry bonus: +3 pts
+
+Education (0-15 pts):
+• Exact degree match: 15 pts
+• Related degree: 12 pts
+• Different field + relevant certs/bootcamp: 10 pts
+• No degree, strong portfolio: 8 pts
+
+Career Progression (0-15 pts):
+• Clear upward trajectory with promotions: 15 pts
+• Lateral moves with skill growth: 12 pts
+• Stable but stagnant: 8 pts
+• Job hopping (<1yr avg tenure): 5 pts
+
+Communication (0-10 pts):
+• Well-structured CV, quantified achievements ($, %, users): 10 pts
+• Clear but generic descriptions: 7 pts
+• Confusing, sparse, or poorly formatted: 4 pts
+</scoring_rubric>
+
+<interview_questions_guide>
+Generate 5 CUSTOM questions based on THIS JD and CV. Use these prefixes:
+- [PHONE] - Quick verification questions about CV claims
+- [TECH] - Technical deep-dive on JD required skills
+- [BEHAVIORAL] - Questions about concerns/red flags found
+- [FINAL] - Questions about growth and missing skills
+
+IMPORTANT: Questions MUST be specific to this candidate, NOT generic!
+</interview_questions_guide>
+
+<confidence_calibration>
+Your confidence score MUST accurately reflect evidence quality:
+
+0.90-1.00 (VERY HIGH): ALL required skills explicit with years/projects, clear verifiable timeline, quantified achievements, education stated
+0.70-0.89 (HIGH): MOST skills stated, some inferred from context, timeline present with minor gaps, achievements mentioned
+0.50-0.69 (MODERATE): SOME skills inferred, timeline unclear or gaps >1 year, generic descriptions
+0.30-0.49 (LOW): MANY skills inferred not stated, sparse details, cannot verify key claims
+0.00-0.29 (VERY LOW): INSUFFICIENT data, CV may be incomplete, major role mismatch
+</confidence_calibration>
+
+<candidate_name>
+Set "candidateName" to the candidate's full name exactly as the CV writes it - never a file name, job title or company. Use null if the CV gives no name.
+</candidate_name>
+
+<output_example>
+{
+  "candidateName": "Jane Doe",
+  "score": 78,
+  "confidence": 0.85,
+  "confidenceReason": "Clear React/TS evidence, 1 unexplained gap",
+  "recommendation": "interview",
+  "summary": "Strong frontend match with 6yr React experience. Top strength: led team shipping 50K-user app. Gap: no AWS experience.",
+  "scoreBreakdown": {
+    "technicalSkills": 28,
+    "experience": 22,
+    "education": 12,
+    "careerProgression": 10,
+    "communication": 6
+  },
+  "matchedSkills": [
+    {"skill": "React", "evidence": "React 18 dashboard, 50K users", "matchType": "exact"},
+    {"skill": "TypeScript", "evidence": "5 years TypeScript strict mode", "matchType": "exact"},
+    {"skill": "Node.js", "evidence": "Express.js APIs", "matchType": "synonym"}
+  ],
+  "partialMatches": [
+    {"skill": "AWS", "candidateHas": "GCP", "matchPercent": 70}
+  ],
+  "missingSkills": ["GraphQL", "Kubernetes"],
+  "seniorityAssessment": {
+    "detected": "senior",
+    "required": "senior",
+    "match": true,
+    "evidence": "Led team of 5, 6 years experience"
+  },
+  "strengths": ["Production React at scale", "Team leadership", "Performance optimization"],
+  "concerns": ["Employment gap 2021-2023", "No cloud-native experience"],
+  "interviewQuestions": [
+    "[PHONE] Verify: <question about specific CV claim>",
+    "[TECH] Skill check: <question about JD required skill>",
+    "[TECH] Deep dive: <question about CV project>",
+    "[BEHAVIORAL] Concern: <question about red flag found>",
+    "[FINAL] Growth: <question about missing skill learning>"
+  ],
+  "experienceYears": 6,
+  "relevantExperienceYears": 5,
+  "skillMatchPercent": 75,
+  "educationMatch": true
+}
+</output_example>
+
+═══════════════════════════════════════════════════════════════
+JOB REQUIREMENTS:
+${jobDescription}
+═══════════════════════════════════════════════════════════════
+CANDIDATE CV/RESUME:
+${cvContent}
+═══════════════════════════════════════════════════════════════
+
+ANALYZE NOW. Return ONLY valid JSON matching the output_example structure. No markdown, no explanation.`;
+}
+
+// ============================================
+// Parsing & Normalization
+// ============================================
+
+/**
+ * Extract the JSON object from a model reply: strips code fences and
+ * surrounding prose, trailing commas and control characters.
+ */
+export function repairJson(content: string): string {
+  let jsonStr = content.trim();
+
+  // Remove markdown code blocks if present (various formats)
+  const codeBlockMatch = content.match(/```(?:json|JSON)?\s*([\s\S]*?)\s*```/);
+  if (codeBlockMatch) {
+    jsonStr = codeBlockMatch[1].trim();
+  }
+
+  // Remove any leading text before the JSON object
+  const jsonStartIndex = jsonStr.indexOf('{');
+  if (jsonStartIndex > 0) {
+    jsonStr = jsonStr.substring(jsonStartIndex);
+  }
+
+  // Remove any trailing text after the JSON object
+  const jsonEndIndex = jsonStr.lastIndexOf('}');
+  if (jsonEndIndex > 0 && jsonEndIndex < jsonStr.length - 1) {
+    jsonStr = jsonStr.substring(0, jsonEndIndex + 1);
+  }
+
+  // Clean up common JSON issues (simple and reliable)
+  return jsonStr
+    .replace(/,\s*}/g, '}')  // Remove trailing commas before }
+    .replace(/,\s*]/g, ']')  // Remove trailing commas before ]
+    // eslint-disable-next-line no-control-regex
+    .replace(new RegExp('[\\u0000-\\u0008\\u000B\\u000C\\u000E-\\u001F\\u007F]', 'g'), '') // Remove control chars except \n\r\t
+    .replace(/\r\n/g, '\n')  // Normalize line endings
+    .replace(/\r/g, '\n');   // Normalize line endings
+}
+
+/**
+ * Turn schema-valid model output into a ScreeningResult, enforcing gating caps
+ * and recommendation thresholds.
+ */
+export function normalizeResult(output: ScreeningOutput, cvContent: string): ScreeningResult {
+  // matchedSkills/partialMatches/interviewQuestions may be objects or plain strings
+  const matchedSkills = output.matchedSkills.map(s => typeof s === 'string' ? s : s.skill);
+  const interviewQuestions = output.interviewQuestions.map(q => typeof q === 'string' ? q : q.question);
+  const partialMatches = (output.partialMatches || []).map(p =>
+    typeof p === 'string' ? p : p.candidateHas ? `${p.skill} (have: ${p.candidateHas})` : p.skill
+  );
+
+  // ENFORCE GATING RULES - Don't trust AI to apply caps correctly
+  const { score: finalScore, gatingApplied } = applyGating(output.score, output.missingSkills.length);
+  const recommendation = gatingApplied ? recommendationFor(finalScore) : output.recommendation;
+
+  log.debug('Gating', { rawScore: output.score, missingSkills: output.missingSkills.length, finalScore, gatingApplied });
+
+  return {
+    candidate: identifyCandidate(parseResume(cvContent), cvContent, output.candidateName),
+    score: Math.round(finalScore),
+    recommendation,
+    summary: output.summary,
+    matchedSkills,
+    missingSkills: output.missingSkills,
+    concerns: output.concerns,
+    interviewQuestions,
+    experienceYears: Math.round(output.experienceYears),
+    // 2026 Enterprise fields
+    confidence: output.confidence ?? null,
+    confidenceReason: output.confidenceReason || null,
+    scoreBreakdown: output.scoreBreakdown,
+    partialMatches,
+    strengths: output.strengths || matchedSkills.slice(0, 5),
+    seniorityAssessment: output.seniorityAssessment
+      ? { ...output.seniorityAssessment, evidence: output.seniorityAssessment.evidence || undefined }
+      : null,
+    relevantExperienceYears: output.relevantExperienceYears != null ? Math.round(output.relevantExperienceYears) : null,
+    skillMatchPercent: output.skillMatchPercent ?? null,
+    educationMatch: output.educationMatch ?? null,
+  };
+}
+
+/**
+ * Parse and validate a raw model reply against the screening schema.
+ */
+export function validateModelReply(content: string, cvContent: string): { result: ScreeningResult } | { issues: string[] } {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(repairJson(content));
+  } catch {
+    return { issues: ['(root): response is not valid JSON'] };
+  }
+
+  const validation = validateScreeningOutput(parsed);
+  if (!validation.success) {
+    return { issues: validation.issues };
+  }
+  return { result: normalizeResult(validation.data, cvContent) };
+}
+
+// Targeted follow-up telling the model exactly which constraints it broke
+function buildRepairPrompt(issues: string[]): string {
+  return `Your previous response failed validation:
+${issues.map(issue => `- ${issue}`).join('\n')}
+
+Rules: scoreBreakdown fields are technicalSkills 0-35, experience 0-25, education 0-15, careerProgression 0-15, communication 0-10; "score" must equal their sum; "recommendation" is one of interview|maybe|pass.
+Return the corrected JSON object only. No markdown, no explanation.`;
+}
+
+function addUsage(total: ChatUsage | undefined, usage: ChatUsage | undefined): ChatUsage | undefined {
+  if (!usage) return total;
+  if (!total) return { ...usage };
+  return {
+    prompt_tokens: total.prompt_tokens + usage.prompt_tokens,
+    completion_tokens: total.completion_tokens + usage.completion_tokens,
+    total_tokens: total.total_tokens + usage.total_tokens,
+  };
+}
+
+// ============================================
+// Cost Estimate
+// ============================================
+
+const promptTokensOf = (messages: ChatMessage[]): number =>
+  messages.reduce((sum, message) => sum + estimateTokens(message.content), 0);
+
+// Most a single call can cost - what a session budget reserves before sending it.
+// The real cost replaces it once the provider reports usage.
+function callCostCeiling(model: string, promptTokens: number): number | null {
+  return estimateCost(model, reservedPromptTokens(model, promptTokens), MAX_COMPLETION_TOKENS);
+}
+
+/**
+ * Approximate tokens and dollars for screening every CV against the JD with
+ * `model`, built from the exact prompts the engine would send.
+ */
+export function estimateScreening(jobDescription: string, cvContents: string[], model: string): CostEstimate {
+  const promptTokens = cvContents.reduce((sum, cvContent) => sum + promptTokensOf([
+    { role: 'system', content: SYSTEM_PROMPT },
+    { role: 'user', content: buildScreeningPrompt(jobDescription, cvContent) },
+  ]), 0);
+  const calls = cvContents.length;
+  return {
+    model,
+    candidates: calls,
+    promptTokens,
+    completionTokens: calls * TYPICAL_COMPLETION_TOKENS,
+    costUsd: estimateCost(model, promptTokens, calls * TYPICAL_COMPLETION_TOKENS),
+    maxCostUsd: estimateCost(model, promptTokens, calls * MAX_COMPLETION_TOKENS),
+  };
+}
+
+// ============================================
+// Ensemble
+// ============================================
+
+/**
+ * The models to score with: `model` first, then each extra one once.
+ * Null when `extra` names no other model; an error message when it is malformed.
+ */
+export function ensembleModels(model: string, extra: unknown): { models: string[] | null } | { error: string } {
+  if (extra === undefined || extra === null) return { models: null };
+  if (!Array.isArray(extra) || extra.some(m => typeof m !== 'string' || !m)) {
+    return { error: 'ensembleModels must be an array of model IDs' };
+  }
+  const models = [...new Set([model, ...extra as string[]])];
+  if (models.length > MAX_ENSEMBLE_MODELS) {
+    return { error: `An ensemble uses at most ${MAX_ENSEMBLE_MODELS} models` };
+  }
+  return { models: models.length > 1 ? models : null };
+}
+
+const mean = (values: number[]): number => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+// Scores and breakdowns are averaged; text comes from the first model's opinion.
+// `failed` names the models that gave no opinion.
+function mergeOpinions(outcomes: ScreeningOutcome[], failed: string[]): ScreeningOutcome {
+  const [primary] = outcomes;
+  const opinions: ModelOpinion[] = outcomes.map(({ model, result }) => ({
+    model,
+    score: result.score,
+    recommendation: result.recommendation,
+    confidence: result.confidence,
+    scoreBreakdown: result.scoreBreakdown,
+    summary: result.summary,
+  }));
+  const averaged = (pick: (opinion: ModelOpinion) => number) => Math.round(mean(opinions.map(pick)));
+
+  const score = averaged(o => o.score);
+  const scores = opinions.map(o => o.score);
+  const spread = Math.max(...scores) - Math.min(...scores);
+  // A lone surviving opinion has nothing to be checked against
+  const unchecked = opinions.length < 2 && failed.length > 0;
+  const disagree = spread > ENSEMBLE_DISAGREEMENT_THRESHOLD;
+  const needsHumanReview = unchecked || disagree;
+  const confidences = opinions.flatMap(o => o.confidence === null ? [] : [o.confidence]);
+  const costs = outcomes.map(o => o.costUsd);
+
+  return {
+    ...primary,
+    result: {
+      ...primary.result,
+      score,
+      recommendation: recommendationFor(score),
+      confidence: confidences.length > 0 ? Math.round(mean(confidences) * 100) / 100 : null,
+      scoreBreakdown: {
+        technicalSkills: averaged(o => o.scoreBreakdown.technicalSkills),
+        experience: averaged(o => o.scoreBreakdown.experience),
+        education: averaged(o => o.scoreBreakdown.education),
+        careerProgression: averaged(o => o.scoreBreakdown.careerProgression),
+        communication: averaged(o => o.scoreBreakdown.communication),
+      },
+    },
+    usage: outcomes.reduce<ChatUsage | undefined>((total, o) => addUsage(total, o.usage), undefined),
+    costUsd: costs.includes(null) ? null : roundUsd((costs as number[]).reduce((sum, cost) => sum + cost, 0)),
+    repairAttempts: Math.max(...outcomes.map(o => o.repairAttempts)),
+    retries: outcomes.reduce((sum, o) => sum + o.retries, 0),
+    cached: outcomes.every(o => o.cached),
+    ensemble: {
+      opinions,
+      spread,
+      needsHumanReview,
+      reviewReason: unchecked
+        ? `Only ${primary.model} answered - ${failed.join(', ')} failed`
+        : disagree
+          ? `Models disagree by ${spread} points (${opinions.map(o => `${o.model}: ${o.score}`).join(', ')})`
+          : undefined,
+    },
+  };
+}
+
+// Usage and dollars across every call of one score(), whichever model answered
+interface CallTally {
+  usage?: ChatUsage;
+  costUsd: number | null;
+}
+
+export class ScoringEngine {
+  private provider: AIProvider;
+  private cache?: ResultCache;
+  private fallback: FallbackPolicy;
+  private onScored?: ScreeningListener;
+
+  constructor(
+    provider: AIProvider,
+    cache?: ResultCache,
+    fallback: FallbackPolicy = NO_FALLBACK,
+    onScored?: ScreeningListener
+  ) {
+    this.provider = provider;
+    this.cache = cache;
+    this.fallback = fallback;
+    this.onScored = onScored;
+  }
+
+  /**
+   * Score a CV against a JD. Output that fails the schema is sent back to the
+   * model with the list of violations; if it is still invalid after
+   * MAX_REPAIR_ATTEMPTS, a ScreeningValidationError is thrown.
+   * Rate limits and provider outages are retried, then handed to the next
+   * model of the fallback chain; the last model's error is thrown.
+   * Only validated results are cached. The result is told to the `onScored`
+   * listener as well.
+   */
+  async score(jobDescription: string, cvContent: string, options: ScoreOptions): Promise<ScreeningOutcome> {
+    const outcome = await this.scoreModel(jobDescription, cvContent, options);
+    this.announce({ cvContent, outcome, attribution: options.attribution });
+    return outcome;
+  }
+
+  /**
+   * Score with every model at once and merge their opinions. A score spread
+   * above ENSEMBLE_DISAGREEMENT_THRESHOLD flags the candidate for human review.
+   * Models that fail are left out; the first error is thrown only if all fail,
+   * and a single surviving opinion is flagged for human review.
+   * The merged screening takes a single credit.
+   */
+  async scoreEnsemble(
+    jobDescription: string,
+    cvContent: string,
+    models: string[],
+    options: Omit<ScoreOptions, 'model'>
+  ): Promise<ScreeningOutcome> {
+    const { credits, ...perModel } = options;
+    const credit = await credits?.reserve();
+    const settled = await Promise.allSettled(
+      models.map(model => this.scoreModel(jobDescription, cvContent, { ...perModel, model }))
+    );
+
+    const outcomes = settled.flatMap(s => s.status === 'fulfilled' ? [s.value] : []);
+    const failed = models.filter((_, i) => settled[i].status === 'rejected');
+    const merged = outcomes.length > 0 && !options.signal?.aborted ? mergeOpinions(outcomes, failed) : null;
+    if (!merged || merged.cached) credit?.release();
+    options.signal?.throwIfAborted();
+    if (!merged) {
+      throw (settled[0] as PromiseRejectedResult).reason;
+    }
+    this.announce({ cvContent, outcome: merged, attribution: options.attribution });
+    return merged;
+  }
+
+  // The listener runs in the background; its failures never fail the screening
+  private announce(screening: ScoredScreening) {
+    this.onScored?.(screening).catch(error => log.error('Screening listener failed', { error }));
+  }
+
+  // One model's screening, from the cache when it can answer
+  private async scoreModel(jobDescription: string, cvContent: string, options: ScoreOptions): Promise<ScreeningOutcome> {
+    const keyFor = (model: string) => this.cache?.enabled
+      ? resultCacheKey({ jobDescription, cvContent, model, promptVersion: PROMPT_VERSION })
+      : null;
+    const requestedKey = keyFor(options.model);
+    if (requestedKey && !options.bypassCache) {
+      const hit = this.cache?.get(requestedKey);
+      if (hit) {
+        return {
+          result: hit.result,
+          model: hit.model,
+          requestedModel: options.model,
+          costUsd: 0,
+          repairAttempts: 0,
+          retries: 0,
+          cached: true,
+        };
+      }
+    }
+
+    const credit = await options.credits?.reserve();
+    try {
+      return await this.scoreFresh(jobDescription, cvContent, options, keyFor);
+    } catch (error) {
+      credit?.release();
+      throw error;
+    }
+  }
+
+  // Cache miss: the fallback chain, each model with its retries
+  private async scoreFresh(
+    jobDescription: string,
+    cvContent: string,
+    options: ScoreOptions,
+    keyFor: (model: string) => string | null
+  ): Promise<ScreeningOutcome> {
+    const tally: CallTally = { costUsd: 0 };
+    const chain = modelChain(options.model, this.fallback);
+    let retries = 0;
+
+    for (let link = 0; ; link++) {
+      const model = chain[link];
+      for (let retry = 0; ; retry++) {
+        try {
+          const outcome = await this.scoreWith(model, jobDescription, cvContent, options, tally);
+          // Stored under the model that answered, so the fallback never poses as the requested model
+          const key = keyFor(model);
+          if (key) this.cache?.set(key, outcome.result, outcome.model);
+          return { ...outcome, requestedModel: options.model, retries };
+        } catch (error) {
+          if (!isTransient(error) || options.signal?.aborted) throw error;
+
+          const delayMs = retry < this.fallback.maxRetries ? retryDelayMs(error, retry, this.fallback) : null;
+          if (delayMs !== null) {
+            retries++;
+            options.onProgress?.({ type: 'retrying', attempt: retries, model, delayMs, reason: error.message });
+            await sleep(delayMs, options.signal);
+            continue;
+          }
+          if (link === chain.length - 1) throw error;
+          log.warn('Model failed - falling back', { model, status: error.status, next: chain[link + 1] });
+          options.onProgress?.({ type: 'fallback', from: model, to: chain[link + 1], reason: error.message });
+          break;
+        }
+      }
+    }
+  }
+
+  // One model, including its repair re-prompts
+  private async scoreWith(
+    model: string,
+    jobDescription: string,
+    cvContent: string,
+    options: ScoreOptions,
+    tally: CallTally
+  ): Promise<Omit<ScreeningOutcome, 'requestedModel' | 'retries'>> {
+    const messages: ChatMessage[] = [
+      { role: 'system', content: SYSTEM_PROMPT },
+      { role: 'user', content: buildScreeningPrompt(jobDescription, cvContent) },
+    ];
+    let issues: string[] = [];
+    let content = '';
+
+    for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+      const promptTokens = promptTokensOf(messages);
+      const hold = await options.budget?.reserve(callCostCeiling(model, promptTokens));
+      let data: ChatResponse;
+      try {
+        options.onProgress?.({ type: 'sent', attempt, model });
+        data = await this.provider.chat({
+          model,
+          messages,
+          temperature: 0.2,
+          maxTokens: MAX_COMPLETION_TOKENS,
+          signal: options.signal,
+          task: 'screen_resume',
+          context: { jobDescription, cvContent },
+          attribution: options.attribution,
+        });
+      } catch (error) {
+        hold?.release();
+        throw error;
+      }
+      if (data.usage) recordPromptUsage(model, promptTokens, data.usage.prompt_tokens);
+      const callCost = costOf(data.model, data.usage);
+      hold?.settle(callCost);
+      tally.usage = addUsage(tally.usage, data.usage);
+      tally.costUsd = tally.costUsd === null || callCost === null ? null : roundUsd(tally.costUsd + callCost);
+      content = data.content;
+
+      const reply = content
+        ? validateModelReply(content, cvContent)
+        : { issues: ['(root): empty response'] };
+      options.onProgress?.({ type: 'tokens', attempt, model: data.model, usage: data.usage, valid: 'result' in reply });
+      if ('result' in reply) {
+        return {
+          result: reply.result,
+          model: data.model,
+          usage: tally.usage,
+          costUsd: tally.costUsd,
+          repairAttempts: attempt,
+          cached: false,
+        };
+      }
+
+      issues = reply.issues;
+      log.warn('Model output failed validation', { model, attempt: attempt + 1, issues });
+      messages.push(
+        { role: 'assistant', content },
+        { role: 'user', content: buildRepairPrompt(issues) },
+      );
+    }
+
+    throw new ScreeningValidationError('AI output failed validation', issues, content.substring(0, 500));
+  }
+}
+
+/**
+ * Response body for a result that never validated - shared by every runtime.
+ */
+export function validationErrorBody(error: ScreeningValidationError) {
+  return {
+    success: false,
+    error: 'AI output failed validation',
+    errorCode: 'INVALID_AI_OUTPUT',
+    message: 'The AI returned a result that failed validation even after a repair attempt. Try a different model.',
+    issues: error.issues,
+  };
+}
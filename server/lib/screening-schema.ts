@@ -0,0 +1,116 @@
+/**
+ * HireScore AI - Screening Output Schema
+ *
+ * Strict runtime contract for what the model must return. Anything that fails
+ * here is sent back to the model for repair rather than being guessed at.
+ */
+
+import { z } from 'zod';
+
+// ============================================
+// Schema
+// ============================================
+
+// Rounding slack allowed between the breakdown total and `score`
+export const SCORE_SUM_TOLERANCE = 1;
+
+export const BREAKDOWN_LIMITS = {
+  technicalSkills: 35,
+  experience: 25,
+  education: 15,
+  careerProgression: 15,
+  communication: 10,
+} as const;
+
+export const ScoreBreakdownSchema = z.object({
+  technicalSkills: z.number().min(0).max(BREAKDOWN_LIMITS.technicalSkills),
+  experience: z.number().min(0).max(BREAKDOWN_LIMITS.experience),
+  education: z.number().min(0).max(BREAKDOWN_LIMITS.education),
+  careerProgression: z.number().min(0).max(BREAKDOWN_LIMITS.careerProgression),
+  communication: z.number().min(0).max(BREAKDOWN_LIMITS.communication),
+});
+
+// The prompt asks for objects with evidence; older models return plain strings
+const SkillEntrySchema = z.union([
+  z.string(),
+  z.object({
+    skill: z.string(),
+    evidence: z.string().nullish(),
+    matchType: z.string().nullish(),
+  }),
+]);
+
+const PartialMatchEntrySchema = z.union([
+  z.string(),
+  z.object({
+    skill: z.string(),
+    candidateHas: z.string().nullish(),
+    matchPercent: z.number().nullish(),
+  }),
+]);
+
+const InterviewQuestionEntrySchema = z.union([
+  z.string(),
+  z.object({ question: z.string() }),
+]);
+
+const SeniorityAssessmentSchema = z.object({
+  detected: z.string(),
+  required: z.string(),
+  match: z.union([z.boolean(), z.literal('stretch')]),
+  evidence: z.string().nullish(),
+});
+
+export const ScreeningOutputSchema = z.object({
+  // The name as the CV gives it - settles the parser's reading, see identifyCandidate
+  candidateName: z.string().nullish(),
+  score: z.number().min(0).max(100),
+  recommendation: z.enum(['interview', 'maybe', 'pass']),
+  summary: z.string().min(1),
+  scoreBreakdown: ScoreBreakdownSchema,
+  confidence: z.number().min(0).max(1).nullish(),
+  confidenceReason: z.string().nullish(),
+  matchedSkills: z.array(SkillEntrySchema),
+  missingSkills: z.array(z.string()),
+  partialMatches: z.array(PartialMatchEntrySchema).nullish(),
+  strengths: z.array(z.string()).nullish(),
+  concerns: z.array(z.string()),
+  interviewQuestions: z.array(InterviewQuestionEntrySchema),
+  seniorityAssessment: SeniorityAssessmentSchema.nullish(),
+  experienceYears: z.number().min(0),
+  relevantExperienceYears: z.number().min(0).nullish(),
+  skillMatchPercent: z.number().min(0).max(100).nullish(),
+  educationMatch: z.union([z.boolean(), z.literal('partial')]).nullish(),
+}).superRefine((output, ctx) => {
+  const total = Object.values(output.scoreBreakdown).reduce((sum, value) => sum + value, 0);
+  if (Math.abs(total - output.score) > SCORE_SUM_TOLERANCE) {
+    ctx.addIssue({
+      code: 'custom',
+      path: ['score'],
+      message: `must equal the scoreBreakdown total (${total}), got ${output.score}`,
+    });
+  }
+});
+
+export type ScreeningOutput = z.infer<typeof ScreeningOutputSchema>;
+
+// ============================================
+// Validation
+// ============================================
+
+export type ScreeningValidation =
+  | { success: true; data: ScreeningOutput }
+  | { success: false; issues: string[] };
+
+export function validateScreeningOutput(value: unknown): ScreeningValidation {
+  const parsed = ScreeningOutputSchema.safeParse(value);
+  if (parsed.success) {
+    return { success: true, data: parsed.data };
+  }
+  return {
+    success: false,
+    issues: parsed.error.issues.map(issue =>
+      `${issue.path.join('.') || '(root)'}: ${issue.message}`
+    ),
+  };
+}
@@ -0,0 +1,396 @@
+/**
+ * HireScore AI - SQLite Storage
+ *
+ * Zero-setup backend for local use. Records are kept as JSON documents next to
+ * the few columns needed for ordering and relations, so the wire format can
+ * grow without migrations. `:memory:` gives a throwaway in-process store.
+ */
+
+import { mkdirSync } from 'node:fs';
+import { dirname } from 'node:path';
+import { DatabaseSync } from 'node:sqlite';
+import { StorageError } from './storage.js';
+import type { DeliveryFilter, Storage, UsageFilter, UsageGroup } from './storage.js';
+import type {
+  ApiKeyRecord,
+  CandidateRecord,
+  JobRecord,
+  QuotaRecord,
+  SessionRecord,
+  UsageRecord,
+  WebhookDeliveryRecord,
+  WebhookRecord,
+} from './storage-schema.js';
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS jobs (
+    id TEXT PRIMARY KEY,
+    data TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS sessions (
+    id TEXT PRIMARY KEY,
+    job_id TEXT NOT NULL REFERENCES jobs(id),
+    data TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS candidates (
+    id TEXT PRIMARY KEY,
+    session_id TEXT NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+    position INTEGER NOT NULL,
+    data TEXT NOT NULL
+  );
+
+  CREATE INDEX IF NOT EXISTS candidates_session_idx ON candidates (session_id, position);
+
+  CREATE TABLE IF NOT EXISTS api_keys (
+    id TEXT PRIMARY KEY,
+    key_hash TEXT NOT NULL UNIQUE,
+    data TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS webhooks (
+    id TEXT PRIMARY KEY,
+    data TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS webhook_deliveries (
+    id TEXT PRIMARY KEY,
+    webhook_id TEXT NOT NULL REFERENCES webhooks(id) ON DELETE CASCADE,
+    status TEXT NOT NULL,
+    data TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  );
+
+  CREATE INDEX IF NOT EXISTS webhook_deliveries_webhook_idx ON webhook_deliveries (webhook_id, created_at);
+
+  CREATE TABLE IF NOT EXISTS usage_log (
+    id TEXT PRIMARY KEY,
+    action TEXT NOT NULL,
+    model TEXT NOT NULL,
+    user_id TEXT,
+    success INTEGER NOT NULL,
+    tokens_used INTEGER NOT NULL,
+    cost_usd REAL,
+    data TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  );
+
+  CREATE INDEX IF NOT EXISTS usage_log_created_idx ON usage_log (created_at);
+
+  CREATE TABLE IF NOT EXISTS quotas (
+    kind TEXT NOT NULL,
+    id TEXT NOT NULL,
+    plan TEXT NOT NULL,
+    credits_used INTEGER NOT NULL,
+    credits_limit INTEGER NOT NULL,
+    organization_id TEXT,
+    PRIMARY KEY (kind, id)
+  );
+`;
+
+// Matches every row when a filter field is unset
+const USAGE_WHERE = `
+  (?1 IS NULL OR created_at >= ?1) AND (?2 IS NULL OR created_at <= ?2)
+  AND (?3 IS NULL OR action = ?3) AND (?4 IS NULL OR user_id = ?4)
+`;
+
+const usageParams = ({ from, to, action, userId }: UsageFilter) =>
+  [from ?? null, to ?? null, action ?? null, userId ?? null] as const;
+
+interface DataRow {
+  data: string;
+}
+
+// Credits are real columns so they can be counted down in one statement
+interface QuotaRow {
+  kind: QuotaRecord['kind'];
+  id: string;
+  plan: QuotaRecord['plan'];
+  credits_used: number;
+  credits_limit: number;
+  organization_id: string | null;
+}
+
+const QUOTA_COLUMNS = 'kind, id, plan, credits_used, credits_limit, organization_id';
+
+const toQuota = (row: QuotaRow): QuotaRecord => ({
+  kind: row.kind,
+  id: row.id,
+  plan: row.plan,
+  creditsUsed: row.credits_used,
+  creditsLimit: row.credits_limit,
+  organizationId: row.organization_id ?? undefined,
+});
+
+export function createSqliteStorage(path: string): Storage {
+  if (path !== ':memory:') {
+    mkdirSync(dirname(path), { recursive: true });
+  }
+
+  const db = new DatabaseSync(path);
+  db.exec('PRAGMA foreign_keys = ON');
+  db.exec(SCHEMA);
+
+  const transaction = <T>(work: () => T): T => {
+    db.exec('BEGIN');
+    try {
+      const result = work();
+      db.exec('COMMIT');
+      return result;
+    } catch (error) {
+      db.exec('ROLLBACK');
+      throw error;
+    }
+  };
+
+  const exists = (table: 'jobs' | 'sessions', id: string) =>
+    db.prepare(`SELECT 1 FROM ${table} WHERE id = ?`).get(id) !== undefined;
+
+  const readCandidates = (sessionId: string): CandidateRecord[] =>
+    (db.prepare('SELECT data FROM candidates WHERE session_id = ? ORDER BY position')
+      .all(sessionId) as unknown as DataRow[])
+      .map(row => JSON.parse(row.data));
+
+  // Session documents are stored without candidates; they live in their own table
+  const readSession = (row: DataRow): SessionRecord => {
+    const session = JSON.parse(row.data) as Omit<SessionRecord, 'candidates'>;
+    return { ...session, candidates: readCandidates(session.id) };
+  };
+
+  const upsertCandidate = db.prepare(`
+    INSERT INTO candidates (id, session_id, position, data) VALUES (?, ?, ?, ?)
+    ON CONFLICT (id) DO UPDATE SET data = excluded.data
+  `);
+
+  const nextPosition = (sessionId: string) => {
+    const row = db.prepare('SELECT MAX(position) AS last FROM candidates WHERE session_id = ?')
+      .get(sessionId) as { last: number | null };
+    return (row.last ?? -1) + 1;
+  };
+
+  return {
+    backend: 'sqlite',
+
+    async listJobs() {
+      return (db.prepare('SELECT data FROM jobs ORDER BY created_at DESC').all() as unknown as DataRow[])
+        .map(row => JSON.parse(row.data));
+    },
+
+    async getJob(id) {
+      const row = db.prepare('SELECT data FROM jobs WHERE id = ?').get(id) as DataRow | undefined;
+      return row ? JSON.parse(row.data) : null;
+    },
+
+    async saveJob(job: JobRecord) {
+      db.prepare(`
+        INSERT INTO jobs (id, data, created_at) VALUES (?, ?, ?)
+        ON CONFLICT (id) DO UPDATE SET data = excluded.data
+      `).run(job.id, JSON.stringify(job), job.createdAt);
+      return job;
+    },
+
+    async deleteJob(id) {
+      const inUse = db.prepare('SELECT 1 FROM sessions WHERE job_id = ? LIMIT 1').get(id);
+      if (inUse) {
+        throw new StorageError('Job is still referenced by screening sessions', 409);
+      }
+      return db.prepare('DELETE FROM jobs WHERE id = ?').run(id).changes > 0;
+    },
+
+    async listSessions() {
+      return (db.prepare('SELECT data FROM sessions ORDER BY created_at DESC').all() as unknown as DataRow[])
+        .map(readSession);
+    },
+
+    async getSession(id) {
+      const row = db.prepare('SELECT data FROM sessions WHERE id = ?').get(id) as DataRow | undefined;
+      return row ? readSession(row) : null;
+    },
+
+    async saveSession(session: SessionRecord) {
+      if (!exists('jobs', session.jobId)) {
+        throw new StorageError(`Unknown job: ${session.jobId}`, 422);
+      }
+
+      const { candidates, ...document } = session;
+      transaction(() => {
+        db.prepare(`
+          INSERT INTO sessions (id, job_id, data, created_at) VALUES (?, ?, ?, ?)
+          ON CONFLICT (id) DO UPDATE SET job_id = excluded.job_id, data = excluded.data
+        `).run(session.id, session.jobId, JSON.stringify(document), session.startedAt || new Date().toISOString());
+
+        db.prepare('DELETE FROM candidates WHERE session_id = ?').run(session.id);
+        candidates.forEach((candidate, position) => {
+          upsertCandidate.run(candidate.id, session.id, position, JSON.stringify(candidate));
+        });
+      });
+      return session;
+    },
+
+    async deleteSession(id) {
+      return db.prepare('DELETE FROM sessions WHERE id = ?').run(id).changes > 0;
+    },
+
+    async listCandidates(sessionId) {
+      return exists('sessions', sessionId) ? readCandidates(sessionId) : null;
+    },
+
+    async saveCandidate(sessionId, candidate) {
+      if (!exists('sessions', sessionId)) {
+        throw new StorageError('Session not found', 404);
+      }
+      const owner = db.prepare('SELECT session_id FROM candidates WHERE id = ?')
+        .get(candidate.id) as { session_id: string } | undefined;
+      if (owner && owner.session_id !== sessionId) {
+        throw new StorageError('Candidate belongs to another session', 409);
+      }
+
+      upsertCandidate.run(candidate.id, sessionId, nextPosition(sessionId), JSON.stringify(candidate));
+      return candidate;
+    },
+
+    async deleteCandidate(sessionId, candidateId) {
+      return db.prepare('DELETE FROM candidates WHERE id = ? AND session_id = ?')
+        .run(candidateId, sessionId).changes > 0;
+    },
+
+    async listApiKeys() {
+      return (db.prepare('SELECT data FROM api_keys ORDER BY created_at DESC').all() as unknown as DataRow[])
+        .map(row => JSON.parse(row.data));
+    },
+
+    async findApiKey(keyHash) {
+      const row = db.prepare('SELECT data FROM api_keys WHERE key_hash = ?').get(keyHash) as DataRow | undefined;
+      return row ? JSON.parse(row.data) : null;
+    },
+
+    async saveApiKey(key: ApiKeyRecord) {
+      db.prepare(`
+        INSERT INTO api_keys (id, key_hash, data, created_at) VALUES (?, ?, ?, ?)
+        ON CONFLICT (id) DO UPDATE SET data = excluded.data
+      `).run(key.id, key.keyHash, JSON.stringify(key), key.createdAt);
+      return key;
+    },
+
+    async touchApiKey(id, usedAt) {
+      db.prepare("UPDATE api_keys SET data = json_set(data, '$.lastUsedAt', ?) WHERE id = ?").run(usedAt, id);
+    },
+
+    async deleteApiKey(id) {
+      return db.prepare('DELETE FROM api_keys WHERE id = ?').run(id).changes > 0;
+    },
+
+    async listWebhooks() {
+      return (db.prepare('SELECT data FROM webhooks ORDER BY created_at DESC').all() as unknown as DataRow[])
+        .map(row => JSON.parse(row.data));
+    },
+
+    async getWebhook(id) {
+      const row = db.prepare('SELECT data FROM webhooks WHERE id = ?').get(id) as DataRow | undefined;
+      return row ? JSON.parse(row.data) : null;
+    },
+
+    async saveWebhook(webhook: WebhookRecord) {
+      db.prepare(`
+        INSERT INTO webhooks (id, data, created_at) VALUES (?, ?, ?)
+        ON CONFLICT (id) DO UPDATE SET data = excluded.data
+      `).run(webhook.id, JSON.stringify(webhook), webhook.createdAt);
+      return webhook;
+    },
+
+    async deleteWebhook(id) {
+      return db.prepare('DELETE FROM webhooks WHERE id = ?').run(id).changes > 0;
+    },
+
+    async listWebhookDeliveries({ webhookId, status, limit = 100 }: DeliveryFilter) {
+      const rows = db.prepare(`
+        SELECT data FROM webhook_deliveries
+        WHERE (?1 IS NULL OR webhook_id = ?1) AND (?2 IS NULL OR status = ?2)
+        ORDER BY created_at DESC LIMIT ?3
+      `).all(webhookId ?? null, status ?? null, limit) as unknown as DataRow[];
+      return rows.map(row => JSON.parse(row.data));
+    },
+
+    async saveWebhookDelivery(delivery: WebhookDeliveryRecord) {
+      if (!db.prepare('SELECT 1 FROM webhooks WHERE id = ?').get(delivery.webhookId)) {
+        throw new StorageError('Webhook not found', 404);
+      }
+      db.prepare(`
+        INSERT INTO webhook_deliveries (id, webhook_id, status, data, created_at) VALUES (?, ?, ?, ?, ?)
+        ON CONFLICT (id) DO UPDATE SET status = excluded.status, data = excluded.data
+      `).run(delivery.id, delivery.webhookId, delivery.status, JSON.stringify(delivery), delivery.createdAt);
+      return delivery;
+    },
+
+    async saveUsage(entry: UsageRecord) {
+      db.prepare(`
+        INSERT INTO usage_log (id, action, model, user_id, success, tokens_used, cost_usd, data, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `).run(
+        entry.id, entry.action, entry.model, entry.userId ?? null, entry.success ? 1 : 0,
+        entry.tokensUsed, entry.costUsd, JSON.stringify(entry), entry.createdAt
+      );
+    },
+
+    async listUsage(filter) {
+      return (db.prepare(`SELECT data FROM usage_log WHERE ${USAGE_WHERE} ORDER BY created_at DESC LIMIT ?5`)
+        .all(...usageParams(filter), filter.limit ?? 50) as unknown as DataRow[])
+        .map(row => JSON.parse(row.data));
+    },
+
+    async summarizeUsage(filter) {
+      return db.prepare(`
+        SELECT action, model, COUNT(*) AS calls, SUM(1 - success) AS failed,
+          SUM(tokens_used) AS tokensUsed, COALESCE(SUM(cost_usd), 0) AS costUsd
+        FROM usage_log WHERE ${USAGE_WHERE}
+        GROUP BY action, model ORDER BY costUsd DESC
+      `).all(...usageParams(filter)) as unknown as UsageGroup[];
+    },
+
+    async getQuota(kind, id) {
+      const row = db.prepare(`SELECT ${QUOTA_COLUMNS} FROM quotas WHERE kind = ? AND id = ?`)
+        .get(kind, id) as QuotaRow | undefined;
+      return row ? toQuota(row) : null;
+    },
+
+    async saveQuota(quota: QuotaRecord) {
+      db.prepare(`
+        INSERT INTO quotas (${QUOTA_COLUMNS}) VALUES (?, ?, ?, ?, ?, ?)
+        ON CONFLICT (kind, id) DO UPDATE SET plan = excluded.plan, credits_used = excluded.credits_used,
+          credits_limit = excluded.credits_limit, organization_id = excluded.organization_id
+      `).run(quota.kind, quota.id, quota.plan, quota.creditsUsed, quota.creditsLimit, quota.organizationId ?? null);
+      return quota;
+    },
+
+    async createQuota(quota: QuotaRecord) {
+      db.prepare(`INSERT INTO quotas (${QUOTA_COLUMNS}) VALUES (?, ?, ?, ?, ?, ?) ON CONFLICT (kind, id) DO NOTHING`)
+        .run(quota.kind, quota.id, quota.plan, quota.creditsUsed, quota.creditsLimit, quota.organizationId ?? null);
+      const row = db.prepare(`SELECT ${QUOTA_COLUMNS} FROM quotas WHERE kind = ? AND id = ?`)
+        .get(quota.kind, quota.id) as QuotaRow | undefined;
+      return row ? toQuota(row) : null;
+    },
+
+    async consumeCredits(kind, id, credits) {
+      const row = db.prepare(`
+        UPDATE quotas SET credits_used = credits_used + ?3
+        WHERE kind = ?1 AND id = ?2 AND credits_used + ?3 <= credits_limit
+        RETURNING ${QUOTA_COLUMNS}
+      `).get(kind, id, credits) as QuotaRow | undefined;
+      return row ? toQuota(row) : null;
+    },
+
+    async releaseCredits(kind, id, credits) {
+      db.prepare('UPDATE quotas SET credits_used = MAX(credits_used - ?3, 0) WHERE kind = ?1 AND id = ?2')
+        .run(kind, id, credits);
+    },
+
+    async close() {
+      db.close();
+    },
+  };
+}
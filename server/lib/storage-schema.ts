@@ -0,0 +1,247 @@
+/**
+ * HireScore AI - Storage Records
+ *
+ * Wire format for the jobs/sessions/candidates REST routes. These mirror the
+ * client's `JobDescription`, `ScreeningSession` and `Candidate` types, with
+ * dates carried as ISO strings. Every backend stores and returns exactly this.
+ * API keys are stored the same way but never leave the server with their hash,
+ * and webhook secrets are only ever shown when the webhook is created.
+ */
+
+import { z } from 'zod';
+import { ParsedResumeSchema } from './resume-parser.js';
+
+// ============================================
+// Schemas
+// ============================================
+
+const IsoDate = z.iso.datetime({ offset: true });
+
+export const JobRecordSchema = z.object({
+  id: z.string().min(1),
+  title: z.string().min(1),
+  company: z.string(),
+  location: z.string(),
+  experience: z.string(),
+  rawText: z.string(),
+  requirements: z.array(z.string()),
+  niceToHave: z.array(z.string()),
+  createdAt: IsoDate,
+});
+
+const ScreeningFailureSchema = z.object({
+  code: z.enum([
+    'invalid_ai_output',
+    'document_unreadable',
+    'insufficient_content',
+    'rate_limited',
+    'timeout',
+    'auth',
+    'budget_exceeded',
+    'quota_exceeded',
+    'unknown',
+  ]),
+  message: z.string(),
+  issues: z.array(z.string()).optional(),
+  retryable: z.boolean(),
+});
+
+const ScoreBreakdownSchema = z.object({
+  technicalSkills: z.number(),
+  experience: z.number(),
+  education: z.number(),
+  careerProgression: z.number(),
+  communication: z.number(),
+});
+
+const ModelOpinionSchema = z.object({
+  model: z.string(),
+  score: z.number().min(0).max(100),
+  recommendation: z.enum(['interview', 'maybe', 'pass']),
+  confidence: z.number().min(0).max(1).nullable(),
+  scoreBreakdown: ScoreBreakdownSchema,
+  summary: z.string(),
+});
+
+export const CandidateRecordSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  email: z.string().optional(),
+  phone: z.string().optional(),
+  location: z.string().optional(),
+  linkedinUrl: z.string().optional(),
+  fileName: z.string(),
+  rawText: z.string(),
+  score: z.number().min(0).max(100),
+  confidence: z.number().min(0).max(1).optional(),
+  // Set when the CV text was read by OCR
+  ocrConfidence: z.number().min(0).max(1).optional(),
+  // The CV split into contact, work history, education and skills
+  parsedData: ParsedResumeSchema.optional(),
+  recommendation: z.enum(['interview', 'maybe', 'pass']),
+  summary: z.string(),
+  scoreBreakdown: ScoreBreakdownSchema.optional(),
+  matchedSkills: z.array(z.string()),
+  missingSkills: z.array(z.string()),
+  partialMatches: z.array(z.string()).optional(),
+  concerns: z.array(z.string()),
+  strengths: z.array(z.string()).optional(),
+  interviewQuestions: z.array(z.string()),
+  experience: z.number().min(0),
+  skillMatchPercent: z.number().optional(),
+  educationMatch: z.union([z.boolean(), z.literal('partial')]).optional(),
+  screeningError: ScreeningFailureSchema.optional(),
+  tokensUsed: z.number().int().min(0).optional(),
+  costUsd: z.number().min(0).optional(),
+  model: z.string().optional(),
+  needsHumanReview: z.boolean().optional(),
+  reviewReason: z.string().optional(),
+  modelOpinions: z.array(ModelOpinionSchema).optional(),
+  processedAt: IsoDate,
+});
+
+const CheckpointSchema = z.object({
+  pending: z.array(z.object({
+    id: z.string().min(1),
+    fileName: z.string(),
+    cvContent: z.string(),
+    warning: z.string().optional(),
+    ocrConfidence: z.number().min(0).max(1).optional(),
+    parsedData: ParsedResumeSchema.optional(),
+    position: z.number().int().min(0),
+  })),
+  total: z.number().int().min(0),
+  batchJobId: z.string().optional(),
+});
+
+export const SessionRecordSchema = z.object({
+  id: z.string().min(1),
+  jobId: z.string().min(1),
+  candidates: z.array(CandidateRecordSchema),
+  status: z.enum(['pending', 'processing', 'completed', 'cancelled', 'error']),
+  partial: z.boolean().optional(),
+  progress: z.number().min(0).max(100),
+  currentCandidate: z.string().optional(),
+  startedAt: IsoDate.optional(),
+  completedAt: IsoDate.optional(),
+  error: z.string().optional(),
+  tokensUsed: z.number().int().min(0).optional(),
+  costUsd: z.number().min(0).optional(),
+  budgetUsd: z.number().positive().optional(),
+  checkpoint: CheckpointSchema.optional(),
+});
+
+export const API_KEY_SCOPES = ['read', 'write', 'admin'] as const;
+
+export const ApiKeyRecordSchema = z.object({
+  id: z.string().min(1),
+  keyHash: z.string().min(1),  // SHA-256 of the key - the key itself is never stored
+  name: z.string().min(1),
+  scopes: z.array(z.enum(API_KEY_SCOPES)).min(1),
+  rateLimit: z.number().int().min(1),  // requests per minute
+  userId: z.string().optional(),
+  lastUsedAt: IsoDate.optional(),
+  expiresAt: IsoDate.optional(),
+  createdAt: IsoDate,
+});
+
+// Events a webhook can subscribe to; `webhook.test` is only sent on request
+export const WEBHOOK_EVENTS = ['session.completed', 'candidate.scored', 'candidate.needs_review'] as const;
+
+export const WebhookRecordSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  url: z.url({ protocol: /^https?$/ }),
+  secret: z.string().min(1),  // HMAC key for the signature header
+  events: z.array(z.enum(WEBHOOK_EVENTS)).min(1),
+  active: z.boolean(),
+  createdAt: IsoDate,
+});
+
+export const WebhookDeliveryRecordSchema = z.object({
+  id: z.string().min(1),
+  webhookId: z.string().min(1),
+  eventId: z.string().min(1),  // the same for every attempt, so receivers can de-duplicate
+  event: z.enum([...WEBHOOK_EVENTS, 'webhook.test']),
+  payload: z.record(z.string(), z.unknown()),
+  status: z.enum(['pending', 'delivered', 'failed']),
+  attempts: z.number().int().min(0),
+  responseStatus: z.number().int().optional(),
+  error: z.string().optional(),
+  createdAt: IsoDate,
+  lastAttemptAt: IsoDate.optional(),
+  nextAttemptAt: IsoDate.optional(),
+  deliveredAt: IsoDate.optional(),
+});
+
+// Billable AI actions - the `task` of every provider call
+export const USAGE_ACTIONS = ['screen_resume', 'company_research', 'jd_generate', 'ocr_pdf'] as const;
+
+// One row per model call, successful or not
+export const UsageRecordSchema = z.object({
+  id: z.string().min(1),
+  action: z.enum(USAGE_ACTIONS),
+  model: z.string(),
+  promptTokens: z.number().int().min(0),
+  completionTokens: z.number().int().min(0),
+  tokensUsed: z.number().int().min(0),
+  costUsd: z.number().min(0).nullable(),  // null when the model's price is unknown
+  latencyMs: z.number().int().min(0),
+  success: z.boolean(),
+  error: z.string().optional(),
+  userId: z.string().optional(),
+  apiKeyId: z.string().optional(),
+  resourceType: z.string().optional(),
+  resourceId: z.string().optional(),
+  createdAt: IsoDate,
+});
+
+export const PLANS = ['FREE', 'PRO', 'AGENCY', 'TEAM', 'ENTERPRISE'] as const;
+
+export const WORKSPACE_KINDS = ['user', 'organization'] as const;
+
+// Free plan allowance, in screenings - the Prisma column defaults
+export const FREE_CREDITS: Record<(typeof WORKSPACE_KINDS)[number], number> = {
+  user: 50,
+  organization: 500,
+};
+
+// The plan and screening credits of a user or organization
+export const QuotaRecordSchema = z.object({
+  kind: z.enum(WORKSPACE_KINDS),
+  id: z.string().min(1),
+  plan: z.enum(PLANS),
+  creditsUsed: z.number().int().min(0),
+  creditsLimit: z.number().int().min(0),
+  organizationId: z.string().optional(),  // users only - members spend their organization's credits
+});
+
+export type JobRecord = z.infer<typeof JobRecordSchema>;
+export type CandidateRecord = z.infer<typeof CandidateRecordSchema>;
+export type SessionRecord = z.infer<typeof SessionRecordSchema>;
+export type ApiKeyRecord = z.infer<typeof ApiKeyRecordSchema>;
+export type WebhookRecord = z.infer<typeof WebhookRecordSchema>;
+export type WebhookDeliveryRecord = z.infer<typeof WebhookDeliveryRecordSchema>;
+export type UsageRecord = z.infer<typeof UsageRecordSchema>;
+export type QuotaRecord = z.infer<typeof QuotaRecordSchema>;
+
+// ============================================
+// Validation
+// ============================================
+
+export type RecordValidation<T> =
+  | { success: true; data: T }
+  | { success: false; issues: string[] };
+
+export function validateRecord<T>(schema: z.ZodType<T>, value: unknown): RecordValidation<T> {
+  const parsed = schema.safeParse(value);
+  if (parsed.success) {
+    return { success: true, data: parsed.data };
+  }
+  return {
+    success: false,
+    issues: parsed.error.issues.map(issue =>
+      `${issue.path.join('.') || '(root)'}: ${issue.message}`
+    ),
+  };
+}
@@ -0,0 +1,185 @@
+/**
+ * HireScore AI - Storage Layer
+ *
+ * Server-side home for saved jobs, screening sessions and their candidates, so
+ * screening history follows the recruiter between machines instead of living
+ * only in the browser's localStorage.
+ *
+ * The backend is chosen by environment only:
+ *   STORAGE_BACKEND  sqlite | postgres (defaults to postgres when DATABASE_URL is set)
+ *   SQLITE_PATH      database file for `sqlite` (default data/hirescore.db,
+ *                    `:memory:` keeps everything in-process)
+ *   DATABASE_URL     Postgres connection string - the tables come from prisma/schema.prisma
+ */
+
+import type {
+  ApiKeyRecord,
+  CandidateRecord,
+  JobRecord,
+  QuotaRecord,
+  SessionRecord,
+  UsageRecord,
+  WebhookDeliveryRecord,
+  WebhookRecord,
+} from './storage-schema.js';
+
+// ============================================
+// Types
+// ============================================
+
+export type StorageBackend = 'sqlite' | 'postgres';
+
+export interface DeliveryFilter {
+  webhookId?: string;
+  status?: WebhookDeliveryRecord['status'];
+  limit?: number;
+}
+
+// Bounds are inclusive ISO timestamps
+export interface UsageFilter {
+  from?: string;
+  to?: string;
+  action?: UsageRecord['action'];
+  userId?: string;
+  limit?: number;
+}
+
+// Usage totals for one action and model
+export interface UsageGroup {
+  action: UsageRecord['action'];
+  model: string;
+  calls: number;
+  failed: number;
+  tokensUsed: number;
+  costUsd: number;
+}
+
+export interface StorageConfig {
+  backend: StorageBackend;
+  sqlitePath: string;
+  databaseUrl?: string;
+}
+
+/**
+ * Saves are upserts keyed on the client-generated id, so the browser can retry
+ * a sync without creating duplicates. Sessions are returned with their
+ * candidates in processing order; saving a session replaces its candidates.
+ */
+export interface Storage {
+  readonly backend: StorageBackend;
+
+  listJobs(): Promise<JobRecord[]>;
+  getJob(id: string): Promise<JobRecord | null>;
+  saveJob(job: JobRecord): Promise<JobRecord>;
+  deleteJob(id: string): Promise<boolean>;
+
+  listSessions(): Promise<SessionRecord[]>;
+  getSession(id: string): Promise<SessionRecord | null>;
+  saveSession(session: SessionRecord): Promise<SessionRecord>;
+  deleteSession(id: string): Promise<boolean>;
+
+  // null when the session itself does not exist
+  listCandidates(sessionId: string): Promise<CandidateRecord[] | null>;
+  saveCandidate(sessionId: string, candidate: CandidateRecord): Promise<CandidateRecord>;
+  deleteCandidate(sessionId: string, candidateId: string): Promise<boolean>;
+
+  listApiKeys(): Promise<ApiKeyRecord[]>;
+  findApiKey(keyHash: string): Promise<ApiKeyRecord | null>;
+  saveApiKey(key: ApiKeyRecord): Promise<ApiKeyRecord>;
+  touchApiKey(id: string, usedAt: string): Promise<void>;
+  deleteApiKey(id: string): Promise<boolean>;
+
+  listWebhooks(): Promise<WebhookRecord[]>;
+  getWebhook(id: string): Promise<WebhookRecord | null>;
+  saveWebhook(webhook: WebhookRecord): Promise<WebhookRecord>;
+  // Also deletes the webhook's delivery log
+  deleteWebhook(id: string): Promise<boolean>;
+
+  // Newest first
+  listWebhookDeliveries(filter: DeliveryFilter): Promise<WebhookDeliveryRecord[]>;
+  saveWebhookDelivery(delivery: WebhookDeliveryRecord): Promise<WebhookDeliveryRecord>;
+
+  // The usage log is append-only
+  saveUsage(entry: UsageRecord): Promise<void>;
+  // Newest first
+  listUsage(filter: UsageFilter): Promise<UsageRecord[]>;
+  summarizeUsage(filter: UsageFilter): Promise<UsageGroup[]>;
+
+  getQuota(kind: QuotaRecord['kind'], id: string): Promise<QuotaRecord | null>;
+  // null when Postgres has no such user - users are only created by sign-up
+  saveQuota(quota: QuotaRecord): Promise<QuotaRecord | null>;
+  // Only inserts - returns the workspace's existing quota when it has one
+  createQuota(quota: QuotaRecord): Promise<QuotaRecord | null>;
+  // Atomic; null when the credits would take the workspace over its limit
+  consumeCredits(kind: QuotaRecord['kind'], id: string, credits: number): Promise<QuotaRecord | null>;
+  releaseCredits(kind: QuotaRecord['kind'], id: string, credits: number): Promise<void>;
+
+  close(): Promise<void>;
+}
+
+/**
+ * Raised for requests the store cannot satisfy as asked (unknown parent,
+ * record still referenced). `status` is the HTTP status the route should use.
+ */
+export class StorageError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'StorageError';
+    this.status = status;
+  }
+}
+
+// ============================================
+// Configuration
+// ============================================
+
+const DEFAULT_SQLITE_PATH = 'data/hirescore.db';
+
+export function getStorageConfig(env: NodeJS.ProcessEnv = process.env): StorageConfig {
+  const requested = env.STORAGE_BACKEND?.toLowerCase();
+  const backend: StorageBackend = requested === 'sqlite' || requested === 'postgres'
+    ? requested
+    : env.DATABASE_URL ? 'postgres' : 'sqlite';
+
+  return {
+    backend,
+    sqlitePath: env.SQLITE_PATH || DEFAULT_SQLITE_PATH,
+    databaseUrl: env.DATABASE_URL,
+  };
+}
+
+/**
+ * Returns a human-readable problem with the config, or null if it is usable.
+ */
+export function validateStorageConfig(config: StorageConfig): string | null {
+  if (config.backend === 'postgres' && !config.databaseUrl) {
+    return 'DATABASE_URL is required when STORAGE_BACKEND=postgres';
+  }
+  return null;
+}
+
+// ============================================
+// Factory
+// ============================================
+
+// Backends are imported on demand so a Postgres deployment never loads node:sqlite
+export async function createStorage(config: StorageConfig): Promise<Storage> {
+  if (config.backend === 'postgres') {
+    const { createPostgresStorage } = await import('./postgres-storage.js');
+    return createPostgresStorage(config.databaseUrl || '');
+  }
+  const { createSqliteStorage } = await import('./sqlite-storage.js');
+  return createSqliteStorage(config.sqlitePath);
+}
+
+let storageInstance: Promise<Storage> | null = null;
+
+// Process-wide store built from the environment (lazy so dotenv can load first)
+export function getStorage(): Promise<Storage> {
+  if (!storageInstance) {
+    storageInstance = createStorage(getStorageConfig());
+  }
+  return storageInstance;
+}
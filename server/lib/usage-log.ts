@@ -0,0 +1,149 @@
+/**
+ * HireScore AI - Usage Log
+ *
+ * Every AI model call - screening, company research, JD generation - becomes
+ * one row in the usage log with its tokens, dollar cost, model, latency and
+ * who it was for. Recording happens at the provider, so retries, repair
+ * prompts, fallbacks and ensemble opinions are each logged as the separate
+ * billable calls they are, and failed calls are logged too.
+ *
+ * Writing never delays or fails the call itself; a storage error is logged
+ * and the row is lost.
+ */
+
+import type { AIProvider, ChatRequest, ChatResponse, UsageAttribution } from './ai-provider.js';
+import type { UsageQuery, UsageReport } from './api-contract.js';
+import type { ApiPrincipal } from './api-keys.js';
+import { logger } from './logger.js';
+import { costOf, roundUsd } from './pricing.js';
+import { getStorage, type Storage, type UsageFilter, type UsageGroup } from './storage.js';
+import type { UsageRecord } from './storage-schema.js';
+
+const log = logger.child({ component: 'usage-log' });
+
+// ============================================
+// Types
+// ============================================
+
+export type UsageEntry = Omit<UsageRecord, 'id' | 'createdAt'>;
+
+// ============================================
+// Helpers
+// ============================================
+
+function entryFor(request: ChatRequest, response: ChatResponse | null, latencyMs: number, error?: unknown): UsageEntry | null {
+  if (!request.task) return null;
+  const usage = response?.usage;
+  return {
+    action: request.task,
+    model: response?.model || request.model,
+    promptTokens: usage?.prompt_tokens ?? 0,
+    completionTokens: usage?.completion_tokens ?? 0,
+    tokensUsed: usage?.total_tokens ?? 0,
+    costUsd: response ? costOf(response.model, usage) : 0,
+    latencyMs,
+    success: error === undefined,
+    error: error === undefined ? undefined : (error as Error).message,
+    ...request.attribution,
+  };
+}
+
+type UsageTotals = UsageReport['totals'];
+
+function addTo(total: UsageTotals, group: UsageTotals): UsageTotals {
+  return {
+    calls: total.calls + group.calls,
+    failed: total.failed + group.failed,
+    tokensUsed: total.tokensUsed + group.tokensUsed,
+    costUsd: roundUsd(total.costUsd + group.costUsd),
+  };
+}
+
+const NO_USAGE: UsageTotals = { calls: 0, failed: 0, tokensUsed: 0, costUsd: 0 };
+
+// Rolls the per action+model groups up into one dimension, most expensive first
+function rollUp(groups: UsageGroup[], keyOf: (group: UsageGroup) => string): Array<[string, UsageTotals]> {
+  const totals = new Map<string, UsageTotals>();
+  for (const group of groups) {
+    totals.set(keyOf(group), addTo(totals.get(keyOf(group)) ?? NO_USAGE, group));
+  }
+  return [...totals].sort(([, a], [, b]) => b.costUsd - a.costUsd);
+}
+
+/**
+ * Who to bill for calls made on behalf of `principal`.
+ */
+export function attributionFor(principal: ApiPrincipal | null | undefined): UsageAttribution {
+  return { userId: principal?.userId, apiKeyId: principal?.keyId ?? undefined };
+}
+
+/**
+ * The filter a usage query may run with - keys bound to a user only see that
+ * user's calls unless they are admin keys.
+ */
+export function usageFilterFor(principal: ApiPrincipal | null | undefined, query: UsageQuery): UsageFilter {
+  const ownUsageOnly = principal?.userId && !principal.scopes.includes('admin');
+  return ownUsageOnly ? { ...query, userId: principal.userId } : query;
+}
+
+// ============================================
+// Usage Log
+// ============================================
+
+export class UsageLog {
+  private store: () => Promise<Storage>;
+
+  constructor(store: () => Promise<Storage> = getStorage) {
+    this.store = store;
+  }
+
+  record(entry: UsageEntry): void {
+    const record: UsageRecord = { ...entry, id: crypto.randomUUID(), createdAt: new Date().toISOString() };
+    this.store()
+      .then(storage => storage.saveUsage(record))
+      .catch(error => log.error('Failed to record usage', { action: entry.action, error }));
+  }
+
+  /**
+   * Totals, breakdowns by action and by model, and the most recent calls
+   * matching `filter`.
+   */
+  async report(filter: UsageFilter): Promise<UsageReport> {
+    const storage = await this.store();
+    const [groups, entries] = await Promise.all([storage.summarizeUsage(filter), storage.listUsage(filter)]);
+    return {
+      from: filter.from,
+      to: filter.to,
+      totals: groups.reduce(addTo, NO_USAGE),
+      byAction: rollUp(groups, group => group.action)
+        .map(([action, totals]) => ({ action: action as UsageRecord['action'], ...totals })),
+      byModel: rollUp(groups, group => group.model).map(([model, totals]) => ({ model, ...totals })),
+      entries,
+    };
+  }
+}
+
+/**
+ * Wraps `provider` so each chat call is timed and written to `log`.
+ */
+export function withUsageLog(provider: AIProvider, log: UsageLog): AIProvider {
+  return {
+    name: provider.name,
+    defaultModel: provider.defaultModel,
+
+    async chat(request) {
+      const startedAt = Date.now();
+      let response: ChatResponse;
+      try {
+        response = await provider.chat(request);
+      } catch (error) {
+        const entry = entryFor(request, null, Date.now() - startedAt, error);
+        if (entry) log.record(entry);
+        throw error;
+      }
+      const entry = entryFor(request, response, Date.now() - startedAt);
+      if (entry) log.record(entry);
+      return response;
+    },
+  };
+}
@@ -0,0 +1,33 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { signWebhook, verifyWebhookSignature } from './webhooks.js';
+
+const SECRET = 'whsec_test';
+const BODY = '{"type":"candidate.scored"}';
+const NOW = 1_760_000_000_000;
+const timestamp = NOW / 1000;
+
+describe('verifyWebhookSignature', () => {
+  it('accepts a fresh signature of the body', () => {
+    assert.equal(verifyWebhookSignature(SECRET, signWebhook(SECRET, timestamp, BODY), BODY, NOW), true);
+  });
+
+  it('rejects another body, another secret and a stale timestamp', () => {
+    const header = signWebhook(SECRET, timestamp, BODY);
+    assert.equal(verifyWebhookSignature(SECRET, header, `${BODY} `, NOW), false);
+    assert.equal(verifyWebhookSignature('whsec_other', header, BODY, NOW), false);
+    assert.equal(verifyWebhookSignature(SECRET, header, BODY, NOW + 10 * 60 * 1000), false);
+  });
+
+  it('rejects a zero-padded timestamp without throwing', () => {
+    const padded = signWebhook(SECRET, timestamp, BODY).replace('t=', 't=000');
+    assert.doesNotThrow(() => verifyWebhookSignature(SECRET, padded, BODY, NOW));
+    assert.equal(verifyWebhookSignature(SECRET, padded, BODY, NOW), false);
+  });
+
+  it('rejects malformed headers', () => {
+    for (const header of [undefined, '', 't=abc,v1=00', `t=${timestamp},v1=${'0'.repeat(63)}`]) {
+      assert.equal(verifyWebhookSignature(SECRET, header, BODY, NOW), false);
+    }
+  });
+});
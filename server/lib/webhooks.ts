@@ -0,0 +1,502 @@
+/**
+ * HireScore AI - Outbound Webhooks
+ *
+ * Tells an ATS or chat tool about screening results as they are produced -
+ * by the browser, /v1/screen or a batch job - and about sessions completed in
+ * the history, instead of making it poll. Each event is POSTed as JSON:
+ *
+ *   { id, type, createdAt, data }
+ *
+ * and signed with the webhook's secret:
+ *
+ *   X-HireScore-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<raw body>">
+ *
+ * Receivers should recompute the HMAC over the raw body, compare in constant
+ * time and reject stale timestamps - verifyWebhookSignature does all three.
+ * Anything but a 2xx answer is retried with exponential backoff; every
+ * attempt is recorded in the webhook's delivery log.
+ *
+ *   WEBHOOK_MAX_ATTEMPTS   attempts per event before it is marked failed (default 6)
+ *   WEBHOOK_RETRY_BASE_MS  delay before the first retry, doubled each time (default 30000)
+ *   WEBHOOK_TIMEOUT_MS     how long a receiver has to answer (default 10000)
+ *
+ * Receivers must be on the public internet (see safe-fetch.ts); list a local
+ * receiver's hostname in OUTBOUND_ALLOWED_HOSTS to reach it anyway.
+ *
+ * Retries are timers in this process; deliveries still pending at a restart
+ * are picked up again by resumePending().
+ */
+
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+import type { WebhookRequest, WebhookView } from './api-contract.js';
+import { logger } from './logger.js';
+import { OutboundRequestError, safeFetch } from './safe-fetch.js';
+import type { ScoredScreening } from './scoring-engine.js';
+import { getStorage, type Storage } from './storage.js';
+import type {
+  CandidateRecord,
+  SessionRecord,
+  WebhookDeliveryRecord,
+  WebhookRecord,
+} from './storage-schema.js';
+
+const log = logger.child({ component: 'webhooks' });
+
+// ============================================
+// Types
+// ============================================
+
+export type WebhookEvent = WebhookRecord['events'][number];
+
+// Sends one delivery; safeFetch keeps receivers off the internal network
+export type WebhookSender = typeof safeFetch;
+
+export interface WebhookConfig {
+  maxAttempts: number;
+  retryBaseMs: number;
+  timeoutMs: number;
+}
+
+// ============================================
+// Configuration
+// ============================================
+
+const DEFAULT_CONFIG: WebhookConfig = {
+  maxAttempts: 6,
+  retryBaseMs: 30 * 1000,
+  timeoutMs: 10 * 1000,
+};
+
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+const SECRET_PREFIX = 'whsec_';
+// Receivers only need to acknowledge; a longer answer fails the attempt
+const RECEIVER_ANSWER_MAX_BYTES = 64 * 1024;
+export const SIGNATURE_HEADER = 'X-HireScore-Signature';
+// Signatures older than this are treated as replays
+const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+// How long a result announced at scoring time stays silent when its candidate is saved
+const ANNOUNCED_TTL_MS = 24 * 60 * 60 * 1000;
+
+function readInt(value: string | undefined, fallback: number, min: number): number {
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed >= min ? parsed : fallback;
+}
+
+export function getWebhookConfig(env: NodeJS.ProcessEnv = process.env): WebhookConfig {
+  return {
+    maxAttempts: readInt(env.WEBHOOK_MAX_ATTEMPTS, DEFAULT_CONFIG.maxAttempts, 1),
+    retryBaseMs: readInt(env.WEBHOOK_RETRY_BASE_MS, DEFAULT_CONFIG.retryBaseMs, 0),
+    timeoutMs: readInt(env.WEBHOOK_TIMEOUT_MS, DEFAULT_CONFIG.timeoutMs, 1),
+  };
+}
+
+// ============================================
+// Signatures
+// ============================================
+
+const signatureDigest = (secret: string, timestamp: number | string, body: string): string =>
+  createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+
+export function signWebhook(secret: string, timestamp: number, body: string): string {
+  return `t=${timestamp},v1=${signatureDigest(secret, timestamp, body)}`;
+}
+
+/**
+ * For receivers: true when `header` is a fresh signature of `body` by `secret`.
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  header: string | undefined,
+  body: string,
+  now: number = Date.now()
+): boolean {
+  const match = header?.match(/^t=(\d+),v1=([0-9a-f]{64})$/);
+  if (!match) return false;
+  const timestamp = Number(match[1]);
+  if (Math.abs(now / 1000 - timestamp) > SIGNATURE_TOLERANCE_SECONDS) return false;
+
+  // The HMAC covers the timestamp exactly as sent, so a padded one fails; the
+  // digests compared are both 32 bytes whatever the header looked like
+  const expected = Buffer.from(signatureDigest(secret, match[1], body), 'hex');
+  return timingSafeEqual(expected, Buffer.from(match[2], 'hex'));
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+export function toWebhookView(record: WebhookRecord): WebhookView {
+  return {
+    id: record.id,
+    name: record.name,
+    url: record.url,
+    events: record.events,
+    active: record.active,
+    createdAt: record.createdAt,
+  };
+}
+
+// 30s, 1m, 2m, 4m... capped at an hour
+const retryDelay = (config: WebhookConfig, attempts: number) =>
+  Math.min(config.retryBaseMs * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS);
+
+// Candidates go out without their CV text - receivers fetch it if they need it
+function candidateSummary(candidate: CandidateRecord) {
+  return {
+    id: candidate.id,
+    name: candidate.name,
+    fileName: candidate.fileName,
+    score: candidate.score,
+    confidence: candidate.confidence,
+    recommendation: candidate.recommendation,
+    summary: candidate.summary,
+    matchedSkills: candidate.matchedSkills,
+    missingSkills: candidate.missingSkills,
+    model: candidate.model,
+    needsHumanReview: candidate.needsHumanReview,
+    reviewReason: candidate.reviewReason,
+    processedAt: candidate.processedAt,
+  };
+}
+
+// The same shape for a result straight from the scoring engine, before any history save
+function screeningSummary({ outcome }: ScoredScreening) {
+  const { result } = outcome;
+  return {
+    name: result.candidate.name ?? undefined,
+    score: result.score,
+    confidence: result.confidence ?? undefined,
+    recommendation: result.recommendation,
+    summary: result.summary,
+    matchedSkills: result.matchedSkills,
+    missingSkills: result.missingSkills,
+    model: outcome.model,
+    needsHumanReview: outcome.ensemble?.needsHumanReview,
+    reviewReason: outcome.ensemble?.reviewReason,
+    processedAt: new Date().toISOString(),
+  };
+}
+
+function sessionSummary(session: SessionRecord) {
+  const count = (recommendation: CandidateRecord['recommendation']) =>
+    session.candidates.filter(c => !c.screeningError && c.recommendation === recommendation).length;
+  return {
+    id: session.id,
+    jobId: session.jobId,
+    status: session.status,
+    partial: session.partial,
+    candidates: session.candidates.length,
+    interview: count('interview'),
+    maybe: count('maybe'),
+    pass: count('pass'),
+    failed: session.candidates.filter(c => c.screeningError).length,
+    needsHumanReview: session.candidates.filter(c => c.needsHumanReview).length,
+    costUsd: session.costUsd,
+    startedAt: session.startedAt,
+    completedAt: session.completedAt,
+  };
+}
+
+// One screening result, whether it comes from the engine or a saved candidate
+const resultKey = (cvContent: string, score: number, summary: string): string =>
+  createHash('sha256').update(`${score}\n${summary}\n${cvContent}`).digest('hex');
+
+// A re-saved candidate only counts as newly scored when its result changed
+const isNewlyScored = (candidate: CandidateRecord, previous?: CandidateRecord) =>
+  !candidate.screeningError &&
+  (!previous || !!previous.screeningError || previous.processedAt !== candidate.processedAt);
+
+// ============================================
+// Dispatcher
+// ============================================
+
+export class WebhookDispatcher {
+  readonly config: WebhookConfig;
+  private store: () => Promise<Storage>;
+  private send: WebhookSender;
+  private timers = new Set<ReturnType<typeof setTimeout>>();
+  // Results already announced at scoring time, oldest first, with when they expire
+  private announced = new Map<string, number>();
+
+  constructor(
+    config: WebhookConfig = getWebhookConfig(),
+    store: () => Promise<Storage> = getStorage,
+    send: WebhookSender = safeFetch
+  ) {
+    this.config = config;
+    this.store = store;
+    this.send = send;
+  }
+
+  // The secret is only ever returned here
+  async create(request: WebhookRequest): Promise<{ secret: string; webhook: WebhookView }> {
+    const record: WebhookRecord = {
+      id: crypto.randomUUID(),
+      name: request.name || new URL(request.url).host,
+      url: request.url,
+      secret: request.secret || `${SECRET_PREFIX}${randomBytes(24).toString('base64url')}`,
+      events: [...new Set(request.events)],
+      active: true,
+      createdAt: new Date().toISOString(),
+    };
+    await (await this.store()).saveWebhook(record);
+    return { secret: record.secret, webhook: toWebhookView(record) };
+  }
+
+  async list(): Promise<WebhookView[]> {
+    return (await (await this.store()).listWebhooks()).map(toWebhookView);
+  }
+
+  async get(id: string): Promise<WebhookView | null> {
+    const webhook = await (await this.store()).getWebhook(id);
+    return webhook ? toWebhookView(webhook) : null;
+  }
+
+  async remove(id: string): Promise<boolean> {
+    return (await this.store()).deleteWebhook(id);
+  }
+
+  // null when there is no such webhook
+  async deliveries(id: string, limit?: number): Promise<WebhookDeliveryRecord[] | null> {
+    const storage = await this.store();
+    if (!(await storage.getWebhook(id))) return null;
+    return storage.listWebhookDeliveries({ webhookId: id, limit });
+  }
+
+  /**
+   * Sends a `webhook.test` event and waits for the first attempt, so the
+   * caller sees straight away whether the receiver accepted it. Failures are
+   * retried like any other delivery.
+   */
+  async sendTest(id: string): Promise<WebhookDeliveryRecord | null> {
+    const webhook = await (await this.store()).getWebhook(id);
+    if (!webhook) return null;
+    const delivery = await this.record(webhook, 'webhook.test', {
+      message: 'Test event from HireScore AI',
+      webhookId: webhook.id,
+    });
+    return this.attempt(webhook, delivery);
+  }
+
+  /**
+   * Queues `event` for every active webhook subscribed to it. Resolves once
+   * the deliveries are logged; sending happens in the background.
+   */
+  async emit(event: WebhookEvent, data: Record<string, unknown>): Promise<void> {
+    const webhooks = (await (await this.store()).listWebhooks())
+      .filter(webhook => webhook.active && webhook.events.includes(event));
+    if (webhooks.length === 0) return;
+
+    const eventId = crypto.randomUUID();
+    for (const webhook of webhooks) {
+      const delivery = await this.record(webhook, event, data, eventId);
+      void this.attempt(webhook, delivery);
+    }
+  }
+
+  // Whether saving history needs to be compared with what was there before
+  async hasSubscribers(): Promise<boolean> {
+    return (await (await this.store()).listWebhooks()).some(webhook => webhook.active);
+  }
+
+  /**
+   * Events for a result the scoring engine just produced - /v1/screen, batch
+   * jobs and integrations that never save history. The same result saved to
+   * history later raises nothing again, and neither does a cached repeat.
+   */
+  async screeningScored(screening: ScoredScreening): Promise<void> {
+    const { cvContent, outcome, attribution } = screening;
+    const key = resultKey(cvContent, outcome.result.score, outcome.result.summary);
+    if (this.wasAnnounced(key) || !(await this.hasSubscribers())) return;
+    this.announced.set(key, Date.now() + ANNOUNCED_TTL_MS);
+
+    const source = attribution?.resourceType === 'session' ? { sessionId: attribution.resourceId }
+      : attribution?.resourceType === 'batch_job' ? { batchJobId: attribution.resourceId }
+        : {};
+    const candidate = screeningSummary(screening);
+    await this.emit('candidate.scored', { ...source, candidate });
+    if (outcome.ensemble?.needsHumanReview) {
+      await this.emit('candidate.needs_review', { ...source, candidate });
+    }
+  }
+
+  /**
+   * Events for a session save, given the session as it was before (null when new).
+   */
+  async sessionSaved(previous: SessionRecord | null, session: SessionRecord): Promise<void> {
+    const before = new Map(previous?.candidates.map(c => [c.id, c]));
+    for (const candidate of session.candidates) {
+      await this.candidateSaved(session.id, before.get(candidate.id), candidate);
+    }
+    if (session.status === 'completed' && previous?.status !== 'completed') {
+      await this.emit('session.completed', { session: sessionSummary(session) });
+    }
+  }
+
+  /**
+   * Events for a candidate save, given the candidate as it was before.
+   */
+  async candidateSaved(sessionId: string, previous: CandidateRecord | undefined, candidate: CandidateRecord): Promise<void> {
+    if (this.wasAnnounced(resultKey(candidate.rawText, candidate.score, candidate.summary))) return;
+    if (isNewlyScored(candidate, previous)) {
+      await this.emit('candidate.scored', { sessionId, candidate: candidateSummary(candidate) });
+    }
+    if (candidate.needsHumanReview && !previous?.needsHumanReview) {
+      await this.emit('candidate.needs_review', { sessionId, candidate: candidateSummary(candidate) });
+    }
+  }
+
+  // Reschedules deliveries that were still waiting for a retry when the process stopped
+  async resumePending(): Promise<number> {
+    const storage = await this.store();
+    const pending = await storage.listWebhookDeliveries({ status: 'pending', limit: 1000 });
+    for (const delivery of pending) {
+      const webhook = await storage.getWebhook(delivery.webhookId);
+      if (!webhook) continue;
+      const wait = delivery.nextAttemptAt ? Date.parse(delivery.nextAttemptAt) - Date.now() : 0;
+      this.schedule(webhook, delivery, Math.max(0, wait));
+    }
+    return pending.length;
+  }
+
+  close() {
+    for (const timer of this.timers) clearTimeout(timer);
+    this.timers.clear();
+  }
+
+  private wasAnnounced(key: string): boolean {
+    const now = Date.now();
+    for (const [announced, expiresAt] of this.announced) {
+      if (expiresAt > now) break;
+      this.announced.delete(announced);
+    }
+    return this.announced.has(key);
+  }
+
+  private async record(
+    webhook: WebhookRecord,
+    event: WebhookDeliveryRecord['event'],
+    data: Record<string, unknown>,
+    eventId: string = crypto.randomUUID()
+  ): Promise<WebhookDeliveryRecord> {
+    const delivery: WebhookDeliveryRecord = {
+      id: crypto.randomUUID(),
+      webhookId: webhook.id,
+      eventId,
+      event,
+      payload: data,
+      status: 'pending',
+      attempts: 0,
+      createdAt: new Date().toISOString(),
+    };
+    return (await this.store()).saveWebhookDelivery(delivery);
+  }
+
+  private schedule(webhook: WebhookRecord, delivery: WebhookDeliveryRecord, delayMs: number) {
+    const timer = setTimeout(() => {
+      this.timers.delete(timer);
+      void this.attempt(webhook, delivery);
+    }, delayMs);
+    // Pending retries must not keep a finished process alive
+    timer.unref?.();
+    this.timers.add(timer);
+  }
+
+  private async attempt(webhook: WebhookRecord, delivery: WebhookDeliveryRecord): Promise<WebhookDeliveryRecord> {
+    const body = JSON.stringify({
+      id: delivery.eventId,
+      type: delivery.event,
+      createdAt: delivery.createdAt,
+      data: delivery.payload,
+    });
+    const attempts = delivery.attempts + 1;
+    const attemptedAt = new Date();
+
+    let responseStatus: number | undefined;
+    let error: string | undefined;
+    try {
+      const response = await this.send(webhook.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'HireScore-Webhooks/1.0',
+          'X-HireScore-Event': delivery.event,
+          'X-HireScore-Delivery': delivery.id,
+          [SIGNATURE_HEADER]: signWebhook(webhook.secret, Math.floor(attemptedAt.getTime() / 1000), body),
+        },
+        body,
+        redirect: 'manual',
+        timeoutMs: this.config.timeoutMs,
+        maxBytes: RECEIVER_ANSWER_MAX_BYTES,
+      });
+      responseStatus = response.status;
+      if (!response.ok) error = `Receiver answered ${response.status}`;
+    } catch (cause) {
+      error = cause instanceof OutboundRequestError && cause.code === 'timeout'
+        ? `No answer within ${this.config.timeoutMs}ms`
+        : (cause as Error).message;
+    }
+
+    const retry = error !== undefined && attempts < this.config.maxAttempts;
+    const delay = retryDelay(this.config, attempts);
+    const updated: WebhookDeliveryRecord = {
+      ...delivery,
+      status: error === undefined ? 'delivered' : retry ? 'pending' : 'failed',
+      attempts,
+      responseStatus,
+      error,
+      lastAttemptAt: attemptedAt.toISOString(),
+      nextAttemptAt: retry ? new Date(Date.now() + delay).toISOString() : undefined,
+      deliveredAt: error === undefined ? new Date().toISOString() : undefined,
+    };
+
+    try {
+      await (await this.store()).saveWebhookDelivery(updated);
+    } catch (saveError) {
+      // The webhook was deleted mid-delivery - nothing left to log or retry
+      log.warn('Could not log webhook delivery', {
+        webhookId: webhook.id,
+        deliveryId: delivery.id,
+        error: (saveError as Error).message,
+      });
+      return updated;
+    }
+    if (retry) this.schedule(webhook, updated, delay);
+    return updated;
+  }
+}
+
+// ============================================
+// Storage Hook
+// ============================================
+
+/**
+ * Wraps `storage` so history saves raise webhook events. Reads the previous
+ * state first to tell new results from re-saves, but only while some webhook
+ * is active. Event failures are logged and never fail the save.
+ */
+export function withWebhookEvents(storage: Storage, dispatcher: WebhookDispatcher): Storage {
+  const report = (work: Promise<void>) => work.catch(error => {
+    log.error('Webhook event error', { error });
+  });
+
+  return {
+    ...storage,
+
+    async saveSession(session) {
+      if (!(await dispatcher.hasSubscribers())) return storage.saveSession(session);
+      const previous = await storage.getSession(session.id);
+      const saved = await storage.saveSession(session);
+      await report(dispatcher.sessionSaved(previous, saved));
+      return saved;
+    },
+
+    async saveCandidate(sessionId, candidate) {
+      if (!(await dispatcher.hasSubscribers())) return storage.saveCandidate(sessionId, candidate);
+      const previous = (await storage.listCandidates(sessionId))?.find(c => c.id === candidate.id);
+      const saved = await storage.saveCandidate(sessionId, candidate);
+      await report(dispatcher.candidateSaved(sessionId, previous, saved));
+      return saved;
+    },
+  };
+}
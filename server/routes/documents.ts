@@ -0,0 +1,261 @@
+/**
+ * HireScore AI - Document Parsing (PDF, DOCX, images)
+ *
+ * PDFs are read with pdf-parse first - fast and free for text-based files.
+ * When that finds too little text (a scanned PDF), local OCR reads the
+ * rendered pages (see lib/ocr.ts); only if that also comes up short does a
+ * vision model of the configured AI provider read the document instead. That
+ * call goes through the provider like any other, so it is logged and billed.
+ *
+ * Text read by local OCR comes with its confidence, 0-1, overall and per page.
+ *
+ * /api/parse-resume turns extracted CV text into a structured profile (see
+ * lib/resume-parser.ts).
+ */
+
+import { z } from 'zod';
+import type { AIProvider } from '../lib/ai-provider.js';
+import type { ApiPrincipal } from '../lib/api-keys.js';
+import { logger } from '../lib/logger.js';
+import { imageType, isOcrEnabled, recognizeImage, recognizePdf, type OcrResult } from '../lib/ocr.js';
+import { parseResume } from '../lib/resume-parser.js';
+import { attributionFor } from '../lib/usage-log.js';
+import { parseBody, reply, type SharedRoute } from './route.js';
+
+// Minimum characters for valid text extraction (scanned PDFs have almost no text)
+const MIN_TEXT_LENGTH = 100;
+
+// Longest CV text /api/parse-resume takes
+const MAX_RESUME_CHARS = 100_000;
+
+// A file the browser read, base64-encoded
+const FileBodySchema = z.object({ base64: z.string().min(1), useOcr: z.boolean().optional() });
+
+const ResumeBodySchema = z.object({ text: z.string().refine(text => text.trim().length > 0, 'CV text is blank') });
+
+// Best OCR model on OpenRouter - Qwen3-VL (cheap: $0.12/M input, $0.56/M output)
+const OCR_MODEL = 'qwen/qwen3-vl-235b-a22b-instruct';
+
+// Other providers read the document with their own default model unless AI_OCR_MODEL names one
+const ocrModelFor = (provider: AIProvider): string =>
+  process.env.AI_OCR_MODEL || (provider.name === 'openrouter' ? OCR_MODEL : provider.defaultModel);
+
+const OCR_PROMPT = `Extract ALL text from this CV/resume document. Preserve the structure including:
+- Name and contact information
+- Work experience with dates, company names, job titles, and descriptions
+- Education history
+- Skills and certifications
+- Any other relevant information
+
+Output the extracted text in a clean, readable format. Do NOT add any commentary - just extract the text exactly as it appears.`;
+
+// ============================================
+// Extraction
+// ============================================
+
+async function extractPdfText(buffer: Buffer): Promise<{ text: string; pages: number }> {
+  // Loaded on first use - pdf.js is large
+  const { PDFParse } = await import('pdf-parse');
+  const parser = new PDFParse({ data: new Uint8Array(buffer) });
+  try {
+    // No page markers - they would end up in the CV text
+    const result = await parser.getText({ pageJoiner: '' });
+    return { text: result.text.trim(), pages: result.total || 1 };
+  } finally {
+    await parser.destroy();
+  }
+}
+
+// Local OCR of a scanned PDF; null when it is off or fails
+async function ocrPdfLocally(buffer: Buffer): Promise<OcrResult | null> {
+  if (!isOcrEnabled()) return null;
+  try {
+    return await recognizePdf(buffer);
+  } catch (error) {
+    logger.warn('Local OCR failed', { error });
+    return null;
+  }
+}
+
+// The answer for text read by local OCR
+const ocrReply = (ocr: OcrResult, pages: number, warning?: string) => reply({
+  success: true,
+  text: ocr.text,
+  pages,
+  method: 'ocr-local',
+  confidence: ocr.confidence,
+  pageConfidence: ocr.pages,
+  warning,
+});
+
+// The document as read by the OCR model; null when the call fails
+async function ocrPdf(
+  base64: string,
+  provider: AIProvider,
+  principal: ApiPrincipal | null,
+  signal: AbortSignal
+): Promise<{ text: string; model: string; usage?: unknown } | null> {
+  try {
+    const data = await provider.chat({
+      model: ocrModelFor(provider),
+      messages: [{ role: 'user', content: OCR_PROMPT }],
+      attachments: [{ mimeType: 'application/pdf', base64 }],
+      temperature: 0.1,
+      maxTokens: 4000,
+      signal,
+      task: 'ocr_pdf',
+      attribution: attributionFor(principal),
+    });
+    return { text: data.content, model: data.model, usage: data.usage };
+  } catch (error) {
+    logger.error('OCR model call failed', { error });
+    return null;
+  }
+}
+
+// ============================================
+// Routes
+// ============================================
+
+export const DOCUMENT_ROUTES = {
+  parsePdf: {
+    method: 'post',
+    path: '/api/parse-pdf',
+    scope: 'write',
+    handle: async ({ body, principal, signal }, { provider, providerError }) => {
+      const parsed = parseBody(FileBodySchema, body, 'Missing base64 PDF data');
+      if ('invalid' in parsed) return parsed.invalid;
+      const { base64, useOcr } = parsed.data;
+
+      try {
+        const buffer = Buffer.from(base64, 'base64');
+        let extracted = { text: '', pages: 0 };
+        try {
+          extracted = await extractPdfText(buffer);
+          logger.info('PDF parsed', { pages: extracted.pages, chars: extracted.text.length });
+        } catch (error) {
+          logger.warn('pdf-parse failed', { error });
+        }
+
+        // Enough text - no OCR needed
+        if (extracted.text.length >= MIN_TEXT_LENGTH && !useOcr) {
+          return reply({ success: true, text: extracted.text, pages: extracted.pages, method: 'pdf-parse' });
+        }
+
+        const local = await ocrPdfLocally(buffer);
+        const localChars = local?.text.length ?? 0;
+        if (local && localChars >= MIN_TEXT_LENGTH && localChars > extracted.text.length) {
+          return ocrReply(local, extracted.pages || local.pages.length);
+        }
+
+        const ocr = providerError ? null : await ocrPdf(base64, provider, principal, signal);
+        if (ocr && ocr.text.length > Math.max(extracted.text.length, localChars)) {
+          return reply({
+            success: true,
+            text: ocr.text,
+            pages: extracted.pages,
+            method: 'ocr',
+            model: ocr.model,
+            usage: ocr.usage,
+          });
+        }
+
+        if (local && localChars > extracted.text.length) {
+          return ocrReply(local, extracted.pages || local.pages.length, 'low_text');
+        }
+
+        if (extracted.text) {
+          return reply({ success: true, text: extracted.text, pages: extracted.pages, method: 'pdf-parse', warning: 'low_text' });
+        }
+
+        // Nothing readable - suggest manual paste
+        const pages = extracted.pages || 1;
+        return reply({
+          success: true,
+          text: `Document from PDF (${pages} pages). The PDF appears to be image-based or scanned. Please paste the CV content manually for accurate screening.`,
+          pages,
+          method: 'fallback',
+          warning: 'low_text',
+        });
+      } catch (error) {
+        logger.error('PDF parse error', { error });
+        return reply({ success: false, error: 'PDF parsing failed. Please paste CV text manually.', method: 'error' }, 500);
+      }
+    },
+  },
+
+  // A photographed or scanned resume as PNG or JPEG, read by local OCR
+  parseImage: {
+    method: 'post',
+    path: '/api/parse-image',
+    scope: 'write',
+    handle: async ({ body }) => {
+      const parsed = parseBody(FileBodySchema, body, 'Missing base64 image data');
+      if ('invalid' in parsed) return parsed.invalid;
+      const { base64 } = parsed.data;
+      if (!isOcrEnabled()) {
+        return reply({ success: false, error: 'Image OCR is turned off on this server. Please paste CV text manually.' }, 503);
+      }
+
+      const buffer = Buffer.from(base64, 'base64');
+      if (!imageType(buffer)) {
+        return reply({ success: false, error: 'Only PNG and JPEG images can be read' }, 400);
+      }
+
+      try {
+        const ocr = await recognizeImage(buffer);
+        logger.info('Image read by OCR', { chars: ocr.text.length, confidence: ocr.confidence });
+        return ocrReply(ocr, 1, ocr.text.length < MIN_TEXT_LENGTH ? 'low_text' : undefined);
+      } catch (error) {
+        logger.error('Image OCR error', { error });
+        return reply({ success: false, error: 'Image could not be read. Please paste CV text manually.', method: 'error' }, 500);
+      }
+    },
+  },
+
+  // CV text split into a typed profile - contact, work history, education, skills
+  parseResume: {
+    method: 'post',
+    path: '/api/parse-resume',
+    scope: 'write',
+    handle: async ({ body }) => {
+      const parsed = parseBody(ResumeBodySchema, body, 'Missing CV text');
+      if ('invalid' in parsed) return parsed.invalid;
+      const { text } = parsed.data;
+      if (text.length > MAX_RESUME_CHARS) {
+        return reply({ success: false, error: `CV text is limited to ${MAX_RESUME_CHARS} characters` }, 413);
+      }
+      return reply({ success: true, parsedData: parseResume(text) });
+    },
+  },
+
+  // Parse DOCX using mammoth (server-side, better extraction)
+  parseDocx: {
+    method: 'post',
+    path: '/api/parse-docx',
+    scope: 'write',
+    handle: async ({ body }) => {
+      const parsed = parseBody(FileBodySchema, body, 'Missing base64 DOCX data');
+      if ('invalid' in parsed) return parsed.invalid;
+      const { base64 } = parsed.data;
+
+      try {
+        const mammoth = await import('mammoth');
+        const result = await mammoth.extractRawText({ buffer: Buffer.from(base64, 'base64') });
+
+        if (result.value && result.value.trim().length > 50) {
+          return reply({ success: true, text: result.value.trim(), method: 'mammoth' });
+        }
+
+        return reply({
+          success: true,
+          text: 'Document content could not be extracted. Please paste CV text manually.',
+          method: 'fallback',
+        });
+      } catch (error) {
+        logger.error('DOCX parse error', { error });
+        return reply({ success: false, error: 'DOCX parsing failed. Please paste CV text manually.' }, 500);
+      }
+    },
+  },
+} satisfies Record<string, SharedRoute>;
@@ -0,0 +1,206 @@
+/**
+ * HireScore AI - Company Research & JD Generation
+ *
+ * Both use the server-side provider key and its default model.
+ */
+
+import { z } from 'zod';
+import { logger } from '../lib/logger.js';
+import { OutboundRequestError, safeFetch } from '../lib/safe-fetch.js';
+import { attributionFor } from '../lib/usage-log.js';
+import { parseBody, providerUnavailable, reply, type SharedRoute } from './route.js';
+
+// Company pages beyond this are cut off before they reach the model anyway
+const MAX_WEBSITE_BYTES = 2 * 1024 * 1024;
+
+const ResearchBodySchema = z.object({ url: z.string().min(1) });
+
+const GenerateJdBodySchema = z.object({
+  jobTitle: z.string().min(1),
+  companyProfile: z.object({
+    name: z.string().optional(),
+    industry: z.string().optional(),
+    techStack: z.array(z.string()).optional(),
+    cultureValues: z.array(z.string()).optional(),
+    workStyle: z.string().optional(),
+  }).optional(),
+});
+
+// The first JSON object in a model answer
+function parseJsonAnswer(content: string) {
+  const jsonMatch = content.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) {
+    throw new Error('No valid JSON in AI response');
+  }
+  return JSON.parse(jsonMatch[0]);
+}
+
+export const GENERATION_ROUTES = {
+  researchCompany: {
+    method: 'post',
+    path: '/api/research-company',
+    scope: 'write',
+    handle: async ({ body, principal, signal }, context) => {
+      const unavailable = providerUnavailable(context);
+      if (unavailable) return unavailable;
+      const { provider } = context;
+
+      const parsed = parseBody(ResearchBodySchema, body, 'URL is required');
+      if ('invalid' in parsed) return parsed.invalid;
+      const { url } = parsed.data;
+
+      try {
+        // Fetch website content - the model works from the URL alone when that fails
+        let content = '';
+        try {
+          const response = await safeFetch(url, {
+            headers: { 'User-Agent': 'Mozilla/5.0 (compatible; HireScoreBot/1.0)' },
+            timeoutMs: 15000,
+            maxBytes: MAX_WEBSITE_BYTES,
+            signal,
+          });
+          if (response.ok) {
+            const html = response.text();
+            // Strip HTML tags for AI processing
+            content = html.replace(/<script[^>]*>[\s\S]*?<\/script>/gi, '')
+                          .replace(/<style[^>]*>[\s\S]*?<\/style>/gi, '')
+                          .replace(/<[^>]+>/g, ' ')
+                          .replace(/\s+/g, ' ')
+                          .trim()
+                          .substring(0, 30000);
+          }
+        } catch (error) {
+          // An internal or malformed URL is refused outright
+          if (error instanceof OutboundRequestError && (error.code === 'blocked' || error.code === 'invalid_url')) {
+            return reply({ success: false, error: error.message }, error.status);
+          }
+          if (signal.aborted) return reply(undefined, 499);
+        }
+
+        // Use AI to extract company info
+        const aiData = await provider.chat({
+          model: provider.defaultModel,
+          messages: [{
+            role: 'user',
+            content: `Extract company information from this URL: ${url}
+
+Website content (if available):
+${content || 'Could not fetch website content'}
+
+Return JSON with these fields:
+{
+  "name": "Company Name",
+  "description": "2-3 sentence description",
+  "industry": "Industry",
+  "size": "startup|smb|midmarket|enterprise",
+  "location": "Location",
+  "techStack": ["Tech1", "Tech2"],
+  "cultureValues": ["Value1", "Value2"],
+  "workStyle": "remote|hybrid|onsite",
+  "benefits": ["Benefit1"],
+  "confidence": 0.0-1.0
+}
+
+Return ONLY valid JSON.`
+          }],
+          temperature: 0.3,
+          maxTokens: 1500,
+          task: 'company_research',
+          context: { url, content },
+          attribution: { ...attributionFor(principal), resourceType: 'company', resourceId: url },
+        });
+
+        const profile = parseJsonAnswer(aiData.content);
+
+        return reply({
+          success: true,
+          profile: {
+            ...profile,
+            website: url,
+            techStack: profile.techStack || [],
+            cultureValues: profile.cultureValues || [],
+            benefits: profile.benefits || [],
+            recentNews: [],
+          },
+          tokensUsed: aiData.usage?.total_tokens || 0,
+        });
+      } catch (error) {
+        logger.error('Company research error', { error });
+        return reply({ success: false, error: error instanceof Error ? error.message : 'Research failed' }, 500);
+      }
+    },
+  },
+
+  generateJd: {
+    method: 'post',
+    path: '/api/generate-jd',
+    scope: 'write',
+    handle: async ({ body, principal }, context) => {
+      const unavailable = providerUnavailable(context);
+      if (unavailable) return unavailable;
+      const { provider } = context;
+
+      const parsed = parseBody(GenerateJdBodySchema, body, 'Job title is required');
+      if ('invalid' in parsed) return parsed.invalid;
+      const { jobTitle, companyProfile } = parsed.data;
+
+      const prompt = `Generate a job description for: ${jobTitle}
+
+${companyProfile ? `Company Context:
+- Name: ${companyProfile.name || 'Company'}
+- Industry: ${companyProfile.industry || 'Not specified'}
+- Tech Stack: ${companyProfile.techStack?.join(', ') || 'Not specified'}
+- Culture: ${companyProfile.cultureValues?.join(', ') || 'Not specified'}
+- Work Style: ${companyProfile.workStyle || 'Not specified'}` : ''}
+
+Return JSON:
+{
+  "title": "Full job title",
+  "department": "Department",
+  "seniorityLevel": "junior|mid|senior|staff|principal",
+  "employmentType": "full-time",
+  "summary": "2-3 sentence role summary",
+  "responsibilities": ["Resp 1", "Resp 2", "Resp 3"],
+  "requiredSkills": ["Skill 1", "Skill 2", "Skill 3"],
+  "niceToHaveSkills": ["Nice 1", "Nice 2"],
+  "experienceMin": 2,
+  "experienceMax": 5,
+  "education": "Required education",
+  "remoteAllowed": true,
+  "fullText": "Complete formatted JD",
+  "confidence": 0.85
+}
+
+Return ONLY valid JSON.`;
+
+      try {
+        const aiData = await provider.chat({
+          model: provider.defaultModel,
+          messages: [{ role: 'user', content: prompt }],
+          temperature: 0.4,
+          maxTokens: 2500,
+          task: 'jd_generate',
+          context: { jobTitle, companyProfile },
+          attribution: attributionFor(principal),
+        });
+
+        const jd = parseJsonAnswer(aiData.content);
+
+        return reply({
+          success: true,
+          jobDescription: {
+            ...jd,
+            generatedAt: new Date().toISOString(),
+            requiredSkills: jd.requiredSkills || [],
+            niceToHaveSkills: jd.niceToHaveSkills || [],
+            responsibilities: jd.responsibilities || [],
+          },
+          tokensUsed: aiData.usage?.total_tokens || 0,
+        });
+      } catch (error) {
+        logger.error('JD generation error', { error });
+        return reply({ success: false, error: error instanceof Error ? error.message : 'Generation failed' }, 500);
+      }
+    },
+  },
+} satisfies Record<string, SharedRoute>;
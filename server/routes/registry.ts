@@ -0,0 +1,182 @@
+/**
+ * HireScore AI - Route Registry
+ *
+ * Every route both runtimes serve. The Express server mounts each one at its
+ * path; each file in api/ is a one-line Vercel function for one of them:
+ *
+ *   export default vercelRoute('screen');
+ *
+ * With a Postgres DATABASE_URL, Vercel functions check API keys, meter quotas
+ * and keep the usage log against it, as the Express server does. Without one
+ * they serve anonymously - or, when API_KEYS_REQUIRED is set, refuse every
+ * route that needs a key with 503. A warm instance only remembers its own
+ * cache, session budgets and key rate limits. Batch jobs, history and key
+ * management stay Express-only.
+ */
+
+import { getProvider, getProviderConfig, validateProviderConfig } from '../lib/ai-provider.js';
+import {
+  ApiKeyAuthenticator,
+  ApiKeyError,
+  apiKeyErrorBody,
+  getApiKeyConfig,
+  type ApiPrincipal,
+} from '../lib/api-keys.js';
+import { getBudgetRegistry } from '../lib/budget.js';
+import { withRequestLogging } from '../lib/logger.js';
+import { ModelCatalog } from '../lib/model-catalog.js';
+import { getFallbackPolicy } from '../lib/model-fallback.js';
+import { QuotaRegistry } from '../lib/quotas.js';
+import { getResultCache } from '../lib/result-cache.js';
+import { ScoringEngine } from '../lib/scoring-engine.js';
+import { getStorageConfig } from '../lib/storage.js';
+import { UsageLog, withUsageLog } from '../lib/usage-log.js';
+import { DOCUMENT_ROUTES } from './documents.js';
+import { FETCH_URL_ROUTES } from './fetch-url.js';
+import { GENERATION_ROUTES } from './generation.js';
+import {
+  serveRoute,
+  type NodeRouteRequest,
+  type NodeRouteResponse,
+  type RouteContext,
+  type SharedRoute,
+} from './route.js';
+import { SCREENING_ROUTES } from './screening.js';
+import { SYSTEM_ROUTES } from './system.js';
+
+export const SHARED_ROUTES = {
+  ...SYSTEM_ROUTES,
+  ...SCREENING_ROUTES,
+  ...DOCUMENT_ROUTES,
+  ...FETCH_URL_ROUTES,
+  ...GENERATION_ROUTES,
+};
+
+export type SharedRouteName = keyof typeof SHARED_ROUTES;
+
+// ============================================
+// Vercel Functions
+// ============================================
+
+// Vercel's time limit leaves room for one chunk of candidates per request
+const VERCEL_MAX_BATCH_CANDIDATES = 5;
+
+interface VercelServices {
+  context: RouteContext;
+  // Null without a database - keys cannot be looked up
+  apiKeys: ApiKeyAuthenticator | null;
+}
+
+let vercelServices: VercelServices | undefined;
+
+// A function's filesystem does not outlive it, so only Postgres counts as storage
+function hasDatabase(): boolean {
+  const config = getStorageConfig();
+  return config.backend === 'postgres' && !!config.databaseUrl;
+}
+
+// Built on the first request of a cold start and kept while the instance is warm
+function getVercelServices(): VercelServices {
+  if (!vercelServices) {
+    const config = getProviderConfig();
+    const database = hasDatabase();
+    const provider = database ? withUsageLog(getProvider(), new UsageLog()) : getProvider();
+    vercelServices = {
+      context: {
+        provider,
+        providerError: validateProviderConfig(config),
+        scoringEngine: new ScoringEngine(provider, getResultCache(), getFallbackPolicy(provider.name)),
+        budgets: getBudgetRegistry(),
+        catalog: new ModelCatalog(provider),
+        quotas: database ? new QuotaRegistry() : undefined,
+        maxBatchCandidates: VERCEL_MAX_BATCH_CANDIDATES,
+      },
+      apiKeys: database ? new ApiKeyAuthenticator(getApiKeyConfig()) : null,
+    };
+  }
+  return vercelServices;
+}
+
+function sendJson(res: NodeRouteResponse, status: number, body: unknown) {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json; charset=utf-8');
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * The caller behind the request's key, checked against `route`'s scope the
+ * way the Express middleware does. Throws ApiKeyError to refuse the request.
+ */
+async function principalFor(
+  apiKeys: ApiKeyAuthenticator,
+  route: SharedRoute,
+  req: NodeRouteRequest,
+  res: NodeRouteResponse
+): Promise<ApiPrincipal | null> {
+  const authorization = req.headers.authorization;
+  const principal = await apiKeys.authenticate(typeof authorization === 'string' ? authorization : undefined);
+  if (principal) {
+    const limit = apiKeys.consume(principal);
+    if (limit) {
+      res.setHeader('RateLimit-Limit', String(limit.limit));
+      res.setHeader('RateLimit-Remaining', String(limit.remaining));
+      res.setHeader('RateLimit-Reset', String(limit.resetSeconds));
+    }
+  }
+  if (route.scope) apiKeys.authorize(principal, route.scope);
+  return principal;
+}
+
+/**
+ * The Vercel function for route `name`: CORS, preflight and method checks,
+ * request logging, API key and scope checks, then the shared handler.
+ */
+export function vercelRoute(name: SharedRouteName) {
+  const route: SharedRoute = SHARED_ROUTES[name];
+  const method = route.method.toUpperCase();
+
+  return withRequestLogging(async (req: NodeRouteRequest, res: NodeRouteResponse) => {
+    const allowedOrigins = process.env.ALLOWED_ORIGINS?.split(',') || ['*'];
+    const origin = typeof req.headers.origin === 'string' ? req.headers.origin : '*';
+    if (allowedOrigins.includes('*') || allowedOrigins.includes(origin)) {
+      res.setHeader('Access-Control-Allow-Origin', origin);
+    }
+    res.setHeader('Access-Control-Allow-Methods', `${method}, OPTIONS`);
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-Request-Id');
+    res.setHeader('Access-Control-Expose-Headers', 'X-Request-Id');
+    res.setHeader('X-Content-Type-Options', 'nosniff');
+
+    if (req.method === 'OPTIONS') {
+      res.statusCode = 200;
+      res.end();
+      return;
+    }
+    if (req.method !== method) {
+      res.setHeader('Allow', `${method}, OPTIONS`);
+      sendJson(res, 405, { success: false, error: 'Method not allowed' });
+      return;
+    }
+
+    const { context, apiKeys } = getVercelServices();
+    if (!apiKeys) {
+      if (route.scope && getApiKeyConfig().required) {
+        sendJson(res, 503, { success: false, error: 'API keys cannot be checked without a database (DATABASE_URL)' });
+        return;
+      }
+      await serveRoute(route, context, req, res, null);
+      return;
+    }
+
+    let principal: ApiPrincipal | null;
+    try {
+      principal = await principalFor(apiKeys, route, req, res);
+    } catch (error) {
+      if (!(error instanceof ApiKeyError)) throw error;
+      if (error.retryAfter !== undefined) res.setHeader('Retry-After', String(error.retryAfter));
+      sendJson(res, error.status, apiKeyErrorBody(error));
+      return;
+    }
+
+    await serveRoute(route, context, req, res, principal);
+  });
+}
@@ -0,0 +1,152 @@
+/**
+ * HireScore AI - Shared Routes
+ *
+ * The /api routes the browser app calls are written once, against the small
+ * runtime-neutral request and response below, and served by both the Express
+ * server and the Vercel functions (see routes/registry.ts). A handler gets the
+ * parsed request plus the runtime's RouteContext and returns a status and a
+ * JSON body; it never touches the underlying request or response.
+ */
+
+import type { z } from 'zod';
+import type { AIProvider } from '../lib/ai-provider.js';
+import type { ApiKeyScope, ApiPrincipal } from '../lib/api-keys.js';
+import type { BudgetRegistry } from '../lib/budget.js';
+import { currentRequestId, logger, type LoggedRequest, type LoggedResponse } from '../lib/logger.js';
+import type { ModelCatalog } from '../lib/model-catalog.js';
+import type { QuotaRegistry } from '../lib/quotas.js';
+import type { ScoringEngine } from '../lib/scoring-engine.js';
+import { validateRecord } from '../lib/storage-schema.js';
+
+// ============================================
+// Types
+// ============================================
+
+export interface RouteRequest {
+  method: string;
+  headers: Record<string, string | string[] | undefined>;
+  query: Record<string, unknown>;
+  // Parsed JSON - an empty object when the request has no body. Handlers check
+  // it against their schema with parseBody before reading it.
+  body: unknown;
+  principal: ApiPrincipal | null;
+  // Aborted when the client disconnects before the answer is sent
+  signal: AbortSignal;
+}
+
+export interface RouteResponse {
+  status: number;
+  body?: unknown;
+  headers?: Record<string, string>;
+}
+
+/**
+ * What a runtime gives its handlers. Express shares its long-lived services;
+ * a Vercel instance builds its own once per cold start.
+ */
+export interface RouteContext {
+  provider: AIProvider;
+  // Why the provider cannot be called - null when it is configured
+  providerError: string | null;
+  scoringEngine: ScoringEngine;
+  budgets: BudgetRegistry;
+  catalog: ModelCatalog;
+  // Absent without storage; screenings are then not metered
+  quotas?: QuotaRegistry;
+  // Vercel functions must answer within their time limit
+  maxBatchCandidates: number;
+}
+
+export interface SharedRoute {
+  method: 'get' | 'post';
+  path: string;
+  // Older paths Express still answers on
+  aliases?: string[];
+  // Public when absent
+  scope?: ApiKeyScope;
+  handle(request: RouteRequest, context: RouteContext): Promise<RouteResponse>;
+}
+
+// The parts of a Node request/response the adapter needs - Express and Vercel both fit
+export interface NodeRouteRequest extends LoggedRequest {
+  body?: unknown;
+  query?: unknown;
+}
+
+export interface NodeRouteResponse extends LoggedResponse {
+  readonly writableFinished: boolean;
+  readonly headersSent: boolean;
+  end(chunk?: string): unknown;
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+export function reply(body: unknown, status = 200, headers?: Record<string, string>): RouteResponse {
+  return { status, body, headers };
+}
+
+/**
+ * `body` checked against the route's schema. A mismatch answers 400 with
+ * `error` and the list of issues, the way /v1 reports VALIDATION_FAILED.
+ */
+export function parseBody<T>(schema: z.ZodType<T>, body: unknown, error: string): { data: T } | { invalid: RouteResponse } {
+  const parsed = validateRecord(schema, body);
+  return parsed.success
+    ? { data: parsed.data }
+    : { invalid: reply({ success: false, error, issues: parsed.issues }, 400) };
+}
+
+// The answer for a model route when the provider is missing its key or URL
+export function providerUnavailable(context: RouteContext): RouteResponse | null {
+  return context.providerError ? reply({ success: false, error: 'API key not configured' }, 500) : null;
+}
+
+// ============================================
+// Adapter
+// ============================================
+
+/**
+ * Runs `route` for a Node request whose body is already parsed, and writes
+ * its answer - unless the client has gone away in the meantime.
+ */
+export async function serveRoute(
+  route: SharedRoute,
+  context: RouteContext,
+  req: NodeRouteRequest,
+  res: NodeRouteResponse,
+  principal: ApiPrincipal | null
+): Promise<void> {
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort();
+  });
+
+  let response: RouteResponse;
+  try {
+    response = await route.handle({
+      method: req.method ?? 'GET',
+      headers: req.headers,
+      query: (req.query ?? {}) as Record<string, unknown>,
+      body: req.body ?? {},
+      principal,
+      signal: controller.signal,
+    }, context);
+  } catch (error) {
+    logger.error('Route failed', { path: route.path, error });
+    response = reply({ success: false, error: 'Internal server error', requestId: currentRequestId() }, 500);
+  }
+
+  if (controller.signal.aborted || res.headersSent) return;
+  res.statusCode = response.status;
+  for (const [name, value] of Object.entries(response.headers ?? {})) {
+    res.setHeader(name, value);
+  }
+  if (response.body === undefined) {
+    res.end();
+    return;
+  }
+  res.setHeader('Content-Type', 'application/json; charset=utf-8');
+  res.end(JSON.stringify(response.body));
+}
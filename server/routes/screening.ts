@@ -0,0 +1,292 @@
+/**
+ * HireScore AI - Screening Routes
+ *
+ * Cost estimates, single screenings and small synchronous batches. Larger
+ * batches go through the background queue (/api/jobs), which only the Express
+ * server runs.
+ */
+
+import { z } from 'zod';
+import { ProviderError } from '../lib/ai-provider.js';
+import { EstimateRequestSchema, ScreenRequestSchema, SessionBudgetFieldsSchema } from '../lib/api-contract.js';
+import { BudgetExceededError, budgetErrorBody } from '../lib/budget.js';
+import { logger } from '../lib/logger.js';
+import { FAST_MODELS } from '../lib/model-fallback.js';
+import { QuotaExceededError, quotaErrorBody } from '../lib/quotas.js';
+import {
+  MIN_CV_LENGTH,
+  ScreeningValidationError,
+  ensembleModels,
+  estimateScreening,
+  validationErrorBody,
+} from '../lib/scoring-engine.js';
+import { attributionFor } from '../lib/usage-log.js';
+import { parseBody, providerUnavailable, reply, type SharedRoute } from './route.js';
+
+// Candidates of one batch request scored at a time
+const BATCH_CONCURRENCY = 5;
+
+// The /v1 bodies, except that an empty model means the default one
+const ModelSchema = z.string().optional();
+const EstimateBodySchema = EstimateRequestSchema.extend({ model: ModelSchema });
+const ScreenBodySchema = ScreenRequestSchema.extend({ model: ModelSchema });
+
+// A candidate without usable CV text fails on its own rather than the whole batch
+const ScreenBatchBodySchema = SessionBudgetFieldsSchema.extend({
+  jobDescription: z.string().min(1),
+  candidates: z.array(z.object({ name: z.string().optional(), cvContent: z.string().optional() })),
+  model: ModelSchema,
+  fastMode: z.boolean().optional(),
+});
+
+const isDevelopment = () => process.env.NODE_ENV === 'development';
+
+// The errorCode a failed batch candidate reports
+function batchErrorCode(error: unknown) {
+  if (error instanceof ScreeningValidationError) return { errorCode: 'INVALID_AI_OUTPUT', issues: error.issues };
+  if (error instanceof BudgetExceededError) return { errorCode: 'BUDGET_EXCEEDED' };
+  if (error instanceof QuotaExceededError) return { errorCode: 'QUOTA_EXCEEDED' };
+  if (error instanceof ProviderError && error.status === 429) return { errorCode: 'RATE_LIMITED' };
+  return {};
+}
+
+export const SCREENING_ROUTES = {
+  // Pre-flight tokens and dollars for a run, priced for the selected model
+  estimate: {
+    method: 'post',
+    path: '/api/estimate',
+    scope: 'write',
+    handle: async ({ body }, context) => {
+      const unavailable = providerUnavailable(context);
+      if (unavailable) return unavailable;
+
+      const parsed = parseBody(EstimateBodySchema, body,
+        'Missing required fields: jobDescription and a cvContents array of strings');
+      if ('invalid' in parsed) return parsed.invalid;
+      const { jobDescription, cvContents } = parsed.data;
+
+      try {
+        const model = parsed.data.model || await context.catalog.defaultModel();
+        await context.catalog.ensurePricing();
+        return reply({ success: true, estimate: estimateScreening(jobDescription, cvContents, model) });
+      } catch (error) {
+        logger.error('Estimate error', { error });
+        return reply({ error: 'Internal server error' }, 500);
+      }
+    },
+  },
+
+  // Screen a single candidate
+  screen: {
+    method: 'post',
+    path: '/api/screen',
+    scope: 'write',
+    handle: async ({ body, principal, signal }, context) => {
+      const unavailable = providerUnavailable(context);
+      if (unavailable) return unavailable;
+      const { provider, scoringEngine, budgets, catalog, quotas } = context;
+
+      const parsed = parseBody(ScreenBodySchema, body, 'Missing required fields: jobDescription and cvContent');
+      if ('invalid' in parsed) return parsed.invalid;
+      const request = parsed.data;
+
+      try {
+        const { jobDescription, cvContent, bypassCache } = request;
+
+        if (cvContent.length < MIN_CV_LENGTH) {
+          return reply({
+            error: 'CV content is too short. Please ensure the PDF contains text or paste the CV content manually.'
+          }, 400);
+        }
+
+        const session = budgets.fromRequest(request);
+        if ('error' in session) {
+          return reply({ error: session.error }, 400);
+        }
+
+        // If no model specified, use the catalog's first recommended one
+        const model = request.model || await catalog.defaultModel();
+        const ensemble = ensembleModels(model, request.ensembleModels);
+        if ('error' in ensemble) {
+          return reply({ error: ensemble.error }, 400);
+        }
+
+        logger.info('Screening request', { model, jdLength: jobDescription.length, cvLength: cvContent.length });
+        await catalog.ensurePricing();
+
+        let outcome;
+        try {
+          const options = {
+            bypassCache: bypassCache === true,
+            signal,
+            budget: session.budget,
+            credits: await quotas?.accountFor(principal),
+            attribution: { ...attributionFor(principal), resourceType: 'session', resourceId: request.sessionId },
+          };
+          outcome = ensemble.models
+            ? await scoringEngine.scoreEnsemble(jobDescription, cvContent, ensemble.models, options)
+            : await scoringEngine.score(jobDescription, cvContent, { ...options, model });
+        } catch (error) {
+          // The browser cancelled - nobody reads the answer
+          if (signal.aborted) return reply(undefined, 499);
+          if (error instanceof BudgetExceededError) {
+            return reply(budgetErrorBody(error), error.status);
+          }
+          if (error instanceof QuotaExceededError) {
+            return reply(quotaErrorBody(error), error.status);
+          }
+          if (error instanceof ScreeningValidationError) {
+            return reply({
+              ...validationErrorBody(error),
+              rawResponse: isDevelopment() ? error.rawResponse : undefined,
+            }, 422);
+          }
+          if (!(error instanceof ProviderError)) throw error;
+          logger.error('AI provider error', { provider: provider.name, status: error.status, body: error.body });
+
+          // The engine already retried and walked the fallback chain
+          if (error.status === 429) {
+            return reply({
+              error: 'Rate limited - please try again in a few seconds',
+              errorCode: 'RATE_LIMITED',
+              retryAfter: error.retryAfter ?? 5,
+            }, 429);
+          }
+
+          return reply({
+            error: 'AI service temporarily unavailable',
+            details: isDevelopment() ? error.body : undefined,
+          }, error.status);
+        }
+
+        return reply({
+          success: true,
+          result: outcome.result,
+          usage: outcome.usage,
+          costUsd: outcome.costUsd,
+          model: outcome.model,
+          requestedModel: outcome.requestedModel,
+          repairAttempts: outcome.repairAttempts,
+          retries: outcome.retries,
+          cached: outcome.cached === true,
+          ensemble: outcome.ensemble,
+          processingTime: Date.now(),
+        });
+      } catch (error) {
+        logger.error('Screening error', { error });
+        return reply({
+          error: 'Internal server error',
+          message: isDevelopment() ? (error as Error).message : undefined,
+        }, 500);
+      }
+    },
+  },
+
+  // Screen a few candidates in one request, BATCH_CONCURRENCY at a time
+  screenBatch: {
+    method: 'post',
+    path: '/api/screen-batch',
+    aliases: ['/api/screen/batch'],
+    scope: 'write',
+    handle: async ({ body, principal, signal }, context) => {
+      const unavailable = providerUnavailable(context);
+      if (unavailable) return unavailable;
+      const { provider, scoringEngine, budgets, catalog, quotas, maxBatchCandidates } = context;
+      const startTime = Date.now();
+
+      const parsed = parseBody(ScreenBatchBodySchema, body, 'Missing required fields: jobDescription and candidates array');
+      if ('invalid' in parsed) return parsed.invalid;
+      const request = parsed.data;
+
+      try {
+        const { jobDescription, candidates, fastMode } = request;
+
+        if (candidates.length > maxBatchCandidates) {
+          return reply({
+            error: `Maximum ${maxBatchCandidates} candidates per batch`,
+            suggestion: 'Split into multiple requests for better reliability',
+          }, 400);
+        }
+
+        const session = budgets.fromRequest(request);
+        if ('error' in session) {
+          return reply({ error: session.error }, 400);
+        }
+
+        // Fast mode picks the quickest OpenRouter model; other providers use their configured one
+        const model = request.model || (fastMode === true && provider.name === 'openrouter'
+          ? FAST_MODELS['gemini-flash-lite']
+          : await catalog.defaultModel());
+
+        logger.info('Batch screening request', { candidateCount: candidates.length, model, fastMode });
+        await catalog.ensurePricing();
+        const credits = await quotas?.accountFor(principal);
+
+        const results = [];
+        for (let i = 0; i < candidates.length && !signal.aborted; i += BATCH_CONCURRENCY) {
+          const chunk = candidates.slice(i, i + BATCH_CONCURRENCY);
+          results.push(...await Promise.all(chunk.map(async (candidate, offset) => {
+            const name = candidate.name || `Candidate ${i + offset + 1}`;
+            const candidateStart = Date.now();
+            try {
+              if (!candidate.cvContent || candidate.cvContent.length < MIN_CV_LENGTH) {
+                throw new Error('CV content too short or empty');
+              }
+
+              const outcome = await scoringEngine.score(jobDescription, candidate.cvContent, {
+                model,
+                signal,
+                budget: session.budget,
+                credits,
+                attribution: { ...attributionFor(principal), resourceType: 'session', resourceId: request.sessionId },
+              });
+
+              return {
+                name,
+                success: true,
+                ...outcome.result,
+                model: outcome.model,
+                usage: outcome.usage,
+                costUsd: outcome.costUsd,
+                retries: outcome.retries,
+                latencyMs: Date.now() - candidateStart,
+              };
+            } catch (error) {
+              if (!signal.aborted) logger.warn('Batch candidate failed', { index: i + offset, error });
+              // No score or recommendation - the same shape as a failed batch-queue item
+              return {
+                name,
+                success: false,
+                error: (error as Error).message,
+                ...batchErrorCode(error),
+                latencyMs: Date.now() - candidateStart,
+              };
+            }
+          })));
+        }
+
+        if (signal.aborted) return reply(undefined, 499);
+
+        const successful = results.filter(r => r.success).length;
+        const totalMs = Date.now() - startTime;
+        logger.info('Batch screening complete', { successful, candidateCount: candidates.length, totalMs });
+
+        return reply({
+          success: true,
+          total: candidates.length,
+          processed: results.length,
+          failed: results.length - successful,
+          results,
+          performance: {
+            totalMs,
+            avgPerCvMs: results.length ? Math.round(totalMs / results.length) : 0,
+            model,
+          },
+        });
+      } catch (error) {
+        logger.error('Batch screening error', { error });
+        return reply({ error: 'Internal server error' }, 500);
+      }
+    },
+  },
+} satisfies Record<string, SharedRoute>;
@@ -0,0 +1,125 @@
+/**
+ * HireScore AI - Health, Configuration, Models & Credits
+ */
+
+import { logger } from '../lib/logger.js';
+import { reply, type SharedRoute } from './route.js';
+
+// Bump with each deployment - /api/health shows which one is live
+const API_VERSION = '2.3.0';
+
+// Build timestamp (set when the instance starts)
+const BUILD_TIME = new Date().toISOString();
+
+// Changelog for quick reference
+const CHANGELOG = {
+  '2.3.0': 'Fix PDF.js worker - use unpkg CDN for reliable parsing',
+  '2.2.0': 'Fix all model IDs to use REAL OpenRouter IDs (no date suffixes)',
+  '2.1.1': 'Fix MCF status field type handling',
+  '2.1.0': 'MyCareersFuture API integration, enterprise security',
+  '2.0.0': 'Enterprise URL fetcher with SSRF protection',
+  '1.0.0': 'Initial release',
+};
+
+const FEATURES = {
+  screening: true,
+  batchProcessing: true,
+  maxCVsPerBatch: 50,
+};
+
+export const SYSTEM_ROUTES = {
+  health: {
+    method: 'get',
+    path: '/api/health',
+    handle: async () => reply({
+      status: 'ok',
+      version: API_VERSION,
+      buildTime: BUILD_TIME,
+      timestamp: new Date().toISOString(),
+      changelog: CHANGELOG[API_VERSION],
+    }, 200, { 'Cache-Control': 'no-cache, no-store, must-revalidate' }),
+  },
+
+  // AI configuration - the quick-pick models, never the keys
+  config: {
+    method: 'get',
+    path: '/api/config',
+    scope: 'read',
+    handle: async (_request, { provider, catalog }) => {
+      try {
+        return reply({ provider: provider.name, models: await catalog.recommended(), features: FEATURES });
+      } catch (error) {
+        logger.error('Error in /api/config', { error });
+        return reply({ error: 'Failed to fetch configuration', provider: provider.name, models: [], features: FEATURES }, 500);
+      }
+    },
+  },
+
+  // Every model for the model picker
+  models: {
+    method: 'get',
+    path: '/api/models',
+    scope: 'read',
+    handle: async (_request, { catalog }) => {
+      try {
+        return reply({ success: true, ...await catalog.list() });
+      } catch (error) {
+        logger.error('Error in /api/models', { error });
+        return reply({ error: 'Failed to fetch models' }, 500);
+      }
+    },
+  },
+
+  // OpenRouter credits/usage of the server's key
+  credits: {
+    method: 'get',
+    path: '/api/credits',
+    scope: 'read',
+    handle: async (_request, { provider }) => {
+      // Offline mock has nothing to bill
+      if (provider.name === 'mock') {
+        return reply({
+          success: true,
+          credits: { used: 0, limit: null, remaining: null, isUnlimited: true, isFreeTier: false, label: 'Offline mock' },
+        });
+      }
+
+      const OPENROUTER_API_KEY = process.env.OPENROUTER_API_KEY;
+      if (!OPENROUTER_API_KEY) {
+        return reply({ success: false, error: 'API key not configured' }, 400);
+      }
+
+      try {
+        const response = await fetch('https://openrouter.ai/api/v1/auth/key', {
+          headers: {
+            'Authorization': `Bearer ${OPENROUTER_API_KEY}`,
+          },
+        });
+
+        if (!response.ok) {
+          logger.error('OpenRouter credits API error', { status: response.status });
+          return reply({ success: false, error: 'Failed to fetch credits from OpenRouter' }, response.status);
+        }
+
+        // OpenRouter returns { data: { label, usage, limit, limit_remaining, is_free_tier } }
+        const data = await response.json();
+        const keyInfo = data.data || {};
+
+        return reply({
+          success: true,
+          credits: {
+            used: keyInfo.usage || 0,
+            limit: keyInfo.limit ?? null,
+            remaining: keyInfo.limit_remaining ?? null,
+            isUnlimited: keyInfo.limit === null || keyInfo.limit === undefined,
+            isFreeTier: keyInfo.is_free_tier || false,
+            label: keyInfo.label || 'API Key',
+          },
+        });
+      } catch (error) {
+        logger.error('Error fetching credits', { error });
+        return reply({ success: false, error: 'Failed to fetch credits' }, 500);
+      }
+    },
+  },
+} satisfies Record<string, SharedRoute>;
@@ -0,0 +1,89 @@
+import assert from 'node:assert/strict';
+import type { AddressInfo } from 'node:net';
+import { after, before, describe, it } from 'node:test';
+import express from 'express';
+import { createProvider } from './lib/ai-provider.js';
+import { ApiKeyAuthenticator } from './lib/api-keys.js';
+import { BatchQueue } from './lib/batch-queue.js';
+import { BudgetRegistry } from './lib/budget.js';
+import { QuotaRegistry } from './lib/quotas.js';
+import { ScoringEngine } from './lib/scoring-engine.js';
+import { createStorage, type Storage } from './lib/storage.js';
+import { UsageLog } from './lib/usage-log.js';
+import { WebhookDispatcher, type WebhookSender } from './lib/webhooks.js';
+import { createV1Router } from './v1.js';
+
+const JOB = 'Senior backend engineer: TypeScript, Node.js, PostgreSQL, AWS, 5+ years building APIs.';
+const CV = `Jane Doe
+Senior Software Engineer - 7 years building TypeScript and Node.js APIs on AWS,
+designing PostgreSQL schemas and leading a team of four engineers at Acme Corp.`;
+
+describe('/v1/batches', () => {
+  const received: Array<{ url: string; event: string; body: { data: Record<string, unknown> } }> = [];
+  const send = (async (url, options = {}) => {
+    received.push({
+      url,
+      event: options.headers?.['X-HireScore-Event'] ?? '',
+      body: JSON.parse(options.body ?? '{}'),
+    });
+    return { url, status: 200, statusText: 'OK', ok: true, headers: new Headers(), body: Buffer.alloc(0), text: () => '', json: () => null };
+  }) as WebhookSender;
+
+  let storage: Storage;
+  let server: ReturnType<express.Express['listen']>;
+  let baseUrl: string;
+
+  before(async () => {
+    storage = await createStorage({ backend: 'sqlite', sqlitePath: ':memory:' });
+    const store = async () => storage;
+    const provider = createProvider({ provider: 'mock', defaultModel: 'mock/keyword-overlap', appUrl: 'http://localhost' });
+    const webhooks = new WebhookDispatcher({ maxAttempts: 1, retryBaseMs: 0, timeoutMs: 1000 }, store, send);
+    const scoringEngine = new ScoringEngine(provider, undefined, undefined, screening => webhooks.screeningScored(screening));
+    await webhooks.create({ url: 'https://ats.example.com/hooks', events: ['candidate.scored'] });
+
+    const app = express();
+    app.use(express.json());
+    app.use('/v1', createV1Router({
+      scoringEngine,
+      batchQueue: new BatchQueue(scoringEngine, { concurrency: 2, retentionMs: 60_000 }),
+      storage,
+      budgets: new BudgetRegistry(),
+      quotas: new QuotaRegistry({}, store),
+      apiKeys: new ApiKeyAuthenticator({ required: false }, store),
+      webhooks,
+      usageLog: new UsageLog(store),
+      requireScope: () => (_req, _res, next) => next(),
+      listModels: async () => [],
+      getDefaultModel: async () => provider.defaultModel,
+      ensurePricing: async () => {},
+    }));
+    server = app.listen(0);
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    server.close();
+    await storage.close();
+  });
+
+  it('delivers candidate.scored for a batch job that is never saved to history', async () => {
+    const response = await fetch(`${baseUrl}/v1/batches`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ jobDescription: JOB, candidates: [{ name: 'Jane Doe', cvContent: CV }] }),
+    });
+    assert.equal(response.status, 202);
+    const { data: job } = await response.json() as { data: { id: string } };
+
+    for (let i = 0; i < 50 && received.length === 0; i++) {
+      await new Promise(resolve => setTimeout(resolve, 20));
+    }
+    assert.equal(received.length, 1);
+    assert.equal(received[0].event, 'candidate.scored');
+    assert.equal(received[0].url, 'https://ats.example.com/hooks');
+    assert.equal(received[0].body.data.batchJobId, job.id);
+
+    const [delivery] = await storage.listWebhookDeliveries({ limit: 10 });
+    assert.equal(delivery.event, 'candidate.scored');
+  });
+});
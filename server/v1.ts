@@ -0,0 +1,382 @@
+/**
+ * HireScore AI - Versioned API (/v1)
+ *
+ * Mounts every route in V1_ROUTES (lib/api-contract.ts). Bodies are validated
+ * against the contract before a handler runs, and every answer uses the
+ * contract's envelope - handlers only return `data` or throw.
+ *
+ * The unversioned /api routes (routes/registry.ts) stay as they are for the
+ * browser app and the Vercel functions; new integrations should use /v1.
+ */
+
+import express from 'express';
+import {
+  API_VERSION,
+  V1_ROUTES,
+  buildOpenApiDocument,
+  type ApiErrorBody,
+  type ModelInfo,
+  type RouteBody,
+  type RouteData,
+  type RouteDefinition,
+  type RouteQuery,
+  type V1Routes,
+} from './lib/api-contract.js';
+import { ApiKeyError, type ApiKeyAuthenticator, type ApiKeyScope, type ApiPrincipal } from './lib/api-keys.js';
+import { ProviderError } from './lib/ai-provider.js';
+import { BatchJobStateError, type BatchQueue } from './lib/batch-queue.js';
+import { BudgetExceededError, type BudgetRegistry } from './lib/budget.js';
+import { QuotaExceededError, type QuotaRegistry } from './lib/quotas.js';
+import {
+  MIN_CV_LENGTH,
+  ScreeningValidationError,
+  ensembleModels,
+  estimateScreening,
+  type ScoringEngine,
+} from './lib/scoring-engine.js';
+import { StorageError, type Storage } from './lib/storage.js';
+import { validateRecord } from './lib/storage-schema.js';
+import { currentRequestId, logger } from './lib/logger.js';
+import { attributionFor, usageFilterFor, type UsageLog } from './lib/usage-log.js';
+import type { WebhookDispatcher } from './lib/webhooks.js';
+
+// ============================================
+// Types
+// ============================================
+
+export interface V1Dependencies {
+  scoringEngine: ScoringEngine;
+  batchQueue: BatchQueue;
+  storage: Storage;
+  budgets: BudgetRegistry;
+  quotas: QuotaRegistry;
+  apiKeys: ApiKeyAuthenticator;
+  webhooks: WebhookDispatcher;
+  usageLog: UsageLog;
+  requireScope: (scope: ApiKeyScope) => express.RequestHandler;
+  listModels: () => Promise<ModelInfo[]>;
+  getDefaultModel: () => Promise<string>;
+  ensurePricing: () => Promise<void>;
+}
+
+interface V1Request<Body, Query = undefined> {
+  params: Record<string, string>;
+  query: Query;
+  body: Body;
+  principal: ApiPrincipal | null;
+  // Aborted when the client disconnects before the answer is sent
+  signal: AbortSignal;
+  req: express.Request;
+  res: express.Response;
+}
+
+type V1Handler<R extends RouteDefinition> = (request: V1Request<RouteBody<R>, RouteQuery<R>>) => Promise<RouteData<R>>;
+
+type V1Handlers = { [K in keyof V1Routes]: V1Handler<V1Routes[K]> };
+
+/**
+ * An expected failure with its HTTP status and stable error code.
+ */
+export class V1Error extends Error {
+  status: number;
+  code: string;
+  issues?: string[];
+
+  constructor(status: number, code: string, message: string, issues?: string[]) {
+    super(message);
+    this.name = 'V1Error';
+    this.status = status;
+    this.code = code;
+    this.issues = issues;
+  }
+}
+
+const notFound = (what: string) => new V1Error(404, 'NOT_FOUND', `${what} not found`);
+
+const invalid = (issues: string[], part = 'body') =>
+  new V1Error(400, 'VALIDATION_FAILED', `Invalid request ${part}`, issues);
+
+// ============================================
+// Errors
+// ============================================
+
+const CODE_FOR_STATUS: Record<number, string> = {
+  400: 'VALIDATION_FAILED',
+  404: 'NOT_FOUND',
+  409: 'CONFLICT',
+};
+
+/**
+ * The status and envelope for anything a handler throws.
+ */
+export function toApiError(error: unknown): { status: number; body: ApiErrorBody } {
+  const fail = (status: number, error: ApiErrorBody['error']) => ({ status, body: { success: false as const, error } });
+
+  if (error instanceof V1Error) {
+    return fail(error.status, { code: error.code, message: error.message, issues: error.issues });
+  }
+  if (error instanceof ApiKeyError) {
+    return fail(error.status, { code: error.code, message: error.message, retryAfter: error.retryAfter });
+  }
+  if (error instanceof BudgetExceededError) {
+    return fail(error.status, { code: 'BUDGET_EXCEEDED', message: error.message, budget: error.budget });
+  }
+  if (error instanceof QuotaExceededError) {
+    return fail(error.status, { code: 'QUOTA_EXCEEDED', message: error.message, quota: error.quota });
+  }
+  if (error instanceof ScreeningValidationError) {
+    return fail(422, {
+      code: 'INVALID_AI_OUTPUT',
+      message: 'The AI returned a result that failed validation even after a repair attempt. Try a different model.',
+      issues: error.issues,
+    });
+  }
+  if (error instanceof ProviderError) {
+    return error.status === 429
+      ? fail(429, { code: 'RATE_LIMITED', message: 'Rate limited - please try again in a few seconds', retryAfter: error.retryAfter ?? 5 })
+      : fail(502, { code: 'PROVIDER_ERROR', message: 'AI service temporarily unavailable' });
+  }
+  if (error instanceof StorageError || error instanceof BatchJobStateError) {
+    return fail(error.status, { code: CODE_FOR_STATUS[error.status] ?? 'STORAGE_ERROR', message: error.message });
+  }
+  return fail(500, { code: 'INTERNAL_ERROR', message: 'Internal server error' });
+}
+
+export function sendApiError(res: express.Response, error: unknown) {
+  const { status, body } = toApiError(error);
+  body.error.requestId = currentRequestId();
+  if (status === 500) logger.error('v1 error', { error });
+  if (body.error.retryAfter !== undefined) res.setHeader('Retry-After', String(body.error.retryAfter));
+  return res.status(status).json(body);
+}
+
+// ============================================
+// Event Streams
+// ============================================
+
+/**
+ * Writes a batch job's events as Server-Sent Events until it finishes or the
+ * client goes away. Reconnecting clients send Last-Event-ID and only receive
+ * what they missed. False when there is no such job.
+ */
+export function streamBatchEvents(
+  batchQueue: BatchQueue,
+  id: string,
+  req: express.Request,
+  res: express.Response
+): boolean {
+  const afterSeq = Number(req.header('Last-Event-ID')) || 0;
+  if (!batchQueue.get(id)) return false;
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    'Connection': 'keep-alive',
+    // Stop reverse proxies (nginx) from buffering the stream
+    'X-Accel-Buffering': 'no',
+  });
+
+  let unsubscribe: (() => void) | null = null;
+  const heartbeat = setInterval(() => res.write(': ping\n\n'), 15000);
+  const close = () => {
+    clearInterval(heartbeat);
+    unsubscribe?.();
+    res.end();
+  };
+
+  unsubscribe = batchQueue.subscribe(id, (event) => {
+    res.write(`id: ${event.seq}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+    if (event.type === 'completed' || event.type === 'cancelled') {
+      // Replay can finish synchronously, before `unsubscribe` is assigned
+      setImmediate(close);
+    }
+  }, afterSeq);
+
+  req.on('close', close);
+  return true;
+}
+
+// ============================================
+// Handlers
+// ============================================
+
+function createHandlers(deps: V1Dependencies): V1Handlers {
+  const { scoringEngine, batchQueue, storage, budgets, quotas, apiKeys, webhooks, usageLog } = deps;
+
+  // Session budget and ensemble checks the schemas cannot express
+  const screeningOptions = (body: { sessionId?: string; budgetUsd?: number; spentUsd?: number; ensembleModels?: string[] }, model: string) => {
+    const session = budgets.fromRequest(body);
+    if ('error' in session) throw invalid([session.error]);
+    const ensemble = ensembleModels(model, body.ensembleModels);
+    if ('error' in ensemble) throw invalid([`ensembleModels: ${ensemble.error}`]);
+    return { budget: session.budget, models: ensemble.models };
+  };
+
+  const batchAction = (action: 'pause' | 'resume' | 'cancel') => async ({ params }: V1Request<undefined>) => {
+    const job = batchQueue[action](params.id);
+    if (!job) throw notFound('Batch job');
+    return job;
+  };
+
+  const existing = async <T>(record: Promise<T | null>, what: string): Promise<T> => {
+    const value = await record;
+    if (!value) throw notFound(what);
+    return value;
+  };
+
+  const deleted = async (removed: Promise<boolean>, what: string) => {
+    if (!(await removed)) throw notFound(what);
+    return { deleted: true as const };
+  };
+
+  return {
+    health: async () => ({ status: 'ok', version: API_VERSION, timestamp: new Date().toISOString() }),
+
+    listModels: () => deps.listModels(),
+
+    estimate: async ({ body }) => {
+      const model = body.model || await deps.getDefaultModel();
+      await deps.ensurePricing();
+      return estimateScreening(body.jobDescription, body.cvContents, model);
+    },
+
+    screen: async ({ body, principal, signal }) => {
+      if (body.cvContent.length < MIN_CV_LENGTH) {
+        throw new V1Error(400, 'CV_TOO_SHORT', 'CV content is too short to screen');
+      }
+      const model = body.model || await deps.getDefaultModel();
+      const { budget, models } = screeningOptions(body, model);
+      await deps.ensurePricing();
+
+      const attribution = { ...attributionFor(principal), resourceType: 'session', resourceId: body.sessionId };
+      const credits = await quotas.accountFor(principal);
+      const options = { bypassCache: body.bypassCache === true, signal, budget, credits, attribution };
+      return models
+        ? scoringEngine.scoreEnsemble(body.jobDescription, body.cvContent, models, options)
+        : scoringEngine.score(body.jobDescription, body.cvContent, { ...options, model });
+    },
+
+    createBatch: async ({ body, principal }) => {
+      const model = body.model || await deps.getDefaultModel();
+      const { budget, models } = screeningOptions(body, model);
+      await deps.ensurePricing();
+      return batchQueue.enqueue(body.jobDescription, body.candidates, model, {
+        budget,
+        credits: await quotas.accountFor(principal),
+        ensembleModels: models ?? undefined,
+        attribution: attributionFor(principal),
+      });
+    },
+
+    getBatch: async ({ params }) => existing(Promise.resolve(batchQueue.get(params.id)), 'Batch job'),
+
+    batchEvents: async ({ params, req, res }) => {
+      if (!streamBatchEvents(batchQueue, params.id, req, res)) throw notFound('Batch job');
+    },
+
+    pauseBatch: batchAction('pause'),
+    resumeBatch: batchAction('resume'),
+    cancelBatch: batchAction('cancel'),
+
+    listJobDescriptions: () => storage.listJobs(),
+    getJobDescription: ({ params }) => existing(storage.getJob(params.id), 'Job description'),
+    saveJobDescription: ({ params, body }) => storage.saveJob({ ...body, id: params.id }),
+    deleteJobDescription: ({ params }) => deleted(storage.deleteJob(params.id), 'Job description'),
+
+    listSessions: () => storage.listSessions(),
+    getSession: ({ params }) => existing(storage.getSession(params.id), 'Session'),
+    saveSession: ({ params, body }) => storage.saveSession({ ...body, id: params.id }),
+    deleteSession: ({ params }) => deleted(storage.deleteSession(params.id), 'Session'),
+
+    listCandidates: ({ params }) => existing(storage.listCandidates(params.id), 'Session'),
+    saveCandidate: ({ params, body }) => storage.saveCandidate(params.id, { ...body, id: params.candidateId }),
+    deleteCandidate: ({ params }) => deleted(storage.deleteCandidate(params.id, params.candidateId), 'Candidate'),
+
+    listApiKeys: () => apiKeys.list(),
+    issueApiKey: async ({ body }) => {
+      if (body.expiresAt && Date.parse(body.expiresAt) <= Date.now()) {
+        throw invalid(['expiresAt: must be in the future']);
+      }
+      return apiKeys.issue(body);
+    },
+    revokeApiKey: ({ params }) => deleted(apiKeys.revoke(params.id), 'API key'),
+
+    getUsage: ({ query, principal }) => usageLog.report(usageFilterFor(principal, query)),
+
+    getQuota: ({ principal }) => quotas.snapshot(principal),
+    saveUserQuota: ({ params, body }) => existing(quotas.update('user', params.id, body), 'User'),
+    saveOrganizationQuota: ({ params, body }) =>
+      existing(quotas.update('organization', params.id, body), 'Organization'),
+
+    listWebhooks: () => webhooks.list(),
+    createWebhook: ({ body }) => webhooks.create(body),
+    getWebhook: ({ params }) => existing(webhooks.get(params.id), 'Webhook'),
+    deleteWebhook: ({ params }) => deleted(webhooks.remove(params.id), 'Webhook'),
+    listWebhookDeliveries: ({ params }) => existing(webhooks.deliveries(params.id), 'Webhook'),
+    testWebhook: ({ params }) => existing(webhooks.sendTest(params.id), 'Webhook'),
+  };
+}
+
+// ============================================
+// Router
+// ============================================
+
+export function createV1Router(deps: V1Dependencies): express.Router {
+  const router = express.Router();
+  const handlers = createHandlers(deps);
+
+  // Public, so client generators can fetch it without a key
+  router.get('/openapi.json', (req, res) => {
+    res.json(buildOpenApiDocument(`${req.protocol}://${req.get('host')}`));
+  });
+
+  for (const [name, definition] of Object.entries(V1_ROUTES) as Array<[keyof V1Routes, RouteDefinition]>) {
+    const handler = handlers[name] as V1Handler<RouteDefinition>;
+    const path = definition.path.replace(/^\/v1/, '').replace(/\{(\w+)\}/g, ':$1');
+    const guards = definition.scope ? [deps.requireScope(definition.scope)] : [];
+
+    router[definition.method](path, ...guards, async (req, res) => {
+      const controller = new AbortController();
+      res.on('close', () => {
+        if (!res.writableFinished) controller.abort();
+      });
+
+      try {
+        let query: unknown;
+        if (definition.query) {
+          const parsed = validateRecord(definition.query, req.query);
+          if (!parsed.success) throw invalid(parsed.issues, 'query');
+          query = parsed.data;
+        }
+
+        let body: unknown;
+        if (definition.body) {
+          const parsed = validateRecord(definition.body, req.body ?? {});
+          if (!parsed.success) throw invalid(parsed.issues);
+          body = parsed.data;
+        }
+
+        const data = await handler({
+          params: req.params as Record<string, string>,
+          query: query as RouteQuery<RouteDefinition>,
+          body: body as RouteBody<RouteDefinition>,
+          principal: res.locals.principal as ApiPrincipal | null,
+          signal: controller.signal,
+          req,
+          res,
+        });
+        // Streams answer for themselves; nobody is left to read a cancelled request
+        if (!definition.data || controller.signal.aborted) return;
+        res.status(definition.status ?? 200).json({ success: true, data });
+      } catch (error) {
+        if (controller.signal.aborted || res.headersSent) return;
+        sendApiError(res, error);
+      }
+    });
+  }
+
+  // Unknown /v1 paths answer in the same envelope
+  router.use((_req, res) => sendApiError(res, notFound('Endpoint')));
+
+  return router;
+}
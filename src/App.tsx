@@ -1,3 +1,4 @@
+import { useEffect } from 'react';
 import { AnimatePresence, motion } from 'framer-motion';
 import { useStore } from './store/useStore';
 import {
@@ -12,6 +13,12 @@ import { CreditsDisplay } from './components/ui';
 
 function App() {
   const currentScreen = useStore((s) => s.currentScreen);
+  const syncHistory = useStore((s) => s.syncHistory);
+
+  // Bring in screening history saved from other machines
+  useEffect(() => {
+    void syncHistory();
+  }, [syncHistory]);
 
   const renderScreen = () => {
     switch (currentScreen) {
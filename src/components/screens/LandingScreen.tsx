@@ -22,11 +22,16 @@ import {
   Award,
   Sparkles,
   Menu,
-  X
+  X,
+  RefreshCw
 } from 'lucide-react';
 
 export function LandingScreen() {
   const setScreen = useStore((s) => s.setScreen);
+  const resumeSession = useStore((s) => s.resumeSession);
+  // Most recent run that was interrupted (e.g. by a reload) or cancelled before the end
+  const unfinishedSession = useStore((s) =>
+    s.sessions.find((session) => session.status !== 'completed' && session.checkpoint));
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
 
   // Responsive hooks
@@ -278,6 +283,17 @@ export function LandingScreen() {
                 >
                   Start Screening Free
                 </Button>
+                {unfinishedSession && (
+                  <Button
+                    variant="secondary"
+                    size={isMobile ? 'md' : 'lg'}
+                    onClick={() => resumeSession(unfinishedSession.id)}
+                    icon={<RefreshCw style={{ width: isMobile ? 18 : 20, height: isMobile ? 18 : 20 }} />}
+                    fullWidth={isMobile}
+                  >
+                    Resume Session
+                  </Button>
+                )}
                 {!isMobile && (
                   <button style={{
                     display: 'flex',
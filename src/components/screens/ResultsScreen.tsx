@@ -1,4 +1,4 @@
-import { useState, useMemo } from 'react';
+import { useState, useMemo, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import {
   BarChart3,
@@ -27,12 +27,19 @@ import {
   Eye,
   Calendar,
   GraduationCap,
-  Shield
+  Shield,
+  Flag,
+  Phone,
+  MapPin,
+  Linkedin,
+  Github,
+  Globe
 } from 'lucide-react';
 import { Button } from '../ui';
-import { useStore } from '../../store/useStore';
+import { useStore, formatUsd, formatTokens } from '../../store/useStore';
+import { LOW_OCR_CONFIDENCE, parseResume } from '../../services/api';
 import { colors, fonts, spacing, radius, fontSizes, fontWeights } from '../../styles/design-system';
-import type { Candidate } from '../../types';
+import type { Candidate, ParsedResume } from '../../types';
 import type { CSSProperties } from 'react';
 
 // ============================================
@@ -235,13 +242,221 @@ function ScoreRing({ score, size = 80, recommendation }: { score: number; size?:
   );
 }
 
+// Failed candidates get their own bucket instead of their placeholder recommendation
+function getRecKey(candidate: Candidate): string {
+  return candidate.screeningError ? 'failed' : candidate.recommendation;
+}
+
+// ============================================
+// Resume Profile Component
+// ============================================
+
+// "2021-03" -> "Mar 2021"
+function formatResumeDate(date: string): string {
+  const [year, month] = date.split('-');
+  return month
+    ? `${new Date(Number(year), Number(month) - 1).toLocaleString('en', { month: 'short' })} ${year}`
+    : year;
+}
+
+const LINK_ICONS = { linkedin: Linkedin, github: Github, website: Globe };
+
+const profileLabelStyle: CSSProperties = {
+  fontSize: fontSizes.xs,
+  color: colors.silver,
+  marginBottom: spacing[2],
+  textTransform: 'uppercase',
+  letterSpacing: '0.05em',
+};
+
+const profileItemStyle: CSSProperties = {
+  display: 'flex',
+  alignItems: 'center',
+  gap: spacing[1],
+  fontSize: fontSizes.sm,
+  color: colors.snow,
+};
+
+// The CV as parsed by the server. Candidates saved before profiles existed have theirs parsed on first view.
+function ResumeProfile({ candidate }: { candidate: Candidate }) {
+  const [fetched, setFetched] = useState<ParsedResume | null>(null);
+  const needsFetch = !candidate.parsedData
+    && candidate.rawText.trim() !== ''
+    && !candidate.rawText.startsWith('[PARSE_ERROR]');
+
+  useEffect(() => {
+    if (!needsFetch) return;
+    let current = true;
+    void parseResume(candidate.rawText).then(parsed => {
+      if (current) setFetched(parsed);
+    });
+    return () => { current = false; };
+  }, [candidate.rawText, needsFetch]);
+
+  const profile = candidate.parsedData ?? fetched;
+  if (!profile) return null;
+  const { contact, experience, education, skills, certifications, links } = profile;
+  const hasContact = Boolean(contact.email || contact.phone || contact.location || links.length);
+  if (!hasContact && !profile.summary && !experience.length && !education.length && !skills.length && !certifications.length) {
+    return null;
+  }
+
+  return (
+    <div style={{ marginBottom: spacing[8] }}>
+      <h3 style={{
+        fontFamily: fonts.display,
+        fontSize: fontSizes.lg,
+        fontWeight: fontWeights.semibold,
+        color: colors.snow,
+        marginBottom: spacing[4],
+        display: 'flex',
+        alignItems: 'center',
+        gap: spacing[2],
+      }}>
+        <Briefcase style={{ width: 20, height: 20, color: colors.violet }} />
+        Resume Profile
+      </h3>
+
+      <div style={{
+        padding: spacing[5],
+        borderRadius: radius.xl,
+        backgroundColor: 'rgba(255, 255, 255, 0.02)',
+        border: '1px solid rgba(255, 255, 255, 0.05)',
+        display: 'flex',
+        flexDirection: 'column',
+        gap: spacing[5],
+      }}>
+        {/* Contact & Links */}
+        {hasContact && (
+          <div style={{ display: 'flex', flexWrap: 'wrap', gap: spacing[4] }}>
+            {contact.email && (
+              <span style={profileItemStyle}><Mail style={{ width: 14, height: 14, color: colors.silver }} />{contact.email}</span>
+            )}
+            {contact.phone && (
+              <span style={profileItemStyle}><Phone style={{ width: 14, height: 14, color: colors.silver }} />{contact.phone}</span>
+            )}
+            {contact.location && (
+              <span style={profileItemStyle}><MapPin style={{ width: 14, height: 14, color: colors.silver }} />{contact.location}</span>
+            )}
+            {links.map(link => {
+              const LinkIcon = LINK_ICONS[link.kind];
+              return (
+                <a
+                  key={link.url}
+                  href={link.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  style={{ ...profileItemStyle, color: colors.cyan, textDecoration: 'none' }}
+                >
+                  <LinkIcon style={{ width: 14, height: 14 }} />
+                  {link.url.replace(/^https?:\/\/(www\.)?/, '')}
+                </a>
+              );
+            })}
+          </div>
+        )}
+
+        {profile.summary && (
+          <p style={{ fontSize: fontSizes.sm, color: colors.silver, margin: 0, lineHeight: 1.6 }}>
+            {profile.summary}
+          </p>
+        )}
+
+        {/* Work History */}
+        {experience.length > 0 && (
+          <div>
+            <div style={profileLabelStyle}>Work History</div>
+            <div style={{ display: 'flex', flexDirection: 'column', gap: spacing[3] }}>
+              {experience.map((job, i) => (
+                <div key={i} style={{ paddingLeft: spacing[3], borderLeft: `2px solid ${job.current ? colors.violet : colors.graphite}` }}>
+                  <div style={{ display: 'flex', justifyContent: 'space-between', gap: spacing[3], flexWrap: 'wrap' }}>
+                    <span style={{ fontSize: fontSizes.sm, fontWeight: fontWeights.semibold, color: colors.snow }}>
+                      {[job.title, job.employer].filter(Boolean).join(' · ') || 'Position'}
+                    </span>
+                    <span style={{ fontSize: fontSizes.xs, color: colors.silver }}>
+                      {job.startDate && formatResumeDate(job.startDate)}
+                      {' – '}
+                      {job.current ? 'Present' : job.endDate && formatResumeDate(job.endDate)}
+                    </span>
+                  </div>
+                  {job.description && (
+                    <p style={{ fontSize: fontSizes.xs, color: colors.silver, margin: `${spacing[1]} 0 0`, lineHeight: 1.5, whiteSpace: 'pre-line' }}>
+                      {job.description}
+                    </p>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Education & Certifications */}
+        {(education.length > 0 || certifications.length > 0) && (
+          <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(220px, 1fr))', gap: spacing[5] }}>
+            {education.length > 0 && (
+              <div>
+                <div style={profileLabelStyle}>Education</div>
+                {education.map((entry, i) => (
+                  <div key={i} style={{ display: 'flex', gap: spacing[2], marginBottom: spacing[2] }}>
+                    <GraduationCap style={{ width: 16, height: 16, color: colors.cyan, flexShrink: 0, marginTop: 2 }} />
+                    <div>
+                      <div style={{ fontSize: fontSizes.sm, color: colors.snow }}>{entry.degree || entry.institution}</div>
+                      <div style={{ fontSize: fontSizes.xs, color: colors.silver }}>
+                        {[entry.degree && entry.institution, entry.year].filter(Boolean).join(' · ')}
+                      </div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+            {certifications.length > 0 && (
+              <div>
+                <div style={profileLabelStyle}>Certifications</div>
+                <ul style={{ margin: 0, paddingLeft: spacing[5] }}>
+                  {certifications.map((certification, i) => (
+                    <li key={i} style={{ color: colors.snow, fontSize: fontSizes.sm, marginBottom: spacing[1] }}>{certification}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Skills */}
+        {skills.length > 0 && (
+          <div>
+            <div style={profileLabelStyle}>Skills ({skills.length})</div>
+            <div style={{ display: 'flex', flexWrap: 'wrap', gap: spacing[2] }}>
+              {skills.map((skill, i) => (
+                <span
+                  key={i}
+                  style={{
+                    padding: `${spacing[1]} ${spacing[3]}`,
+                    borderRadius: radius.full,
+                    fontSize: fontSizes.xs,
+                    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+                    color: colors.snow,
+                    border: '1px solid rgba(255, 255, 255, 0.1)',
+                  }}
+                >
+                  {skill}
+                </span>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
 // ============================================
 // Main Results Screen
 // ============================================
 export function ResultsScreen() {
   const { setScreen, currentJob, currentSession } = useStore();
   const [selectedCandidate, setSelectedCandidate] = useState<Candidate | null>(null);
-  const [filter, setFilter] = useState<'all' | 'interview' | 'maybe' | 'pass'>('all');
+  const [filter, setFilter] = useState<'all' | 'interview' | 'maybe' | 'pass' | 'failed'>('all');
   const [searchQuery, setSearchQuery] = useState('');
   const [sortBy, setSortBy] = useState<'score' | 'name' | 'experience'>('score');
 
@@ -278,11 +493,13 @@ export function ResultsScreen() {
   // Data Processing
   // ============================================
   const candidates = useMemo(() => currentSession?.candidates || [], [currentSession?.candidates]);
+  // Candidates that failed screening carry no real score - keep them out of the analytics
+  const scoredCandidates = useMemo(() => candidates.filter((c) => !c.screeningError), [candidates]);
 
   const filteredCandidates = useMemo(() => {
     return candidates
       .filter((c) => {
-        if (filter !== 'all' && c.recommendation !== filter) return false;
+        if (filter !== 'all' && getRecKey(c) !== filter) return false;
         if (searchQuery && !c.name.toLowerCase().includes(searchQuery.toLowerCase())) return false;
         return true;
       })
@@ -295,18 +512,19 @@ export function ResultsScreen() {
   }, [candidates, filter, searchQuery, sortBy]);
 
   const stats = useMemo(() => {
-    const interview = candidates.filter((c) => c.recommendation === 'interview').length;
-    const maybe = candidates.filter((c) => c.recommendation === 'maybe').length;
-    const pass = candidates.filter((c) => c.recommendation === 'pass').length;
-    const avgScore = candidates.length > 0
-      ? Math.round(candidates.reduce((sum, c) => sum + c.score, 0) / candidates.length)
+    const interview = scoredCandidates.filter((c) => c.recommendation === 'interview').length;
+    const maybe = scoredCandidates.filter((c) => c.recommendation === 'maybe').length;
+    const pass = scoredCandidates.filter((c) => c.recommendation === 'pass').length;
+    const failed = candidates.length - scoredCandidates.length;
+    const avgScore = scoredCandidates.length > 0
+      ? Math.round(scoredCandidates.reduce((sum, c) => sum + c.score, 0) / scoredCandidates.length)
       : 0;
-    const topScore = candidates.length > 0 ? Math.max(...candidates.map(c => c.score)) : 0;
-    const avgExperience = candidates.length > 0
-      ? Math.round(candidates.reduce((sum, c) => sum + (c.experience || 0), 0) / candidates.length)
+    const topScore = scoredCandidates.length > 0 ? Math.max(...scoredCandidates.map(c => c.score)) : 0;
+    const avgExperience = scoredCandidates.length > 0
+      ? Math.round(scoredCandidates.reduce((sum, c) => sum + (c.experience || 0), 0) / scoredCandidates.length)
       : 0;
-    return { interview, maybe, pass, avgScore, topScore, avgExperience, total: candidates.length };
-  }, [candidates]);
+    return { interview, maybe, pass, failed, avgScore, topScore, avgExperience, total: candidates.length };
+  }, [candidates, scoredCandidates]);
 
   const scoreDistribution = useMemo(() => {
     const ranges = [
@@ -318,9 +536,9 @@ export function ResultsScreen() {
     ];
     return ranges.map(r => ({
       ...r,
-      count: candidates.filter(c => c.score >= r.min && c.score <= r.max).length
+      count: scoredCandidates.filter(c => c.score >= r.min && c.score <= r.max).length
     }));
-  }, [candidates]);
+  }, [scoredCandidates]);
 
   // ============================================
   // Helpers
@@ -331,6 +549,8 @@ export function ResultsScreen() {
         return { color: colors.emerald, bgColor: 'rgba(0, 255, 136, 0.1)', label: 'Interview', icon: Star, description: 'Strong match - Schedule interview' };
       case 'maybe':
         return { color: colors.amber, bgColor: 'rgba(255, 170, 0, 0.1)', label: 'Maybe', icon: ThumbsUp, description: 'Potential fit - Review further' };
+      case 'failed':
+        return { color: colors.silver, bgColor: 'rgba(255, 255, 255, 0.05)', label: 'Not Scored', icon: AlertTriangle, description: 'Screening failed - Rescreen' };
       default:
         return { color: colors.coral, bgColor: 'rgba(255, 107, 107, 0.1)', label: 'Pass', icon: ThumbsDown, description: 'Not a match - Skip' };
     }
@@ -358,15 +578,27 @@ export function ResultsScreen() {
           pass: stats.pass,
         },
         averageScore: stats.avgScore,
+        notScored: stats.failed,
       },
       candidates: candidates.map((c) => ({
         name: c.name,
-        score: c.score,
-        recommendation: c.recommendation,
+        email: c.email || null,
+        phone: c.phone || null,
+        location: c.location || null,
+        linkedinUrl: c.linkedinUrl || null,
+        score: c.screeningError ? null : c.score,
+        recommendation: getRecKey(c),
+        screeningError: c.screeningError || null,
         experienceYears: c.experience || 0,
         summary: c.summary,
         scoreBreakdown: c.scoreBreakdown || null,
         confidence: c.confidence || null,
+        ocrConfidence: c.ocrConfidence ?? null,
+        profile: c.parsedData || null,
+        scoredBy: c.model || null,
+        needsHumanReview: c.needsHumanReview === true,
+        reviewReason: c.reviewReason || null,
+        modelOpinions: c.modelOpinions || null,
         matchedSkills: c.matchedSkills,
         missingSkills: c.missingSkills,
         partialMatches: c.partialMatches || [],
@@ -388,11 +620,14 @@ export function ResultsScreen() {
   // Export CSV for spreadsheet import
   const exportCSV = () => {
     const csv = [
-      ['Name', 'Score', 'Recommendation', 'Experience (yrs)', 'Summary', 'Matched Skills', 'Missing Skills', 'Concerns'],
+      ['Name', 'Email', 'Phone', 'Location', 'Score', 'Recommendation', 'Experience (yrs)', 'Summary', 'Matched Skills', 'Missing Skills', 'Concerns'],
       ...candidates.map((c) => [
         c.name,
-        c.score.toString(),
-        c.recommendation,
+        c.email || '',
+        c.phone || '',
+        c.location || '',
+        c.screeningError ? '' : c.score.toString(),
+        getRecKey(c),
         (c.experience || 0).toString(),
         c.summary,
         c.matchedSkills.join('; '),
@@ -446,11 +681,11 @@ export function ResultsScreen() {
   };
 
   const handleSendEmail = () => {
-    if (selectedCandidate) {
-      // Open mailto link with pre-filled subject
+    if (selectedCandidate?.email) {
+      // Open mailto link addressed to the candidate, with pre-filled subject
       const subject = encodeURIComponent(`Interview Invitation - ${currentJob?.title || 'Position'}`);
       const body = encodeURIComponent(`Dear ${selectedCandidate.name},\n\nWe reviewed your application for the ${currentJob?.title || 'position'} role and would like to invite you for an interview.\n\nPlease let us know your availability.\n\nBest regards`);
-      window.open(`mailto:?subject=${subject}&body=${body}`, '_self');
+      window.open(`mailto:${encodeURIComponent(selectedCandidate.email)}?subject=${subject}&body=${body}`, '_self');
       showToast('Email client opened', 'info');
     }
   };
@@ -521,10 +756,36 @@ export function ResultsScreen() {
                 }}>
                   AI Screened
                 </span>
+                {currentSession?.partial && (
+                  <span
+                    title="Screening was cancelled - only the CVs screened before that are shown"
+                    style={{
+                      padding: `${spacing[1]} ${spacing[3]}`,
+                      borderRadius: radius.full,
+                      fontSize: fontSizes.xs,
+                      fontWeight: fontWeights.semibold,
+                      backgroundColor: 'rgba(255, 170, 0, 0.1)',
+                      color: colors.amber,
+                      border: '1px solid rgba(255, 170, 0, 0.2)',
+                    }}
+                  >
+                    Partial - Cancelled
+                  </span>
+                )}
               </div>
               <p style={{ fontSize: fontSizes.base, color: colors.silver, margin: 0 }}>
                 {currentJob?.title} {currentJob?.company ? `at ${currentJob.company}` : ''}
               </p>
+              {currentSession?.tokensUsed !== undefined && (
+                <p
+                  title="AI spend for this session - cached results are not billed"
+                  style={{ fontSize: fontSizes.sm, color: colors.silver, margin: `${spacing[1]} 0 0` }}
+                >
+                  Spend: {currentSession.costUsd !== undefined ? formatUsd(currentSession.costUsd) : 'unknown'}
+                  {currentSession.budgetUsd !== undefined && ` of ${formatUsd(currentSession.budgetUsd)} cap`}
+                  {' · '}{formatTokens(currentSession.tokensUsed)} tokens
+                </p>
+              )}
             </div>
           </div>
 
@@ -752,6 +1013,7 @@ export function ResultsScreen() {
               { key: 'interview', label: 'Interview', count: stats.interview, color: colors.emerald },
               { key: 'maybe', label: 'Maybe', count: stats.maybe, color: colors.amber },
               { key: 'pass', label: 'Pass', count: stats.pass, color: colors.coral },
+              ...(stats.failed > 0 ? [{ key: 'failed', label: 'Not Scored', count: stats.failed, color: colors.silver }] : []),
             ].map((f) => (
               <button
                 key={f.key}
@@ -846,7 +1108,7 @@ export function ResultsScreen() {
 
             {/* Candidate Rows */}
             {filteredCandidates.map((candidate, i) => {
-              const recStyle = getRecStyle(candidate.recommendation);
+              const recStyle = getRecStyle(getRecKey(candidate));
 
               return (
                 <motion.div
@@ -869,7 +1131,7 @@ export function ResultsScreen() {
                   onMouseLeave={(e) => (e.currentTarget.style.backgroundColor = 'transparent')}
                 >
                   {/* Score */}
-                  <ScoreRing score={candidate.score} size={52} recommendation={candidate.recommendation} />
+                  <ScoreRing score={candidate.score} size={52} recommendation={getRecKey(candidate)} />
 
                   {/* Candidate Info */}
                   <div style={{ minWidth: 0 }}>
@@ -884,6 +1146,11 @@ export function ResultsScreen() {
                       textOverflow: 'ellipsis',
                       whiteSpace: 'nowrap',
                     }}>
+                      {candidate.needsHumanReview && (
+                        <span title={candidate.reviewReason} style={{ display: 'inline-flex', verticalAlign: 'middle', marginRight: spacing[2] }}>
+                          <Flag style={{ width: 14, height: 14, color: colors.amber }} />
+                        </span>
+                      )}
                       {candidate.name}
                     </h4>
                     <p style={{
@@ -1022,7 +1289,7 @@ export function ResultsScreen() {
               onClick={(e) => e.stopPropagation()}
             >
               {(() => {
-                const recStyle = getRecStyle(selectedCandidate.recommendation);
+                const recStyle = getRecStyle(getRecKey(selectedCandidate));
                 const scoreBreakdown = generateScoreBreakdown(selectedCandidate);
 
                 return (
@@ -1035,7 +1302,7 @@ export function ResultsScreen() {
                     }}>
                       <div style={{ display: 'flex', alignItems: 'flex-start', justifyContent: 'space-between' }}>
                         <div style={{ display: 'flex', alignItems: 'center', gap: spacing[5] }}>
-                          <ScoreRing score={selectedCandidate.score} size={100} recommendation={selectedCandidate.recommendation} />
+                          <ScoreRing score={selectedCandidate.score} size={100} recommendation={getRecKey(selectedCandidate)} />
                           <div>
                             <h2 style={{
                               fontFamily: fonts.display,
@@ -1078,9 +1345,41 @@ export function ResultsScreen() {
                                   </span>
                                 </div>
                               )}
+                              {selectedCandidate.ocrConfidence !== undefined && (
+                                <span
+                                  title="This CV was a scan or photo; its text was read by OCR"
+                                  style={{ fontSize: fontSizes.xs, color: selectedCandidate.ocrConfidence < LOW_OCR_CONFIDENCE ? colors.amber : colors.silver }}
+                                >
+                                  OCR {Math.round(selectedCandidate.ocrConfidence * 100)}%
+                                </span>
+                              )}
                               <span style={{ fontSize: fontSizes.sm, color: colors.silver }}>
                                 {selectedCandidate.experience || 0} years experience
                               </span>
+                              {selectedCandidate.model && (
+                                <span style={{ fontSize: fontSizes.xs, color: colors.silver }}>
+                                  Scored by {selectedCandidate.model}
+                                </span>
+                              )}
+                              {selectedCandidate.needsHumanReview && (
+                                <div
+                                  title={selectedCandidate.reviewReason}
+                                  style={{
+                                    display: 'inline-flex',
+                                    alignItems: 'center',
+                                    gap: spacing[1],
+                                    padding: `${spacing[1]} ${spacing[3]}`,
+                                    borderRadius: radius.full,
+                                    backgroundColor: 'rgba(255, 170, 0, 0.1)',
+                                    border: '1px solid rgba(255, 170, 0, 0.3)',
+                                  }}
+                                >
+                                  <Flag style={{ width: 12, height: 12, color: colors.amber }} />
+                                  <span style={{ fontSize: fontSizes.xs, fontWeight: fontWeights.medium, color: colors.amber }}>
+                                    Needs human review
+                                  </span>
+                                </div>
+                              )}
                             </div>
                             <p style={{ fontSize: fontSizes.sm, color: colors.silver, marginTop: spacing[2], marginBottom: 0, maxWidth: '400px' }}>
                               {recStyle.description}
@@ -1105,7 +1404,95 @@ export function ResultsScreen() {
 
                     {/* Modal Body */}
                     <div style={{ padding: spacing[6] }}>
+                      {/* Screening Failure - shown instead of a breakdown we don't have */}
+                      {selectedCandidate.screeningError && (
+                        <div style={{
+                          marginBottom: spacing[8],
+                          padding: spacing[4],
+                          borderRadius: radius.lg,
+                          backgroundColor: 'rgba(255, 170, 0, 0.08)',
+                          border: '1px solid rgba(255, 170, 0, 0.3)',
+                        }}>
+                          <div style={{ display: 'flex', alignItems: 'center', gap: spacing[2], marginBottom: spacing[2] }}>
+                            <AlertTriangle style={{ width: 18, height: 18, color: colors.amber }} />
+                            <span style={{ fontWeight: fontWeights.semibold, color: colors.amber }}>
+                              Not scored - {selectedCandidate.screeningError.message}
+                            </span>
+                          </div>
+                          <p style={{ fontSize: fontSizes.sm, color: colors.silver, margin: 0 }}>
+                            This candidate is excluded from rankings and statistics.
+                            {selectedCandidate.screeningError.retryable && ' Re-upload the CV to screen again.'}
+                          </p>
+                          {selectedCandidate.screeningError.issues && selectedCandidate.screeningError.issues.length > 0 && (
+                            <ul style={{ margin: `${spacing[3]} 0 0`, paddingLeft: spacing[5], fontSize: fontSizes.xs, color: colors.silver }}>
+                              {selectedCandidate.screeningError.issues.map((issue, i) => (
+                                <li key={i}>{issue}</li>
+                              ))}
+                            </ul>
+                          )}
+                        </div>
+                      )}
+
+                      {/* Model Opinions - each ensemble model's own score, shown side by side */}
+                      {selectedCandidate.modelOpinions && selectedCandidate.modelOpinions.length > 1 && (
+                        <div style={{ marginBottom: spacing[8] }}>
+                          <h3 style={{
+                            fontFamily: fonts.display,
+                            fontSize: fontSizes.lg,
+                            fontWeight: fontWeights.semibold,
+                            color: colors.snow,
+                            margin: 0,
+                            marginBottom: spacing[2],
+                            display: 'flex',
+                            alignItems: 'center',
+                            gap: spacing[2],
+                          }}>
+                            <Users style={{ width: 20, height: 20, color: colors.cyan }} />
+                            Model Opinions
+                          </h3>
+                          <p style={{ fontSize: fontSizes.sm, color: selectedCandidate.needsHumanReview ? colors.amber : colors.silver, marginTop: 0, marginBottom: spacing[4] }}>
+                            {selectedCandidate.reviewReason || 'The models broadly agree - the score shown is their average.'}
+                          </p>
+                          <div style={{
+                            display: 'grid',
+                            gridTemplateColumns: 'repeat(auto-fit, minmax(220px, 1fr))',
+                            gap: spacing[4],
+                          }}>
+                            {selectedCandidate.modelOpinions.map((opinion) => {
+                              const opinionStyle = getRecStyle(opinion.recommendation);
+                              return (
+                                <div
+                                  key={opinion.model}
+                                  style={{
+                                    padding: spacing[4],
+                                    borderRadius: radius.lg,
+                                    backgroundColor: 'rgba(255, 255, 255, 0.03)',
+                                    border: '1px solid rgba(255, 255, 255, 0.05)',
+                                  }}
+                                >
+                                  <div style={{ fontSize: fontSizes.xs, color: colors.silver, marginBottom: spacing[2], overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                                    {opinion.model}
+                                  </div>
+                                  <div style={{ display: 'flex', alignItems: 'baseline', gap: spacing[2], marginBottom: spacing[2] }}>
+                                    <span style={{ fontFamily: fonts.display, fontSize: fontSizes['2xl'], fontWeight: fontWeights.bold, color: colors.snow }}>
+                                      {opinion.score}
+                                    </span>
+                                    <span style={{ fontSize: fontSizes.sm, fontWeight: fontWeights.medium, color: opinionStyle.color }}>
+                                      {opinionStyle.label}
+                                    </span>
+                                  </div>
+                                  <p style={{ fontSize: fontSizes.sm, color: colors.silver, margin: 0 }}>
+                                    {opinion.summary}
+                                  </p>
+                                </div>
+                              );
+                            })}
+                          </div>
+                        </div>
+                      )}
+
                       {/* Score Breakdown */}
+                      {!selectedCandidate.screeningError && (
                       <div style={{ marginBottom: spacing[8] }}>
                         {(() => {
                           // Calculate raw score from breakdown
@@ -1206,6 +1593,7 @@ export function ResultsScreen() {
                           );
                         })()}
                       </div>
+                      )}
 
                       {/* Executive Summary */}
                       <div style={{ marginBottom: spacing[8] }}>
@@ -1236,6 +1624,9 @@ export function ResultsScreen() {
                         </p>
                       </div>
 
+                      {/* Resume Profile - the CV's contact details, work history, education and skills */}
+                      <ResumeProfile key={selectedCandidate.id} candidate={selectedCandidate} />
+
                       {/* Pros & Cons Grid - Enterprise Analysis */}
                       <div style={{ display: 'grid', gridTemplateColumns: 'repeat(2, 1fr)', gap: spacing[6], marginBottom: spacing[8] }}>
                         {/* Strengths (Pros) */}
@@ -1514,7 +1905,13 @@ export function ResultsScreen() {
                       <Button variant="secondary" icon={<FileText style={{ width: 16, height: 16 }} />} onClick={handleViewCV}>
                         View Full CV
                       </Button>
-                      <Button variant="secondary" icon={<Mail style={{ width: 16, height: 16 }} />} onClick={handleSendEmail}>
+                      <Button
+                        variant="secondary"
+                        icon={<Mail style={{ width: 16, height: 16 }} />}
+                        onClick={handleSendEmail}
+                        disabled={!selectedCandidate.email}
+                        title={selectedCandidate.email ? `Email ${selectedCandidate.email}` : 'No email address found in the CV'}
+                      >
                         Send Email
                       </Button>
                       <Button icon={<Calendar style={{ width: 16, height: 16 }} />} onClick={handleScheduleInterview}>
@@ -14,25 +14,220 @@ import {
   FileSearch,
   Cpu,
   ShieldCheck,
-  Clock
+  Clock,
+  Pause,
+  Play,
+  XCircle,
+  DollarSign,
+  Users
 } from 'lucide-react';
 
 // Processing stage type for enterprise-grade progress tracking
 type ProcessingStage = 'reading' | 'validating' | 'analyzing' | 'scoring' | 'complete';
-import { Button } from '../ui';
-import { useStore, generateId } from '../../store/useStore';
-import { api, readFileAsText, type AIModel } from '../../services/api';
+import { Button, Input } from '../ui';
+import { useStore, generateId, sessionSpend, formatUsd, formatTokens } from '../../store/useStore';
+import {
+  api,
+  readDocument,
+  LOW_OCR_CONFIDENCE,
+  streamBatchJob,
+  ApiError,
+  type AIModel,
+  type ExtractedDocument,
+  type BatchEventData,
+  type CostEstimate,
+  type EnsembleSummary,
+  type ScreeningResult,
+  type SessionBudgetRequest,
+} from '../../services/api';
 import { colors, fonts, spacing, radius, fontSizes, fontWeights } from '../../styles/design-system';
-import type { Candidate } from '../../types';
+import type { Candidate, ParsedResume, PendingCV, ScreeningFailure, ScreeningSession } from '../../types';
 import type { CSSProperties } from 'react';
 
+// Lets the pause/cancel buttons reach into the run in progress
+interface RunControl {
+  jobId: string | null;                 // server-side batch job, once queued
+  paused: boolean;
+  cancelled: boolean;
+  controller: AbortController | null;   // local screening call in flight
+  resume: (() => void) | null;          // wakes the browser-side loops after a pause
+}
+
+const idleControl = (): RunControl => ({
+  jobId: null,
+  paused: false,
+  cancelled: false,
+  controller: null,
+  resume: null,
+});
+
+const candidateName = (fileName: string) =>
+  fileName.replace(/\.(pdf|doc|docx|txt|png|jpe?g)$/i, '').replace(/[-_]/g, ' ');
+
+type CvContact = Partial<Record<'name' | 'email' | 'phone' | 'location' | 'linkedinUrl', string | null>>;
+
+// Contact details as the parser read them, for candidates the model never saw
+const profileContact = (parsedData?: ParsedResume): CvContact | undefined => parsedData && {
+  ...parsedData.contact,
+  linkedinUrl: parsedData.links.find(link => link.kind === 'linkedin')?.url,
+};
+
+// Name and contact details read from the CV - the file name stands in only when it gives no name
+const identityFields = (fileName: string, contact?: CvContact) => ({
+  name: contact?.name || candidateName(fileName),
+  email: contact?.email || undefined,
+  phone: contact?.phone || undefined,
+  location: contact?.location || undefined,
+  linkedinUrl: contact?.linkedinUrl || undefined,
+});
+
+// The model's confidence in its score, discounted by how reliably OCR read the CV
+const combinedConfidence = (modelConfidence: number | null, ocrConfidence?: number) =>
+  modelConfidence === null ? undefined
+    : ocrConfidence === undefined ? modelConfidence
+      : Math.round(modelConfidence * ocrConfidence * 100) / 100;
+
+// Screened CVs keep their pending id, so a result replayed after a reload is recognised
+function scoredCandidate(
+  { id, fileName, cvContent, warning, ocrConfidence, parsedData }: PendingCV,
+  result: ScreeningResult,
+  meta: Pick<Candidate, 'model' | 'tokensUsed' | 'costUsd' | 'needsHumanReview' | 'reviewReason' | 'modelOpinions'>
+): Candidate {
+  return {
+    id,
+    // The server read these from the CV, with the model settling the name
+    ...identityFields(fileName, result.candidate ?? profileContact(parsedData)),
+    fileName,
+    rawText: cvContent,
+    score: result.score,
+    confidence: combinedConfidence(result.confidence ?? null, ocrConfidence),
+    ocrConfidence,
+    parsedData,
+    recommendation: result.recommendation,
+    summary: warning ? `⚠️ ${warning}\n\n${result.summary}` : result.summary,
+    scoreBreakdown: result.scoreBreakdown,
+    matchedSkills: result.matchedSkills || [],
+    missingSkills: result.missingSkills || [],
+    partialMatches: result.partialMatches || [],
+    concerns: warning ? [...(result.concerns || []), warning] : (result.concerns || []),
+    strengths: result.strengths || [],
+    interviewQuestions: result.interviewQuestions || [],
+    experience: result.experienceYears || 0,
+    skillMatchPercent: result.skillMatchPercent ?? undefined,
+    educationMatch: result.educationMatch ?? undefined,
+    ...meta,
+    processedAt: new Date()
+  };
+}
+
+// Every model's opinion is kept so the results can show where they disagreed
+const ensembleMeta = (ensemble?: EnsembleSummary) => ensemble
+  ? {
+    needsHumanReview: ensemble.needsHumanReview || undefined,
+    reviewReason: ensemble.reviewReason,
+    modelOpinions: ensemble.opinions,
+  }
+  : {};
+
+// Several models' estimates as one - unknown if any model's price is
+function sumEstimates(estimates: Array<CostEstimate | null>): CostEstimate | null {
+  if (estimates.some(estimate => estimate === null)) return null;
+  const known = estimates as CostEstimate[];
+  const total = (pick: (estimate: CostEstimate) => number | null) => {
+    const values = known.map(pick);
+    return values.some(value => value === null) ? null : (values as number[]).reduce((sum, value) => sum + value, 0);
+  };
+  return {
+    model: known.map(estimate => estimate.model).join(','),
+    candidates: known[0]?.candidates ?? 0,
+    promptTokens: total(estimate => estimate.promptTokens) ?? 0,
+    completionTokens: total(estimate => estimate.completionTokens) ?? 0,
+    costUsd: total(estimate => estimate.costUsd),
+    maxCostUsd: total(estimate => estimate.maxCostUsd),
+  };
+}
+
+const MAX_SECOND_OPINIONS = 2;
+
+function failedCandidate(
+  { id, fileName, parsedData }: { id: string; fileName: string; parsedData?: ParsedResume },
+  rawText: string,
+  failure: ScreeningFailure,
+  summary: string,
+  concerns: string[]
+): Candidate {
+  return {
+    id,
+    ...identityFields(fileName, profileContact(parsedData)),
+    parsedData,
+    fileName,
+    rawText,
+    score: 0,
+    confidence: 0,
+    recommendation: 'pass',
+    summary,
+    matchedSkills: [],
+    missingSkills: [],
+    concerns,
+    interviewQuestions: [],
+    experience: 0,
+    screeningError: failure,
+    processedAt: new Date()
+  };
+}
+
+const errorSummary = (failure: ScreeningFailure) =>
+  `❌ ${failure.message}. ${failure.retryable ? 'Re-upload this CV to retry.' : 'Contact support.'}`;
+
+// Server error codes (batch queue events and /api/screen errors)
+function failureFromCode(code: string | undefined, issues?: string[]): ScreeningFailure | null {
+  switch (code) {
+    case 'INVALID_AI_OUTPUT':
+      return { code: 'invalid_ai_output', message: 'AI output failed validation - try different model', issues, retryable: true };
+    case 'RATE_LIMITED':
+      return { code: 'rate_limited', message: 'Rate limited - wait and retry', retryable: true };
+    case 'INSUFFICIENT_CONTENT':
+      return { code: 'insufficient_content', message: 'CV content is too short to screen', retryable: false };
+    case 'AUTH':
+      return { code: 'auth', message: 'API authentication error', retryable: false };
+    case 'BUDGET_EXCEEDED':
+      return { code: 'budget_exceeded', message: 'Session budget reached - not screened', retryable: true };
+    case 'QUOTA_EXCEEDED':
+      return { code: 'quota_exceeded', message: 'Plan screening credits used up - not screened', retryable: false };
+    default:
+      return null;
+  }
+}
+
+function failureFromError(err: unknown): ScreeningFailure {
+  if (err instanceof ApiError) {
+    const failure = failureFromCode(err.code, err.issues);
+    if (failure) return failure;
+  }
+  const errorMsg = (err as Error).message;
+  if (errorMsg.includes('rate limit') || errorMsg.includes('429')) {
+    return { code: 'rate_limited', message: 'Rate limited - wait and retry', retryable: true };
+  }
+  if (errorMsg.includes('timeout')) {
+    return { code: 'timeout', message: 'Request timed out - try again', retryable: true };
+  }
+  if (errorMsg.includes('API key') || errorMsg.includes('401')) {
+    return { code: 'auth', message: 'API authentication error', retryable: false };
+  }
+  return { code: 'unknown', message: 'Processing failed', retryable: true };
+}
+
 export function ScreeningScreen() {
   const {
     setScreen,
     currentJob,
     uploadedCVs,
     currentSession,
-    updateSession
+    sessions,
+    savedJobs,
+    updateSession,
+    checkpointCandidate,
+    resumeSession
   } = useStore();
 
   const [currentIndex, setCurrentIndex] = useState(0);
@@ -40,15 +235,21 @@ export function ScreeningScreen() {
   const [backendAvailable, setBackendAvailable] = useState<boolean | null>(null);
   const [error, setError] = useState<string | null>(null);
   const hasStartedRef = useRef(false);
+  const controlRef = useRef<RunControl>(idleControl());
+  const [paused, setPaused] = useState(false);
+  const [cancelling, setCancelling] = useState(false);
 
   // Enterprise progress tracking - shows exactly what's happening
   const [processingStage, setProcessingStage] = useState<ProcessingStage>('reading');
-  const [stageStartTime, setStageStartTime] = useState<number>(Date.now());
+  const [stageStartTime, setStageStartTime] = useState<number>(() => Date.now());
   const [elapsedTime, setElapsedTime] = useState(0);
   const [completedCount, setCompletedCount] = useState(0);
+  const [totalCount, setTotalCount] = useState(uploadedCVs.length);
 
-  // Adaptive timing - track actual processing time for accurate estimates
-  const [actualProcessingTimes, setActualProcessingTimes] = useState<number[]>([]);
+  // Whole-run timer - remaining time is projected from real throughput, never guessed
+  const [runStartedAt, setRunStartedAt] = useState(0);
+  const [runElapsed, setRunElapsed] = useState(0);
+  const [resumedCount, setResumedCount] = useState(0);  // Results restored from a checkpoint
 
   // Model selection state
   const [models, setModels] = useState<AIModel[]>([]);
@@ -56,53 +257,35 @@ export function ScreeningScreen() {
   const [showModelSelector, setShowModelSelector] = useState(false);
   const [modelsLoading, setModelsLoading] = useState(true);
   const [modelDropdownOpen, setModelDropdownOpen] = useState(false);
+  // Extra models that score every CV alongside the selected one
+  const [secondOpinions, setSecondOpinions] = useState<string[]>([]);
+  const ensembleModels = useMemo(
+    () => secondOpinions.filter(id => id !== selectedModel),
+    [secondOpinions, selectedModel]
+  );
 
-  // Bulk processing status (used for showing batch info during processing)
-  const [batchStatus, setBatchStatus] = useState<string>('');
+  // Latest step reported for the candidate in flight (from the server event stream)
+  const [stageDetail, setStageDetail] = useState<string>('');
 
-  // Get estimated seconds per CV based on model tier (2026 optimized)
-  const getModelEstimate = useCallback((model: string): number => {
-    const modelLower = model.toLowerCase();
-    // Ultra-fast models (~3-6 sec) - Gemini Flash-Lite, DeepSeek batch
-    if (modelLower.includes('flash-lite') || modelLower.includes('lite')) {
-      return 4;
-    }
-    // Fast models (~6-10 sec) - Gemini Flash, GLM
-    if (modelLower.includes('flash') || modelLower.includes('mini') || modelLower.includes('haiku') || modelLower.includes('glm')) {
-      return 8;
-    }
-    // Medium models (~12-20 sec) - Sonnet, GPT-4o, DeepSeek
-    if (modelLower.includes('sonnet') || modelLower.includes('4o') || modelLower.includes('gemini-pro') || modelLower.includes('deepseek')) {
-      return 15;
-    }
-    // Large/slow models (~25-40 sec) - GPT-5, Claude Opus, o1, o3
-    if (modelLower.includes('gpt-5') || modelLower.includes('opus') || modelLower.includes('o1') || modelLower.includes('o3') || modelLower.includes('pro')) {
-      return 30;
-    }
-    // Default for unknown models
-    return 12;
-  }, []);
-
-  // Calculate adaptive estimate (uses actual time if we have data)
-  const estimatedSecondsPerCV = useMemo(() => {
-    if (actualProcessingTimes.length > 0) {
-      // Use average of actual processing times
-      const avg = actualProcessingTimes.reduce((a, b) => a + b, 0) / actualProcessingTimes.length;
-      return Math.ceil(avg);
-    }
-    // Fall back to model-based estimate
-    return getModelEstimate(selectedModel);
-  }, [actualProcessingTimes, selectedModel, getModelEstimate]);
+  // Pre-flight: CV text read before the run (the run reuses it) and what screening would cost
+  const preflightTextRef = useRef(new Map<File, ExtractedDocument>());
+  const [preflightTexts, setPreflightTexts] = useState<string[] | null>(null);
+  const [estimate, setEstimate] = useState<{ model: string; value: CostEstimate | null } | null>(null);
+  const [budgetInput, setBudgetInput] = useState(() =>
+    currentSession?.budgetUsd ? String(currentSession.budgetUsd) : '');
+  const sessionId = currentSession?.id;
 
   // Real-time elapsed time counter
   useEffect(() => {
     if (currentSession?.status === 'processing') {
       const interval = setInterval(() => {
-        setElapsedTime(Math.floor((Date.now() - stageStartTime) / 1000));
+        const now = Date.now();
+        setElapsedTime(Math.floor((now - stageStartTime) / 1000));
+        setRunElapsed(Math.floor((now - runStartedAt) / 1000));
       }, 100);
       return () => clearInterval(interval);
     }
-  }, [currentSession?.status, stageStartTime]);
+  }, [currentSession?.status, stageStartTime, runStartedAt]);
 
   // Stage descriptions for user feedback
   const stageInfo: Record<ProcessingStage, { label: string; icon: React.ReactNode; color: string }> = {
@@ -268,198 +451,262 @@ Keep it simple and easy to read. No technical jargon.`;
     init();
   }, []);
 
-  // Process CVs with AI - Enterprise-grade with stage tracking
-  const processWithAI = useCallback(async () => {
-    if (!currentJob || uploadedCVs.length === 0) return;
+  // Process CVs: read locally, then screen on the server and render its live event stream.
+  // Given a session with a checkpoint, picks up where that run stopped instead.
+  // With `budgetUsd`, the server refuses every model call that could take the session past it.
+  const processWithAI = useCallback(async (resume?: ScreeningSession, budgetUsd?: number) => {
+    const checkpoint = resume?.checkpoint;
+    if (!currentJob || (!checkpoint && uploadedCVs.length === 0)) return;
 
-    setError(null);
-    setCompletedCount(0);
-    setBatchStatus(''); // Reset batch status
-    setActualProcessingTimes([]); // Reset adaptive timing for new session
-    setStageStartTime(Date.now());
-    updateSession({ status: 'processing' });
-
-    // Show batch info for bulk processing
-    if (uploadedCVs.length > 1) {
-      const batchCount = Math.ceil(uploadedCVs.length / 5);
-      setBatchStatus(`Bulk mode: ${batchCount} batches (5 CVs each)`);
-    }
+    const enterStage = (stage: ProcessingStage) => {
+      setProcessingStage(stage);
+      setStageStartTime(Date.now());
+    };
 
-    const candidates: Candidate[] = [];
+    const control = idleControl();
+    controlRef.current = control;
+    const waitIfPaused = () => control.paused
+      ? new Promise<void>(resolve => { control.resume = resolve; })
+      : Promise.resolve();
+
+    const total = checkpoint?.total ?? uploadedCVs.length;
+    const candidates: Candidate[] = [...(resume?.candidates ?? [])];
+    const settledIds = new Set(candidates.map(candidate => candidate.id));
+
+    setError(null);
+    setTotalCount(total);
+    setCompletedCount(candidates.length);
+    setResumedCount(candidates.length);
+    setStageDetail('');
+    setRunStartedAt(Date.now());
+    enterStage('reading');
+    updateSession({ status: 'processing', partial: undefined, budgetUsd });
+
+    // Spend so far is sent along, so a restarted server still knows what the session used
+    const budget = (): SessionBudgetRequest | undefined => budgetUsd && sessionId
+      ? { sessionId, budgetUsd, spentUsd: sessionSpend(candidates).costUsd }
+      : undefined;
+    const ensemble = ensembleModels.length > 0 ? ensembleModels : undefined;
+
+    // Each result is checkpointed the moment it arrives, so a reload loses nothing
+    const settle = (candidate: Candidate) => {
+      if (settledIds.has(candidate.id)) return;
+      settledIds.add(candidate.id);
+      candidates.push(candidate);
+      setCompletedCount(candidates.length);
+      checkpointCandidate(candidate);
+      updateSession({ progress: Math.round((candidates.length / total) * 100) });
+    };
 
     try {
-      for (let i = 0; i < uploadedCVs.length; i++) {
+      // STAGE 1: Read every document in the browser - unreadable ones never reach the model.
+      // A resumed run already has the text of its pending CVs.
+      let queue: PendingCV[] = checkpoint?.pending ?? [];
+      for (let i = 0; !checkpoint && i < total; i++) {
+        await waitIfPaused();
+        if (control.cancelled) break;
         const file = uploadedCVs[i];
+        const source = { id: generateId(), fileName: file.name };
         setCurrentIndex(i);
+        updateSession({ currentCandidate: file.name });
 
-        // Track start time for this CV (for adaptive timing)
-        const cvProcessingStart = Date.now();
+        let cvContent = '';
+        let ocrConfidence: number | undefined;
+        try {
+          const preflight = preflightTextRef.current.get(file);
+          const extracted = preflight?.text ? preflight : await readDocument(file);
+          cvContent = extracted.text;
+          ocrConfidence = extracted.ocrConfidence;
+        } catch (err) {
+          const failure = failureFromError(err);
+          settle(failedCandidate(source, '', failure, errorSummary(failure), [`Error: ${(err as Error).message}`]));
+          continue;
+        }
 
-        updateSession({
-          progress: Math.round((i / uploadedCVs.length) * 100),
-          currentCandidate: file.name
-        });
+        if (cvContent.startsWith('[PARSE_ERROR]')) {
+          console.error(`Document parsing failed for ${file.name}`);
+          const message = cvContent.replace('[PARSE_ERROR] ', '');
+          settle(failedCandidate(
+            source,
+            cvContent,
+            { code: 'document_unreadable', message, retryable: false },
+            `⚠️ DOCUMENT PARSING FAILED - ${message}`,
+            ['Document could not be parsed - please paste content manually or use a different file format']
+          ));
+          continue;
+        }
 
-        // Update batch status for bulk processing
-        if (uploadedCVs.length > 5) {
-          const currentBatch = Math.floor(i / 5) + 1;
-          const totalBatches = Math.ceil(uploadedCVs.length / 5);
-          setBatchStatus(`Batch ${currentBatch}/${totalBatches} • Using Gemini Flash`);
+        const parsedData = (await api.parseResume(cvContent)) ?? undefined;
+        const validation = api.validateExtractedContent(cvContent, file.name);
+        if (!validation.valid) {
+          console.error(`Content validation failed for ${file.name}: ${validation.reason}`);
+          const message = validation.reason || 'Content validation failed';
+          settle(failedCandidate(
+            { ...source, parsedData },
+            cvContent,
+            { code: 'insufficient_content', message, retryable: false },
+            `⚠️ INSUFFICIENT CONTENT - ${validation.reason}`,
+            [message]
+          ));
+          continue;
         }
 
-        let cvContent = '';
-        try {
-          // STAGE 1: Reading document
-          setProcessingStage('reading');
-          setStageStartTime(Date.now());
-          cvContent = await readFileAsText(file);
-
-          // STAGE 2: Validating content
-          setProcessingStage('validating');
-          setStageStartTime(Date.now());
-
-          // CHECK FOR PARSE ERROR - Don't send garbage to AI
-          if (cvContent.startsWith('[PARSE_ERROR]')) {
-            console.error(`Document parsing failed for ${file.name}`);
-            candidates.push({
-              id: generateId(),
-              name: file.name.replace(/\.(pdf|doc|docx|txt)$/i, '').replace(/[-_]/g, ' '),
-              fileName: file.name,
-              rawText: cvContent,
-              score: 0,
-              confidence: 0,
-              recommendation: 'pass',
-              summary: `⚠️ DOCUMENT PARSING FAILED - ${cvContent.replace('[PARSE_ERROR] ', '')}`,
-              matchedSkills: [],
-              missingSkills: [],
-              concerns: ['Document could not be parsed - please paste content manually or use a different file format'],
-              interviewQuestions: [],
-              experience: 0,
-              processedAt: new Date()
-            });
-            continue; // Skip AI processing for this file
-          }
+        const ocrWarning = ocrConfidence !== undefined && ocrConfidence < LOW_OCR_CONFIDENCE
+          ? `Text was read by OCR with ${Math.round(ocrConfidence * 100)}% confidence - check names, dates and figures against the original`
+          : undefined;
+        const warning = [validation.warning, ocrWarning].filter(Boolean).join(' ') || undefined;
+        queue.push({ ...source, cvContent, warning, ocrConfidence, parsedData, position: i });
+      }
 
-          // Validate content quality
-          const validation = api.validateExtractedContent(cvContent, file.name);
-          if (!validation.valid) {
-            console.error(`Content validation failed for ${file.name}: ${validation.reason}`);
-            candidates.push({
-              id: generateId(),
-              name: file.name.replace(/\.(pdf|doc|docx|txt)$/i, '').replace(/[-_]/g, ' '),
-              fileName: file.name,
-              rawText: cvContent,
-              score: 0,
-              confidence: 0,
-              recommendation: 'pass',
-              summary: `⚠️ INSUFFICIENT CONTENT - ${validation.reason}`,
-              matchedSkills: [],
-              missingSkills: [],
-              concerns: [validation.reason || 'Content validation failed'],
-              interviewQuestions: [],
-              experience: 0,
-              processedAt: new Date()
-            });
-            setCompletedCount(prev => prev + 1);
-            continue; // Skip AI processing
+      // STAGES 2-4 are driven by what the server reports for each CV
+      const onEvent = (event: BatchEventData) => {
+        if (event.type === 'completed') return;
+        if (event.type === 'paused' || event.type === 'resumed') {
+          setStageDetail(event.type === 'paused' ? 'Paused - no model calls running' : 'Resuming');
+          return;
+        }
+        if (event.type === 'cancelled') {
+          setStageDetail(`Cancelled - ${event.cancelled} CV${event.cancelled === 1 ? '' : 's'} not screened`);
+          return;
+        }
+        const item = queue[event.index];
+        setCurrentIndex(item.position);
+        updateSession({ currentCandidate: item.fileName });
+
+        switch (event.type) {
+          case 'parsed':
+            enterStage('validating');
+            setStageDetail(`Parsed ${event.characters.toLocaleString()} characters`);
+            break;
+          case 'sent':
+            enterStage('analyzing');
+            setStageDetail(event.attempt > 0 ? 'Asking the model to fix invalid output' : `Sent to ${event.model}`);
+            break;
+          case 'tokens':
+            enterStage('scoring');
+            setStageDetail(event.usage
+              ? `Received ${event.usage.completion_tokens.toLocaleString()} tokens`
+              : 'Response received');
+            break;
+          case 'retrying':
+            setStageDetail(`${event.reason} - retrying in ${Math.ceil(event.delayMs / 1000)}s`);
+            break;
+          case 'fallback':
+            setStageDetail(`${event.from} unavailable - switching to ${event.to}`);
+            break;
+          case 'scored':
+            settle(scoredCandidate(item, event.result, {
+              model: event.model,
+              tokensUsed: event.usage?.total_tokens ?? (event.cached ? 0 : undefined),
+              costUsd: event.costUsd ?? undefined,
+              ...ensembleMeta(event.ensemble),
+            }));
+            setStageDetail(`${event.result.candidate?.name || candidateName(item.fileName)} scored ${event.result.score}${event.cached ? ' (cached - not billed)' : ''}`);
+            break;
+          case 'failed': {
+            const failure = failureFromCode(event.errorCode, event.issues)
+              || { code: 'unknown', message: 'Processing failed', retryable: true };
+            console.error(`[Screening] Failed ${item.fileName}:`, event.error);
+            settle(failedCandidate(item, item.cvContent, failure, errorSummary(failure), [`Error: ${event.error}`]));
+            break;
           }
+        }
+      };
+
+      // The batch job from before a reload may still be running (or finished) on the server
+      let jobId: string | null = null;
+      if (checkpoint?.batchJobId && !control.cancelled) {
+        const job = await api.getBatchJob(checkpoint.batchJobId);
+        if (job && job.status !== 'cancelled') {
+          jobId = job.id;
+          if (job.status === 'paused') await api.resumeBatchJob(job.id).catch(() => undefined);
+        }
+      }
+      if (!jobId) {
+        queue = queue.filter(item => !settledIds.has(item.id));
+        if (queue.length > 0 && !control.cancelled) {
+          jobId = await api.createBatchJob(
+            currentJob.rawText,
+            queue.map(item => ({ name: item.fileName, cvContent: item.cvContent })),
+            selectedModel,
+            { budget: budget(), ensembleModels: ensemble }
+          ).then(job => job.jobId, () => null);
+        }
+        updateSession({ checkpoint: { pending: queue, total, batchJobId: jobId ?? undefined } });
+      }
 
-          // STAGE 3: AI Analysis (the main processing stage)
-          setProcessingStage('analyzing');
-          setStageStartTime(Date.now());
+      if (jobId) {
+        control.jobId = jobId;
+        // The buttons may have been pressed while the job was being created
+        if (control.cancelled) {
+          await api.cancelBatchJob(jobId).catch(() => undefined);
+        } else if (control.paused) {
+          await api.pauseBatchJob(jobId).catch(() => undefined);
+        }
 
-          // Call backend API with selected model
-          const response = await api.screenCandidate(
-            currentJob.rawText,
-            cvContent,
-            selectedModel
+        await new Promise<void>((resolve, reject) => {
+          streamBatchJob(
+            jobId,
+            (event) => {
+              onEvent(event);
+              if (event.type === 'completed' || event.type === 'cancelled') resolve();
+            },
+            () => reject(new Error('Lost connection to the screening job'))
           );
-
-          // STAGE 4: Scoring and finalizing
-          setProcessingStage('scoring');
-          setStageStartTime(Date.now());
-
-          const result = response.result;
-
-          // Check if AI returned a parse error indicator
-          const hasWarning = validation.warning;
-
-          const candidate: Candidate = {
-            id: generateId(),
-            name: file.name.replace(/\.(pdf|doc|docx|txt)$/i, '').replace(/[-_]/g, ' '),
-            fileName: file.name,
-            rawText: cvContent,
-            score: result.score,
-            confidence: result.confidence,
-            recommendation: result.recommendation,
-            summary: hasWarning ? `⚠️ ${validation.warning}\n\n${result.summary}` : result.summary,
-            scoreBreakdown: result.scoreBreakdown,
-            matchedSkills: result.matchedSkills || [],
-            missingSkills: result.missingSkills || [],
-            partialMatches: result.partialMatches || [],
-            concerns: hasWarning
-              ? [...(result.concerns || []), validation.warning!]
-              : (result.concerns || []),
-            strengths: result.strengths || [],
-            interviewQuestions: result.interviewQuestions || [],
-            experience: result.experienceYears || 0,
-            skillMatchPercent: result.skillMatchPercent,
-            educationMatch: result.educationMatch,
-            processedAt: new Date()
-          };
-
-          candidates.push(candidate);
-
-          // Track actual processing time for adaptive estimates
-          const actualTime = Math.round((Date.now() - cvProcessingStart) / 1000);
-          setActualProcessingTimes(prev => [...prev, actualTime]);
-
-          setCompletedCount(prev => prev + 1);
-          setProcessingStage('complete');
-        } catch (err) {
-          // Enterprise error handling: log, continue, mark failed
-          const errorMsg = (err as Error).message;
-          console.error(`[Screening] Failed ${file.name}:`, errorMsg);
-          setCompletedCount(prev => prev + 1);
-
-          // Determine error type for user-friendly message
-          let userMessage = 'Processing failed';
-          let retryable = true;
-          if (errorMsg.includes('parsing failed') || errorMsg.includes('PARSE_ERROR')) {
-            userMessage = 'AI returned invalid response - try different model';
-          } else if (errorMsg.includes('rate limit') || errorMsg.includes('429')) {
-            userMessage = 'Rate limited - wait and retry';
-          } else if (errorMsg.includes('timeout')) {
-            userMessage = 'Request timed out - try again';
-          } else if (errorMsg.includes('API key') || errorMsg.includes('401')) {
-            userMessage = 'API authentication error';
-            retryable = false;
+        });
+      } else {
+        // No server-side queue (Vercel) - screen one at a time, reporting the same steps
+        for (let q = 0; q < queue.length; q++) {
+          await waitIfPaused();
+          if (control.cancelled) break;
+          const item = queue[q];
+          const controller = new AbortController();
+          control.controller = controller;
+          onEvent({ type: 'sent', index: q, attempt: 0, model: selectedModel });
+          try {
+            const response = await api.screenCandidate(currentJob.rawText, item.cvContent, selectedModel, {
+              signal: controller.signal,
+              budget: budget(),
+              ensembleModels: ensemble,
+            });
+            onEvent({ type: 'tokens', index: q, attempt: response.repairAttempts || 0, model: response.model || selectedModel, usage: response.usage, valid: true });
+            onEvent({
+              type: 'scored',
+              index: q,
+              name: item.fileName,
+              result: response.result,
+              model: response.model || selectedModel,
+              usage: response.usage,
+              costUsd: response.costUsd ?? null,
+              cached: response.cached,
+              ensemble: response.ensemble,
+            });
+          } catch (err) {
+            if (controller.signal.aborted) {
+              // Paused mid-call: screen the same CV again once resumed
+              if (!control.cancelled) q--;
+              continue;
+            }
+            const errorMsg = (err as Error).message;
+            console.error(`[Screening] Failed ${item.fileName}:`, errorMsg);
+            const failure = failureFromError(err);
+            settle(failedCandidate(item, item.cvContent, failure, errorSummary(failure), [`Error: ${errorMsg}`]));
           }
-
-          candidates.push({
-            id: generateId(),
-            name: file.name.replace(/\.(pdf|doc|docx|txt)$/i, '').replace(/[-_]/g, ' '),
-            fileName: file.name,
-            rawText: cvContent || '',
-            score: 0,
-            confidence: 0,
-            recommendation: 'pass',
-            summary: `❌ ${userMessage}. ${retryable ? 'Re-upload this CV to retry.' : 'Contact support.'}`,
-            matchedSkills: [],
-            missingSkills: [],
-            concerns: [`Error: ${errorMsg}`],
-            interviewQuestions: [],
-            experience: 0,
-            processedAt: new Date()
-          });
         }
       }
 
+      // A cancelled run keeps what was already screened, is marked partial and can be resumed
+      const unscreened = queue.filter(item => !settledIds.has(item.id));
+      const partial = candidates.length < total;
+      enterStage('complete');
       updateSession({
-        status: 'completed',
-        progress: 100,
+        status: partial ? 'cancelled' : 'completed',
+        partial: partial || undefined,
+        progress: partial ? Math.round((candidates.length / total) * 100) : 100,
         candidates,
-        completedAt: new Date()
+        ...sessionSpend(candidates),
+        completedAt: new Date(),
+        checkpoint: unscreened.length > 0 ? { pending: unscreened, total } : undefined,
       });
 
       setScreen('results');
@@ -467,15 +714,123 @@ Keep it simple and easy to read. No technical jargon.`;
       setError((err as Error).message);
       updateSession({ status: 'error' });
     }
-  }, [currentJob, uploadedCVs, updateSession, setScreen, selectedModel]);
+  }, [currentJob, uploadedCVs, updateSession, checkpointCandidate, setScreen, selectedModel, ensembleModels, sessionId]);
+
+  // A session opened from history has no files - only its checkpoint
+  const resuming = !!currentSession?.checkpoint && uploadedCVs.length === 0;
+  const unfinishedSessions = useMemo(
+    () => sessions.filter(s => s.id !== currentSession?.id && s.status !== 'completed' && s.checkpoint),
+    [sessions, currentSession?.id]
+  );
+  const cvsToScreen = resuming && currentSession?.checkpoint
+    ? currentSession.checkpoint.total - currentSession.candidates.length
+    : uploadedCVs.length;
+
+  // Read every CV once up front so the estimate prices the prompts that will really be sent
+  const resumeCheckpoint = resuming ? currentSession?.checkpoint : undefined;
+  useEffect(() => {
+    if (!showModelSelector) return;
+    let stale = false;
+    const read = async () => {
+      const texts: string[] = [];
+      if (resumeCheckpoint) {
+        texts.push(...resumeCheckpoint.pending.map(item => item.cvContent));
+      } else {
+        for (const file of uploadedCVs) {
+          let extracted = preflightTextRef.current.get(file);
+          if (extracted === undefined) {
+            // Unreadable files are reported by the run itself, which reads them again
+            extracted = await readDocument(file).catch(() => ({ text: '' }));
+            if (extracted.text.startsWith('[PARSE_ERROR]')) extracted = { text: '' };
+            preflightTextRef.current.set(file, extracted);
+          }
+          if (extracted.text) texts.push(extracted.text);
+        }
+      }
+      if (!stale) setPreflightTexts(texts);
+    };
+    void read();
+    return () => { stale = true; };
+  }, [showModelSelector, uploadedCVs, resumeCheckpoint]);
+
+  // An ensemble pays for every model it asks
+  const estimateKey = [selectedModel, ...ensembleModels].join(',');
+  useEffect(() => {
+    if (!preflightTexts || !currentJob) return;
+    let stale = false;
+    Promise.all(estimateKey.split(',').map(model =>
+      api.estimateScreeningCost(currentJob.rawText, preflightTexts, model)
+    )).then(values => {
+      if (!stale) setEstimate({ model: estimateKey, value: sumEstimates(values) });
+    });
+    return () => { stale = true; };
+  }, [preflightTexts, currentJob, estimateKey]);
+
+  // Shown only once it matches the models picked now
+  const currentEstimate = estimate?.model === estimateKey ? estimate : null;
+
+  const toggleSecondOpinion = (id: string) => setSecondOpinions(previous => {
+    const current = previous.filter(model => model !== selectedModel);
+    if (current.includes(id)) return current.filter(model => model !== id);
+    return current.length < MAX_SECOND_OPINIONS ? [...current, id] : current;
+  });
+  const budgetUsd = Number(budgetInput);
+  const budgetError = budgetInput.trim() && !(budgetUsd > 0) ? 'Enter an amount above $0' : undefined;
+  const budgetHint = !budgetInput.trim()
+    ? 'Optional - the server refuses model calls past this amount'
+    : currentEstimate?.value?.costUsd === null
+      ? 'This model has no known price, so every call would be refused'
+      : currentEstimate?.value?.costUsd && budgetUsd < currentEstimate.value.costUsd
+        ? 'Below the estimate - screening will likely stop early'
+        : 'The server refuses model calls past this amount';
 
   // Start screening when user clicks the start button
   const handleStartScreening = useCallback(() => {
-    if (hasStartedRef.current) return;
+    if (hasStartedRef.current || budgetError) return;
     hasStartedRef.current = true;
     setShowModelSelector(false);
-    processWithAI();
-  }, [processWithAI]);
+    processWithAI(resuming ? currentSession ?? undefined : undefined, budgetUsd > 0 ? budgetUsd : undefined);
+  }, [processWithAI, resuming, currentSession, budgetError, budgetUsd]);
+
+  // Pausing stops in-flight model calls; their CVs are screened again on resume
+  const handlePause = useCallback(async () => {
+    const control = controlRef.current;
+    if (control.paused || control.cancelled) return;
+    control.paused = true;
+    setPaused(true);
+    control.controller?.abort();
+    if (control.jobId) {
+      await api.pauseBatchJob(control.jobId)
+        .catch(err => setStageDetail(`Could not pause: ${(err as Error).message}`));
+    }
+  }, []);
+
+  const handleResume = useCallback(async () => {
+    const control = controlRef.current;
+    if (!control.paused || control.cancelled) return;
+    control.paused = false;
+    setPaused(false);
+    control.resume?.();
+    control.resume = null;
+    if (control.jobId) {
+      await api.resumeBatchJob(control.jobId)
+        .catch(err => setStageDetail(`Could not resume: ${(err as Error).message}`));
+    }
+  }, []);
+
+  const handleCancel = useCallback(async () => {
+    const control = controlRef.current;
+    if (control.cancelled) return;
+    control.cancelled = true;
+    setCancelling(true);
+    control.controller?.abort();
+    control.resume?.();
+    control.resume = null;
+    if (control.jobId) {
+      await api.cancelBatchJob(control.jobId)
+        .catch(err => setStageDetail(`Could not cancel: ${(err as Error).message}`));
+    }
+  }, []);
 
   // Copy prompt to clipboard
   const copyPrompt = useCallback(() => {
@@ -507,6 +862,11 @@ Keep it simple and easy to read. No technical jargon.`;
   }, []);
 
   const progress = currentSession?.progress || 0;
+  const remainingCount = totalCount - completedCount;
+  const screenedThisRun = completedCount - resumedCount;
+  const etaSeconds = screenedThisRun > 0
+    ? Math.ceil((runElapsed / screenedThisRun) * remainingCount)
+    : null;
 
   return (
     <div style={pageStyle}>
@@ -567,7 +927,9 @@ Keep it simple and easy to read. No technical jargon.`;
                   Choose AI Model
                 </h2>
                 <p style={{ color: colors.silver, fontSize: fontSizes.base }}>
-                  Select which AI model to use for screening {uploadedCVs.length} CVs
+                  {resuming
+                    ? `Resume this session - ${cvsToScreen} CVs left to screen`
+                    : `Select which AI model to use for screening ${uploadedCVs.length} CVs`}
                 </p>
               </div>
 
@@ -725,6 +1087,44 @@ Keep it simple and easy to read. No technical jargon.`;
                 )}
               </div>
 
+              {/* Second Opinions - extra models that score every CV; disagreements get flagged */}
+              {models.length > 1 && (
+                <div style={{ marginBottom: spacing[6], textAlign: 'left' }}>
+                  <div style={{ display: 'flex', alignItems: 'center', gap: spacing[2], fontSize: fontSizes.sm, color: colors.silver, marginBottom: spacing[2] }}>
+                    <Users style={{ width: 14, height: 14 }} />
+                    Second Opinions
+                    <span style={{ fontSize: fontSizes.xs }}>
+                      (up to {MAX_SECOND_OPINIONS} - scores are averaged, disagreements flagged for review)
+                    </span>
+                  </div>
+                  <div style={{ display: 'flex', flexWrap: 'wrap', gap: spacing[2] }}>
+                    {models.filter(m => m.recommended && m.id !== selectedModel).map(model => {
+                      const active = ensembleModels.includes(model.id);
+                      const full = !active && ensembleModels.length >= MAX_SECOND_OPINIONS;
+                      return (
+                        <button
+                          key={model.id}
+                          onClick={() => toggleSecondOpinion(model.id)}
+                          disabled={full}
+                          style={{
+                            padding: `${spacing[1]} ${spacing[3]}`,
+                            borderRadius: radius.full,
+                            border: `1px solid ${active ? colors.cyan : colors.steel}`,
+                            backgroundColor: active ? 'rgba(0, 240, 255, 0.1)' : 'transparent',
+                            color: active ? colors.cyan : full ? colors.steel : colors.silver,
+                            fontSize: fontSizes.xs,
+                            cursor: full ? 'not-allowed' : 'pointer',
+                            transition: 'all 0.15s',
+                          }}
+                        >
+                          {model.name}
+                        </button>
+                      );
+                    })}
+                  </div>
+                </div>
+              )}
+
               {/* Info Cards */}
               <div style={{ display: 'grid', gridTemplateColumns: 'repeat(2, 1fr)', gap: spacing[4], marginBottom: spacing[6] }}>
                 <div style={{
@@ -734,24 +1134,109 @@ Keep it simple and easy to read. No technical jargon.`;
                   textAlign: 'left',
                 }}>
                   <div style={{ fontSize: fontSizes.xs, color: colors.silver, marginBottom: spacing[1] }}>CVs to Screen</div>
-                  <div style={{ fontSize: fontSizes.xl, fontWeight: fontWeights.bold, color: colors.snow }}>{uploadedCVs.length}</div>
+                  <div style={{ fontSize: fontSizes.xl, fontWeight: fontWeights.bold, color: colors.snow }}>{cvsToScreen}</div>
+                </div>
+                <div style={{
+                  padding: spacing[4],
+                  borderRadius: radius.lg,
+                  backgroundColor: 'rgba(26, 26, 36, 0.5)',
+                  textAlign: 'left',
+                }}>
+                  <div style={{ fontSize: fontSizes.xs, color: colors.silver, marginBottom: spacing[1] }}>Role</div>
+                  <div style={{
+                    fontSize: fontSizes.xl,
+                    fontWeight: fontWeights.bold,
+                    color: colors.snow,
+                    overflow: 'hidden',
+                    textOverflow: 'ellipsis',
+                    whiteSpace: 'nowrap',
+                  }}>
+                    {currentJob?.title || '—'}
+                  </div>
                 </div>
+              </div>
+
+              {/* Pre-flight Estimate & Budget Cap */}
+              <div style={{ display: 'grid', gridTemplateColumns: 'repeat(2, 1fr)', gap: spacing[4], marginBottom: spacing[6] }}>
                 <div style={{
                   padding: spacing[4],
                   borderRadius: radius.lg,
                   backgroundColor: 'rgba(26, 26, 36, 0.5)',
                   textAlign: 'left',
                 }}>
-                  <div style={{ fontSize: fontSizes.xs, color: colors.silver, marginBottom: spacing[1] }}>Est. Time</div>
-                  <div style={{ fontSize: fontSizes.xl, fontWeight: fontWeights.bold, color: colors.snow }}>~{Math.ceil(uploadedCVs.length * estimatedSecondsPerCV)}s</div>
+                  <div style={{ fontSize: fontSizes.xs, color: colors.silver, marginBottom: spacing[1] }}>Estimated Cost</div>
+                  <div style={{ fontSize: fontSizes.xl, fontWeight: fontWeights.bold, color: colors.snow }}>
+                    {!preflightTexts ? 'Reading CVs…'
+                      : !currentEstimate ? 'Estimating…'
+                      : !currentEstimate.value ? 'Unavailable'
+                      : currentEstimate.value.costUsd === null ? 'Price unknown'
+                      : `~${formatUsd(currentEstimate.value.costUsd)}`}
+                  </div>
+                  {currentEstimate?.value && (
+                    <div style={{ fontSize: fontSizes.xs, color: colors.silver, marginTop: spacing[1] }}>
+                      {formatTokens(currentEstimate.value.promptTokens + currentEstimate.value.completionTokens)} tokens
+                      {currentEstimate.value.maxCostUsd !== null && ` · at most ${formatUsd(currentEstimate.value.maxCostUsd)}`}
+                    </div>
+                  )}
+                </div>
+                <div style={{ textAlign: 'left' }}>
+                  <Input
+                    label="Budget Cap (USD)"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    inputMode="decimal"
+                    placeholder="No cap"
+                    value={budgetInput}
+                    onChange={(e) => setBudgetInput(e.target.value)}
+                    icon={<DollarSign style={{ width: 16, height: 16 }} />}
+                    error={budgetError}
+                    hint={budgetHint}
+                  />
                 </div>
               </div>
 
+              {/* Unfinished Sessions - interrupted, cancelled or failed runs that can pick up again */}
+              {unfinishedSessions.length > 0 && (
+                <div style={{ marginBottom: spacing[6], textAlign: 'left' }}>
+                  <div style={{ fontSize: fontSizes.xs, color: colors.silver, marginBottom: spacing[2] }}>Unfinished Sessions</div>
+                  {unfinishedSessions.map(session => (
+                    <div key={session.id} style={{
+                      display: 'flex',
+                      alignItems: 'center',
+                      justifyContent: 'space-between',
+                      gap: spacing[3],
+                      padding: `${spacing[2]} ${spacing[3]}`,
+                      borderRadius: radius.lg,
+                      backgroundColor: 'rgba(26, 26, 36, 0.5)',
+                      marginBottom: spacing[2],
+                    }}>
+                      <div style={{ minWidth: 0 }}>
+                        <div style={{ color: colors.snow, fontSize: fontSizes.sm, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                          {savedJobs.find(job => job.id === session.jobId)?.title || 'Untitled role'}
+                        </div>
+                        <div style={{ color: colors.silver, fontSize: fontSizes.xs }}>
+                          {session.candidates.length} of {session.checkpoint?.total} screened
+                        </div>
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => resumeSession(session.id)}
+                        icon={<RefreshCw style={{ width: 14, height: 14 }} />}
+                      >
+                        Resume
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+
               {/* Action Buttons */}
               <div style={{ display: 'flex', gap: spacing[4] }}>
                 <Button
                   variant="secondary"
-                  onClick={() => setScreen('upload')}
+                  onClick={() => setScreen(resuming ? 'landing' : 'upload')}
                   style={{ flex: 1 }}
                 >
                   Go Back
@@ -759,11 +1244,11 @@ Keep it simple and easy to read. No technical jargon.`;
                 <Button
                   variant="primary"
                   onClick={handleStartScreening}
-                  icon={<Zap style={{ width: 18, height: 18 }} />}
+                  icon={resuming ? <Play style={{ width: 18, height: 18 }} /> : <Zap style={{ width: 18, height: 18 }} />}
                   style={{ flex: 2 }}
-                  disabled={modelsLoading}
+                  disabled={modelsLoading || !!budgetError}
                 >
-                  Start AI Screening
+                  {resuming ? 'Resume Session' : 'Start AI Screening'}
                 </Button>
               </div>
             </motion.div>
@@ -850,7 +1335,7 @@ Keep it simple and easy to read. No technical jargon.`;
               </div>
 
               <h2 style={{ fontFamily: fonts.display, fontSize: fontSizes['2xl'], fontWeight: fontWeights.bold, color: colors.snow, marginBottom: spacing[2] }}>
-                Screening CV {currentIndex + 1} of {uploadedCVs.length}
+                Screening CV {currentIndex + 1} of {totalCount}
               </h2>
               <p style={{ color: colors.silver, fontSize: fontSizes.base, marginBottom: spacing[2], maxWidth: '320px', margin: '0 auto' }}>
                 <span style={{
@@ -862,8 +1347,8 @@ Keep it simple and easy to read. No technical jargon.`;
                   {currentSession.currentCandidate || 'Processing...'}
                 </span>
               </p>
-              {/* Batch Status for Bulk Processing */}
-              {batchStatus && (
+              {/* Latest step reported by the server */}
+              {stageDetail && (
                 <p style={{
                   color: colors.cyan,
                   fontSize: fontSizes.xs,
@@ -874,10 +1359,10 @@ Keep it simple and easy to read. No technical jargon.`;
                   borderRadius: radius.md,
                   display: 'inline-block',
                 }}>
-                  {batchStatus}
+                  {stageDetail}
                 </p>
               )}
-              {!batchStatus && <div style={{ marginBottom: spacing[6] }} />}
+              {!stageDetail && <div style={{ marginBottom: spacing[6] }} />}
 
               {/* Progress Bar with Segments */}
               <div style={{ marginBottom: spacing[4] }}>
@@ -965,17 +1450,39 @@ Keep it simple and easy to read. No technical jargon.`;
                 </div>
                 <div style={statBoxStyle}>
                   <div style={{ fontSize: fontSizes['2xl'], fontWeight: fontWeights.bold, color: colors.amber, fontFamily: fonts.display }}>
-                    {uploadedCVs.length - completedCount}
+                    {remainingCount}
                   </div>
                   <div style={{ fontSize: fontSizes.xs, color: colors.silver }}>Remaining</div>
                 </div>
                 <div style={statBoxStyle}>
                   <div style={{ fontSize: fontSizes['2xl'], fontWeight: fontWeights.bold, color: colors.cyan, fontFamily: fonts.display }}>
-                    ~{Math.max(1, Math.ceil((uploadedCVs.length - completedCount) * estimatedSecondsPerCV))}s
+                    {etaSeconds === null ? '—' : `~${etaSeconds}s`}
                   </div>
                   <div style={{ fontSize: fontSizes.xs, color: colors.silver }}>Est. Remaining</div>
                 </div>
               </div>
+
+              {/* Run Controls - already-scored candidates are kept on cancel */}
+              <div style={{ display: 'flex', gap: spacing[3], marginTop: spacing[6] }}>
+                <Button
+                  variant="secondary"
+                  onClick={paused ? handleResume : handlePause}
+                  icon={paused ? <Play style={{ width: 16, height: 16 }} /> : <Pause style={{ width: 16, height: 16 }} />}
+                  style={{ flex: 1 }}
+                  disabled={cancelling}
+                >
+                  {paused ? 'Resume' : 'Pause'}
+                </Button>
+                <Button
+                  variant="danger"
+                  onClick={handleCancel}
+                  icon={<XCircle style={{ width: 16, height: 16 }} />}
+                  style={{ flex: 1 }}
+                  disabled={cancelling}
+                >
+                  {cancelling ? 'Cancelling...' : 'Cancel'}
+                </Button>
+              </div>
             </motion.div>
           )}
 
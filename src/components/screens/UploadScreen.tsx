@@ -231,7 +231,7 @@ export function UploadScreen() {
 
     Array.from(files).forEach((file) => {
       const ext = file.name.toLowerCase().split('.').pop();
-      if (['pdf', 'doc', 'docx', 'txt', 'html', 'htm'].includes(ext || '')) {
+      if (['pdf', 'doc', 'docx', 'txt', 'html', 'htm', 'png', 'jpg', 'jpeg'].includes(ext || '')) {
         validFiles.push(file);
       } else {
         invalidFiles.push(file.name);
@@ -536,7 +536,7 @@ export function UploadScreen() {
                     <input
                       type="file"
                       multiple
-                      accept=".pdf,.doc,.docx,.txt,.html,.htm"
+                      accept=".pdf,.doc,.docx,.txt,.html,.htm,.png,.jpg,.jpeg"
                       onChange={(e) => handleFiles(e.target.files)}
                       style={{ position: 'absolute', inset: 0, width: '100%', height: '100%', opacity: 0, cursor: 'pointer' }}
                     />
@@ -562,7 +562,7 @@ export function UploadScreen() {
                         or tap to browse files
                       </p>
                       <p style={{ fontSize: fontSize.xs, color: 'rgba(136, 136, 160, 0.6)' }}>
-                        PDF, DOC, DOCX, TXT, HTML
+                        PDF, DOC, DOCX, TXT, HTML - scans and PNG/JPG photos are read with OCR
                       </p>
                     </div>
                   </div>
@@ -1,12 +1,171 @@
 import { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Coins, RefreshCw, AlertCircle } from 'lucide-react';
-import { getCredits, type CreditsInfo } from '../../services/api';
+import { Coins, RefreshCw, AlertCircle, ChevronDown, ChevronRight } from 'lucide-react';
+import {
+  getCredits,
+  getQuota,
+  getUsage,
+  type CreditsInfo,
+  type QuotaSnapshot,
+  type UsageReport,
+} from '../../services/api';
 import { colors, fonts, fontWeights, radius } from '../../styles/design-system';
 
+type UsageAction = UsageReport['byAction'][number]['action'];
+
+const ACTION_LABELS: Record<UsageAction, string> = {
+  screen_resume: 'Screening',
+  company_research: 'Company research',
+  jd_generate: 'Job descriptions',
+  ocr_pdf: 'PDF reading',
+};
+
+const PERIODS = [
+  { days: 1, label: '24h' },
+  { days: 7, label: '7d' },
+  { days: 30, label: '30d' },
+];
+
+const daysAgo = (days: number): string => new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+
+const formatUsd = (value: number | null): string =>
+  value === null ? '-' : value < 0.01 && value > 0 ? '<$0.01' : `$${value.toFixed(2)}`;
+
+/**
+ * AI calls recorded by our own backend, by action, with the latest calls of
+ * the selected action. Hidden where the backend keeps no usage log.
+ */
+function UsageBreakdown() {
+  const [days, setDays] = useState(7);
+  const [usage, setUsage] = useState<UsageReport | null>(null);
+  const [action, setAction] = useState<UsageAction | null>(null);
+  const [entries, setEntries] = useState<UsageReport['entries']>([]);
+
+  useEffect(() => {
+    getUsage({ from: daysAgo(days), limit: 1 }).then(response => setUsage(response?.usage ?? null));
+  }, [days]);
+
+  // Drill-down: the latest calls of the selected action
+  useEffect(() => {
+    if (!action) return;
+    getUsage({ from: daysAgo(days), action, limit: 10 }).then(response => setEntries(response?.usage?.entries ?? []));
+  }, [days, action]);
+
+  if (!usage) return null;
+
+  return (
+    <div
+      style={{
+        marginTop: '12px',
+        paddingTop: '12px',
+        borderTop: '1px solid rgba(255, 255, 255, 0.1)',
+        display: 'flex',
+        flexDirection: 'column',
+        gap: '8px',
+      }}
+    >
+      <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+        <span
+          style={{
+            fontFamily: fonts.display,
+            fontSize: '13px',
+            fontWeight: fontWeights.semibold,
+            color: colors.snow,
+          }}
+        >
+          AI Usage
+        </span>
+        <div style={{ display: 'flex', gap: '4px' }}>
+          {PERIODS.map(period => (
+            <button
+              key={period.days}
+              onClick={() => setDays(period.days)}
+              style={{
+                padding: '2px 6px',
+                borderRadius: radius.sm,
+                border: 'none',
+                cursor: 'pointer',
+                fontSize: '11px',
+                fontFamily: fonts.mono,
+                backgroundColor: days === period.days ? 'rgba(0, 240, 255, 0.15)' : 'transparent',
+                color: days === period.days ? colors.cyan : colors.silver,
+              }}
+            >
+              {period.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '13px' }}>
+        <span style={{ color: colors.silver }}>
+          {usage.totals.calls} calls{usage.totals.failed > 0 && ` (${usage.totals.failed} failed)`}
+        </span>
+        <span style={{ color: colors.snow, fontFamily: fonts.mono }}>{formatUsd(usage.totals.costUsd)}</span>
+      </div>
+
+      {usage.byAction.map(group => {
+        const selected = action === group.action;
+        const Chevron = selected ? ChevronDown : ChevronRight;
+        return (
+          <div key={group.action}>
+            <button
+              onClick={() => setAction(selected ? null : group.action)}
+              style={{
+                width: '100%',
+                display: 'flex',
+                alignItems: 'center',
+                gap: '4px',
+                padding: '2px 0',
+                background: 'none',
+                border: 'none',
+                cursor: 'pointer',
+                fontSize: '12px',
+              }}
+            >
+              <Chevron style={{ width: 12, height: 12, color: colors.silver }} />
+              <span style={{ flex: 1, textAlign: 'left', color: colors.silver }}>
+                {ACTION_LABELS[group.action]} · {group.calls}
+              </span>
+              <span style={{ color: colors.snow, fontFamily: fonts.mono }}>{formatUsd(group.costUsd)}</span>
+            </button>
+
+            {selected && (
+              <div style={{ display: 'flex', flexDirection: 'column', gap: '4px', padding: '4px 0 4px 16px' }}>
+                {entries.map(entry => (
+                  <div
+                    key={entry.id}
+                    title={entry.error}
+                    style={{
+                      display: 'grid',
+                      gridTemplateColumns: '1fr auto auto',
+                      gap: '8px',
+                      fontSize: '11px',
+                      fontFamily: fonts.mono,
+                      color: entry.success ? colors.silver : colors.coral,
+                    }}
+                  >
+                    <span style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                      {new Date(entry.createdAt).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' })}
+                      {' '}{entry.model}
+                    </span>
+                    <span>{entry.tokensUsed.toLocaleString()} tok · {(entry.latencyMs / 1000).toFixed(1)}s</span>
+                    <span style={{ color: colors.snow }}>{formatUsd(entry.costUsd)}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
 export function CreditsDisplay() {
   const [credits, setCredits] = useState<CreditsInfo | null>(null);
   const [loading, setLoading] = useState(true);
+  const [quota, setQuota] = useState<QuotaSnapshot | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [expanded, setExpanded] = useState(false);
 
@@ -14,6 +173,14 @@ export function CreditsDisplay() {
     setLoading(true);
     setError(null);
     try {
+      // The workspace's plan quota when the backend meters it, else the OpenRouter key balance
+      const quotaResponse = await getQuota();
+      if (quotaResponse?.success && quotaResponse.quota) {
+        setQuota(quotaResponse.quota);
+        setCredits(null);
+        return;
+      }
+      setQuota(null);
       const response = await getCredits();
       if (response?.success && response.credits) {
         setCredits(response.credits);
@@ -41,6 +208,11 @@ export function CreditsDisplay() {
 
   // Determine color based on remaining credits
   const getStatusColor = (): string => {
+    if (quota) {
+      if (quota.creditsRemaining === 0) return colors.coral;
+      if (quota.creditsRemaining < quota.creditsLimit * 0.1) return colors.amber;
+      return colors.emerald;
+    }
     if (!credits || credits.isUnlimited) return colors.emerald;
     if (credits.remaining === null) return colors.emerald;
     if (credits.remaining < 1) return colors.coral;
@@ -105,6 +277,8 @@ export function CreditsDisplay() {
             ? '...'
             : error
             ? 'Error'
+            : quota
+            ? `${quota.creditsRemaining} left`
             : credits?.isUnlimited
             ? 'Unlimited'
             : formatCredits(credits?.remaining ?? null)}
@@ -113,6 +287,117 @@ export function CreditsDisplay() {
 
       {/* Expanded Details */}
       <AnimatePresence>
+        {expanded && quota && !error && (
+          <motion.div
+            initial={{ opacity: 0, y: -10, scale: 0.95 }}
+            animate={{ opacity: 1, y: 0, scale: 1 }}
+            exit={{ opacity: 0, y: -10, scale: 0.95 }}
+            style={{
+              position: 'absolute',
+              top: '100%',
+              right: 0,
+              marginTop: '8px',
+              padding: '16px',
+              borderRadius: radius.lg,
+              backgroundColor: 'rgba(26, 26, 36, 0.98)',
+              backdropFilter: 'blur(12px)',
+              border: '1px solid rgba(255, 255, 255, 0.1)',
+              boxShadow: '0 8px 32px rgba(0, 0, 0, 0.4)',
+              minWidth: '200px',
+              maxWidth: '360px',
+            }}
+          >
+            <div
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'space-between',
+                marginBottom: '12px',
+              }}
+            >
+              <span
+                style={{
+                  fontFamily: fonts.display,
+                  fontSize: '14px',
+                  fontWeight: fontWeights.semibold,
+                  color: colors.snow,
+                }}
+              >
+                {quota.kind === 'organization' ? 'Workspace' : 'Your'} Screenings
+              </span>
+              <span
+                style={{
+                  padding: '2px 8px',
+                  borderRadius: radius.sm,
+                  backgroundColor: 'rgba(0, 240, 255, 0.1)',
+                  fontSize: '11px',
+                  color: colors.cyan,
+                }}
+              >
+                {quota.plan}
+              </span>
+            </div>
+
+            <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
+              <div
+                style={{
+                  height: '4px',
+                  borderRadius: '2px',
+                  backgroundColor: 'rgba(255, 255, 255, 0.1)',
+                  overflow: 'hidden',
+                }}
+              >
+                <div
+                  style={{
+                    width: `${Math.min(100, (quota.creditsUsed / Math.max(quota.creditsLimit, 1)) * 100)}%`,
+                    height: '100%',
+                    backgroundColor: statusColor,
+                  }}
+                />
+              </div>
+
+              <div
+                style={{
+                  display: 'flex',
+                  justifyContent: 'space-between',
+                  fontSize: '13px',
+                }}
+              >
+                <span style={{ color: colors.silver }}>Remaining</span>
+                <span
+                  style={{
+                    color: statusColor,
+                    fontFamily: fonts.mono,
+                    fontWeight: fontWeights.medium,
+                  }}
+                >
+                  {quota.creditsRemaining}
+                </span>
+              </div>
+
+              <div
+                style={{
+                  display: 'flex',
+                  justifyContent: 'space-between',
+                  fontSize: '13px',
+                }}
+              >
+                <span style={{ color: colors.silver }}>Used</span>
+                <span
+                  style={{
+                    color: colors.snow,
+                    fontFamily: fonts.mono,
+                  }}
+                >
+                  {quota.creditsUsed} of {quota.creditsLimit}
+                </span>
+              </div>
+            </div>
+
+            <UsageBreakdown />
+          </motion.div>
+        )}
+
         {expanded && credits && !error && (
           <motion.div
             initial={{ opacity: 0, y: -10, scale: 0.95 }}
@@ -130,6 +415,7 @@ export function CreditsDisplay() {
               border: '1px solid rgba(255, 255, 255, 0.1)',
               boxShadow: '0 8px 32px rgba(0, 0, 0, 0.4)',
               minWidth: '200px',
+              maxWidth: '360px',
             }}
           >
             <div
@@ -250,6 +536,8 @@ export function CreditsDisplay() {
                 </div>
               )}
             </div>
+
+            <UsageBreakdown />
           </motion.div>
         )}
       </AnimatePresence>
@@ -6,6 +6,25 @@
  */
 
 import * as pdfjsLib from 'pdfjs-dist';
+import type { Candidate, JobDescription, ParsedResume, ScreeningSession } from '../types';
+// Payload shapes come from the server's public API contract - type-only, nothing is bundled
+import type {
+  BatchCandidate,
+  BatchEvent,
+  BatchItem,
+  BatchJob,
+  BatchJobStatus,
+  BudgetSnapshot,
+  CostEstimate,
+  EnsembleSummary,
+  ModelInfo,
+  ScreeningOutcome,
+  ScreeningResult,
+  QuotaSnapshot,
+  SessionBudgetFields,
+  UsageQuery,
+  UsageReport,
+} from '../../server/lib/api-contract';
 
 // PDF.js worker setup - MUST use a real worker for PDF.js 5.x to function
 // Use unpkg CDN for exact npm version match (verified working)
@@ -19,15 +38,20 @@ const API_BASE = import.meta.env.PROD ? '' : (import.meta.env.VITE_API_URL || 'h
 // Types
 // ============================================
 
-export interface AIModel {
-  id: string;
-  name: string;
-  description?: string;
-  contextLength?: number;
-  pricing?: { prompt: string; completion: string };
-  recommended?: boolean;
-  category?: string;
-}
+export type {
+  BatchCandidate,
+  BatchJob,
+  BatchJobStatus,
+  BudgetSnapshot,
+  CostEstimate,
+  EnsembleSummary,
+  QuotaSnapshot,
+  ScreeningResult,
+  UsageQuery,
+  UsageReport,
+};
+
+export type AIModel = ModelInfo;
 
 export interface ModelsResponse {
   success: boolean;
@@ -45,59 +69,17 @@ export interface ConfigResponse {
   };
 }
 
-export interface ScreeningResult {
-  score: number;
-  recommendation: 'interview' | 'maybe' | 'pass';
-  summary: string;
-  matchedSkills: string[];
-  missingSkills: string[];
-  concerns: string[];
-  interviewQuestions: string[];
-  experienceYears: number;
-  // 2026 Enterprise fields
-  confidence?: number;
-  confidenceReason?: string;
-  scoreBreakdown?: {
-    technicalSkills: number;
-    experience: number;
-    education: number;
-    careerProgression: number;
-    communication: number;
-  };
-  partialMatches?: string[];
-  strengths?: string[];
-  seniorityAssessment?: {
-    detected: string;
-    required: string;
-    match: boolean | 'stretch';
-    evidence?: string;
-  };
-  relevantExperienceYears?: number;
-  skillMatchPercent?: number;
-  educationMatch?: boolean | 'partial';
-  rawResponse?: string;
-}
-
-export interface ScreenResponse {
-  success: boolean;
-  result: ScreeningResult;
-  usage?: {
-    prompt_tokens: number;
-    completion_tokens: number;
-    total_tokens: number;
-  };
-}
+// `model` answered - it differs from `requestedModel` after a fallback
+export type ScreenResponse = ScreeningOutcome & { success: boolean };
 
-export interface BatchCandidate {
-  name: string;
-  cvContent: string;
-}
+// Opens (or moves) the dollar cap the server enforces for a session
+export type SessionBudgetRequest = Required<Pick<SessionBudgetFields, 'sessionId' | 'budgetUsd'>> &
+  Pick<SessionBudgetFields, 'spentUsd'>;
 
-export interface BatchResult extends ScreeningResult {
-  name: string;
-  success: boolean;
-  error?: string;
-}
+// A candidate that could not be scored has no score or recommendation, like a failed BatchItem
+export type BatchResult =
+  | ({ name: string; success: true } & ScreeningResult)
+  | { name: string; success: false; error?: string; errorCode?: string; issues?: string[] };
 
 export interface BatchResponse {
   success: boolean;
@@ -106,6 +88,13 @@ export interface BatchResponse {
   results: BatchResult[];
 }
 
+export type BatchJobItem = BatchItem;
+
+// Real per-candidate steps streamed by the server - see server/lib/batch-queue.ts
+export type BatchEventData = BatchEvent;
+
+export type BatchJobEvent = BatchEventData & { seq: number; jobId: string; timestamp: string };
+
 export interface CreditsInfo {
   used: number;
   limit: number | null;
@@ -121,6 +110,36 @@ export interface CreditsResponse {
   error?: string;
 }
 
+export interface QuotaResponse {
+  success: boolean;
+  // null when the workspace is not metered
+  quota?: QuotaSnapshot | null;
+  error?: string;
+}
+
+export interface UsageResponse {
+  success: boolean;
+  usage?: UsageReport;
+  error?: string;
+}
+
+/**
+ * Error returned by the backend, keeping its `errorCode` and validation issues
+ */
+export class ApiError extends Error {
+  status: number;
+  code?: string;
+  issues?: string[];
+
+  constructor(message: string, status: number, code?: string, issues?: string[]) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.code = code;
+    this.issues = issues;
+  }
+}
+
 // ============================================
 // API Functions
 // ============================================
@@ -163,6 +182,29 @@ export async function getModels(): Promise<ModelsResponse | null> {
   }
 }
 
+/**
+ * Estimate tokens and dollars for screening `cvContents` with `model` before starting.
+ * Null when the server could not be reached.
+ */
+export async function estimateScreeningCost(
+  jobDescription: string,
+  cvContents: string[],
+  model?: string
+): Promise<CostEstimate | null> {
+  try {
+    const response = await fetch(`${API_BASE}/api/estimate`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ jobDescription, cvContents, model }),
+    });
+    if (!response.ok) return null;
+    const data = await response.json();
+    return data.estimate ?? null;
+  } catch {
+    return null;
+  }
+}
+
 /**
  * Get OpenRouter credits/usage information
  */
@@ -179,6 +221,42 @@ export async function getCredits(): Promise<CreditsResponse | null> {
   }
 }
 
+/**
+ * Get the plan and screening credits of this workspace
+ */
+export async function getQuota(): Promise<QuotaResponse | null> {
+  try {
+    const response = await fetch(`${API_BASE}/api/quota`);
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      return { success: false, error: error.error || 'Failed to fetch quota' };
+    }
+    return await response.json();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Get the AI calls recorded by the backend, with totals by action and model
+ */
+export async function getUsage(filter: UsageQuery = {}): Promise<UsageResponse | null> {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(filter)) {
+    if (value !== undefined) params.set(key, String(value));
+  }
+  try {
+    const response = await fetch(`${API_BASE}/api/usage?${params}`);
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      return { success: false, error: error.error || 'Failed to fetch usage' };
+    }
+    return await response.json();
+  } catch {
+    return null;
+  }
+}
+
 /**
  * Fetch content from an external URL (server-side proxy to avoid CORS)
  */
@@ -206,11 +284,17 @@ export async function fetchUrl(url: string): Promise<{ success: boolean; content
 
 /**
  * Screen a single candidate
+ * Aborting `signal` drops the request; the server then abandons the model call.
+ * Identical requests are answered from the server's result cache unless `bypassCache` is set.
+ * With a `budget`, the server refuses the call (BUDGET_EXCEEDED) if it could cross the cap.
+ * Each screening takes a plan credit; without one left the server answers 402 QUOTA_EXCEEDED.
+ * With `ensembleModels`, `model` and each of them score the CV and the opinions are merged.
  */
 export async function screenCandidate(
   jobDescription: string,
   cvContent: string,
-  model?: string
+  model?: string,
+  options?: { signal?: AbortSignal; bypassCache?: boolean; budget?: SessionBudgetRequest; ensembleModels?: string[] }
 ): Promise<ScreenResponse> {
   const response = await fetch(`${API_BASE}/api/screen`, {
     method: 'POST',
@@ -221,33 +305,234 @@ export async function screenCandidate(
       jobDescription,
       cvContent,
       model,
+      bypassCache: options?.bypassCache,
+      ensembleModels: options?.ensembleModels,
+      ...options?.budget,
     }),
+    signal: options?.signal,
   });
 
   if (!response.ok) {
     const error = await response.json();
-    throw new Error(error.error || 'Screening failed');
+    throw new ApiError(error.error || 'Screening failed', response.status, error.errorCode, error.issues);
   }
 
   return await response.json();
 }
 
 /**
- * Screen multiple candidates in batch (2026 Enterprise Edition)
+ * Queue a batch screening job on the server
+ * The server screens in the background; poll with getBatchJob
+ * Under a `budget`, candidates past the cap fail with BUDGET_EXCEEDED instead of being screened,
+ * and candidates past the plan's screening credits with QUOTA_EXCEEDED.
+ * With `ensembleModels`, every candidate is scored by `model` and each of them.
+ */
+export async function createBatchJob(
+  jobDescription: string,
+  candidates: BatchCandidate[],
+  model?: string,
+  options: { budget?: SessionBudgetRequest; ensembleModels?: string[] } = {}
+): Promise<{ jobId: string; total: number }> {
+  const response = await fetch(`${API_BASE}/api/jobs`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      jobDescription,
+      candidates,
+      model,
+      ensembleModels: options.ensembleModels,
+      ...options.budget,
+    }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new ApiError(error.error || 'Failed to create batch job', response.status, error.errorCode);
+  }
+
+  const data = await response.json();
+  return { jobId: data.jobId, total: data.total };
+}
+
+/**
+ * Get per-candidate status and results for a batch job
+ */
+export async function getBatchJob(jobId: string): Promise<BatchJob | null> {
+  try {
+    const response = await fetch(`${API_BASE}/api/jobs/${encodeURIComponent(jobId)}`);
+    if (!response.ok) return null;
+    const data = await response.json();
+    return data.job;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Pause, resume or cancel a batch job
+ * Pausing and cancelling abort the job's in-flight model calls. Cancel keeps the
+ * results already produced. Returns the updated job.
+ */
+async function controlBatchJob(jobId: string, action: 'pause' | 'resume' | 'cancel'): Promise<BatchJob> {
+  const response = await fetch(`${API_BASE}/api/jobs/${encodeURIComponent(jobId)}/${action}`, {
+    method: 'POST',
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new ApiError(error.error || `Failed to ${action} batch job`, response.status, error.errorCode);
+  }
+
+  const data = await response.json();
+  return data.job;
+}
+
+export const pauseBatchJob = (jobId: string) => controlBatchJob(jobId, 'pause');
+export const resumeBatchJob = (jobId: string) => controlBatchJob(jobId, 'resume');
+export const cancelBatchJob = (jobId: string) => controlBatchJob(jobId, 'cancel');
+
+// EventSource only hands over named events with a listener - keyed by the server's
+// event union, so a type added there fails to compile here until it is listed
+const BATCH_EVENT_TYPES = Object.keys({
+  parsed: true, sent: true, tokens: true, retrying: true, fallback: true, scored: true,
+  failed: true, paused: true, resumed: true, cancelled: true, completed: true,
+} satisfies Record<BatchEventData['type'], true>);
+
+/**
+ * Subscribe to a batch job's live progress (Server-Sent Events)
+ * EventSource reconnects on its own and resumes from the last event it saw.
+ * `onError` fires only when the stream is gone for good. Returns a close function.
+ */
+export function streamBatchJob(
+  jobId: string,
+  onEvent: (event: BatchJobEvent) => void,
+  onError?: () => void
+): () => void {
+  const source = new EventSource(`${API_BASE}/api/jobs/${encodeURIComponent(jobId)}/events`);
+
+  const handleMessage = (message: MessageEvent<string>) => {
+    const event = JSON.parse(message.data) as BatchJobEvent;
+    if (event.type === 'completed' || event.type === 'cancelled') source.close();
+    onEvent(event);
+  };
+  for (const type of BATCH_EVENT_TYPES) {
+    source.addEventListener(type, handleMessage);
+  }
+  source.onerror = () => {
+    if (source.readyState === EventSource.CLOSED) onError?.();
+  };
+
+  return () => source.close();
+}
+
+const BATCH_POLL_INTERVAL_MS = 2000;
+
+// Same shape the chunked path produces, so callers don't care which one ran
+function toBatchResult(item: BatchJobItem): BatchResult {
+  if (item.status === 'completed' && item.result) {
+    return { name: item.name, success: true, ...item.result };
+  }
+  return { name: item.name, success: false, error: item.error, errorCode: item.errorCode, issues: item.issues };
+}
+
+export interface BatchOptions {
+  fastMode?: boolean;
+  concurrentBatches?: number;
+  // Aborting cancels the run; candidates already screened are still returned
+  signal?: AbortSignal;
+}
+
+export type BatchRunResponse = BatchResponse & {
+  cancelled?: boolean;
+  performance?: { totalMs: number; avgPerCvMs: number };
+};
+
+// Resolves early (without throwing) when the signal aborts
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
+}
+
+/**
+ * Screen multiple candidates in batch
+ * - Queues one server-side job and polls it, so closing the tab doesn't stop screening
+ * - Falls back to browser-driven chunking where the server has no queue (Vercel)
+ * - Real-time progress callback
+ * - `options.signal` cancels the run and returns the partial results
+ */
+export async function screenBatch(
+  jobDescription: string,
+  candidates: BatchCandidate[],
+  model?: string,
+  onProgress?: (processed: number, total: number, status?: string) => void,
+  options?: BatchOptions
+): Promise<BatchRunResponse> {
+  const startTime = Date.now();
+  const signal = options?.signal;
+
+  let jobId: string;
+  try {
+    ({ jobId } = await createBatchJob(jobDescription, candidates, model));
+  } catch {
+    console.log('[Batch] Batch jobs unavailable, falling back to chunked screening');
+    return screenBatchChunked(jobDescription, candidates, model, onProgress, options);
+  }
+
+  let job: BatchJob | null = null;
+  let missedPolls = 0;
+  while (!job || (job.status !== 'completed' && job.status !== 'cancelled')) {
+    await wait(BATCH_POLL_INTERVAL_MS, signal);
+    if (signal?.aborted) {
+      job = await cancelBatchJob(jobId).catch(() => getBatchJob(jobId)) ?? job;
+      break;
+    }
+    const latest = await getBatchJob(jobId);
+    if (!latest) {
+      // A few failed polls are a network blip; more means the server lost the job
+      if (++missedPolls > 5) throw new Error('Lost track of batch job ' + jobId);
+      continue;
+    }
+    missedPolls = 0;
+    job = latest;
+    onProgress?.(job.processed, job.total, `Screening ${job.processed}/${job.total}...`);
+  }
+
+  if (!job) throw new Error('Lost track of batch job ' + jobId);
+
+  const results = job.items.filter(item => item.status !== 'cancelled').map(toBatchResult);
+  const totalMs = Date.now() - startTime;
+
+  return {
+    success: true,
+    total: job.total,
+    processed: job.processed - job.failed,
+    results,
+    cancelled: job.status === 'cancelled',
+    performance: { totalMs, avgPerCvMs: Math.round(totalMs / job.total) },
+  };
+}
+
+/**
+ * Screen multiple candidates by chunking from the browser (2026 Enterprise Edition)
  * - Uses Gemini 2.5 Flash-Lite for fastest processing
  * - Intelligent chunking (5 CVs per batch for reliability)
  * - Exponential backoff retry
- * - Real-time progress callback
  */
-export async function screenBatch(
+async function screenBatchChunked(
   jobDescription: string,
   candidates: BatchCandidate[],
   model?: string,
   onProgress?: (processed: number, total: number, status?: string) => void,
-  options?: { fastMode?: boolean; concurrentBatches?: number }
-): Promise<BatchResponse & { performance?: { totalMs: number; avgPerCvMs: number } }> {
+  options?: BatchOptions
+): Promise<BatchRunResponse> {
   const BATCH_SIZE = 5; // Optimal for Vercel timeout limits
   const CONCURRENT_BATCHES = options?.concurrentBatches || 2; // Process 2 batches at a time
+  const signal = options?.signal;
   const results: BatchResult[] = [];
   const startTime = Date.now();
 
@@ -260,7 +545,7 @@ export async function screenBatch(
   console.log(`[Batch] Processing ${candidates.length} CVs in ${chunks.length} batches (${BATCH_SIZE} per batch)`);
 
   // Process chunks with controlled concurrency
-  for (let i = 0; i < chunks.length; i += CONCURRENT_BATCHES) {
+  for (let i = 0; i < chunks.length && !signal?.aborted; i += CONCURRENT_BATCHES) {
     const concurrentChunks = chunks.slice(i, i + CONCURRENT_BATCHES);
 
     if (onProgress) {
@@ -279,6 +564,7 @@ export async function screenBatch(
             model,
             fastMode: options?.fastMode ?? true, // Default to fast mode
           }),
+          signal,
         });
 
         if (response.ok) {
@@ -286,11 +572,12 @@ export async function screenBatch(
           return batchResult.results as BatchResult[];
         }
       } catch (e) {
+        if (signal?.aborted) return [];
         console.log('[Batch] Batch endpoint failed, falling back to sequential');
       }
 
       // Fallback: Process sequentially with retry
-      return await processSequentialWithRetry(jobDescription, chunk, model);
+      return await processSequentialWithRetry(jobDescription, chunk, model, signal);
     });
 
     const batchResults = await Promise.all(batchPromises);
@@ -304,7 +591,7 @@ export async function screenBatch(
 
     // Small delay between batch groups to avoid rate limiting
     if (i + CONCURRENT_BATCHES < chunks.length) {
-      await new Promise(r => setTimeout(r, 200));
+      await wait(200, signal);
     }
   }
 
@@ -318,6 +605,7 @@ export async function screenBatch(
     total: candidates.length,
     processed: results.filter(r => r.success).length,
     results,
+    cancelled: signal?.aborted,
     performance: { totalMs, avgPerCvMs }
   };
 }
@@ -328,11 +616,13 @@ export async function screenBatch(
 async function processSequentialWithRetry(
   jobDescription: string,
   candidates: BatchCandidate[],
-  model?: string
+  model?: string,
+  signal?: AbortSignal
 ): Promise<BatchResult[]> {
   const results: BatchResult[] = [];
 
   for (const candidate of candidates) {
+    if (signal?.aborted) break;
     let lastError: string = '';
     let success = false;
 
@@ -343,6 +633,7 @@ async function processSequentialWithRetry(
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({ jobDescription, cvContent: candidate.cvContent, model }),
+          signal,
         });
 
         if (response.ok) {
@@ -355,25 +646,15 @@ async function processSequentialWithRetry(
           if (attempt < 2) await new Promise(r => setTimeout(r, 300 * Math.pow(2, attempt)));
         }
       } catch (error) {
+        if (signal?.aborted) break;
         lastError = (error as Error).message;
         if (attempt < 2) await new Promise(r => setTimeout(r, 300 * Math.pow(2, attempt)));
       }
     }
 
+    if (signal?.aborted) break;
     if (!success) {
-      results.push({
-        name: candidate.name,
-        success: false,
-        error: lastError,
-        score: 0,
-        recommendation: 'pass' as const,
-        summary: 'Error processing CV',
-        matchedSkills: [],
-        missingSkills: [],
-        concerns: ['Processing error: ' + lastError],
-        interviewQuestions: [],
-        experienceYears: 0,
-      });
+      results.push({ name: candidate.name, success: false, error: lastError });
     }
   }
 
@@ -415,11 +696,40 @@ export async function parseMultiplePdfs(
   return results;
 }
 
+// Text read from an uploaded CV; ocrConfidence (0-1) is set when OCR read it
+export interface ExtractedDocument {
+  text: string;
+  ocrConfidence?: number;
+}
+
+// Below this, OCR'd text is flagged for the recruiter to check
+export const LOW_OCR_CONFIDENCE = 0.7;
+
+// The file's bytes as base64, for the document parsing endpoints
+async function fileToBase64(file: File | ArrayBuffer): Promise<string> {
+  const buffer = file instanceof ArrayBuffer ? file : await file.arrayBuffer();
+  return btoa(
+    new Uint8Array(buffer).reduce(
+      (data, byte) => data + String.fromCharCode(byte),
+      ''
+    )
+  );
+}
+
+// What a parse endpoint read, with the OCR confidence when local OCR read it
+function extractedFrom(data: { text?: string; method?: string; confidence?: number }): ExtractedDocument {
+  return {
+    text: data.text || '',
+    ocrConfidence: data.method === 'ocr-local' && typeof data.confidence === 'number' ? data.confidence : undefined,
+  };
+}
+
 /**
  * Parse PDF file using PDF.js (client-side - more reliable)
- * Uses unpkg CDN for the worker to ensure consistent behavior across environments
+ * Uses unpkg CDN for the worker to ensure consistent behavior across environments.
+ * Scanned PDFs fall back to server-side OCR.
  */
-export async function parsePdf(file: File): Promise<string> {
+export async function parsePdf(file: File): Promise<ExtractedDocument> {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
     reader.onload = async (e) => {
@@ -489,9 +799,11 @@ export async function parsePdf(file: File): Promise<string> {
         }
 
         // Clean up the extracted text
+        // Line breaks are kept - the resume parser finds sections by them
         const cleanedText = fullText
-          .replace(/\s+/g, ' ')  // Collapse multiple spaces
-          .replace(/\n\s*\n/g, '\n\n')  // Normalize paragraph breaks
+          .replace(/[^\S\n]+/g, ' ')  // Collapse spaces and tabs
+          .replace(/ ?\n ?/g, '\n')
+          .replace(/\n{3,}/g, '\n\n')  // Normalize paragraph breaks
           .trim();
 
         console.log(`[PDF Parser] Total extracted: ${cleanedText.length} chars from ${totalItems} items`);
@@ -499,19 +811,14 @@ export async function parsePdf(file: File): Promise<string> {
         // If we got meaningful text, return it
         if (cleanedText.length >= 50) {
           console.log(`[PDF Parser] SUCCESS - extracted ${cleanedText.length} characters`);
-          resolve(cleanedText);
+          resolve({ text: cleanedText });
           return;
         }
 
         // PDF might be scanned/image-based - try server OCR as fallback
         console.log('[PDF Parser] Low text count, attempting server-side OCR...');
         try {
-          const base64 = btoa(
-            new Uint8Array(arrayBuffer).reduce(
-              (data, byte) => data + String.fromCharCode(byte),
-              ''
-            )
-          );
+          const base64 = await fileToBase64(arrayBuffer);
 
           const response = await fetch(`${API_BASE}/api/parse-pdf`, {
             method: 'POST',
@@ -522,8 +829,8 @@ export async function parsePdf(file: File): Promise<string> {
           if (response.ok) {
             const data = await response.json();
             console.log(`[PDF Parser] Server OCR returned: ${data.text?.length || 0} chars, method: ${data.method}`);
-            if (data.text && data.text.length > cleanedText.length) {
-              resolve(data.text);
+            if (data.success && data.method !== 'fallback' && data.text && data.text.length > cleanedText.length) {
+              resolve(extractedFrom(data));
               return;
             }
           } else {
@@ -535,7 +842,7 @@ export async function parsePdf(file: File): Promise<string> {
 
         // Return whatever we have, even if empty
         console.log(`[PDF Parser] Returning ${cleanedText.length} chars (best available)`);
-        resolve(cleanedText);
+        resolve({ text: cleanedText });
       } catch (error) {
         console.error('[PDF Parser] CRITICAL ERROR:', error);
         // Provide more context in error
@@ -598,47 +905,94 @@ export function validateExtractedContent(content: string, fileName: string): { v
 }
 
 /**
- * Read file content as text (handles PDF, DOC, TXT)
+ * Read a PNG or JPEG resume with server-side OCR
+ */
+export async function parseImage(file: File): Promise<ExtractedDocument> {
+  const response = await fetch(`${API_BASE}/api/parse-image`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ base64: await fileToBase64(file) }),
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok || !data.success) {
+    throw new Error(data.error || `Image OCR failed (${response.status})`);
+  }
+  return extractedFrom(data);
+}
+
+export const IMAGE_EXTENSIONS = ['png', 'jpg', 'jpeg'];
+
+/**
+ * Split CV text into a structured profile - contact, work history, education,
+ * skills. Null when the server could not parse it; screening goes ahead without.
+ */
+export async function parseResume(text: string): Promise<ParsedResume | null> {
+  try {
+    const response = await fetch(`${API_BASE}/api/parse-resume`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ text }),
+    });
+    if (!response.ok) return null;
+    const data = await response.json();
+    return data.success ? data.parsedData : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read file content as text (handles PDF, images, DOC, TXT)
  */
 export async function readFileAsText(file: File): Promise<string> {
+  return (await readDocument(file)).text;
+}
+
+/**
+ * Read an uploaded CV, keeping the OCR confidence when its text came from OCR.
+ * Unreadable files come back as `[PARSE_ERROR] ...` text.
+ */
+export async function readDocument(file: File): Promise<ExtractedDocument> {
   const ext = file.name.toLowerCase().split('.').pop();
 
   // Handle PDF files
   if (file.type === 'application/pdf' || ext === 'pdf') {
     try {
-      const text = await parsePdf(file);
+      const extracted = await parsePdf(file);
       // Return whatever text we got, even if short
-      if (text && text.trim().length > 0) {
-        console.log(`PDF parsed: ${text.length} characters extracted from ${file.name}`);
-        return text;
+      if (extracted.text && extracted.text.trim().length > 0) {
+        console.log(`PDF parsed: ${extracted.text.length} characters extracted from ${file.name}`);
+        return extracted;
       }
       // If truly empty, return error indicator
       console.warn('PDF has no extractable text - likely scanned document');
-      return `[PARSE_ERROR] Resume from ${file.name} - This PDF appears to be scanned or image-based. Please paste the CV content manually for accurate screening.`;
+      return { text: `[PARSE_ERROR] Resume from ${file.name} - This PDF appears to be scanned or image-based and OCR found no text. Please paste the CV content manually for accurate screening.` };
     } catch (error) {
       console.error('PDF parsing error:', error);
-      return `[PARSE_ERROR] Resume from ${file.name} - PDF parsing failed. The document may be protected or corrupted. Please paste the content manually.`;
+      return { text: `[PARSE_ERROR] Resume from ${file.name} - PDF parsing failed. The document may be protected or corrupted. Please paste the content manually.` };
+    }
+  }
+
+  // Handle photographed or scanned resumes
+  if (IMAGE_EXTENSIONS.includes(ext || '')) {
+    try {
+      const extracted = await parseImage(file);
+      if (extracted.text.trim().length > 0) {
+        console.log(`[OCR] Image read: ${extracted.text.length} chars from ${file.name}, confidence ${extracted.ocrConfidence}`);
+        return extracted;
+      }
+      return { text: `[PARSE_ERROR] Resume from ${file.name} - No text could be read from this image. Please paste the CV content manually.` };
+    } catch (error) {
+      console.error('Image OCR error:', error);
+      return { text: `[PARSE_ERROR] Resume from ${file.name} - ${(error as Error).message}` };
     }
   }
 
   // Handle Word documents using server-side mammoth for better extraction
   if (ext === 'doc' || ext === 'docx') {
     try {
-      // Read file as ArrayBuffer for server-side processing
-      const arrayBuffer = await new Promise<ArrayBuffer>((resolve, reject) => {
-        const reader = new FileReader();
-        reader.onload = (e) => resolve(e.target?.result as ArrayBuffer);
-        reader.onerror = () => reject(new Error('Failed to read file'));
-        reader.readAsArrayBuffer(file);
-      });
-
       // Convert to base64 for server
-      const base64 = btoa(
-        new Uint8Array(arrayBuffer).reduce(
-          (data, byte) => data + String.fromCharCode(byte),
-          ''
-        )
-      );
+      const base64 = await fileToBase64(file);
 
       // Try server-side parsing with mammoth
       const response = await fetch(`${API_BASE}/api/parse-docx`, {
@@ -651,7 +1005,7 @@ export async function readFileAsText(file: File): Promise<string> {
         const data = await response.json();
         if (data.success && data.text && data.text.length > 50) {
           console.log(`[DOCX] Server parsed: ${data.text.length} chars from ${file.name}`);
-          return data.text;
+          return { text: data.text };
         }
       }
 
@@ -669,25 +1023,124 @@ export async function readFileAsText(file: File): Promise<string> {
         .trim();
 
       if (text.length > 100) {
-        return text;
+        return { text };
       }
 
-      return `[PARSE_ERROR] Resume from ${file.name} - Word document parsing limited. Please paste content manually for accurate screening.`;
+      return { text: `[PARSE_ERROR] Resume from ${file.name} - Word document parsing limited. Please paste content manually for accurate screening.` };
     } catch (error) {
       console.error('DOCX parsing error:', error);
-      return `[PARSE_ERROR] Resume from ${file.name} - Document parsing failed. Please paste content manually.`;
+      return { text: `[PARSE_ERROR] Resume from ${file.name} - Document parsing failed. Please paste content manually.` };
     }
   }
 
   // Handle text files
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
-    reader.onload = (e) => resolve(e.target?.result as string);
+    reader.onload = (e) => resolve({ text: e.target?.result as string });
     reader.onerror = () => reject(new Error('Failed to read file'));
     reader.readAsText(file);
   });
 }
 
+// ============================================
+// Screening History Sync
+// ============================================
+
+export interface HistoryResponse {
+  jobs: JobDescription[];
+  sessions: ScreeningSession[];
+}
+
+// The server sends dates as ISO strings
+const reviveJob = (job: JobDescription): JobDescription => ({
+  ...job,
+  createdAt: new Date(job.createdAt),
+});
+
+const reviveCandidate = (candidate: Candidate): Candidate => ({
+  ...candidate,
+  processedAt: new Date(candidate.processedAt),
+});
+
+const reviveSession = (session: ScreeningSession): ScreeningSession => ({
+  ...session,
+  candidates: session.candidates.map(reviveCandidate),
+  startedAt: session.startedAt ? new Date(session.startedAt) : undefined,
+  completedAt: session.completedAt ? new Date(session.completedAt) : undefined,
+});
+
+async function sendRecord(method: 'PUT' | 'DELETE', path: string, body?: unknown): Promise<boolean> {
+  try {
+    const response = await fetch(`${API_BASE}${path}`, {
+      method,
+      headers: body ? { 'Content-Type': 'application/json' } : undefined,
+      body: body ? JSON.stringify(body) : undefined,
+    });
+    if (!response.ok) {
+      console.warn(`[Sync] ${method} ${path} failed with ${response.status}`);
+    }
+    return response.ok;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Load saved jobs and screening sessions from the server
+ * Returns null when the server is unreachable so callers keep local state
+ */
+export async function fetchHistory(): Promise<HistoryResponse | null> {
+  try {
+    const [jobsResponse, sessionsResponse] = await Promise.all([
+      fetch(`${API_BASE}/api/job-descriptions`),
+      fetch(`${API_BASE}/api/sessions`),
+    ]);
+    if (!jobsResponse.ok || !sessionsResponse.ok) return null;
+
+    const { jobs } = await jobsResponse.json();
+    const { sessions } = await sessionsResponse.json();
+    return {
+      jobs: (jobs as JobDescription[]).map(reviveJob),
+      sessions: (sessions as ScreeningSession[]).map(reviveSession),
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Create or update a saved job on the server
+ */
+export async function saveJob(job: JobDescription): Promise<boolean> {
+  return sendRecord('PUT', `/api/job-descriptions/${encodeURIComponent(job.id)}`, job);
+}
+
+/**
+ * Delete a saved job from the server
+ */
+export async function deleteJob(id: string): Promise<boolean> {
+  return sendRecord('DELETE', `/api/job-descriptions/${encodeURIComponent(id)}`);
+}
+
+/**
+ * Create or update a screening session (and its candidates) on the server
+ */
+export async function saveSession(session: ScreeningSession): Promise<boolean> {
+  return sendRecord('PUT', `/api/sessions/${encodeURIComponent(session.id)}`, session);
+}
+
+/**
+ * Add or update one candidate of a session on the server
+ * Cheaper than saveSession while a run is checkpointing result by result
+ */
+export async function saveCandidate(sessionId: string, candidate: Candidate): Promise<boolean> {
+  return sendRecord(
+    'PUT',
+    `/api/sessions/${encodeURIComponent(sessionId)}/candidates/${encodeURIComponent(candidate.id)}`,
+    candidate
+  );
+}
+
 // ============================================
 // Export API Object
 // ============================================
@@ -696,14 +1149,31 @@ export const api = {
   checkHealth,
   getConfig,
   getModels,
+  estimateScreeningCost,
   getCredits,
+  getQuota,
+  getUsage,
   fetchUrl,
   screenCandidate,
   screenBatch,
+  createBatchJob,
+  getBatchJob,
+  pauseBatchJob,
+  resumeBatchJob,
+  cancelBatchJob,
+  streamBatchJob,
   readFileAsText,
+  readDocument,
   parsePdf,
+  parseImage,
+  parseResume,
   parseMultiplePdfs,
   validateExtractedContent,
+  fetchHistory,
+  saveJob,
+  deleteJob,
+  saveSession,
+  saveCandidate,
   baseUrl: API_BASE,
 };
 
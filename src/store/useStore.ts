@@ -1,6 +1,7 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
-import type { AppState, Screen, AIConfig, ScreeningSession } from '../types';
+import type { AppState, Screen, AIConfig, Candidate, JobDescription, ScreeningSession } from '../types';
+import { fetchHistory, saveJob, deleteJob, saveSession, saveCandidate } from '../services/api';
 
 // Encryption utilities for API keys
 const encrypt = (text: string, key: string): string => {
@@ -45,16 +46,20 @@ export const useStore = create<AppState>()(
       currentJob: null,
       savedJobs: [],
       setCurrentJob: (job) => set({ currentJob: job }),
-      addJob: (job) =>
+      addJob: (job) => {
         set((state) => ({
           savedJobs: [job, ...state.savedJobs],
           currentJob: job,
-        })),
-      removeJob: (id) =>
+        }));
+        pushJob(job);
+      },
+      removeJob: (id) => {
         set((state) => ({
           savedJobs: state.savedJobs.filter((j) => j.id !== id),
           currentJob: state.currentJob?.id === id ? null : state.currentJob,
-        })),
+        }));
+        pushJobDeletion(id);
+      },
 
       // Candidates & CVs
       uploadedCVs: [],
@@ -89,8 +94,9 @@ export const useStore = create<AppState>()(
           sessions: [session, ...state.sessions],
           currentScreen: 'screening',
         });
+        pushSession(session);
       },
-      updateSession: (updates) =>
+      updateSession: (updates) => {
         set((state) => ({
           currentSession: state.currentSession
             ? { ...state.currentSession, ...updates }
@@ -98,7 +104,84 @@ export const useStore = create<AppState>()(
           sessions: state.sessions.map((s) =>
             s.id === state.currentSession?.id ? { ...s, ...updates } : s
           ),
-        })),
+        }));
+
+        // Progress ticks stay local; only status changes, results and checkpoints are worth a round trip
+        const { currentSession } = get();
+        if (currentSession && ('status' in updates || 'candidates' in updates || 'checkpoint' in updates)) {
+          pushSession(currentSession);
+        }
+      },
+      checkpointCandidate: (candidate) => {
+        const sessionId = get().currentSession?.id;
+        if (!sessionId) return;
+
+        const withCandidate = (s: ScreeningSession) => {
+          if (s.id !== sessionId) return s;
+          const candidates = [...s.candidates, candidate];
+          return { ...s, candidates, ...sessionSpend(candidates) };
+        };
+        set((state) => ({
+          currentSession: state.currentSession && withCandidate(state.currentSession),
+          sessions: state.sessions.map(withCandidate),
+        }));
+        pushCandidate(sessionId, candidate);
+      },
+      // Nothing is running after a reload, so an interrupted session goes back to pending
+      resumeSession: (id) => {
+        const state = get();
+        const session = state.sessions.find((s) => s.id === id);
+        const job = state.savedJobs.find((j) => j.id === session?.jobId);
+        if (!session || !job) return;
+
+        const resumed: ScreeningSession = {
+          ...session,
+          status: session.status === 'processing' ? 'pending' : session.status,
+        };
+        set({
+          currentSession: resumed,
+          currentJob: job,
+          sessions: state.sessions.map((s) => (s.id === id ? resumed : s)),
+          uploadedCVs: [],
+          currentScreen: 'screening',
+        });
+      },
+
+      // Server history wins, except for the session in progress on this machine and
+      // records whose last save failed - those are retried first and kept if they still fail.
+      // Anything the server has never seen (saved offline or before sync existed) is uploaded.
+      syncHistory: async () => {
+        await retryUnsynced();
+        const history = await fetchHistory();
+        if (!history) return;
+
+        const state = get();
+        const serverJobIds = new Set(history.jobs.map((j) => j.id));
+        const serverSessionIds = new Set(history.sessions.map((s) => s.id));
+        const localJobs = state.savedJobs.filter((j) => !serverJobIds.has(j.id));
+        const localSessions = state.sessions.filter((s) => !serverSessionIds.has(s.id));
+
+        // Sessions reference their job, so jobs go first
+        for (const job of localJobs) {
+          if (!(await saveJob(job))) markUnsynced('jobs', job.id, true);
+        }
+        for (const session of localSessions) {
+          if (!(await saveSession(session))) markUnsynced('sessions', session.id, true);
+        }
+
+        const { currentSession: current, unsynced, savedJobs, sessions } = get();
+        const unsyncedJobs = new Map(savedJobs.filter((j) => unsynced.jobs.includes(j.id)).map((j) => [j.id, j]));
+        const unsyncedSessions = new Map(sessions.filter((s) => unsynced.sessions.includes(s.id)).map((s) => [s.id, s]));
+        set({
+          savedJobs: [...localJobs, ...history.jobs.map((j) => unsyncedJobs.get(j.id) ?? j)]
+            .filter((j) => !unsynced.deletedJobs.includes(j.id)),
+          sessions: [
+            ...localSessions,
+            ...history.sessions.map((s) => (s.id === current?.id ? current : unsyncedSessions.get(s.id) ?? s)),
+          ],
+        });
+      },
+      unsynced: { jobs: [], sessions: [], deletedJobs: [] },
 
       // Settings
       aiConfig: defaultAIConfig,
@@ -123,11 +206,68 @@ export const useStore = create<AppState>()(
         savedJobs: state.savedJobs,
         sessions: state.sessions,
         aiConfig: state.aiConfig,
+        unsynced: state.unsynced,
       }),
     }
   )
 );
 
+// ============================================
+// History Sync
+// ============================================
+
+type UnsyncedKind = keyof AppState['unsynced'];
+
+const markUnsynced = (kind: UnsyncedKind, id: string, unsynced: boolean) =>
+  useStore.setState((state) => {
+    const ids = state.unsynced[kind].filter((other) => other !== id);
+    return { unsynced: { ...state.unsynced, [kind]: unsynced ? [...ids, id] : ids } };
+  });
+
+// Saves run in the background. A failed one is marked for syncHistory to retry; a
+// successful one clears the mark only if nothing newer was stored in the meantime.
+function pushJob(job: JobDescription) {
+  void saveJob(job).then((ok) => {
+    if (!ok) markUnsynced('jobs', job.id, true);
+    else if (useStore.getState().savedJobs.find((j) => j.id === job.id) === job) markUnsynced('jobs', job.id, false);
+  });
+}
+
+function pushJobDeletion(id: string) {
+  markUnsynced('jobs', id, false);
+  void deleteJob(id).then((ok) => markUnsynced('deletedJobs', id, !ok));
+}
+
+function pushSession(session: ScreeningSession) {
+  void saveSession(session).then((ok) => {
+    if (!ok) markUnsynced('sessions', session.id, true);
+    else if (useStore.getState().sessions.find((s) => s.id === session.id) === session) markUnsynced('sessions', session.id, false);
+  });
+}
+
+// A lost candidate is recovered by saving its whole session again
+function pushCandidate(sessionId: string, candidate: Candidate) {
+  void saveCandidate(sessionId, candidate).then((ok) => {
+    if (!ok) markUnsynced('sessions', sessionId, true);
+  });
+}
+
+// Sends the current local copy of everything marked; marks stay on what still fails
+async function retryUnsynced() {
+  const { unsynced, savedJobs, sessions } = useStore.getState();
+  for (const id of unsynced.jobs) {
+    const job = savedJobs.find((j) => j.id === id);
+    if (!job || (await saveJob(job))) markUnsynced('jobs', id, false);
+  }
+  for (const id of unsynced.sessions) {
+    const session = sessions.find((s) => s.id === id);
+    if (!session || (await saveSession(session))) markUnsynced('sessions', id, false);
+  }
+  for (const id of unsynced.deletedJobs) {
+    if (await deleteJob(id)) markUnsynced('deletedJobs', id, false);
+  }
+}
+
 // Helper to get decrypted API key
 export const getDecryptedApiKey = (): string => {
   const { aiConfig } = useStore.getState();
@@ -138,3 +278,22 @@ export const getDecryptedApiKey = (): string => {
 
 // Generate unique ID
 export const generateId = (): string => crypto.randomUUID();
+
+// Session totals - candidates with an unknown price add tokens but no dollars,
+// and the cost stays unset until at least one candidate was priced
+export const sessionSpend = (candidates: Candidate[]): { tokensUsed: number; costUsd?: number } => {
+  const priced = candidates.filter(c => c.costUsd !== undefined);
+  return {
+    tokensUsed: candidates.reduce((sum, c) => sum + (c.tokensUsed || 0), 0),
+    costUsd: priced.length > 0
+      ? Math.round(priced.reduce((sum, c) => sum + (c.costUsd || 0), 0) * 1e8) / 1e8
+      : undefined,
+  };
+};
+
+// Single screenings cost fractions of a cent, so small amounts keep more digits
+export const formatUsd = (usd: number): string =>
+  usd >= 1 ? `$${usd.toFixed(2)}` : usd >= 0.01 ? `$${usd.toFixed(3)}` : `$${usd.toFixed(4)}`;
+
+export const formatTokens = (tokens: number): string =>
+  tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
@@ -35,16 +35,29 @@ export interface ScoreBreakdown {
   communication: number;    // 0-10
 }
 
+// One model's view of a candidate when several scored it
+export interface ModelOpinion {
+  model: string;
+  score: number;
+  recommendation: 'interview' | 'maybe' | 'pass';
+  confidence: number | null;
+  scoreBreakdown: ScoreBreakdown;
+  summary: string;
+}
+
 export interface Candidate {
   id: string;
   name: string;
   email?: string;
   phone?: string;
   location?: string;
+  linkedinUrl?: string;
   fileName: string;
   rawText: string;
   score: number;
-  confidence?: number;  // 0-1 confidence level
+  confidence?: number;  // 0-1 confidence level, scaled down when the CV text came from OCR
+  ocrConfidence?: number;  // 0-1, set when the CV text was read by OCR
+  parsedData?: ParsedResume;  // The CV split into contact, work history, education and skills
   recommendation: 'interview' | 'maybe' | 'pass';
   summary: string;
   scoreBreakdown?: ScoreBreakdown;  // Enterprise score breakdown
@@ -57,19 +70,105 @@ export interface Candidate {
   experience: number;
   skillMatchPercent?: number;
   educationMatch?: boolean | 'partial';
+  screeningError?: ScreeningFailure;  // Set when the candidate could not be scored
+  tokensUsed?: number;  // 0 when served from the result cache
+  costUsd?: number;     // Absent when the model's price is unknown
+  model?: string;       // Model that scored it - a fallback if the selected one was unavailable
+  needsHumanReview?: boolean;  // Ensemble models disagreed beyond the threshold, or only one answered
+  reviewReason?: string;
+  modelOpinions?: ModelOpinion[];  // Each ensemble model's score, when several scored it
   processedAt: Date;
 }
 
+// A CV's structured profile, parsed by the server from its text (lib/resume-parser.ts)
+export interface ParsedResume {
+  version: number;
+  contact: {
+    name?: string;
+    email?: string;
+    phone?: string;
+    location?: string;
+  };
+  summary?: string;
+  experience: WorkHistoryEntry[];
+  education: EducationEntry[];
+  skills: string[];
+  certifications: string[];
+  links: ResumeLink[];
+}
+
+export interface WorkHistoryEntry {
+  title?: string;
+  employer?: string;
+  startDate?: string;  // YYYY-MM, or YYYY when the CV gives no month
+  endDate?: string;    // Absent while current
+  current: boolean;
+  description?: string;
+}
+
+export interface EducationEntry {
+  institution?: string;
+  degree?: string;
+  year?: number;
+}
+
+export interface ResumeLink {
+  kind: 'linkedin' | 'github' | 'website';
+  url: string;
+}
+
+// Why a candidate has no score - surfaced instead of a made-up one
+export type ScreeningFailureCode =
+  | 'invalid_ai_output'     // Model output failed schema validation after repair
+  | 'document_unreadable'
+  | 'insufficient_content'
+  | 'rate_limited'
+  | 'timeout'
+  | 'auth'
+  | 'budget_exceeded'       // Refused by the server - the session's dollar cap was reached
+  | 'quota_exceeded'        // Refused by the server - the plan's screening credits are used up
+  | 'unknown';
+
+export interface ScreeningFailure {
+  code: ScreeningFailureCode;
+  message: string;
+  issues?: string[];  // Schema violations reported by the server
+  retryable: boolean;
+}
+
+// A CV that was read and is waiting for the model - kept so a run survives a reload
+export interface PendingCV {
+  id: string;         // Becomes the candidate's id once screened
+  fileName: string;
+  cvContent: string;
+  warning?: string;   // Extraction warning shown with the result
+  ocrConfidence?: number;  // 0-1, set when the text was read by OCR
+  parsedData?: ParsedResume;
+  position: number;   // Index in the original upload
+}
+
+// Everything needed to resume a run; cleared once the session completes
+export interface ScreeningCheckpoint {
+  pending: PendingCV[];   // Matches the server batch job's items, in order
+  total: number;          // CVs in the run, including any that failed to read
+  batchJobId?: string;    // Server batch job screening `pending`, if any
+}
+
 export interface ScreeningSession {
   id: string;
   jobId: string;
   candidates: Candidate[];
-  status: 'pending' | 'processing' | 'completed' | 'error';
+  status: 'pending' | 'processing' | 'completed' | 'cancelled' | 'error';
+  partial?: boolean;  // Stopped before every CV was screened
   progress: number;
   currentCandidate?: string;
   startedAt?: Date;
   completedAt?: Date;
   error?: string;
+  tokensUsed?: number;  // Sum over candidates
+  costUsd?: number;
+  budgetUsd?: number;   // Dollar cap the server enforces for this session
+  checkpoint?: ScreeningCheckpoint;
 }
 
 export interface AppState {
@@ -95,6 +194,11 @@ export interface AppState {
   sessions: ScreeningSession[];
   startScreening: () => void;
   updateSession: (session: Partial<ScreeningSession>) => void;
+  checkpointCandidate: (candidate: Candidate) => void;  // Record one result as soon as it arrives
+  resumeSession: (id: string) => void;  // Make an unfinished session current again
+  syncHistory: () => Promise<void>;  // Pull history from the server, upload local-only records
+  // Ids whose last save (or delete) never reached the server - retried by syncHistory
+  unsynced: { jobs: string[]; sessions: string[]; deletedJobs: string[] };
 
   // Settings
   aiConfig: AIConfig;